@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { DynamicConversationEngine } from '../../../../lib/conversation/dynamic-conversation-engine'
-import type { ConversationContext } from '../../../../lib/types/conversation'
+import type { EnhancedResponseAnalysis } from '../../../../lib/conversation/response-analyzer'
+import type { QuestioningStyle } from '../../../../lib/conversation/adaptive-questioning-style'
+import { conversationContextService, ConversationContextError } from '../../../../lib/services/conversation-context-service'
+import type { QuestionGenerationResult } from '../../../../lib/types/conversation'
 
 // Configure runtime for longer OpenAI API calls
 export const runtime = 'nodejs'
@@ -15,11 +18,11 @@ export const maxDuration = 30
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { context, userResponse } = body
+    const { sessionId, version, userResponse } = body
 
-    if (!context || !userResponse) {
+    if (!sessionId || !userResponse || typeof version !== 'number') {
       return NextResponse.json(
-        { error: 'Missing required fields: context and userResponse' },
+        { error: 'Missing required fields: sessionId, version and userResponse' },
         { status: 400 }
       )
     }
@@ -27,27 +30,45 @@ export async function POST(request: NextRequest) {
     // Initialize the enhanced conversation engine
     const engine = new DynamicConversationEngine()
 
-    // First analyze the user response
-    const responseAnalysis = await engine.analyzeResponse(userResponse, context)
+    let responseAnalysis!: EnhancedResponseAnalysis
+    let adaptiveResult!: QuestionGenerationResult & { questioningStyle: QuestioningStyle }
+    let styleMonitoring: ReturnType<DynamicConversationEngine['monitorQuestioningStyleEffectiveness']> | null = null
 
-    // Generate adaptive question with style matching
-    const adaptiveResult = await engine.generateAdaptiveQuestion(context, responseAnalysis)
+    const { context, version: nextVersion } = await conversationContextService.updateContext(
+      sessionId,
+      version,
+      async context => {
+        // First analyze the user response
+        responseAnalysis = await engine.analyzeResponse(userResponse, context)
 
-    // Monitor style effectiveness if there's a current style
-    let styleMonitoring = null
-    if (context.metadata?.currentQuestioningStyle) {
-      styleMonitoring = engine.monitorQuestioningStyleEffectiveness(
-        context,
-        context.metadata.currentQuestioningStyle,
-        responseAnalysis
-      )
-    }
+        // Generate adaptive question with style matching
+        adaptiveResult = await engine.generateAdaptiveQuestion(context, responseAnalysis)
+
+        // Monitor style effectiveness if there's a current style
+        const currentStyle = context.metadata?.currentQuestioningStyle as QuestioningStyle | undefined
+        if (currentStyle) {
+          styleMonitoring = engine.monitorQuestioningStyleEffectiveness(context, currentStyle, responseAnalysis)
+        }
+
+        // Record the exchange and remember the style for the next turn
+        const updated = await engine.updateMemory(engine.updateContext(context, userResponse, responseAnalysis))
+        return {
+          ...updated,
+          currentQuestion: adaptiveResult,
+          metadata: updated.metadata && {
+            ...updated.metadata,
+            currentQuestioningStyle: adaptiveResult.questioningStyle
+          }
+        }
+      }
+    )
 
     // Also test quick sophistication check for comparison
     const sophisticationCheck = await engine.quickSophisticationCheck(userResponse, context.domain)
 
     return NextResponse.json({
       success: true,
+      version: nextVersion,
       data: {
         userResponse,
         responseAnalysis: {
@@ -81,6 +102,13 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Error in adaptive questioning test:', error)
     
     return NextResponse.json(
@@ -103,23 +131,11 @@ export async function GET() {
     endpoints: {
       POST: {
         description: 'Generate questions with adaptive style matching user sophistication and engagement',
-        required_fields: ['context', 'userResponse'],
+        required_fields: ['sessionId', 'version', 'userResponse'],
+        notes: 'Start a session with POST /api/conversation/dynamic (action start_session); the server keeps the context and remembers the questioning style between turns',
         example_request: {
-          context: {
-            domain: 'fintech',
-            stage: 'idea_clarity',
-            userProfile: {
-              role: 'business',
-              sophisticationLevel: 'intermediate',
-              engagementPattern: 'engaged'
-            },
-            conversationHistory: [],
-            sessionId: 'test-session',
-            lastUpdated: '2024-12-10T00:00:00Z',
-            metadata: {
-              currentQuestioningStyle: 'intermediate-guided'
-            }
-          },
+          sessionId: 'test-session',
+          version: 2,
           userResponse: 'I want to build a payment processing solution but I\'m not sure about the technical details'
         }
       }
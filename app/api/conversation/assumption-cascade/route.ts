@@ -0,0 +1,107 @@
+/**
+ * API endpoint for rejecting or correcting a single assumption
+ *
+ * Works on the session's registered assumptions (see
+ * /api/conversation/assumptions). Assumptions that depend on the changed one
+ * are regenerated (when ENABLE_ASSUMPTION_CASCADE is on) and recorded as
+ * invalidated; the response carries the decisions and a diff explaining
+ * each change.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { AssumptionChangeRequest } from '@/lib/conversation/assumption-generator'
+import { assumptionReviewService, AssumptionReviewError } from '@/lib/services/assumption-review-service'
+import { ConversationContextError } from '@/lib/services/conversation-context-service'
+import { featureFlags } from '@/lib/config/environment'
+
+// Configure runtime for longer OpenAI API calls
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+const ACTIONS: Array<AssumptionChangeRequest['action']> = ['reject', 'correct']
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { sessionId, version, assumptionId, assumptionVersion, action, correction, feedback } = body as {
+      sessionId?: string
+      version?: number
+      assumptionId?: string
+      assumptionVersion?: number
+      action?: AssumptionChangeRequest['action']
+      correction?: AssumptionChangeRequest['correction']
+      feedback?: string
+    }
+
+    if (!sessionId || !assumptionId || typeof version !== 'number' || typeof assumptionVersion !== 'number') {
+      return NextResponse.json(
+        { error: 'Missing required fields: sessionId, version, assumptionId and assumptionVersion' },
+        { status: 400 }
+      )
+    }
+
+    if (!action || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'correct' && !correction?.title && !correction?.description) {
+      return NextResponse.json(
+        { error: 'correct requires a correction with a title or description' },
+        { status: 400 }
+      )
+    }
+
+    const result = await assumptionReviewService.decide(sessionId, version, {
+      assumptionId,
+      expectedVersion: assumptionVersion,
+      action: action === 'correct' ? 'edit' : 'reject',
+      edits: action === 'correct' ? correction : undefined,
+      feedback
+    })
+
+    return NextResponse.json({
+      ...result,
+      cascadeEnabled: featureFlags.assumptionCascade
+    })
+
+  } catch (error) {
+    if (error instanceof ConversationContextError || error instanceof AssumptionReviewError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error applying assumption change:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to apply assumption change',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/conversation/assumption-cascade',
+    description: 'Reject or correct one assumption and regenerate the assumptions that depend on it',
+    cascadeEnabled: featureFlags.assumptionCascade,
+    usage: {
+      method: 'POST',
+      body: {
+        sessionId: 'string - from POST /api/conversation/dynamic (action start_session)',
+        version: 'number - conversation context version',
+        assumptionId: 'string - the assumption to change',
+        assumptionVersion: 'number - the assumption version the change was made against',
+        action: 'reject | correct',
+        correction: '{ title?, description?, category?, impact? } - required for correct',
+        feedback: 'string - optional, why the user changed it'
+      }
+    }
+  })
+}
@@ -7,6 +7,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { DynamicConversationEngine } from '@/lib/conversation/dynamic-conversation-engine'
+import type { AssumptionSet } from '@/lib/conversation/assumption-generator'
+import type { EnhancedResponseAnalysis } from '@/lib/conversation/response-analyzer'
+import { conversationContextService, ConversationContextError } from '@/lib/services/conversation-context-service'
+import { assumptionReviewService } from '@/lib/services/assumption-review-service'
 import type { ConversationContext, ConversationExchange } from '@/lib/types/conversation'
 import { ConversationStage } from '@/lib/types/conversation'
 
@@ -17,53 +21,66 @@ export const maxDuration = 30
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { userResponse, context } = body
+    const { sessionId, version, userResponse } = body
 
-    if (!userResponse || !context) {
+    if (!sessionId || !userResponse || typeof version !== 'number') {
       return NextResponse.json(
-        { error: 'Missing required fields: userResponse and context' },
+        { error: 'Missing required fields: sessionId, version and userResponse' },
         { status: 400 }
       )
     }
 
     const engine = new DynamicConversationEngine()
 
-    // Analyze the user response
-    const responseAnalysis = await engine.analyzeResponse(userResponse, context)
-
-    // Check if conversation should pivot to assumption generation (fast check first)
-    const pivotCheck = engine.checkAssumptionPivot(context, responseAnalysis)
-    
-    let pivotResult
-    if (pivotCheck.shouldPivot) {
-      // Only generate assumptions if pivot is needed
-      const assumptionSet = await engine.generateAssumptions(context, responseAnalysis, pivotCheck.pivotReason)
-      pivotResult = {
-        shouldPivot: true,
-        pivotReason: pivotCheck.pivotReason,
-        assumptionSet,
-        transitionMessage: `Based on ${pivotCheck.pivotReason.toLowerCase()}, let's move forward with some assumptions.`,
-        userOptions: {
-          proceedWithAssumptions: "Yes, proceed with these assumptions",
-          modifyAssumptions: "Let me adjust some of these assumptions",
-          continueQuestioning: "Actually, I'd like to answer more questions"
-        }
-      }
-    } else {
-      pivotResult = {
-        shouldPivot: false,
-        pivotReason: 'No escape signals detected, continuing conversation',
-        transitionMessage: '',
-        userOptions: {
-          proceedWithAssumptions: '',
-          modifyAssumptions: '',
-          continueQuestioning: ''
+    let responseAnalysis!: EnhancedResponseAnalysis
+    let pivotResult!: PivotTestResult
+
+    // Update the stored context with the new response
+    const { context: updatedContext, version: nextVersion } = await conversationContextService.updateContext(
+      sessionId,
+      version,
+      async context => {
+        // Analyze the user response
+        responseAnalysis = await engine.analyzeResponse(userResponse, context)
+
+        // Check if conversation should pivot to assumption generation (fast check first)
+        const pivotCheck = engine.checkAssumptionPivot(context, responseAnalysis)
+
+        if (pivotCheck.shouldPivot) {
+          // Only generate assumptions if pivot is needed
+          const assumptionSet = await engine.generateAssumptions(context, responseAnalysis, pivotCheck.pivotReason)
+          pivotResult = {
+            shouldPivot: true,
+            pivotReason: pivotCheck.pivotReason,
+            assumptionSet,
+            transitionMessage: `Based on ${pivotCheck.pivotReason.toLowerCase()}, let's move forward with some assumptions.`,
+            userOptions: {
+              proceedWithAssumptions: "Yes, proceed with these assumptions",
+              modifyAssumptions: "Let me adjust some of these assumptions",
+              continueQuestioning: "Actually, I'd like to answer more questions"
+            }
+          }
+        } else {
+          pivotResult = {
+            shouldPivot: false,
+            pivotReason: 'No escape signals detected, continuing conversation',
+            transitionMessage: '',
+            userOptions: {
+              proceedWithAssumptions: '',
+              modifyAssumptions: '',
+              continueQuestioning: ''
+            }
+          }
         }
+
+        return engine.updateMemory(engine.updateContext(context, userResponse, responseAnalysis))
       }
-    }
+    )
 
-    // Update context with the new response
-    const updatedContext = engine.updateContext(context, userResponse, responseAnalysis)
+    // Register generated assumptions so they can be reviewed one at a time
+    const reviewAssumptions = pivotResult.assumptionSet
+      ? await assumptionReviewService.registerAssumptions(sessionId, pivotResult.assumptionSet)
+      : undefined
 
     const result = {
       responseAnalysis: {
@@ -75,10 +92,12 @@ export async function POST(request: NextRequest) {
         sentiment: responseAnalysis.sentiment
       },
       pivotResult,
+      reviewAssumptions,
       updatedContext: {
         ...updatedContext,
         conversationHistory: updatedContext.conversationHistory.slice(-5) // Only return last 5 exchanges
       },
+      version: nextVersion,
       recommendations: {
         shouldPivot: pivotResult.shouldPivot,
         nextAction: pivotResult.shouldPivot ? 'generate_assumptions' : 'continue_questioning',
@@ -90,6 +109,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(result)
 
   } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Error in assumption pivot test:', error)
     return NextResponse.json(
       { 
@@ -201,9 +227,22 @@ export async function GET() {
     usage: {
       method: 'POST',
       body: {
-        userResponse: 'string',
-        context: 'ConversationContext object'
+        sessionId: 'string - from POST /api/conversation/dynamic (action start_session)',
+        version: 'number - context version from the previous response',
+        userResponse: 'string'
       }
     }
   })
-} 
\ No newline at end of file
+}
+
+interface PivotTestResult {
+  shouldPivot: boolean
+  pivotReason: string
+  assumptionSet?: AssumptionSet
+  transitionMessage: string
+  userOptions: {
+    proceedWithAssumptions: string
+    modifyAssumptions: string
+    continueQuestioning: string
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * API endpoint for reviewing assumptions one at a time
+ *
+ * Assumptions generated by /api/conversation/assumption-pivot are registered
+ * here at version 1. Each accept, reject or edit is recorded as the next
+ * version; accepted and edited assumptions become facts for later questions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  assumptionReviewService,
+  AssumptionReviewError,
+  type AssumptionDecisionRequest
+} from '@/lib/services/assumption-review-service'
+import { ConversationContextError } from '@/lib/services/conversation-context-service'
+
+export const runtime = 'nodejs'
+
+const ACTIONS: Array<AssumptionDecisionRequest['action']> = ['accept', 'reject', 'edit']
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { sessionId, version, assumptionId, assumptionVersion, action, edits, feedback } = body
+
+    if (!sessionId || !assumptionId || typeof version !== 'number' || typeof assumptionVersion !== 'number') {
+      return NextResponse.json(
+        { error: 'Missing required fields: sessionId, version, assumptionId and assumptionVersion' },
+        { status: 400 }
+      )
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'edit' && !edits?.title && !edits?.description && !edits?.category && !edits?.impact) {
+      return NextResponse.json(
+        { error: 'edit requires edits with a title, description, category or impact' },
+        { status: 400 }
+      )
+    }
+
+    const result = await assumptionReviewService.decide(sessionId, version, {
+      assumptionId,
+      expectedVersion: assumptionVersion,
+      action,
+      edits: action === 'edit' ? edits : undefined,
+      feedback
+    })
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    if (error instanceof ConversationContextError || error instanceof AssumptionReviewError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Error recording assumption decision:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to record assumption decision',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const sessionId = searchParams.get('sessionId')
+  const assumptionId = searchParams.get('assumptionId')
+
+  if (!sessionId) {
+    return NextResponse.json({
+      endpoint: '/api/conversation/assumptions',
+      description: 'Accept, reject or edit individual assumptions; every decision is versioned',
+      usage: {
+        list: 'GET ?sessionId=...',
+        history: 'GET ?sessionId=...&assumptionId=...',
+        decide: {
+          method: 'POST',
+          body: {
+            sessionId: 'string',
+            version: 'number - conversation context version',
+            assumptionId: 'string',
+            assumptionVersion: 'number - the assumption version the decision was made against',
+            action: 'accept | reject | edit',
+            edits: '{ title?, description?, category?, impact? } - required for edit',
+            feedback: 'string - optional'
+          }
+        }
+      }
+    })
+  }
+
+  try {
+    if (assumptionId) {
+      const found = await assumptionReviewService.getAssumption(sessionId, assumptionId)
+      if (!found) {
+        return NextResponse.json(
+          { error: `Assumption not found: ${assumptionId}` },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json(found)
+    }
+
+    return NextResponse.json({ assumptions: await assumptionReviewService.listAssumptions(sessionId) })
+
+  } catch (error) {
+    console.error('Error reading assumptions:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to read assumptions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
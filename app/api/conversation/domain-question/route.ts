@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { DynamicConversationEngine } from '../../../../lib/conversation/dynamic-conversation-engine'
-import type { ConversationContext } from '../../../../lib/types/conversation'
+import type { EnhancedResponseAnalysis } from '../../../../lib/conversation/response-analyzer'
+import { conversationContextService, ConversationContextError } from '../../../../lib/services/conversation-context-service'
+import type { QuestionGenerationResult } from '../../../../lib/types/conversation'
 
 /**
  * Test endpoint for enhanced domain-specific question generation
@@ -11,11 +13,11 @@ import type { ConversationContext } from '../../../../lib/types/conversation'
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { context, userResponse } = body
+    const { sessionId, version, userResponse } = body
 
-    if (!context || !userResponse) {
+    if (!sessionId || !userResponse || typeof version !== 'number') {
       return NextResponse.json(
-        { error: 'Missing required fields: context and userResponse' },
+        { error: 'Missing required fields: sessionId, version and userResponse' },
         { status: 400 }
       )
     }
@@ -23,17 +25,32 @@ export async function POST(request: NextRequest) {
     // Initialize the enhanced conversation engine
     const engine = new DynamicConversationEngine()
 
-    // First analyze the user response
-    const responseAnalysis = await engine.analyzeResponse(userResponse, context)
+    let responseAnalysis!: EnhancedResponseAnalysis
+    let questionResult!: QuestionGenerationResult
 
-    // Then generate enhanced domain-specific question
-    const questionResult = await engine.generateNextQuestionEnhanced(context, responseAnalysis)
+    const { context, version: nextVersion } = await conversationContextService.updateContext(
+      sessionId,
+      version,
+      async context => {
+        // First analyze the user response
+        responseAnalysis = await engine.analyzeResponse(userResponse, context)
+
+        // Then generate enhanced domain-specific question
+        questionResult = await engine.generateNextQuestionEnhanced(context, responseAnalysis)
+
+        return {
+          ...await engine.updateMemory(engine.updateContext(context, userResponse, responseAnalysis)),
+          currentQuestion: questionResult
+        }
+      }
+    )
 
     // Also test the quick sophistication check
     const sophisticationCheck = await engine.quickSophisticationCheck(userResponse, context.domain)
 
     return NextResponse.json({
       success: true,
+      version: nextVersion,
       data: {
         userResponse,
         responseAnalysis: {
@@ -56,6 +73,13 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
     console.error('Error in domain question generation test:', error)
     
     return NextResponse.json(
@@ -78,19 +102,11 @@ export async function GET() {
     endpoints: {
       POST: {
         description: 'Generate domain-specific questions with enhanced analysis',
-        required_fields: ['context', 'userResponse'],
+        required_fields: ['sessionId', 'version', 'userResponse'],
+        notes: 'Start a session with POST /api/conversation/dynamic (action start_session); the server keeps the context',
         example_request: {
-          context: {
-            domain: 'fintech',
-            stage: 'idea_clarity',
-            userProfile: {
-              role: 'business',
-              sophisticationLevel: 'intermediate'
-            },
-            conversationHistory: [],
-            sessionId: 'test-session',
-            lastUpdated: '2024-12-10T00:00:00Z'
-          },
+          sessionId: 'test-session',
+          version: 2,
           userResponse: 'I want to build a payment processing solution for small businesses'
         }
       }
@@ -6,11 +6,18 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { DynamicConversationEngine } from '@/lib/conversation/dynamic-conversation-engine'
+import type { EnhancedResponseAnalysis } from '@/lib/conversation/response-analyzer'
+import type { StageTransition } from '@/lib/conversation/stage-progression'
+import {
+  conversationContextService,
+  ConversationContextError,
+  type ContextSeed
+} from '@/lib/services/conversation-context-service'
 import { ConversationStage } from '@/lib/types/conversation'
 import type { 
   ConversationContext, 
-  Domain,
-  UserProfile 
+  Contradiction,
+  QuestionGenerationResult
 } from '@/lib/types/conversation'
 
 // Configure runtime for longer OpenAI API calls
@@ -19,45 +26,16 @@ export const maxDuration = 30
 
 const conversationEngine = new DynamicConversationEngine()
 
-/**
- * Normalize conversation context with proper defaults
- */
-function normalizeContext(context: ConversationContext): ConversationContext {
-  const defaultUserProfile: UserProfile = {
-    role: 'business',
-    sophisticationLevel: 'novice',
-    domainKnowledge: {},
-    engagementPattern: 'unknown'
-  }
-
-  return {
-    sessionId: context.sessionId || 'default-session',
-    domain: context.domain || 'general',
-    stage: context.stage || ConversationStage.IDEA_CLARITY,
-    conversationHistory: context.conversationHistory || [],
-    userProfile: {
-      ...defaultUserProfile,
-      ...context.userProfile
-    },
-    currentQuestion: context.currentQuestion,
-    lastUpdated: context.lastUpdated || new Date().toISOString(),
-    metadata: context.metadata || {
-      startedAt: new Date().toISOString(),
-      lastUpdated: new Date().toISOString(),
-      totalQuestions: 0,
-      escapeCount: 0
-    }
-  }
-}
-
 /**
  * POST /api/conversation/dynamic
- * Main endpoint for dynamic conversation interaction
+ * Main endpoint for dynamic conversation interaction. The server owns the
+ * conversation context: clients start a session, then send its sessionId
+ * and the context version they last received with each request.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { action, context, userResponse } = body
+    const { action, sessionId, version, userResponse } = body
 
     if (!action) {
       return NextResponse.json(
@@ -66,15 +44,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (action !== 'start_session' && !sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
     switch (action) {
+      case 'start_session':
+        return await handleStartSession(body)
+
       case 'generate_question':
-        return await handleGenerateQuestion(context)
+        return await handleGenerateQuestion(sessionId, version)
       
       case 'analyze_response':
-        return await handleAnalyzeResponse(userResponse, context)
+        return await handleAnalyzeResponse(userResponse, sessionId)
       
       case 'conversation_turn':
-        return await handleConversationTurn(userResponse, context)
+        return await handleConversationTurn(userResponse, sessionId, version)
 
       default:
         return NextResponse.json(
@@ -95,33 +83,56 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Handle question generation
+ * Map missing sessions and stale versions to 404 / 409
  */
-async function handleGenerateQuestion(context: ConversationContext) {
-  if (!context) {
+function contextErrorResponse(error: unknown) {
+  if (error instanceof ConversationContextError) {
     return NextResponse.json(
-      { error: 'Conversation context is required' },
-      { status: 400 }
+      { error: error.message, currentVersion: error.currentVersion },
+      { status: error.statusCode }
     )
   }
+  return null
+}
 
+function versionRequiredResponse() {
+  return NextResponse.json(
+    { error: 'Context version is required' },
+    { status: 400 }
+  )
+}
+
+/**
+ * Handle session start: create the server-side context and ask the first question
+ */
+async function handleStartSession(seed: ContextSeed) {
   try {
-    // Ensure context has proper defaults
-    const normalizedContext = normalizeContext(context)
-    const question = await conversationEngine.generateNextQuestion(normalizedContext)
-    
+    const created = await conversationContextService.createContext({
+      userId: seed.userId,
+      domain: seed.domain,
+      userProfile: seed.userProfile
+    })
+
+    const { context, version } = await conversationContextService.updateContext(
+      created.context.sessionId,
+      created.version,
+      async context => ({
+        ...context,
+        currentQuestion: await conversationEngine.generateNextQuestion(context)
+      })
+    )
+
     return NextResponse.json({
       success: true,
-      question,
-      context: {
-        ...normalizedContext,
-        currentQuestion: question
-      }
+      sessionId: context.sessionId,
+      version,
+      question: context.currentQuestion,
+      context
     })
   } catch (error) {
     return NextResponse.json(
       { 
-        error: 'Failed to generate question',
+        error: 'Failed to start session',
         message: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
@@ -130,34 +141,70 @@ async function handleGenerateQuestion(context: ConversationContext) {
 }
 
 /**
- * Handle response analysis
+ * Handle question generation
  */
-async function handleAnalyzeResponse(userResponse: string, context: ConversationContext) {
-  if (!userResponse) {
-    return NextResponse.json(
-      { error: 'User response is required' },
-      { status: 400 }
+async function handleGenerateQuestion(sessionId: string, version: number) {
+  if (typeof version !== 'number') {
+    return versionRequiredResponse()
+  }
+
+  try {
+    const { context, version: nextVersion } = await conversationContextService.updateContext(
+      sessionId,
+      version,
+      async context => ({
+        ...context,
+        currentQuestion: await conversationEngine.generateNextQuestion(context)
+      })
+    )
+    
+    return NextResponse.json({
+      success: true,
+      question: context.currentQuestion,
+      version: nextVersion,
+      context
+    })
+  } catch (error) {
+    return contextErrorResponse(error) || NextResponse.json(
+      { 
+        error: 'Failed to generate question',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
     )
   }
+}
 
-  if (!context) {
+/**
+ * Handle response analysis. Read-only, so no version is needed.
+ */
+async function handleAnalyzeResponse(userResponse: string, sessionId: string) {
+  if (!userResponse) {
     return NextResponse.json(
-      { error: 'Conversation context is required' },
+      { error: 'User response is required' },
       { status: 400 }
     )
   }
 
   try {
-    const normalizedContext = normalizeContext(context)
-    const analysis = await conversationEngine.analyzeResponse(userResponse, normalizedContext)
-    const shouldEscape = await conversationEngine.detectEscapeSignals(normalizedContext)
+    const current = await conversationContextService.getContext(sessionId)
+    if (!current) {
+      return NextResponse.json(
+        { error: `Conversation session not found: ${sessionId}` },
+        { status: 404 }
+      )
+    }
+
+    const analysis = await conversationEngine.analyzeResponse(userResponse, current.context)
+    const shouldEscape = await conversationEngine.detectEscapeSignals(current.context)
     
     return NextResponse.json({
       success: true,
       analysis,
       shouldEscape,
       adaptations: analysis.suggestedAdaptations,
-      escapeSignals: analysis.escapeSignals
+      escapeSignals: analysis.escapeSignals,
+      version: current.version
     })
   } catch (error) {
     return NextResponse.json(
@@ -173,7 +220,7 @@ async function handleAnalyzeResponse(userResponse: string, context: Conversation
 /**
  * Handle complete conversation turn (analyze response + generate next question)
  */
-async function handleConversationTurn(userResponse: string, context: ConversationContext) {
+async function handleConversationTurn(userResponse: string, sessionId: string, version: number) {
   if (!userResponse) {
     return NextResponse.json(
       { error: 'User response is required' },
@@ -181,45 +228,56 @@ async function handleConversationTurn(userResponse: string, context: Conversatio
     )
   }
 
-  if (!context) {
-    return NextResponse.json(
-      { error: 'Conversation context is required' },
-      { status: 400 }
-    )
+  if (typeof version !== 'number') {
+    return versionRequiredResponse()
   }
 
   try {
-    const normalizedContext = normalizeContext(context)
-    
-    // Analyze the user's response
-    const responseAnalysis = await conversationEngine.analyzeResponse(userResponse, normalizedContext)
-    
-    // Check for escape signals
-    const shouldEscape = await conversationEngine.detectEscapeSignals(normalizedContext)
-    
-    // Update conversation context
-    const updatedContext = conversationEngine.updateContext(
-      normalizedContext,
-      userResponse,
-      responseAnalysis
-    )
-
-    let nextQuestion = null
+    let responseAnalysis: EnhancedResponseAnalysis | undefined
+    let stageTransition: StageTransition | null = null
+    let nextQuestion: QuestionGenerationResult | null = null
+    let contradictions: Contradiction[] = []
     let escapeTriggered = false
 
-    // Generate next question if not escaping
-    if (!shouldEscape) {
-      nextQuestion = await conversationEngine.generateNextQuestion(updatedContext)
-      updatedContext.currentQuestion = nextQuestion
-    } else {
-      escapeTriggered = true
-    }
+    // Same turn as the stream endpoint, with its events collected into one response
+    const { context: updatedContext, version: nextVersion } = await conversationContextService.updateContext(
+      sessionId,
+      version,
+      async context => {
+        for await (const event of conversationEngine.streamConversationTurn(userResponse, context)) {
+          switch (event.type) {
+            case 'analysis':
+              responseAnalysis = event.analysis
+              break
+            case 'stage_transition':
+              stageTransition = event.transition
+              break
+            case 'contradiction':
+              contradictions = event.contradictions
+              break
+            case 'question':
+              nextQuestion = event.question
+              break
+            case 'context':
+              escapeTriggered = event.escapeTriggered
+              return event.context
+          }
+        }
+        throw new Error('Conversation turn ended without a context')
+      }
+    )
+
+    // Only a saved turn reaches the state manager; a 409 or failed save records nothing
+    await conversationEngine.syncConversationState(updatedContext)
 
     return NextResponse.json({
       success: true,
       analysis: responseAnalysis,
       nextQuestion,
       updatedContext,
+      version: nextVersion,
+      stageTransition,
+      contradictions,
       escapeTriggered,
       shouldPivotToAssumptions: escapeTriggered,
       metadata: {
@@ -230,7 +288,7 @@ async function handleConversationTurn(userResponse: string, context: Conversatio
       }
     })
   } catch (error) {
-    return NextResponse.json(
+    return contextErrorResponse(error) || NextResponse.json(
       { 
         error: 'Failed to process conversation turn',
         message: error instanceof Error ? error.message : 'Unknown error'
@@ -241,10 +299,30 @@ async function handleConversationTurn(userResponse: string, context: Conversatio
 }
 
 /**
- * GET /api/conversation/dynamic
- * Get example conversation context for testing
+ * GET /api/conversation/dynamic?sessionId=...
+ * Current context and version for a session; without a sessionId, usage
+ * documentation
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId')
+
+  if (sessionId) {
+    const current = await conversationContextService.getContext(sessionId)
+    if (!current) {
+      return NextResponse.json(
+        { error: `Conversation session not found: ${sessionId}` },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      version: current.version,
+      context: current.context
+    })
+  }
+
   const exampleContext: ConversationContext = {
     sessionId: 'example-session-001',
     userId: 'test-user',
@@ -271,28 +349,45 @@ export async function GET() {
       endpoints: {
         'POST /api/conversation/dynamic': {
           actions: [
+            'start_session - Create a server-side context and generate the first question',
             'generate_question - Generate next optimal question',
             'analyze_response - Analyze user response for sophistication and escape signals',
-            'conversation_turn - Complete turn: analyze response + generate next question'
-          ]
+            'conversation_turn - Complete turn: analyze response + advance stage when complete + generate next question'
+          ],
+          versioning: 'Send the version from the previous response; a stale version gets 409 with currentVersion'
+        },
+        'GET /api/conversation/dynamic?sessionId=...': {
+          description: 'Current context and version for a session'
+        },
+        'POST /api/conversation/dynamic/stream': {
+          description: 'conversation_turn over Server-Sent Events',
+          events: ['analysis', 'escape', 'stage_transition', 'contradiction', 'question_token', 'question', 'context', 'done', 'error']
         }
       },
       examples: {
+        startSession: {
+          action: 'start_session',
+          userId: exampleContext.userId,
+          domain: exampleContext.domain,
+          userProfile: exampleContext.userProfile
+        },
         generateQuestion: {
           action: 'generate_question',
-          context: exampleContext
+          sessionId: exampleContext.sessionId,
+          version: 2
         },
         analyzeResponse: {
           action: 'analyze_response',
-          userResponse: 'I want to build a fintech app for regulatory reporting',
-          context: exampleContext
+          sessionId: exampleContext.sessionId,
+          userResponse: 'I want to build a fintech app for regulatory reporting'
         },
         conversationTurn: {
           action: 'conversation_turn',
-          userResponse: 'I want to build a fintech app for regulatory reporting',
-          context: exampleContext
+          sessionId: exampleContext.sessionId,
+          version: 2,
+          userResponse: 'I want to build a fintech app for regulatory reporting'
         }
       }
     }
   })
-} 
\ No newline at end of file
+}
@@ -0,0 +1,166 @@
+/**
+ * Streaming Conversation Turn API
+ *
+ * Server-Sent Events version of the `conversation_turn` action: progress is
+ * pushed as it happens so clients can render the next question progressively
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { DynamicConversationEngine, type ConversationTurnEvent } from '@/lib/conversation/dynamic-conversation-engine'
+import { conversationContextService, ConversationContextError } from '@/lib/services/conversation-context-service'
+
+// Configure runtime for longer OpenAI API calls
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+const conversationEngine = new DynamicConversationEngine()
+
+/**
+ * Format a single SSE frame
+ */
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Map engine events to SSE event names and payloads
+ */
+function toSSE(event: ConversationTurnEvent, version: number): string {
+  switch (event.type) {
+    case 'analysis':
+      return formatEvent('analysis', { analysis: event.analysis })
+    case 'escape':
+      return formatEvent('escape', { shouldEscape: event.shouldEscape })
+    case 'stage_transition':
+      return formatEvent('stage_transition', { transition: event.transition })
+    case 'contradiction':
+      return formatEvent('contradiction', { contradictions: event.contradictions })
+    case 'question_token':
+      return formatEvent('question_token', { token: event.token })
+    case 'question':
+      return formatEvent('question', { question: event.question })
+    case 'context':
+      return formatEvent('context', {
+        updatedContext: event.context,
+        version,
+        escapeTriggered: event.escapeTriggered,
+        shouldPivotToAssumptions: event.escapeTriggered,
+        metadata: {
+          conversationLength: event.context.conversationHistory.length,
+          userSophistication: event.context.userProfile.sophisticationLevel,
+          engagement: event.context.userProfile.engagementPattern,
+          stage: event.context.stage
+        }
+      })
+  }
+}
+
+/**
+ * POST /api/conversation/dynamic/stream
+ * Body: { sessionId, version, userResponse } - same as the `conversation_turn` action
+ *
+ * Events: analysis, escape, stage_transition (when the stage advances),
+ * contradiction (when the response conflicts with an earlier statement),
+ * question_token (repeated), question, context (with the new version), then
+ * done - or error if the turn fails part-way. The context is saved before the
+ * context event is sent; a failed turn leaves it unchanged. While a
+ * contradiction is open the question clarifies it, with no question_token
+ * events.
+ */
+export async function POST(request: NextRequest) {
+  let body: { sessionId?: string; version?: number; userResponse?: string }
+
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON body' },
+      { status: 400 }
+    )
+  }
+
+  const { sessionId, version, userResponse } = body
+
+  if (!userResponse) {
+    return NextResponse.json(
+      { error: 'User response is required' },
+      { status: 400 }
+    )
+  }
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: 'Session ID is required' },
+      { status: 400 }
+    )
+  }
+
+  if (typeof version !== 'number') {
+    return NextResponse.json(
+      { error: 'Context version is required' },
+      { status: 400 }
+    )
+  }
+
+  // Reject unknown sessions and stale versions before opening the stream
+  try {
+    await conversationContextService.requireContext(sessionId, version)
+  } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+    throw error
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        let escapeTriggered = false
+
+        const saved = await conversationContextService.updateContext(sessionId, version, async context => {
+          for await (const event of conversationEngine.streamConversationTurn(userResponse, context)) {
+            if (request.signal.aborted) throw new Error('Client disconnected')
+
+            if (event.type === 'context') {
+              escapeTriggered = event.escapeTriggered
+              return event.context
+            }
+            controller.enqueue(encoder.encode(toSSE(event, version)))
+          }
+          throw new Error('Conversation turn ended without a context')
+        })
+
+        // Only a saved turn reaches the state manager; a 409 or failed save records nothing
+        await conversationEngine.syncConversationState(saved.context)
+
+        controller.enqueue(encoder.encode(toSSE({ type: 'context', context: saved.context, escapeTriggered }, saved.version)))
+        controller.enqueue(encoder.encode(formatEvent('done', { success: true })))
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('Streaming conversation turn error:', error)
+          controller.enqueue(encoder.encode(formatEvent('error', {
+            error: 'Failed to process conversation turn',
+            message: error instanceof Error ? error.message : 'Unknown error',
+            currentVersion: error instanceof ConversationContextError ? error.currentVersion : undefined
+          })))
+        }
+      } finally {
+        controller.close()
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
@@ -0,0 +1,91 @@
+/**
+ * PRD Generation API
+ *
+ * Produces a structured Product Requirements Document from a conversation
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { PRDGenerator } from '@/lib/conversation/prd-generator'
+import { conversationContextService, ConversationContextError } from '@/lib/services/conversation-context-service'
+
+// Configure runtime for longer OpenAI API calls
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const prdGenerator = new PRDGenerator()
+
+/**
+ * POST /api/conversation/prd
+ * Body: { sessionId, version?, format?: 'json' | 'markdown' }
+ *
+ * Builds the PRD from the session's stored context; with `version` the
+ * request fails with 409 unless that is still the current version.
+ * `json` (default) returns the PRD object plus its Markdown rendering;
+ * `markdown` returns the document itself as text/markdown
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { sessionId, version, format = 'json' } = body as { sessionId?: string; version?: number; format?: string }
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (format !== 'json' && format !== 'markdown') {
+      return NextResponse.json(
+        { error: `Unsupported format: ${format}. Use 'json' or 'markdown'` },
+        { status: 400 }
+      )
+    }
+
+    const { context } = await conversationContextService.loadContext(
+      sessionId,
+      typeof version === 'number' ? version : undefined
+    )
+
+    if (context.conversationHistory.length === 0) {
+      return NextResponse.json(
+        { error: 'Conversation history is empty; nothing to build a PRD from' },
+        { status: 400 }
+      )
+    }
+
+    const prd = await prdGenerator.generatePRD(context)
+    const markdown = prdGenerator.toMarkdown(prd)
+
+    if (format === 'markdown') {
+      return new Response(markdown, {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `inline; filename="prd-${context.sessionId}.md"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      prd,
+      markdown
+    })
+  } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('PRD generation API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to generate PRD',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
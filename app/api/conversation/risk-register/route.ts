@@ -0,0 +1,105 @@
+/**
+ * Assumption Risk Register API
+ *
+ * Ranks assumptions by impact x uncertainty and suggests how to validate them
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RiskRegisterExporter } from '@/lib/conversation/risk-register'
+import type { AssumptionSet } from '@/lib/conversation/assumption-generator'
+import { assumptionReviewService } from '@/lib/services/assumption-review-service'
+
+export const runtime = 'nodejs'
+
+const exporter = new RiskRegisterExporter()
+
+const FORMATS = ['json', 'markdown', 'csv']
+
+/**
+ * POST /api/conversation/risk-register
+ * Body: { assumptionSet? | sessionId?, title?, format?: 'json' | 'markdown' | 'csv' }
+ *
+ * Provide an assumption set, or a sessionId to use the session's reviewed
+ * assumptions (rejected ones are left out). `json` (default) returns the
+ * register; `markdown` and `csv` return the export itself
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { assumptionSet, sessionId, title, format = 'json' } = body as {
+      assumptionSet?: AssumptionSet
+      sessionId?: string
+      title?: string
+      format?: string
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format: ${format}. Use ${FORMATS.map(name => `'${name}'`).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let assumptions: AssumptionSet['assumptions']
+
+    if (assumptionSet) {
+      if (!Array.isArray(assumptionSet.assumptions)) {
+        return NextResponse.json(
+          { error: 'assumptionSet.assumptions must be an array' },
+          { status: 400 }
+        )
+      }
+      assumptions = assumptionSet.assumptions
+    } else if (sessionId) {
+      assumptions = (await assumptionReviewService.listAssumptions(sessionId))
+        .filter(item => item.status !== 'rejected')
+        .map(item => item.assumption)
+    } else {
+      return NextResponse.json(
+        { error: 'One of assumptionSet or sessionId is required' },
+        { status: 400 }
+      )
+    }
+
+    if (assumptions.length === 0) {
+      return NextResponse.json(
+        { error: 'No assumptions to assess' },
+        { status: 400 }
+      )
+    }
+
+    const register = exporter.build({ assumptions }, title)
+
+    if (format === 'markdown') {
+      return new Response(exporter.toMarkdown(register), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': 'inline; filename="risk-register.md"'
+        }
+      })
+    }
+
+    if (format === 'csv') {
+      return new Response(exporter.toCSV(register), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="risk-register.csv"'
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      riskRegister: register
+    })
+  } catch (error) {
+    console.error('Risk register API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to build risk register',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { conversationStateManager } from '@/lib/conversation/state-manager';
+import { DomainQuestionGenerator } from '@/lib/conversation/domain-question-generator';
+import { conversationContextService } from '@/lib/services/conversation-context-service';
 import { ConversationStage, QuestionResponse } from '@/lib/types/conversation';
 
 // GET: Retrieve conversation state
@@ -16,8 +18,9 @@ export async function GET(request: NextRequest) {
     }
 
     const state = await conversationStateManager.getCurrentState(sessionId);
+    const versioned = await conversationContextService.getContext(sessionId);
     
-    if (!state) {
+    if (!state && !versioned) {
       return NextResponse.json(
         { error: 'Conversation state not found' },
         { status: 404 }
@@ -25,12 +28,17 @@ export async function GET(request: NextRequest) {
     }
 
     // Convert Map to object for JSON serialization
-    const serializedState = {
+    const serializedState = state && {
       ...state,
       stageProgresses: Object.fromEntries(state.stageProgresses)
     };
 
-    return NextResponse.json({ state: serializedState });
+    // Topic coverage needs the server-side conversation context
+    const coverage = versioned
+      ? new DomainQuestionGenerator().assessCoverage(versioned.context)
+      : null;
+
+    return NextResponse.json({ state: serializedState, coverage });
   } catch (error) {
     console.error('Error retrieving conversation state:', error);
     return NextResponse.json(
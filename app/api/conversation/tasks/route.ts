@@ -0,0 +1,125 @@
+/**
+ * Task List Generation API
+ *
+ * Breaks a PRD (or accepted assumptions) into parent tasks and sub-tasks
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { TaskListGenerator, type TaskListSource } from '@/lib/conversation/task-generator'
+import { PRDGenerator, type PRDDocument } from '@/lib/conversation/prd-generator'
+import type { AssumptionSet } from '@/lib/conversation/assumption-generator'
+import { conversationContextService, ConversationContextError } from '@/lib/services/conversation-context-service'
+
+// Configure runtime for longer OpenAI API calls
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const taskListGenerator = new TaskListGenerator()
+const prdGenerator = new PRDGenerator()
+
+const FORMATS = ['json', 'markdown', 'csv']
+
+/**
+ * POST /api/conversation/tasks
+ * Body: { prd? | assumptionSet? | sessionId? (+ version?), format?: 'json' | 'markdown' | 'csv' }
+ *
+ * Provide a generated PRD, an accepted assumption set, or a session whose
+ * stored context a PRD is generated from first (409 if `version` is given
+ * and no longer current). `json` (default) returns the task list plus its
+ * Markdown rendering; `markdown` and `csv` return the export itself, the
+ * latter ready for Jira / Linear import
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { prd, assumptionSet, sessionId, version, format = 'json' } = body as {
+      prd?: PRDDocument
+      assumptionSet?: AssumptionSet
+      sessionId?: string
+      version?: number
+      format?: string
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format: ${format}. Use ${FORMATS.map(name => `'${name}'`).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    let source: TaskListSource
+
+    if (prd) {
+      source = { type: 'prd', prd }
+    } else if (assumptionSet) {
+      if (!Array.isArray(assumptionSet.assumptions) || assumptionSet.assumptions.length === 0) {
+        return NextResponse.json(
+          { error: 'Assumption set has no assumptions; nothing to plan' },
+          { status: 400 }
+        )
+      }
+      source = { type: 'assumptions', assumptionSet: { ...assumptionSet, missingCriticalInfo: assumptionSet.missingCriticalInfo || [] } }
+    } else if (sessionId) {
+      const { context } = await conversationContextService.loadContext(
+        sessionId,
+        typeof version === 'number' ? version : undefined
+      )
+
+      if (context.conversationHistory.length === 0) {
+        return NextResponse.json(
+          { error: 'Conversation history is empty; nothing to build a PRD from' },
+          { status: 400 }
+        )
+      }
+
+      source = { type: 'prd', prd: await prdGenerator.generatePRD(context) }
+    } else {
+      return NextResponse.json(
+        { error: 'One of prd, assumptionSet or sessionId is required' },
+        { status: 400 }
+      )
+    }
+
+    const taskList = await taskListGenerator.generateTaskList(source)
+
+    if (format === 'markdown') {
+      return new Response(taskListGenerator.toMarkdown(taskList), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': 'inline; filename="tasks.md"'
+        }
+      })
+    }
+
+    if (format === 'csv') {
+      return new Response(taskListGenerator.toCSV(taskList), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="tasks.csv"'
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      taskList,
+      markdown: taskListGenerator.toMarkdown(taskList)
+    })
+  } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Task list generation API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to generate task list',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
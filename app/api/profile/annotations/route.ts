@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { activeLearningQueue, ActiveLearningError } from '@/lib/profile/active-learning';
+
+/**
+ * Annotation API for the active learning queue
+ *
+ * Uncertain detections from /api/profile/detect are queued, most
+ * informative first. Annotators label or skip them; labels become
+ * EXPERT_ANNOTATION training data.
+ */
+
+// GET: Pending items (most informative first) and queue statistics
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const itemId = searchParams.get('itemId');
+
+    if (itemId) {
+      const item = activeLearningQueue.getItem(itemId);
+      if (!item) {
+        return NextResponse.json(
+          { error: `Active learning item not found: ${itemId}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, item });
+    }
+
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || 20, 1), 100);
+
+    return NextResponse.json({
+      success: true,
+      items: activeLearningQueue.getPending(limit),
+      stats: activeLearningQueue.getStats()
+    });
+
+  } catch (error) {
+    console.error('Failed to read active learning queue:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to read active learning queue',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Label an item ({ itemId, labels, annotator }) or skip it ({ itemId, skip: true, reason })
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { itemId, labels, annotator, skip, reason } = body;
+
+    if (!itemId || typeof itemId !== 'string') {
+      return NextResponse.json(
+        { error: 'itemId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (skip) {
+      const item = activeLearningQueue.skip(itemId, reason);
+      return NextResponse.json({ success: true, item });
+    }
+
+    if (!labels?.industry || !labels?.role || !labels?.sophisticationLevel) {
+      return NextResponse.json(
+        { error: 'labels with industry, role and sophisticationLevel are required' },
+        { status: 400 }
+      );
+    }
+
+    const { item, trainingData } = await activeLearningQueue.annotate(itemId, {
+      industry: labels.industry,
+      role: labels.role,
+      sophisticationLevel: labels.sophisticationLevel
+    }, annotator);
+
+    return NextResponse.json({
+      success: true,
+      item,
+      trainingDataId: trainingData.id
+    });
+
+  } catch (error) {
+    if (error instanceof ActiveLearningError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Failed to record annotation:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to record annotation',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { profileCorrectionManager } from '@/lib/profile/profile-correction';
 import { trainingDataCollector } from '@/lib/profile/training-data-collector';
+import { ProfileVersionConflictError } from '@/lib/stores/profile-version-store';
 
 // POST: Apply user corrections to a profile
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { profile, corrections, sessionId, feedback, confidence } = body;
+    const { profile, corrections, sessionId, feedback, confidence, changedBy } = body;
 
     if (!profile || !corrections) {
       return NextResponse.json(
@@ -42,14 +43,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Apply corrections
+    // Apply corrections; recorded as a new profile version, see /api/profile/history
     const result = await profileCorrectionManager.applyCorrections(profile, {
       sessionId,
       profileId: profile.id,
       corrections,
       feedback,
       confidence
-    });
+    }, changedBy);
 
     // Collect training data from corrections
     const trainingDataPromises = result.corrections.map(async correction => {
@@ -114,7 +115,8 @@ export async function POST(request: NextRequest) {
           ...correction,
           timestamp: correction.timestamp instanceof Date ? correction.timestamp.toISOString() : correction.timestamp
         })),
-        impact: result.impact
+        impact: result.impact,
+        version: result.version
       },
       validation,
       metadata: {
@@ -125,6 +127,13 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof ProfileVersionConflictError) {
+      return NextResponse.json(
+        { error: 'The profile changed while this request was processed; reload its history and retry', success: false },
+        { status: 409 }
+      );
+    }
+
     console.error('Profile correction failed:', error);
     
     return NextResponse.json(
@@ -168,7 +177,7 @@ export async function GET(request: NextRequest) {
     // Get correction history if sessionId provided
     let correctionHistory: any[] = [];
     if (sessionId) {
-      correctionHistory = profileCorrectionManager.getCorrectionHistory(sessionId);
+      correctionHistory = await profileCorrectionManager.getCorrectionHistory(sessionId);
     }
 
     return NextResponse.json({
@@ -198,10 +207,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT: Get learning insights from correction history
+// PUT: Get learning insights from correction history ({ windowDays?, windows? })
 export async function PUT(request: NextRequest) {
   try {
-    const insights = profileCorrectionManager.getLearningInsights();
+    const body = await request.json().catch(() => ({}));
+    const windowDays = Math.min(Math.max(Number(body?.windowDays) || 7, 1), 90);
+    const windows = Math.min(Math.max(Number(body?.windows) || 4, 1), 52);
+
+    const insights = await profileCorrectionManager.getLearningInsights({ windowDays, windows });
 
     return NextResponse.json({
       success: true,
@@ -225,7 +238,9 @@ export async function PUT(request: NextRequest) {
       ],
       metadata: {
         generatedAt: new Date().toISOString(),
-        dataPointsAnalyzed: insights.totalCorrections
+        dataPointsAnalyzed: insights.totalCorrections,
+        windowDays,
+        windows
       }
     });
 
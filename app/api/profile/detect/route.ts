@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { profileDetector } from '@/lib/profile/profile-detector';
+import { activeLearningQueue } from '@/lib/profile/active-learning';
+import { profileCorrectionManager } from '@/lib/profile/profile-correction';
 
 // POST: Analyze user input and detect comprehensive profile
 export async function POST(request: NextRequest) {
@@ -33,6 +35,16 @@ export async function POST(request: NextRequest) {
     // Validate the profile quality
     const validation = profileDetector.validateProfile(result.profile, requireMinimumConfidence);
 
+    // Version 1 of the profile's history; corrections are measured against it
+    try {
+      await profileCorrectionManager.recordDetection(result.profile);
+    } catch (error) {
+      console.error('Failed to record profile detection:', error);
+    }
+
+    // Queue uncertain detections for annotation, see /api/profile/annotations
+    const reviewItem = activeLearningQueue.consider(input.trim(), result, sessionId);
+
     return NextResponse.json({
       success: true,
       result: {
@@ -49,6 +61,9 @@ export async function POST(request: NextRequest) {
         }
       },
       validation,
+      activeLearning: reviewItem
+        ? { itemId: reviewItem.id, informativeness: reviewItem.informativeness }
+        : null,
       metadata: {
         processingTime: Date.now(),
         analysisVersion: '1.0'
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { profileCorrectionManager, ProfileCorrectionError } from '@/lib/profile/profile-correction';
+import { ProfileVersionConflictError } from '@/lib/stores/profile-version-store';
+
+/**
+ * Profile version history
+ *
+ * Every detection, correction, undo and rollback is a version with who made
+ * it, when, and each field's previous and new value. Undo and rollback are
+ * recorded as new versions rather than erasing history.
+ */
+
+// GET: Audit trail for a profile (?profileId=...), oldest version first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const profileId = searchParams.get('profileId');
+
+    if (!profileId) {
+      return NextResponse.json(
+        { error: 'profileId is required as query parameter' },
+        { status: 400 }
+      );
+    }
+
+    const versions = await profileCorrectionManager.getProfileHistory(profileId);
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { error: `No history for profile ${profileId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profileId,
+      currentVersion: versions[versions.length - 1].version,
+      versions
+    });
+
+  } catch (error) {
+    console.error('Failed to get profile history:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get profile history',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Undo a correction ({ action: 'undo', correctionId }) or roll back ({ action: 'rollback', version })
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { profileId, action, correctionId, version, changedBy, profile } = body;
+
+    if (!profileId || typeof profileId !== 'string') {
+      return NextResponse.json(
+        { error: 'profileId is required' },
+        { status: 400 }
+      );
+    }
+
+    let result;
+    if (action === 'undo' && typeof correctionId === 'string') {
+      result = await profileCorrectionManager.undoCorrection(profileId, correctionId, changedBy);
+    } else if (action === 'rollback' && Number.isInteger(version)) {
+      result = await profileCorrectionManager.rollbackToVersion(profileId, version, changedBy);
+    } else {
+      return NextResponse.json(
+        { error: "Use { action: 'undo', correctionId } or { action: 'rollback', version }" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      version: result,
+      // The caller's copy of the profile with the restored fields, when one was sent
+      profile: profile ? { ...profile, ...result.snapshot, lastUpdated: result.createdAt } : undefined
+    });
+
+  } catch (error) {
+    if (error instanceof ProfileCorrectionError) {
+      return NextResponse.json(
+        { error: error.message, success: false },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ProfileVersionConflictError) {
+      return NextResponse.json(
+        { error: 'The profile changed while this request was processed; reload its history and retry', success: false },
+        { status: 409 }
+      );
+    }
+
+    console.error('Failed to change profile version:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to change profile version',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        success: false
+      },
+      { status: 500 }
+    );
+  }
+}
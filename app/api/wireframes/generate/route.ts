@@ -0,0 +1,140 @@
+/**
+ * Wireframe Generation API
+ *
+ * Derives a screen graph from the workflow and technical exchanges of a
+ * conversation and renders it as low-fidelity SVG / HTML
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { WireframeGenerator } from '@/lib/conversation/wireframe-generator'
+import { WireframeRenderer } from '@/lib/conversation/wireframe-renderer'
+import { conversationContextService, ConversationContextError } from '@/lib/services/conversation-context-service'
+import { featureFlags } from '@/lib/config/environment'
+import { ConversationStage } from '@/lib/types/conversation'
+
+// Configure runtime for longer OpenAI API calls
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const wireframeGenerator = new WireframeGenerator()
+const wireframeRenderer = new WireframeRenderer()
+
+const FORMATS = ['json', 'html', 'svg']
+
+/**
+ * POST /api/wireframes/generate
+ * Body: { sessionId, version?, screenTypes?, maxScreens?, format?: 'json' | 'html' | 'svg', screenId? }
+ *
+ * Works from the session's stored context; with `version` the request fails
+ * with 409 unless that is still the current version. `json` (default)
+ * returns the screen graph plus an SVG per screen and the navigation flow;
+ * `html` returns a standalone page; `svg` returns the flow diagram, or a
+ * single screen when `screenId` is given
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!featureFlags.wireframeGeneration) {
+      return NextResponse.json(
+        { error: 'Wireframe generation is disabled' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { sessionId, version, screenTypes, maxScreens, format = 'json', screenId } = body as {
+      sessionId?: string
+      version?: number
+      screenTypes?: string[]
+      maxScreens?: number
+      format?: string
+      screenId?: string
+    }
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Unsupported format: ${format}. Use ${FORMATS.map(name => `'${name}'`).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { context } = await conversationContextService.loadContext(
+      sessionId,
+      typeof version === 'number' ? version : undefined
+    )
+    const hasWorkflow = context.conversationHistory.some(exchange =>
+      exchange.stage === ConversationStage.USER_WORKFLOW || exchange.stage === ConversationStage.TECHNICAL_SPECS
+    )
+
+    if (!hasWorkflow) {
+      return NextResponse.json(
+        { error: 'No user workflow or technical spec exchanges yet; nothing to build wireframes from' },
+        { status: 400 }
+      )
+    }
+
+    const wireframes = await wireframeGenerator.generateWireframes(context, {
+      screenTypes: Array.isArray(screenTypes) ? screenTypes : undefined,
+      maxScreens: typeof maxScreens === 'number' && maxScreens > 0 ? maxScreens : undefined
+    })
+    const { screenGraph } = wireframes
+
+    if (format === 'html') {
+      return new Response(wireframeRenderer.renderHTML(screenGraph), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      })
+    }
+
+    if (format === 'svg') {
+      const screen = screenId ? screenGraph.screens.find(candidate => candidate.id === screenId) : undefined
+
+      if (screenId && !screen) {
+        return NextResponse.json(
+          {
+            error: `Unknown screen: ${screenId}`,
+            screens: screenGraph.screens.map(candidate => candidate.id)
+          },
+          { status: 404 }
+        )
+      }
+
+      return new Response(
+        screen ? wireframeRenderer.renderScreenSVG(screen) : wireframeRenderer.renderFlowSVG(screenGraph),
+        { headers: { 'Content-Type': 'image/svg+xml; charset=utf-8' } }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      wireframes,
+      svg: {
+        flow: wireframeRenderer.renderFlowSVG(screenGraph),
+        screens: Object.fromEntries(
+          screenGraph.screens.map(screen => [screen.id, wireframeRenderer.renderScreenSVG(screen)])
+        )
+      }
+    })
+  } catch (error) {
+    if (error instanceof ConversationContextError) {
+      return NextResponse.json(
+        { error: error.message, currentVersion: error.currentVersion },
+        { status: error.statusCode }
+      )
+    }
+
+    console.error('Wireframe generation API error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to generate wireframes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
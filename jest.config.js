@@ -14,7 +14,7 @@ const customJestConfig = {
   testEnvironment: 'jest-environment-jsdom',
   
   // Module name mapping for imports
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
     '^@/components/(.*)$': '<rootDir>/components/$1',
     '^@/lib/(.*)$': '<rootDir>/lib/$1',
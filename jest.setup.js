@@ -44,9 +44,24 @@ jest.mock('next/navigation', () => ({
   },
 }))
 
-// Mock environment variables
-process.env.NEXTAUTH_URL = 'http://localhost:3000'
-process.env.NEXTAUTH_SECRET = 'test-secret'
+// Mock environment variables; lib/config/environment validates them on import.
+// The local provider keeps tests off the network unless they choose otherwise
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  NEXTAUTH_URL: 'http://localhost:3000',
+  NEXTAUTH_SECRET: 'test-secret-test-secret-test-secret-000',
+  NEXT_PUBLIC_APP_URL: 'http://localhost:3000',
+  NEXT_PUBLIC_API_URL: 'http://localhost:3000/api',
+  NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:54321',
+  NEXT_PUBLIC_SUPABASE_ANON_KEY: 'test-anon-key',
+  SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+  OPENAI_API_KEY: 'test-api-key',
+  UPSTASH_REDIS_REST_URL: 'http://localhost:8079',
+  UPSTASH_REDIS_REST_TOKEN: 'test-token',
+  JWT_SECRET: 'test-jwt-secret-test-jwt-secret-000000',
+  ENCRYPTION_KEY: 'test-encryption-key-test-encryption-00',
+  LLM_PROVIDER: 'local',
+})
 
 // Global test utilities
 global.TestUtils = {
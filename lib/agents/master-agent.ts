@@ -1,10 +1,11 @@
-import { UserProfile, AgentTemplate, SpecializedAgent, SessionManager } from '@/lib/types/agent-types'
+import { UserProfile, AgentTemplate, SpecializedAgent, SessionManager, QuestionSet } from '@/lib/types/agent-types'
 import { openaiService } from '@/lib/openai/client'
 import { sessionStore } from '@/lib/services/session-store'
 import { profileAnalyzer } from '@/lib/services/profile-analyzer'
 import { agentSelector } from '@/lib/services/agent-selector'
 import { agentDeployer } from '@/lib/services/agent-deployer'
 import { agentTemplateManager } from '@/lib/services/agent-template-manager'
+import { questionSelectionEngine } from '@/lib/services/question-selection-engine'
 
 /**
  * Master Agent Core Framework
@@ -247,9 +248,12 @@ export class MasterAgent {
   private async getQuestionSetForProfile(
     profile: UserProfile, 
     template: AgentTemplate
-  ): Promise<any[]> {
-    // This will be implemented in Domain-Specific Question Banks (TASK-005)
-    return []
+  ): Promise<QuestionSet[]> {
+    const questionBank = template.questionBank.length > 0
+      ? template.questionBank
+      : await agentTemplateManager.getQuestionBank(template.domain)
+
+    return questionSelectionEngine.filterForProfile(questionBank, profile)
   }
 
   /**
@@ -3,7 +3,7 @@ import { z } from 'zod'
 // Environment validation schema
 const environmentSchema = z.object({
   // Node.js Environment
-  NODE_ENV: z.enum(['development', 'staging', 'production']).default('development'),
+  NODE_ENV: z.enum(['development', 'staging', 'production', 'test']).default('development'),
   DEBUG: z.string().transform(val => val === 'true').default('false'),
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 
@@ -33,12 +33,37 @@ const environmentSchema = z.object({
   OPENAI_TIMEOUT_SECONDS: z.string().transform(Number).default('30'),
   OPENAI_TEMPERATURE: z.string().transform(Number).default('0.7'),
 
+  // LLM Provider Selection
+  LLM_PROVIDER: z.enum(['openai', 'anthropic', 'local']).default('openai'),
+  ANTHROPIC_BASE_URL: z.string().url().default('https://api.anthropic.com'),
+  ANTHROPIC_MODEL_PRIMARY: z.string().default('claude-3-5-haiku-latest'),
+  ANTHROPIC_MODEL_FALLBACK: z.string().default('claude-3-haiku-20240307'),
+  LLM_CASSETTE_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+  LLM_CASSETTE_DIR: z.string().default('tests/fixtures/llm-cassettes'),
+
+  // Conversation Memory (rolling summary injected into prompts)
+  CONVERSATION_MEMORY_UPDATE_INTERVAL: z.string().transform(Number).default('3'),
+  CONVERSATION_MEMORY_TOKEN_BUDGET: z.string().transform(Number).default('400'),
+
+  // Response Analysis (heuristic analysis avoids a model call per turn)
+  RESPONSE_ANALYSIS_MODE: z.enum(['llm', 'tiered', 'heuristic']).default('llm'),
+  RESPONSE_ANALYSIS_ESCALATION_THRESHOLD: z.string().transform(Number).default('0.6'),
+
+  // Profile Detection (learned keyword weights, see lib/profile/keyword-weights.ts)
+  PROFILE_WEIGHTS_DIR: z.string().default('config/profile-weights'),
+
   // Redis Configuration
   UPSTASH_REDIS_REST_URL: z.string().url(),
   UPSTASH_REDIS_REST_TOKEN: z.string().min(1),
   REDIS_SESSION_TTL: z.string().transform(Number).default('86400'),
   REDIS_CACHE_TTL: z.string().transform(Number).default('3600'),
 
+  // State Storage ('memory' keeps state per process; use redis or supabase on serverless)
+  CONVERSATION_STATE_STORE: z.enum(['memory', 'redis', 'supabase']).default('memory'),
+  SESSION_STORE: z.enum(['memory', 'redis']).default('memory'),
+  ASSUMPTION_STORE: z.enum(['memory', 'supabase']).default('memory'),
+  PROFILE_CORRECTION_STORE: z.enum(['memory', 'supabase']).default('memory'),
+
   // Security Configuration
   JWT_SECRET: z.string().min(32),
   ENCRYPTION_KEY: z.string().min(32),
@@ -145,6 +170,36 @@ export const openaiConfig = {
   },
 }
 
+export const llmConfig = {
+  provider: env.LLM_PROVIDER,
+  anthropic: {
+    apiKey: env.ANTHROPIC_API_KEY,
+    baseUrl: env.ANTHROPIC_BASE_URL,
+    models: {
+      primary: env.ANTHROPIC_MODEL_PRIMARY,
+      fallback: env.ANTHROPIC_MODEL_FALLBACK,
+    },
+  },
+  cassette: {
+    mode: env.LLM_CASSETTE_MODE,
+    directory: env.LLM_CASSETTE_DIR,
+  },
+}
+
+export const memoryConfig = {
+  updateInterval: env.CONVERSATION_MEMORY_UPDATE_INTERVAL,
+  tokenBudget: env.CONVERSATION_MEMORY_TOKEN_BUDGET,
+}
+
+export const analysisConfig = {
+  mode: env.RESPONSE_ANALYSIS_MODE,
+  escalationThreshold: env.RESPONSE_ANALYSIS_ESCALATION_THRESHOLD,
+}
+
+export const profileConfig = {
+  weightsDir: env.PROFILE_WEIGHTS_DIR,
+}
+
 export const redisConfig = {
   url: env.UPSTASH_REDIS_REST_URL,
   token: env.UPSTASH_REDIS_REST_TOKEN,
@@ -154,6 +209,13 @@ export const redisConfig = {
   },
 }
 
+export const storageConfig = {
+  conversationState: env.CONVERSATION_STATE_STORE,
+  session: env.SESSION_STORE,
+  assumptions: env.ASSUMPTION_STORE,
+  profileCorrections: env.PROFILE_CORRECTION_STORE,
+}
+
 export const securityConfig = {
   jwtSecret: env.JWT_SECRET,
   encryptionKey: env.ENCRYPTION_KEY,
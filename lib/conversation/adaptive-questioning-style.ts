@@ -8,7 +8,8 @@
  * - Domain expertise demonstration requirements
  */
 
-import { openai } from '../openai/client'
+import { openaiService } from '../openai/client'
+import { questionGenerationSchema } from '../openai/schemas'
 import type { 
   ConversationContext, 
   QuestionGenerationResult,
@@ -17,6 +18,7 @@ import type {
   Domain
 } from '../types/conversation'
 import type { EnhancedResponseAnalysis } from './response-analyzer'
+import { formatAcceptedAssumptionsForPrompt, formatMemoryForPrompt } from './conversation-memory'
 
 export type QuestioningStyle = 
   | 'novice-friendly'      // Simple, educational, step-by-step
@@ -138,41 +140,24 @@ export class AdaptiveQuestioningStyleEngine {
         baseQuestion
       )
       
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: result, response } = await openaiService.createStructuredCompletion({
         messages: [
           {
             role: 'system',
             content: prompt
           }
         ],
-        max_tokens: 1000,
-        temperature: this.getTemperatureForStyle(questioningStyle)
+        options: {
+          model: this.model,
+          maxTokens: 1000,
+          temperature: this.getTemperatureForStyle(questioningStyle)
+        },
+        schema: questionGenerationSchema,
+        schemaName: 'QuestionGenerationResult'
       })
-
-      const content = response.choices[0].message.content || '{}'
-      let result
-      
-      try {
-        result = JSON.parse(content)
-      } catch (parseError) {
-        const jsonMatch = content.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0])
-        } else {
-          throw new Error(`Invalid JSON response from style adaptation: ${content}`)
-        }
-      }
       
       return {
-        question: result.question,
-        questionType: result.questionType,
-        sophisticationLevel: result.sophisticationLevel,
-        domainContext: result.domainContext,
-        followUpSuggestions: result.followUpSuggestions || [],
-        confidence: result.confidence || 0.8,
-        reasoning: result.reasoning,
-        expectedResponseTypes: result.expectedResponseTypes || [],
+        ...result,
         metadata: {
           model: this.model,
           tokens: response.usage?.total_tokens || 0,
@@ -386,6 +371,10 @@ USER CONTEXT:
 - Engagement: ${userProfile.engagementPattern}
 - Last Response: "${lastResponse}"
 
+${formatMemoryForPrompt(context.memory)}
+
+${formatAcceptedAssumptionsForPrompt(context.assumptions)}
+
 RESPONSE ANALYSIS:
 - Technical Language: ${responseAnalysis.sophisticationBreakdown.technicalLanguage.toFixed(2)}
 - Domain Specificity: ${responseAnalysis.sophisticationBreakdown.domainSpecificity.toFixed(2)}
@@ -6,7 +6,8 @@
  * from questioning to assumption generation.
  */
 
-import { openai } from '../openai/client'
+import { openaiService } from '../openai/client'
+import { assumptionSetSchema } from '../openai/schemas'
 import type { 
   ConversationContext,
   UserProfile,
@@ -15,6 +16,9 @@ import type {
   ConversationStage
 } from '../types/conversation'
 import type { EnhancedResponseAnalysis } from './response-analyzer'
+import { formatAcceptedAssumptionsForPrompt, formatMemoryForPrompt, unsummarizedExchanges } from './conversation-memory'
+import { AssumptionGraph, diffAssumptionSets, type AssumptionDiff } from './assumption-graph'
+import { featureFlags } from '../config/environment'
 
 export interface AssumptionSet {
   assumptions: Assumption[]
@@ -41,6 +45,22 @@ export interface Assumption {
   dependencies: string[]
   validationQuestions: string[]
   alternatives?: string[]
+  status?: 'corrected' | 'stale'   // set by applyAssumptionChange
+  statusReason?: string
+}
+
+export interface AssumptionChangeRequest {
+  assumptionId: string
+  action: 'reject' | 'correct'
+  correction?: Partial<Pick<Assumption, 'title' | 'description' | 'category' | 'impact'>>
+  feedback?: string
+}
+
+export interface AssumptionCascadeResult {
+  assumptionSet: AssumptionSet
+  diff: AssumptionDiff
+  staleAssumptionIds: string[]        // dependents flagged by the cascade
+  regeneratedAssumptionIds: string[]  // flagged dependents that were rewritten
 }
 
 export interface AssumptionPivotResult {
@@ -202,54 +222,30 @@ export class AssumptionGenerator {
       
       console.log('🔧 Generating assumptions with OpenAI...')
       
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: result, response } = await openaiService.createStructuredCompletion({
         messages: [
           {
             role: 'system',
             content: prompt
           }
         ],
-        max_tokens: this.maxTokens,
-        temperature: this.temperature
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: assumptionSetSchema,
+        schemaName: 'AssumptionSet'
       })
-
-      const content = response.choices[0].message.content || '{}'
-      console.log('🔧 OpenAI response received, parsing...')
-      
-      let result
-      
-      try {
-        result = JSON.parse(content)
-      } catch (parseError) {
-        console.log('🔧 JSON parsing failed, trying to extract JSON...')
-        // If JSON parsing fails, try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0])
-        } else {
-          console.error('Failed to parse OpenAI response:', content)
-          throw new Error(`Invalid JSON response from GPT-4: ${content}`)
-        }
-      }
-      
-      // Validate that we have assumptions
-      if (!result.assumptions || !Array.isArray(result.assumptions)) {
-        console.error('Invalid assumptions structure:', result)
-        throw new Error('OpenAI response does not contain valid assumptions array')
-      }
       
       console.log(`🔧 Successfully generated ${result.assumptions.length} assumptions`)
       
       return {
-        assumptions: result.assumptions.map((a: any, index: number) => ({
-          id: `assumption_${Date.now()}_${index}`,
-          ...a
+        ...result,
+        assumptions: result.assumptions.map((a, index) => ({
+          ...a,
+          id: `assumption_${Date.now()}_${index}`
         })),
-        confidence: result.confidence || 0.7,
-        reasoning: result.reasoning || 'Generated based on conversation context',
-        missingCriticalInfo: result.missingCriticalInfo || [],
-        recommendedNextSteps: result.recommendedNextSteps || [],
         metadata: {
           generatedAt: new Date().toISOString(),
           model: this.model,
@@ -370,31 +366,32 @@ export class AssumptionGenerator {
     try {
       const prompt = this.buildAssumptionRefinementPrompt(originalAssumptions, userFeedback, context)
       
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: result } = await openaiService.createStructuredCompletion({
         messages: [
           {
             role: 'system',
             content: prompt
           }
         ],
-        max_tokens: this.maxTokens,
-        temperature: this.temperature
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: assumptionSetSchema,
+        schemaName: 'AssumptionSet'
       })
-
-      const content = response.choices[0].message.content || '{}'
-      const result = JSON.parse(content)
       
       return {
         ...originalAssumptions,
-        assumptions: result.assumptions.map((a: any, index: number) => ({
-          id: `refined_assumption_${Date.now()}_${index}`,
-          ...a
+        assumptions: result.assumptions.map((a, index) => ({
+          ...a,
+          id: a.id || `refined_assumption_${Date.now()}_${index}`
         })),
-        confidence: result.confidence || originalAssumptions.confidence,
+        confidence: result.confidence,
         reasoning: result.reasoning,
-        missingCriticalInfo: result.missingCriticalInfo || originalAssumptions.missingCriticalInfo,
-        recommendedNextSteps: result.recommendedNextSteps || originalAssumptions.recommendedNextSteps,
+        missingCriticalInfo: result.missingCriticalInfo,
+        recommendedNextSteps: result.recommendedNextSteps,
                  metadata: {
            generatedAt: originalAssumptions.metadata.generatedAt,
            model: originalAssumptions.metadata.model,
@@ -410,6 +407,125 @@ export class AssumptionGenerator {
     }
   }
 
+  /**
+   * Reject or correct one assumption. With ENABLE_ASSUMPTION_CASCADE on,
+   * every assumption that depends on it, directly or indirectly, is flagged
+   * stale and regenerated; the diff records what changed and why.
+   */
+  async applyAssumptionChange(
+    assumptionSet: AssumptionSet,
+    change: AssumptionChangeRequest,
+    context: ConversationContext
+  ): Promise<AssumptionCascadeResult> {
+    const target = assumptionSet.assumptions.find(assumption => assumption.id === change.assumptionId)
+    if (!target) {
+      throw new Error(`Assumption not found: ${change.assumptionId}`)
+    }
+
+    const graph = new AssumptionGraph(assumptionSet)
+    const staleIds = featureFlags.assumptionCascade ? graph.transitiveDependents(target.id) : []
+    const verb = change.action === 'reject' ? 'rejected' : 'corrected'
+    const reasons: Record<string, string> = {
+      [target.id]: `${change.action === 'reject' ? 'Rejected' : 'Corrected'} by the user${change.feedback ? `: ${change.feedback}` : ''}`
+    }
+
+    // Dependents refer to the target by title, so follow a renamed correction
+    const newTitle = change.action === 'correct' ? change.correction?.title : undefined
+    const updateDependencies = (dependencies: string[]) => change.action === 'reject'
+      ? dependencies.filter(dependency => graph.resolve(dependency) !== target.id)
+      : dependencies.map(dependency => newTitle && graph.resolve(dependency) === target.id ? newTitle : dependency)
+
+    const assumptions: Assumption[] = assumptionSet.assumptions
+      .filter(assumption => change.action !== 'reject' || assumption.id !== target.id)
+      .map(assumption => {
+        if (assumption.id === target.id) {
+          return { ...assumption, ...change.correction, confidence: 1, status: 'corrected', statusReason: reasons[target.id] }
+        }
+
+        const dependencies = updateDependencies(assumption.dependencies)
+        if (!staleIds.includes(assumption.id)) {
+          return { ...assumption, dependencies }
+        }
+
+        const direct = graph.dependenciesOf(assumption.id).includes(target.id)
+        const statusReason = `Depends ${direct ? '' : 'indirectly '}on "${target.title}", which the user ${verb}`
+        return { ...assumption, dependencies, status: 'stale', statusReason }
+      })
+
+    const flagged = { ...assumptionSet, assumptions }
+    const updated = staleIds.length > 0
+      ? await this.regenerateStaleAssumptions(flagged, target, change, context)
+      : flagged
+
+    const stillStale = updated.assumptions.filter(assumption => assumption.status === 'stale').map(assumption => assumption.id)
+    flagged.assumptions
+      .filter(assumption => assumption.status === 'stale')
+      .forEach(assumption => {
+        reasons[assumption.id] = stillStale.includes(assumption.id)
+          ? `${assumption.statusReason}; could not be regenerated, review it manually`
+          : `${assumption.statusReason}; regenerated to match`
+      })
+
+    return {
+      assumptionSet: updated,
+      diff: diffAssumptionSets(assumptionSet, updated, reasons),
+      staleAssumptionIds: staleIds,
+      regeneratedAssumptionIds: staleIds.filter(id => !stillStale.includes(id))
+    }
+  }
+
+  /**
+   * Rewrite the assumptions flagged stale so they fit the changed one.
+   * Replacements keep the stale assumption's id; if regeneration fails the
+   * assumptions stay flagged stale.
+   */
+  private async regenerateStaleAssumptions(
+    assumptionSet: AssumptionSet,
+    changed: Assumption,
+    change: AssumptionChangeRequest,
+    context: ConversationContext
+  ): Promise<AssumptionSet> {
+    const stale = assumptionSet.assumptions.filter(assumption => assumption.status === 'stale')
+
+    try {
+      const prompt = this.buildAssumptionRegenerationPrompt(assumptionSet, changed, change, context)
+
+      const { data: result } = await openaiService.createStructuredCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: prompt
+          }
+        ],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: assumptionSetSchema,
+        schemaName: 'AssumptionSet'
+      })
+
+      // Match replacements by id, falling back to their position
+      const replacements = new Map<string, typeof result.assumptions[number]>()
+      result.assumptions.forEach((replacement, index) => {
+        const id = stale.some(assumption => assumption.id === replacement.id) ? replacement.id! : stale[index]?.id
+        if (id && !replacements.has(id)) replacements.set(id, replacement)
+      })
+
+      return {
+        ...assumptionSet,
+        assumptions: assumptionSet.assumptions.map(assumption => {
+          const replacement = replacements.get(assumption.id)
+          return replacement ? { ...replacement, id: assumption.id } : assumption
+        })
+      }
+    } catch (error) {
+      console.error('Error regenerating stale assumptions:', error)
+      return assumptionSet
+    }
+  }
+
   /**
    * Create smooth transition message based on escape signals
    */
@@ -461,8 +577,12 @@ CONTEXT:
  - Technical Depth: ${userProfile.domainKnowledge?.technicalDepth || 'Unknown'}
  - Sophistication Level: ${userProfile.sophisticationLevel}
 
+${formatMemoryForPrompt(context.memory)}
+
+${formatAcceptedAssumptionsForPrompt(context.assumptions)}
+
 CONVERSATION SUMMARY:
-${conversationHistory.map(h => `Q: ${h.generatedQuestion?.question}\nA: ${h.userResponse}`).join('\n\n')}
+${unsummarizedExchanges(context).map(h => `Q: ${h.generatedQuestion?.question}\nA: ${h.userResponse}`).join('\n\n')}
 
 TASK:
 Generate intelligent assumptions that:
@@ -501,6 +621,56 @@ You must respond with valid JSON only, no other text. Use this exact format:
 }`
   }
 
+  /**
+   * Build prompt for regenerating assumptions made stale by a change
+   */
+  private buildAssumptionRegenerationPrompt(
+    assumptionSet: AssumptionSet,
+    changed: Assumption,
+    change: AssumptionChangeRequest,
+    context: ConversationContext
+  ): string {
+    const current = assumptionSet.assumptions.filter(assumption => assumption.status !== 'stale')
+    const stale = assumptionSet.assumptions
+      .filter(assumption => assumption.status === 'stale')
+      .map(({ status, statusReason, ...assumption }) => assumption)
+    const corrected = current.find(assumption => assumption.id === changed.id)
+
+    return `You are revising product assumptions after the user changed one of them.
+
+CHANGED ASSUMPTION:
+"${changed.title}" was ${change.action === 'reject' ? 'rejected' : 'corrected'} by the user.
+${corrected ? `It now reads: ${corrected.title}: ${corrected.description}` : 'It no longer holds and has been removed.'}
+${change.feedback ? `User feedback: "${change.feedback}"\n` : ''}
+CURRENT ASSUMPTIONS:
+${current.map(assumption => `- ${assumption.title}: ${assumption.description}`).join('\n') || 'None'}
+
+STALE ASSUMPTIONS:
+${JSON.stringify(stale, null, 2)}
+
+CONTEXT:
+- Domain: ${context.domain}
+- User Sophistication: ${context.userProfile.sophisticationLevel}
+
+${formatMemoryForPrompt(context.memory)}
+
+TASK:
+Rewrite each stale assumption so it is consistent with the change and the current assumptions:
+1. Return exactly one assumption per stale assumption, keeping its "id"
+2. Keep what still holds and change what relied on the old assumption
+3. Only list dependencies that are titles in CURRENT ASSUMPTIONS or STALE ASSUMPTIONS
+4. Lower confidence where the change leaves an assumption less certain
+
+You must respond with valid JSON only, no other text. Use the same format as the original assumptions, including "id":
+{
+  "assumptions": [...],
+  "confidence": 0.7,
+  "reasoning": "How the stale assumptions were revised",
+  "missingCriticalInfo": [...],
+  "recommendedNextSteps": [...]
+}`
+  }
+
   /**
    * Build prompt for assumption refinement
    */
@@ -0,0 +1,183 @@
+/**
+ * Assumption Graph
+ *
+ * Builds the dependency graph of an AssumptionSet from each assumption's
+ * `dependencies`, which the generator fills with the titles (or ids) of the
+ * assumptions it builds on. Used to find everything downstream of an
+ * assumption the user rejected or corrected, and to describe how a set
+ * changed between two versions.
+ */
+
+import type { Assumption, AssumptionSet } from './assumption-generator'
+
+export type AssumptionChangeType = 'added' | 'removed' | 'modified'
+
+export interface AssumptionChange {
+  assumptionId: string
+  title: string
+  change: AssumptionChangeType
+  fields: string[]      // fields that differ, for modified assumptions
+  reason: string
+  before?: Assumption
+  after?: Assumption
+}
+
+export interface AssumptionDiff {
+  changes: AssumptionChange[]
+  summary: string
+}
+
+// Fields compared when diffing two versions of an assumption
+const DIFF_FIELDS: Array<keyof Assumption> = [
+  'title', 'description', 'category', 'confidence', 'impact',
+  'dependencies', 'validationQuestions', 'alternatives', 'status'
+]
+
+export class AssumptionGraph {
+  private readonly assumptions: Map<string, Assumption> = new Map()
+  private readonly dependencies: Map<string, string[]> = new Map()
+  private readonly dependents: Map<string, string[]> = new Map()
+  private readonly unresolved: Array<{ assumptionId: string; dependency: string }> = []
+
+  constructor(assumptionSet: AssumptionSet) {
+    assumptionSet.assumptions.forEach(assumption => {
+      this.assumptions.set(assumption.id, assumption)
+      this.dependents.set(assumption.id, [])
+    })
+
+    assumptionSet.assumptions.forEach(assumption => {
+      const resolved: string[] = []
+      assumption.dependencies.forEach(dependency => {
+        const target = this.resolve(dependency)
+        if (!target || target === assumption.id) {
+          this.unresolved.push({ assumptionId: assumption.id, dependency })
+        } else if (!resolved.includes(target)) {
+          resolved.push(target)
+          this.dependents.get(target)!.push(assumption.id)
+        }
+      })
+      this.dependencies.set(assumption.id, resolved)
+    })
+  }
+
+  /**
+   * Ids of the assumptions this one directly depends on
+   */
+  dependenciesOf(assumptionId: string): string[] {
+    return this.dependencies.get(assumptionId) || []
+  }
+
+  /**
+   * Ids of the assumptions that directly depend on this one
+   */
+  dependentsOf(assumptionId: string): string[] {
+    return this.dependents.get(assumptionId) || []
+  }
+
+  /**
+   * Every assumption downstream of this one, nearest first. Cycles are
+   * tolerated; the starting assumption is never included.
+   */
+  transitiveDependents(assumptionId: string): string[] {
+    const visited = new Set<string>([assumptionId])
+    const order: string[] = []
+    const queue = [...this.dependentsOf(assumptionId)]
+
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      if (visited.has(id)) continue
+      visited.add(id)
+      order.push(id)
+      queue.push(...this.dependentsOf(id))
+    }
+
+    return order
+  }
+
+  /**
+   * Dependency entries that match no assumption in the set
+   */
+  unresolvedDependencies(): Array<{ assumptionId: string; dependency: string }> {
+    return [...this.unresolved]
+  }
+
+  /**
+   * Match a dependency to an assumption by id, then by title (case-insensitive)
+   */
+  resolve(dependency: string): string | undefined {
+    if (this.assumptions.has(dependency)) return dependency
+
+    const title = dependency.trim().toLowerCase()
+    let match: string | undefined
+    this.assumptions.forEach((assumption, id) => {
+      if (!match && assumption.title.trim().toLowerCase() === title) match = id
+    })
+    return match
+  }
+}
+
+/**
+ * Describe how an assumption set changed. Assumptions are matched by id;
+ * `reasons` explains individual changes and falls back to a generic reason.
+ */
+export function diffAssumptionSets(
+  before: AssumptionSet,
+  after: AssumptionSet,
+  reasons: Record<string, string> = {}
+): AssumptionDiff {
+  const previous = new Map(before.assumptions.map(assumption => [assumption.id, assumption]))
+  const current = new Map(after.assumptions.map(assumption => [assumption.id, assumption]))
+  const changes: AssumptionChange[] = []
+
+  before.assumptions.forEach(assumption => {
+    const updated = current.get(assumption.id)
+    if (!updated) {
+      changes.push({
+        assumptionId: assumption.id,
+        title: assumption.title,
+        change: 'removed',
+        fields: [],
+        reason: reasons[assumption.id] || 'Removed from the assumption set',
+        before: assumption
+      })
+      return
+    }
+
+    const fields = DIFF_FIELDS.filter(field => JSON.stringify(assumption[field]) !== JSON.stringify(updated[field]))
+    if (fields.length > 0) {
+      changes.push({
+        assumptionId: assumption.id,
+        title: updated.title,
+        change: 'modified',
+        fields,
+        reason: reasons[assumption.id] || `Updated ${fields.join(', ')}`,
+        before: assumption,
+        after: updated
+      })
+    }
+  })
+
+  after.assumptions
+    .filter(assumption => !previous.has(assumption.id))
+    .forEach(assumption => {
+      changes.push({
+        assumptionId: assumption.id,
+        title: assumption.title,
+        change: 'added',
+        fields: [],
+        reason: reasons[assumption.id] || 'Added to the assumption set',
+        after: assumption
+      })
+    })
+
+  const count = (type: AssumptionChangeType) => changes.filter(change => change.change === type).length
+  const summary = changes.length === 0
+    ? 'No changes'
+    : [
+        count('modified') && `${count('modified')} modified`,
+        count('removed') && `${count('removed')} removed`,
+        count('added') && `${count('added')} added`
+      ].filter(Boolean).join(', ')
+
+  return { changes, summary }
+}
@@ -0,0 +1,214 @@
+/**
+ * Consistency Checker
+ *
+ * Compares the newest answer (and its extracted entities) against earlier
+ * answers and the assumptions the user accepted, looking for statements
+ * that cannot both hold ("B2B only" on turn 2, "consumers sign up" on turn
+ * 9). Each conflict is recorded on the context with a clarification
+ * question, and the earlier statement is marked superseded by the newer
+ * one. Answering the clarification resolves the contradiction.
+ */
+
+import { openaiService } from '../openai/client'
+import { contradictionCheckSchema } from '../openai/schemas'
+import type { ContradictionCheckOutput } from '../openai/schemas'
+import type { ConversationContext, Contradiction } from '../types/conversation'
+
+export class ConsistencyChecker {
+  private readonly model: string
+  private readonly maxTokens: number
+  private readonly temperature: number
+
+  constructor(
+    model: string = 'gpt-4o-mini',
+    maxTokens: number = 800,
+    temperature: number = 0.2
+  ) {
+    this.model = model
+    this.maxTokens = maxTokens
+    this.temperature = temperature
+  }
+
+  /**
+   * Check the newest exchange and record what it contradicts. Call after
+   * the exchange is added to the history. An answer to a clarification
+   * question resolves that contradiction instead of being checked. Failures
+   * are logged and the context returned without new contradictions.
+   */
+  async checkLatest(
+    context: ConversationContext
+  ): Promise<{ context: ConversationContext; contradictions: Contradiction[] }> {
+    const history = context.conversationHistory
+    if (history.length === 0) {
+      return { context, contradictions: [] }
+    }
+
+    const latest = history[history.length - 1]
+    const label = `E${history.length}`
+    const answered = latest.generatedQuestion?.metadata?.contradictionId
+
+    if (answered) {
+      return {
+        context: {
+          ...context,
+          contradictions: (context.contradictions || []).map(contradiction =>
+            contradiction.id === answered ? { ...contradiction, status: 'resolved', resolvedBy: label } : contradiction
+          )
+        },
+        contradictions: []
+      }
+    }
+
+    try {
+      const found = await this.detect(context)
+      return this.record(context, found)
+    } catch (error) {
+      console.error('Error checking conversation consistency:', error)
+      return { context, contradictions: [] }
+    }
+  }
+
+  /**
+   * Contradictions between the newest exchange and earlier statements
+   */
+  async detect(context: ConversationContext): Promise<ContradictionCheckOutput['contradictions']> {
+    const earlier = this.earlierStatements(context)
+    if (earlier.length === 0) {
+      return []
+    }
+
+    try {
+      const { data } = await openaiService.createStructuredCompletion({
+        messages: [{ role: 'system', content: this.buildConsistencyPrompt(context, earlier) }],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: contradictionCheckSchema,
+        schemaName: 'ContradictionCheck'
+      })
+
+      // Only keep conflicts with a statement that was actually shown
+      const known = earlier.map(statement => statement.source)
+      return data.contradictions.filter(contradiction => known.includes(contradiction.conflictingSource))
+    } catch (error) {
+      console.error('Error detecting contradictions:', error)
+      throw new Error(`Failed to detect contradictions: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Add new contradictions to the context and mark the statements they supersede
+   */
+  private record(
+    context: ConversationContext,
+    found: ContradictionCheckOutput['contradictions']
+  ): { context: ConversationContext; contradictions: Contradiction[] } {
+    const existing = context.contradictions || []
+    const label = `E${context.conversationHistory.length}`
+    const detectedAt = new Date().toISOString()
+
+    const contradictions: Contradiction[] = []
+    found.forEach(item => {
+      const duplicate = [...existing, ...contradictions].some(contradiction =>
+        contradiction.previous.source === item.conflictingSource && contradiction.current.source === label
+      )
+      if (duplicate) return
+
+      contradictions.push({
+        id: `C${existing.length + contradictions.length + 1}`,
+        topic: item.topic || 'consistency',
+        previous: { source: item.conflictingSource, statement: item.conflictingStatement },
+        current: { source: label, statement: item.newStatement },
+        severity: item.severity,
+        clarificationQuestion: item.clarificationQuestion,
+        status: 'open',
+        detectedAt
+      })
+    })
+
+    if (contradictions.length === 0) {
+      return { context, contradictions }
+    }
+
+    const superseded = contradictions.map(contradiction => contradiction.previous.source)
+
+    return {
+      context: {
+        ...context,
+        conversationHistory: context.conversationHistory.map((exchange, index) =>
+          superseded.includes(`E${index + 1}`) ? { ...exchange, supersededBy: label } : exchange
+        ),
+        assumptions: context.assumptions?.map(set => ({
+          ...set,
+          assumptions: set.assumptions.map(assumption =>
+            superseded.includes(assumption.id) ? { ...assumption, supersededBy: label } : assumption
+          )
+        })),
+        contradictions: [...existing, ...contradictions]
+      },
+      contradictions
+    }
+  }
+
+  /**
+   * Earlier answers and accepted assumptions that still stand
+   */
+  private earlierStatements(context: ConversationContext): Array<{ source: string; text: string }> {
+    const exchanges = context.conversationHistory
+      .slice(0, -1)
+      .map((exchange, index) => ({ exchange, source: `E${index + 1}` }))
+      .filter(({ exchange }) => !exchange.supersededBy)
+      .map(({ exchange, source }) => {
+        const entities = exchange.analysis?.extractedEntities || []
+        return { source, text: `${exchange.userResponse}${entities.length > 0 ? ` (entities: ${entities.join(', ')})` : ''}` }
+      })
+
+    const assumptions = (context.assumptions || [])
+      .flatMap(set => set.assumptions)
+      .filter(assumption => assumption.validatedBy === 'user' && !assumption.supersededBy)
+      .map(assumption => ({ source: assumption.id, text: `Accepted assumption: ${assumption.assumption}` }))
+
+    return [...exchanges, ...assumptions]
+  }
+
+  private buildConsistencyPrompt(
+    context: ConversationContext,
+    earlier: Array<{ source: string; text: string }>
+  ): string {
+    const history = context.conversationHistory
+    const latest = history[history.length - 1]
+    const entities = latest.analysis?.extractedEntities || []
+
+    return `You check a ${context.domain} product discovery conversation for contradictions.
+
+EARLIER STATEMENTS:
+${earlier.map(statement => `[${statement.source}] ${statement.text}`).join('\n')}
+
+NEW STATEMENT [E${history.length}]:
+${latest.userResponse}
+Entities: ${entities.join(', ') || 'None'}
+
+INSTRUCTIONS:
+1. Report only direct conflicts: the new statement and an earlier one cannot both be true of the same product
+2. Refinements, additions and changes of emphasis are not contradictions
+3. Cite the earlier statement's label (E1, E2 or the assumption id) in "conflictingSource"
+4. Write one short, neutral clarification question that names both positions and asks which holds
+5. Return an empty list when nothing conflicts
+
+You must respond with valid JSON only, no other text. Use this exact format:
+{
+  "contradictions": [
+    {
+      "topic": "target customers",
+      "newStatement": "What the new statement claims",
+      "conflictingSource": "E2",
+      "conflictingStatement": "What the earlier statement claimed",
+      "severity": "low|medium|high",
+      "clarificationQuestion": "Earlier you said X, but now Y. Which is right?"
+    }
+  ]
+}`
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Conversation Context Normalization
+ *
+ * Fills in defaults for partially specified contexts, whether sent by API
+ * clients or seeded when the server starts a conversation.
+ */
+
+import { ConversationStage } from '../types/conversation'
+import type { ConversationContext, UserProfile } from '../types/conversation'
+
+/**
+ * Normalize conversation context with proper defaults
+ */
+export function normalizeContext(context: Partial<ConversationContext>): ConversationContext {
+  const defaultUserProfile: UserProfile = {
+    role: 'business',
+    sophisticationLevel: 'novice',
+    domainKnowledge: {},
+    engagementPattern: 'unknown'
+  }
+
+  return {
+    sessionId: context.sessionId || 'default-session',
+    userId: context.userId,
+    domain: context.domain || 'general',
+    stage: context.stage || ConversationStage.IDEA_CLARITY,
+    conversationHistory: context.conversationHistory || [],
+    userProfile: {
+      ...defaultUserProfile,
+      ...context.userProfile
+    },
+    currentQuestion: context.currentQuestion,
+    assumptions: context.assumptions,
+    memory: context.memory,
+    contradictions: context.contradictions,
+    lastUpdated: context.lastUpdated || new Date().toISOString(),
+    metadata: context.metadata || {
+      startedAt: new Date().toISOString(),
+      lastUpdated: new Date().toISOString(),
+      totalQuestions: 0,
+      escapeCount: 0
+    }
+  }
+}
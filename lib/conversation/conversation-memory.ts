@@ -0,0 +1,269 @@
+/**
+ * Conversation Memory
+ *
+ * Keeps a rolling, structured summary of the conversation (facts, decisions,
+ * open questions and entities) so prompts that only quote the last few
+ * exchanges still know what was said earlier. The summary is updated
+ * incrementally: every `updateInterval` exchanges the new ones are folded
+ * into the existing memory, and formatMemoryForPrompt() renders it within a
+ * token budget.
+ */
+
+import { openaiService } from '../openai/client'
+import { conversationMemorySchema } from '../openai/schemas'
+import { estimateTokens } from '../llm/provider'
+import { memoryConfig } from '../config/environment'
+import type {
+  AssumptionSet,
+  ConversationContext,
+  ConversationExchange,
+  ConversationMemory,
+  MemoryItem
+} from '../types/conversation'
+
+export class ConversationMemoryManager {
+  private readonly model: string
+  private readonly maxTokens: number
+  private readonly temperature: number
+  private readonly updateInterval: number
+
+  constructor(
+    model: string = 'gpt-4o-mini',
+    maxTokens: number = 1200,
+    temperature: number = 0.2,
+    updateInterval: number = memoryConfig.updateInterval
+  ) {
+    this.model = model
+    this.maxTokens = maxTokens
+    this.temperature = temperature
+    this.updateInterval = Math.max(1, updateInterval)
+  }
+
+  /**
+   * Whether enough exchanges have accumulated since the last summary
+   */
+  needsUpdate(context: ConversationContext): boolean {
+    return unsummarizedExchanges(context).length >= this.updateInterval
+  }
+
+  /**
+   * Fold new exchanges into the memory once the update interval is reached.
+   * Failures are logged and the context returned unchanged, so a summary
+   * problem never breaks a turn; the next turn retries.
+   */
+  async updateMemory(context: ConversationContext): Promise<ConversationContext> {
+    if (!this.needsUpdate(context)) {
+      return context
+    }
+
+    try {
+      return { ...context, memory: await this.summarize(context) }
+    } catch (error) {
+      console.error('Error updating conversation memory:', error)
+      return context
+    }
+  }
+
+  /**
+   * Summarize every exchange not yet in the memory, regardless of interval
+   */
+  async summarize(context: ConversationContext): Promise<ConversationMemory> {
+    const previous = context.memory || emptyMemory()
+    const from = previous.summarizedThrough
+    const newExchanges = context.conversationHistory.slice(from)
+
+    if (newExchanges.length === 0) {
+      return previous
+    }
+
+    try {
+      const prompt = this.buildMemoryPrompt(context, previous, newExchanges, from)
+
+      const { data } = await openaiService.createStructuredCompletion({
+        messages: [{ role: 'system', content: prompt }],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: conversationMemorySchema,
+        schemaName: 'ConversationMemory'
+      })
+
+      const knownLabels = context.conversationHistory.map((_, index) => `E${index + 1}`)
+      const keepKnown = (items: MemoryItem[]) => items.map(item => ({
+        statement: item.statement,
+        sources: item.sources.filter(source => knownLabels.includes(source))
+      }))
+
+      return {
+        facts: keepKnown(data.facts),
+        decisions: keepKnown(data.decisions),
+        openQuestions: keepKnown(data.openQuestions),
+        entities: this.mergeEntities(previous.entities, newExchanges),
+        summarizedThrough: context.conversationHistory.length,
+        updatedAt: new Date().toISOString()
+      }
+    } catch (error) {
+      console.error('Error summarizing conversation:', error)
+      throw new Error(`Failed to summarize conversation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Entities come straight from the per-exchange analysis; no LLM needed.
+   * Names are matched case-insensitively and ordered by mention count.
+   */
+  private mergeEntities(
+    existing: ConversationMemory['entities'],
+    exchanges: ConversationExchange[]
+  ): ConversationMemory['entities'] {
+    const entities = new Map(existing.map(entity => [entity.name.toLowerCase(), { ...entity }]))
+
+    exchanges.forEach(exchange => {
+      (exchange.analysis?.extractedEntities || []).forEach(name => {
+        const key = name.trim().toLowerCase()
+        if (!key) return
+        const entity = entities.get(key)
+        if (entity) {
+          entity.mentions++
+        } else {
+          entities.set(key, { name: name.trim(), mentions: 1 })
+        }
+      })
+    })
+
+    return Array.from(entities.values()).sort((a, b) => b.mentions - a.mentions)
+  }
+
+  private buildMemoryPrompt(
+    context: ConversationContext,
+    previous: ConversationMemory,
+    newExchanges: ConversationExchange[],
+    offset: number
+  ): string {
+    const existing = [
+      ...previous.facts.map(item => `FACT: ${item.statement} [${item.sources.join(', ')}]`),
+      ...previous.decisions.map(item => `DECISION: ${item.statement} [${item.sources.join(', ')}]`),
+      ...previous.openQuestions.map(item => `OPEN: ${item.statement} [${item.sources.join(', ')}]`)
+    ]
+
+    const exchanges = newExchanges.map((exchange, index) => {
+      const question = exchange.generatedQuestion?.question
+      return `[E${offset + index + 1}] (${exchange.stage})
+${question ? `Q: ${question}\n` : ''}A: ${exchange.userResponse}`
+    })
+
+    return `You maintain the running memory of a ${context.domain} product discovery conversation.
+
+EXISTING MEMORY:
+${existing.length > 0 ? existing.join('\n') : 'None yet'}
+
+NEW EXCHANGES:
+${exchanges.join('\n\n')}
+
+INSTRUCTIONS:
+1. Return the complete updated memory: keep existing items that still hold, merge duplicates, and add what the new exchanges establish
+2. Facts are things the user stated about their users, problem, product or constraints
+3. Decisions are choices the user has made or ruled out
+4. Open questions are things still undecided or unclear; drop them once an exchange answers them
+5. One short sentence per item; cite the exchange labels (E1, E2, ...) it came from in "sources"
+
+You must respond with valid JSON only, no other text. Use this exact format:
+{
+  "facts": [{ "statement": "Fact", "sources": ["E1"] }],
+  "decisions": [{ "statement": "Decision", "sources": ["E2"] }],
+  "openQuestions": [{ "statement": "Question", "sources": ["E3"] }]
+}`
+  }
+}
+
+/**
+ * Exchanges not yet folded into the memory
+ */
+export function unsummarizedExchanges(context: ConversationContext): ConversationExchange[] {
+  return context.conversationHistory.slice(context.memory?.summarizedThrough || 0)
+}
+
+/**
+ * Render the memory as a prompt section within a token budget. Decisions
+ * come first, then facts, open questions and entities; within each section
+ * the newest items are kept when the budget runs out.
+ */
+export function formatMemoryForPrompt(
+  memory: ConversationMemory | undefined,
+  tokenBudget: number = memoryConfig.tokenBudget
+): string {
+  if (!memory || memory.summarizedThrough === 0) {
+    return ''
+  }
+
+  const header = `CONVERSATION MEMORY (summary of exchanges 1-${memory.summarizedThrough}):`
+  let remaining = tokenBudget - estimateTokens(header)
+  const fits = (line: string) => {
+    const cost = estimateTokens(line) + 1
+    if (cost > remaining) return false
+    remaining -= cost
+    return true
+  }
+
+  const sections: string[] = []
+  const addSection = (title: string, items: MemoryItem[]) => {
+    if (items.length === 0 || !fits(title)) return
+    const kept = items
+      .map(item => `- ${item.statement}`)
+      .reverse()
+      .filter(fits)
+      .reverse()
+    if (kept.length === 0) {
+      // Nothing under the title fits, so give its tokens back
+      remaining += estimateTokens(title) + 1
+      return
+    }
+    sections.push([title, ...kept].join('\n'))
+  }
+
+  addSection('Decisions:', memory.decisions)
+  addSection('Facts:', memory.facts)
+  addSection('Open questions:', memory.openQuestions)
+
+  const entityNames: string[] = []
+  if (memory.entities.length > 0 && fits('Key entities: ')) {
+    memory.entities.forEach(entity => {
+      if (fits(`${entity.name}, `)) entityNames.push(entity.name)
+    })
+  }
+  if (entityNames.length > 0) {
+    sections.push(`Key entities: ${entityNames.join(', ')}`)
+  }
+
+  return sections.length > 0 ? `${header}\n${sections.join('\n')}` : ''
+}
+
+/**
+ * Render the assumptions the user accepted as facts for a prompt, so
+ * question generation builds on them instead of asking again
+ */
+export function formatAcceptedAssumptionsForPrompt(assumptionSets: AssumptionSet[] = []): string {
+  const accepted = assumptionSets
+    .flatMap(set => set.assumptions)
+    .filter(assumption => assumption.validatedBy === 'user' && !assumption.supersededBy)
+
+  if (accepted.length === 0) {
+    return ''
+  }
+
+  return `CONFIRMED BY THE USER (treat as facts; do not ask about these again):
+${accepted.map(assumption => `- ${assumption.assumption}`).join('\n')}`
+}
+
+function emptyMemory(): ConversationMemory {
+  return {
+    facts: [],
+    decisions: [],
+    openQuestions: [],
+    entities: [],
+    summarizedThrough: 0,
+    updatedAt: new Date().toISOString()
+  }
+}
@@ -6,15 +6,24 @@
  * and conversation analysis.
  */
 
-import { openai } from '../openai/client'
+import { openaiService } from '../openai/client'
+import { questionGenerationSchema } from '../openai/schemas'
+import { ConversationStage } from '../types/conversation'
 import type { 
   ConversationContext, 
   QuestionGenerationResult,
   UserProfile,
-  ConversationStage,
   SophisticationLevel
 } from '../types/conversation'
 import type { EnhancedResponseAnalysis } from './response-analyzer'
+import { formatAcceptedAssumptionsForPrompt, formatMemoryForPrompt } from './conversation-memory'
+import {
+  TopicCoverageTracker,
+  type CoverageMap,
+  type CoverageTopicConfig,
+  type StageCoverage,
+  type TopicCoverage
+} from './topic-coverage'
 
 export interface DomainQuestionPattern {
   stage: ConversationStage
@@ -36,6 +45,8 @@ export interface DomainExpertiseProfile {
   bestPractices: string[]
   industryStandards: string[]
   regulatoryRequirements: string[]
+  // Extra or replacement discovery topics per stage (matched by topic id)
+  coverageTopics?: CoverageTopicConfig
 }
 
 export interface QuestionGenerationStrategy {
@@ -43,11 +54,13 @@ export interface QuestionGenerationStrategy {
   priority: number
   reasoning: string
   expectedOutcomes: string[]
+  targetTopics?: string[]   // ids of uncovered topics the question should steer toward
 }
 
 export class DomainQuestionGenerator {
   private readonly model: string
   private readonly domainProfiles: Map<string, DomainExpertiseProfile>
+  private readonly coverageTrackers: Map<string, TopicCoverageTracker> = new Map()
 
   constructor(model: string = 'gpt-4o-mini') {
     this.model = model
@@ -69,42 +82,25 @@ export class DomainQuestionGenerator {
       
       const prompt = this.buildAdvancedQuestionPrompt(context, responseAnalysis, domainProfile, questionStrategy)
       
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: result, response } = await openaiService.createStructuredCompletion({
         messages: [
           {
             role: 'system',
             content: prompt
           }
         ],
-        max_tokens: 1200,
-        temperature: 0.6 // Slightly lower for more consistent domain expertise
+        options: {
+          model: this.model,
+          maxTokens: 1200,
+          temperature: 0.6 // Slightly lower for more consistent domain expertise
+        },
+        schema: questionGenerationSchema,
+        schemaName: 'QuestionGenerationResult'
       })
-
-      const content = response.choices[0].message.content || '{}'
-      let result
-      
-      try {
-        result = JSON.parse(content)
-      } catch (parseError) {
-        const jsonMatch = content.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0])
-        } else {
-          throw new Error(`Invalid JSON response from domain question generator: ${content}`)
-        }
-      }
       
       // Return result with basic metadata (keeping compatible with QuestionGenerationResult type)
       return {
-        question: result.question,
-        questionType: result.questionType,
-        sophisticationLevel: result.sophisticationLevel,
-        domainContext: result.domainContext,
-        followUpSuggestions: result.followUpSuggestions || [],
-        confidence: result.confidence || 0.8,
-        reasoning: result.reasoning,
-        expectedResponseTypes: result.expectedResponseTypes || [],
+        ...result,
         metadata: {
           model: this.model,
           tokens: response.usage?.total_tokens || 0,
@@ -118,11 +114,57 @@ export class DomainQuestionGenerator {
   }
 
   /**
-   * Determine optimal question strategy based on conversation analysis
+   * Topic coverage for every stage, using the domain's topic configuration
+   */
+  assessCoverage(context: ConversationContext): CoverageMap {
+    return this.getCoverageTracker(context.domain).assess(context)
+  }
+
+  /**
+   * Topic coverage for the current stage; the stage gate advances on this
+   */
+  assessStageCoverage(context: ConversationContext): StageCoverage {
+    return this.getCoverageTracker(context.domain).assessStage(context)
+  }
+
+  /**
+   * Topics the current stage has not covered yet, missing ones first
+   */
+  coverageGaps(context: ConversationContext): TopicCoverage[] {
+    return this.getCoverageTracker(context.domain).gaps(context)
+  }
+
+  /**
+   * Determine optimal question strategy based on conversation analysis,
+   * steering toward topics the current stage has not covered yet
    */
   private determineQuestionStrategy(
     context: ConversationContext,
     responseAnalysis: EnhancedResponseAnalysis
+  ): QuestionGenerationStrategy {
+    const strategy = this.selectBaseStrategy(context, responseAnalysis)
+    const gaps = this.coverageGaps(context)
+
+    // A confused user needs the current point clarified before new topics
+    if (gaps.length === 0 || strategy.type === 'clarification') {
+      return strategy
+    }
+
+    const labels = gaps.map(gap => gap.label)
+    return {
+      ...strategy,
+      reasoning: `${strategy.reasoning}; steer toward topics not yet covered: ${labels.join(', ')}`,
+      expectedOutcomes: [...labels.slice(0, 3).map(label => `coverage of ${label}`), ...strategy.expectedOutcomes],
+      targetTopics: gaps.map(gap => gap.id)
+    }
+  }
+
+  /**
+   * Pick a strategy from the latest response's sophistication, engagement and clarity
+   */
+  private selectBaseStrategy(
+    context: ConversationContext,
+    responseAnalysis: EnhancedResponseAnalysis
   ): QuestionGenerationStrategy {
     const conversationLength = context.conversationHistory.length
 
@@ -284,6 +326,10 @@ Industry Standards: ${domainProfile.industryStandards.join(', ')}
 Regulatory Requirements: ${domainProfile.regulatoryRequirements.join(', ')}
 Common Challenges: ${domainProfile.commonChallenges.join(', ')}
 
+${formatMemoryForPrompt(context.memory)}
+
+${formatAcceptedAssumptionsForPrompt(context.assumptions)}
+
 CONVERSATION CONTEXT:
 ${conversationHistory.slice(-2).map((h, i) => 
   `Exchange ${conversationHistory.length - 1 + i}:
@@ -292,10 +338,13 @@ ${conversationHistory.slice(-2).map((h, i) =>
   Analysis: Sophistication ${h.analysis?.sophisticationScore?.toFixed(2) || 'N/A'}, Engagement ${h.analysis?.engagementLevel?.toFixed(2) || 'N/A'}`
 ).join('\n\n')}
 
+TOPIC COVERAGE (${stage}):
+${this.assessStageCoverage(context).topics.map(topic => `- ${topic.label}: ${topic.status}`).join('\n') || '- No tracked topics'}
+
 QUESTION GENERATION TASK:
 Generate the next optimal question using strategy: ${strategy.type}
 Expected outcomes: ${strategy.expectedOutcomes.join(', ')}
-
+${strategy.targetTopics?.length ? 'Prefer a question that covers a missing or partial topic above.\n' : ''}
 REQUIREMENTS:
 1. Demonstrate expert-level ${domain} knowledge through terminology and concepts
 2. Match user's sophistication level (${sophisticationScore.toFixed(2)})
@@ -308,7 +357,7 @@ REQUIREMENTS:
 RESPONSE FORMAT (JSON only, no other text):
 {
   "question": "Your expertly crafted domain-specific question",
-  "questionType": "exploration|validation|deep-dive|clarification|technical|business",
+  "questionType": "clarification|deep-dive|technical|business|validation",
   "sophisticationLevel": "novice|intermediate|advanced|expert",
   "domainContext": "Why this question matters in ${domain} context",
   "followUpSuggestions": ["3-4 potential follow-up questions based on response type"],
@@ -330,6 +379,16 @@ RESPONSE FORMAT (JSON only, no other text):
 Remember: You are demonstrating world-class ${domain} expertise. Use appropriate industry terminology, reference real industry challenges, and show deep understanding of ${domain} business and technical requirements.`
   }
 
+  private getCoverageTracker(domain: string): TopicCoverageTracker {
+    const profile = this.getDomainProfile(domain)
+    let tracker = this.coverageTrackers.get(profile.domain)
+    if (!tracker) {
+      tracker = new TopicCoverageTracker(profile.coverageTopics)
+      this.coverageTrackers.set(profile.domain, tracker)
+    }
+    return tracker
+  }
+
   /**
    * Get comprehensive domain profile
    */
@@ -385,7 +444,15 @@ Remember: You are demonstrating world-class ${domain} expertise. Use appropriate
         'Know Your Customer (KYC)', 'Anti-Money Laundering (AML)', 'Bank Secrecy Act (BSA)',
         'Payment Card Industry (PCI) compliance', 'General Data Protection Regulation (GDPR)',
         'Sarbanes-Oxley Act (SOX)', 'Consumer Financial Protection Bureau (CFPB) rules'
-      ]
+      ],
+      coverageTopics: {
+        [ConversationStage.IDEA_CLARITY]: [
+          { id: 'monetization', label: 'how it makes money', keywords: ['pricing', 'fee', 'interchange', 'take rate', 'spread', 'subscription', 'revenue', 'commission', 'per transaction', 'monetiz*'] }
+        ],
+        [ConversationStage.TECHNICAL_SPECS]: [
+          { id: 'regulatory_compliance', label: 'KYC, AML and payments compliance', keywords: ['kyc', 'aml', 'pci', 'sox', 'licens*', 'regulat*', 'audit trail', 'sanction', 'know your customer'] }
+        ]
+      }
     })
 
     // Healthcare Domain Profile
@@ -433,7 +500,13 @@ Remember: You are demonstrating world-class ${domain} expertise. Use appropriate
         'HIPAA Privacy Rule', 'HIPAA Security Rule', 'HITECH Act',
         'FDA medical device regulations', '21 CFR Part 11', 'CMS requirements',
         'ONC certification criteria', 'State health information privacy laws'
-      ]
+      ],
+      coverageTopics: {
+        [ConversationStage.TECHNICAL_SPECS]: [
+          { id: 'phi_handling', label: 'PHI handling and HIPAA safeguards', keywords: ['phi', 'hipaa', 'baa', 'patient data', 'consent', 'de-identif*', 'audit log', 'access control'] },
+          { id: 'clinical_integrations', label: 'EHR and clinical system integrations', keywords: ['ehr', 'emr', 'fhir', 'hl7', 'epic', 'cerner', 'lab', 'pharmacy'] }
+        ]
+      }
     })
 
     // General/Business Domain Profile
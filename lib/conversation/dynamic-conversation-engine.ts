@@ -5,11 +5,20 @@
  * Replaces static question banks with dynamic, context-aware question generation.
  */
 
-import { openai } from '../openai/client'
+import { openaiService } from '../openai/client'
+import { questionGenerationSchema } from '../openai/schemas'
 import { EnhancedResponseAnalyzer, type EnhancedResponseAnalysis } from './response-analyzer'
 import { DomainQuestionGenerator } from './domain-question-generator'
 import { AdaptiveQuestioningStyleEngine, type QuestioningStyle } from './adaptive-questioning-style'
-import { AssumptionGenerator, type AssumptionPivotResult, type AssumptionSet } from './assumption-generator'
+import {
+  AssumptionGenerator,
+  type AssumptionPivotResult,
+  type AssumptionSet
+} from './assumption-generator'
+import { StageProgressionEvaluator, type StageAssessment, type StageTransition } from './stage-progression'
+import { conversationStateManager } from './state-manager'
+import { ConversationMemoryManager, formatAcceptedAssumptionsForPrompt, formatMemoryForPrompt } from './conversation-memory'
+import { ConsistencyChecker } from './consistency-checker'
 import type { 
   ConversationContext, 
   ConversationResponse, 
@@ -18,10 +27,25 @@ import type {
   ConversationStage,
   DomainExpertise,
   ConversationExchange,
+  Contradiction,
   SophisticationLevel,
   EngagementLevel
 } from '../types/conversation'
 
+// Events emitted while streaming question generation
+export type QuestionStreamEvent =
+  | { type: 'question_token'; token: string }
+  | { type: 'question'; question: QuestionGenerationResult }
+
+// Events emitted while streaming a full conversation turn
+export type ConversationTurnEvent =
+  | { type: 'analysis'; analysis: EnhancedResponseAnalysis }
+  | { type: 'escape'; shouldEscape: boolean }
+  | { type: 'stage_transition'; transition: StageTransition }
+  | { type: 'contradiction'; contradictions: Contradiction[] }
+  | QuestionStreamEvent
+  | { type: 'context'; context: ConversationContext; escapeTriggered: boolean }
+
 export class DynamicConversationEngine {
   private readonly model: string
   private readonly maxTokens: number
@@ -30,6 +54,9 @@ export class DynamicConversationEngine {
   private readonly domainQuestionGenerator: DomainQuestionGenerator
   private readonly adaptiveStyleEngine: AdaptiveQuestioningStyleEngine
   private readonly assumptionGenerator: AssumptionGenerator
+  private readonly stageEvaluator: StageProgressionEvaluator
+  private readonly memoryManager: ConversationMemoryManager
+  private readonly consistencyChecker: ConsistencyChecker
 
   constructor(
     model: string = 'gpt-4o-mini',
@@ -43,6 +70,9 @@ export class DynamicConversationEngine {
     this.domainQuestionGenerator = new DomainQuestionGenerator(model)
     this.adaptiveStyleEngine = new AdaptiveQuestioningStyleEngine(model)
     this.assumptionGenerator = new AssumptionGenerator(model)
+    this.stageEvaluator = new StageProgressionEvaluator()
+    this.memoryManager = new ConversationMemoryManager(model)
+    this.consistencyChecker = new ConsistencyChecker(model)
   }
 
   /**
@@ -108,42 +138,24 @@ export class DynamicConversationEngine {
     try {
       const prompt = this.buildQuestionGenerationPrompt(context)
       
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: result, response } = await openaiService.createStructuredCompletion({
         messages: [
           {
             role: 'system',
             content: prompt
           }
         ],
-        max_tokens: this.maxTokens,
-        temperature: this.temperature
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: questionGenerationSchema,
+        schemaName: 'QuestionGenerationResult'
       })
-
-      const content = response.choices[0].message.content || '{}'
-      let result
-      
-      try {
-        result = JSON.parse(content)
-      } catch (parseError) {
-        // If JSON parsing fails, try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0])
-        } else {
-          throw new Error(`Invalid JSON response from GPT-4: ${content}`)
-        }
-      }
       
       return {
-        question: result.question,
-        questionType: result.questionType,
-        sophisticationLevel: result.sophisticationLevel,
-        domainContext: result.domainContext,
-        followUpSuggestions: result.followUpSuggestions || [],
-        confidence: result.confidence || 0.8,
-        reasoning: result.reasoning,
-        expectedResponseTypes: result.expectedResponseTypes || [],
+        ...result,
         metadata: {
           model: this.model,
           tokens: response.usage?.total_tokens || 0,
@@ -156,6 +168,106 @@ export class DynamicConversationEngine {
     }
   }
 
+  /**
+   * Stream the next question: question text is forwarded token by token as
+   * the model writes it, followed by the validated result
+   */
+  async *streamNextQuestion(
+    context: ConversationContext
+  ): AsyncIterable<QuestionStreamEvent> {
+    try {
+      const prompt = this.buildQuestionGenerationPrompt(context)
+      const questionField = new JsonStringFieldStreamer('question')
+
+      const stream = openaiService.streamStructuredCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: prompt
+          }
+        ],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: questionGenerationSchema,
+        schemaName: 'QuestionGenerationResult'
+      })
+
+      for await (const event of stream) {
+        if (event.type === 'delta') {
+          const token = questionField.push(event.content)
+          if (token) {
+            yield { type: 'question_token', token }
+          }
+          continue
+        }
+
+        yield {
+          type: 'question',
+          question: {
+            ...event.data,
+            metadata: {
+              model: this.model,
+              tokens: event.tokens ?? 0,
+              timestamp: new Date().toISOString()
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error streaming question:', error)
+      throw new Error(`Failed to stream question: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Stream a complete conversation turn: analysis, escape decision, the next
+   * question as it is generated, then the updated context
+   */
+  async *streamConversationTurn(
+    userResponse: string,
+    context: ConversationContext
+  ): AsyncIterable<ConversationTurnEvent> {
+    const analysis = await this.analyzeResponse(userResponse, context)
+    yield { type: 'analysis', analysis }
+
+    const shouldEscape = await this.detectEscapeSignals(context)
+    yield { type: 'escape', shouldEscape }
+
+    const { context: progressedContext, transition } = this.progressStage(
+      this.updateContext(context, userResponse, analysis)
+    )
+    const { context: updatedContext, contradictions } = await this.detectContradictions(
+      await this.updateMemory(progressedContext)
+    )
+
+    if (transition) {
+      yield { type: 'stage_transition', transition }
+    }
+
+    if (contradictions.length > 0) {
+      yield { type: 'contradiction', contradictions }
+    }
+
+    const clarification = shouldEscape ? null : this.clarificationQuestion(updatedContext)
+
+    if (clarification) {
+      updatedContext.currentQuestion = clarification
+      yield { type: 'question', question: clarification }
+    } else if (!shouldEscape) {
+      for await (const event of this.streamNextQuestion(updatedContext)) {
+        if (event.type === 'question') {
+          updatedContext.currentQuestion = event.question
+        }
+        yield event
+      }
+    }
+
+    yield { type: 'context', context: updatedContext, escapeTriggered: shouldEscape }
+  }
+
   /**
    * Analyze user response using enhanced multi-dimensional analysis
    */
@@ -325,7 +437,8 @@ export class DynamicConversationEngine {
       {
         userResponse,
         analysis: responseAnalysis,
-        generatedQuestion,
+        // The question this response answers
+        generatedQuestion: generatedQuestion || context.currentQuestion,
         timestamp: new Date().toISOString(),
         stage: context.stage
       }
@@ -350,12 +463,127 @@ export class DynamicConversationEngine {
     }
   }
 
+  /**
+   * Fold recent exchanges into the rolling conversation memory every few
+   * turns. Call after updateContext; never throws.
+   */
+  async updateMemory(context: ConversationContext): Promise<ConversationContext> {
+    return this.memoryManager.updateMemory(context)
+  }
+
+  /**
+   * Check the latest exchange against earlier answers and accepted
+   * assumptions, recording contradictions and the statements they supersede.
+   * Answering a clarification question resolves its contradiction. Call
+   * after updateContext; never throws.
+   */
+  async detectContradictions(
+    context: ConversationContext
+  ): Promise<{ context: ConversationContext; contradictions: Contradiction[] }> {
+    return this.consistencyChecker.checkLatest(context)
+  }
+
+  /**
+   * Ask the user to settle the oldest open contradiction, without a model
+   * call. Null when nothing is open.
+   */
+  clarificationQuestion(context: ConversationContext): QuestionGenerationResult | null {
+    const contradiction = (context.contradictions || []).find(item => item.status === 'open')
+    if (!contradiction) {
+      return null
+    }
+
+    return {
+      question: contradiction.clarificationQuestion,
+      questionType: 'clarification',
+      sophisticationLevel: context.userProfile.sophisticationLevel,
+      domainContext: context.domain,
+      followUpSuggestions: [],
+      confidence: 1,
+      reasoning: `Resolves a contradiction about ${contradiction.topic} between ${contradiction.previous.source} and ${contradiction.current.source}`,
+      expectedResponseTypes: ['clarification'],
+      metadata: {
+        model: this.model,
+        tokens: 0,
+        timestamp: new Date().toISOString(),
+        contradictionId: contradiction.id
+      }
+    }
+  }
+
+  /**
+   * Assess whether the current stage has enough information to move on
+   */
+  assessStage(context: ConversationContext): StageAssessment {
+    return this.stageEvaluator.evaluate(context, this.domainQuestionGenerator.assessStageCoverage(context))
+  }
+
+  /**
+   * Advance to the next stage once the current one is complete. Call after
+   * updateContext so the latest exchange counts towards the assessment.
+   * Nothing is recorded here: the turn may still fail to save, so the state
+   * manager is synced with syncConversationState once it has.
+   */
+  progressStage(
+    context: ConversationContext
+  ): { context: ConversationContext; transition: StageTransition | null } {
+    const transition = this.stageEvaluator.buildTransition(this.assessStage(context))
+    const progressedContext = transition
+      ? { ...context, stage: transition.to, lastUpdated: new Date().toISOString() }
+      : context
+
+    return { context: progressedContext, transition }
+  }
+
+  /**
+   * Mirror a saved turn into the state manager: the latest exchange under the
+   * stage it was answered in, then any stage change. An exchange already
+   * recorded is not recorded again. Failures are logged rather than thrown
+   * so they never break a turn.
+   */
+  async syncConversationState(context: ConversationContext): Promise<void> {
+    try {
+      const { sessionId } = context
+      const state = await conversationStateManager.getCurrentState(sessionId)
+        || await conversationStateManager.createConversationState(sessionId, context.userId || 'anonymous')
+
+      const latest = context.conversationHistory[context.conversationHistory.length - 1]
+      const questionId = `${sessionId}-${context.conversationHistory.length}`
+      const recorded = Array.from(state.stageProgresses.values())
+        .some(progress => progress.responses.some(response => response.questionId === questionId))
+
+      let currentStage = state.currentStage
+      if (latest && !recorded) {
+        if (currentStage !== latest.stage) {
+          await conversationStateManager.updateCurrentStage(sessionId, latest.stage)
+          currentStage = latest.stage
+        }
+
+        await conversationStateManager.recordQuestionResponse(sessionId, {
+          questionId,
+          question: latest.generatedQuestion?.question || '',
+          answer: latest.userResponse,
+          timestamp: new Date(latest.timestamp),
+          confidence: latest.analysis?.clarityScore ?? 0,
+          isSkipped: false
+        })
+      }
+
+      if (currentStage !== context.stage) {
+        await conversationStateManager.updateCurrentStage(sessionId, context.stage)
+      }
+    } catch (error) {
+      console.error('Error syncing conversation state:', error)
+    }
+  }
+
   /**
    * Build prompt for dynamic question generation
    */
   private buildQuestionGenerationPrompt(context: ConversationContext): string {
     const { userProfile, conversationHistory, stage, domain } = context
     const domainExpertise = this.getDomainExpertise(domain)
+    const stillToCover = this.domainQuestionGenerator.coverageGaps(context).map(gap => gap.label)
     
     return `You are an expert ${domain} consultant conducting an intelligent product discovery conversation.
 
@@ -365,12 +593,17 @@ CONTEXT:
 - User Sophistication: ${userProfile.sophisticationLevel}
 - User Role: ${userProfile.role}
 - Previous Questions: ${conversationHistory.length}
+- Still To Cover In This Stage: ${stillToCover.join(', ') || 'Nothing specific'}
 
 USER PROFILE:
 - Industry Experience: ${userProfile.domainKnowledge?.experience || 'Unknown'}
 - Technical Depth: ${userProfile.domainKnowledge?.technicalDepth || 'Unknown'}
 - Communication Style: ${userProfile.engagementPattern || 'Unknown'}
 
+${formatMemoryForPrompt(context.memory)}
+
+${formatAcceptedAssumptionsForPrompt(context.assumptions)}
+
 CONVERSATION HISTORY:
 ${conversationHistory.slice(-3).map(h => `Q: ${h.generatedQuestion?.question}\nA: ${h.userResponse}`).join('\n\n')}
 
@@ -385,7 +618,7 @@ Generate the next optimal question that:
 2. Builds upon previous responses
 3. Demonstrates domain expertise
 4. Feels natural and conversational
-5. Advances toward the conversation goal
+5. Advances toward the conversation goal, prioritising anything still to cover
 
 You must respond with valid JSON only, no other text. Use this exact format:
 {
@@ -417,6 +650,8 @@ CONVERSATION CONTEXT:
 - Previous Sophistication Level: ${context.userProfile.sophisticationLevel}
 - Response #: ${context.conversationHistory.length + 1}
 
+${formatMemoryForPrompt(context.memory)}
+
  ANALYSIS REQUIRED:
 1. Sophistication Level (0-1): Technical depth and domain knowledge demonstrated
 2. Engagement Level (0-1): Interest and participation quality
@@ -515,4 +750,66 @@ You must respond with valid JSON only, no other text. Use this exact format:
     if (avgEngagement >= 0.4) return 'moderately-engaged'
     return 'disengaged'
   }
-} 
\ No newline at end of file
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+}
+
+/**
+ * Pulls one string field out of a JSON object while it is still streaming,
+ * so its text can be forwarded before the object is complete
+ */
+class JsonStringFieldStreamer {
+  private buffer = ''
+  private cursor = -1
+  private finished = false
+
+  constructor(private readonly field: string) {}
+
+  /**
+   * Append a raw delta and return any newly decoded characters of the field
+   */
+  push(delta: string): string {
+    this.buffer += delta
+    if (this.finished) return ''
+
+    if (this.cursor < 0) {
+      const match = new RegExp(`"${this.field}"\\s*:\\s*"`).exec(this.buffer)
+      if (!match) return ''
+      this.cursor = match.index + match[0].length
+    }
+
+    let decoded = ''
+    while (this.cursor < this.buffer.length) {
+      const char = this.buffer[this.cursor]
+
+      if (char === '"') {
+        this.finished = true
+        break
+      }
+
+      if (char !== '\\') {
+        decoded += char
+        this.cursor++
+        continue
+      }
+
+      // Escape sequences may be split across deltas; wait for the rest
+      const code = this.buffer[this.cursor + 1]
+      if (code === undefined) break
+
+      if (code === 'u') {
+        const hex = this.buffer.slice(this.cursor + 2, this.cursor + 6)
+        if (hex.length < 4) break
+        decoded += String.fromCharCode(parseInt(hex, 16))
+        this.cursor += 6
+      } else {
+        decoded += JSON_ESCAPES[code] ?? code
+        this.cursor += 2
+      }
+    }
+
+    return decoded
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Heuristic Response Analyzer
+ *
+ * Builds a full EnhancedResponseAnalysis without a model call, from the
+ * profile heuristics (linguistic complexity, role keywords and patterns,
+ * industry keywords) plus phrase patterns for escape signals. Used when the
+ * LLM fails or the budget is used up, and as the first tier in the tiered
+ * analysis mode, where `analysisConfidence.overall` decides whether to
+ * escalate to the model.
+ */
+
+import {
+  analyzeLinguisticComplexity,
+  classifyIndustryByKeywords,
+  detectRoleByPatterns
+} from '../profile/detection-heuristics'
+import { Industry } from '../profile/industry-classifier'
+import type { EnhancedResponseAnalysis } from './response-analyzer'
+import type {
+  ConversationContext,
+  Domain,
+  EscapeSignals,
+  SophisticationLevel
+} from '../types/conversation'
+
+type EscapeKind = 'fatigue' | 'impatience' | 'expertise' | 'confusion' | 'redirect'
+
+// Phrases that signal the user wants the conversation to change course
+const ESCAPE_PATTERNS: Record<EscapeKind, RegExp[]> = {
+  fatigue: [
+    /\b(tired|exhausted|worn out)\b/i,
+    /\b(too many|enough|so many) questions\b/i,
+    /\bthis is taking (too |so )?long\b/i,
+    /\b(can we )?wrap (this |it )?up\b/i,
+    /^\s*(whatever|idk|dunno|ok|fine|sure)[.!]?\s*$/i
+  ],
+  impatience: [
+    /\b(hurry|asap|quickly|faster|get to the point)\b/i,
+    /\b(move on|skip (this|ahead)|next question)\b/i,
+    /\b(already (told|said|answered)|as i said)\b/i
+  ],
+  expertise: [
+    /\bi know (this|how|what)\b/i,
+    /\bi'?ve (built|done|shipped) (this|these|it|many)\b/i,
+    /\b(\d+|many|several) years of experience\b/i,
+    /\bskip the basics\b/i,
+    /\bas an? (engineer|developer|architect|cto|founder|expert)\b/i
+  ],
+  confusion: [
+    /\b(not sure what you mean|what do you mean|i don'?t understand|confus(ed|ing)|unclear)\b/i,
+    /\bcan you (explain|clarify|rephrase)\b/i,
+    /\bno idea\b/i
+  ],
+  redirect: [
+    /\b(just|please) (show|give|generate|create|build) me\b/i,
+    /\b(show|give) me the\b/i,
+    /\b(jump|skip|go straight|take me) to\b/i,
+    /\blet'?s (see|get) the\b/i
+  ]
+}
+
+// Destinations a redirect can name, in the order they are checked
+const REDIRECT_DESTINATIONS: Array<{ destination: string; pattern: RegExp }> = [
+  { destination: 'wireframes', pattern: /\b(wireframes?|mockups?|screens?|designs?)\b/i },
+  { destination: 'tasks', pattern: /\b(tasks?|task list|tickets|backlog)\b/i },
+  { destination: 'prd', pattern: /\b(prd|requirements|spec(ification)?|document)\b/i },
+  { destination: 'assumptions', pattern: /\b(assumptions?|summary|recommendations?)\b/i }
+]
+
+const POSITIVE_WORDS = /\b(great|love|excited|excellent|awesome|perfect|happy|glad|good|thanks|helpful)\b/gi
+const NEGATIVE_WORDS = /\b(frustrat\w*|annoy\w*|hate|bad|terrible|boring|pointless|waste|problem with|worried)\b/gi
+const STOP_WORDS = ['the', 'and', 'for', 'with', 'that', 'this', 'what', 'your', 'you', 'are', 'how', 'who', 'which', 'will', 'would', 'have', 'does', 'from', 'into', 'about']
+
+// Industry classifier labels that differ from conversation domains
+const INDUSTRY_DOMAINS: Partial<Record<Industry, Domain>> = {
+  [Industry.CONSUMER]: 'consumer_apps'
+}
+
+export class HeuristicResponseAnalyzer {
+  /**
+   * Analyze a response locally. Never calls the model.
+   */
+  analyze(userResponse: string, context: ConversationContext): EnhancedResponseAnalysis {
+    const text = userResponse.trim()
+    const words = text.match(/\b[\w'-]+\b/g) || []
+    const sentences = text.split(/[.!?]+/).filter(sentence => sentence.trim().length > 0)
+
+    const linguistic = analyzeLinguisticComplexity(text)
+    const role = detectRoleByPatterns(text)
+    const industry = classifyIndustryByKeywords(text)
+
+    // Pattern hits are reported as "Pattern: <regex>"; only named terms are entities
+    const technicalTerms = role.indicators.technical.filter(indicator => !indicator.startsWith('Pattern:'))
+    const businessTerms = role.indicators.business.filter(indicator => !indicator.startsWith('Pattern:'))
+    const industryDomain = INDUSTRY_DOMAINS[industry.topIndustry] || (industry.topIndustry as Domain)
+    const onDomain = industry.topIndustry !== Industry.GENERAL && industryDomain === context.domain
+
+    const escapes = this.detectEscapes(text, words.length)
+    const escapeSignals = this.toEscapeSignals(escapes)
+
+    // Sophistication
+    const technicalLanguage = this.clamp(technicalTerms.length / 4)
+    const businessAcumen = this.clamp(businessTerms.length / 3)
+    const domainSpecificity = this.clamp(industry.keywords.length / (onDomain ? 3 : 5))
+    const complexityHandling = this.clamp(linguistic.overallScore / 100)
+    const communicationClarity = this.clamp(1 - Math.abs(linguistic.avgSentenceLength - 16) / 30)
+    // A stated background counts for more than the wording of one answer
+    const sophisticationScore = this.clamp(
+      this.average([technicalLanguage, businessAcumen, domainSpecificity, complexityHandling]) +
+      (escapes.expertise.length > 0 ? 0.2 : 0)
+    )
+
+    // Clarity
+    const entities = this.extractEntities([...industry.keywords, ...technicalTerms, ...businessTerms])
+    const specificity = this.clamp(0.2 + entities.length * 0.15 + (/\d/.test(text) ? 0.2 : 0))
+    const structuredThinking = /(^|\n)\s*([-*•]|\d+[.)])\s/.test(text) ? 0.8 : sentences.length > 1 ? 0.6 : 0.4
+    const completeness = this.clamp(words.length / 40)
+    const relevance = this.scoreRelevance(text, context)
+    const actionability = /\b(need|needs|must|should|will|want|wants|require[sd]?)\b/i.test(text) ? 0.7 : 0.4
+    const clarityScore = this.average([specificity, structuredThinking, completeness, relevance, actionability])
+
+    // Engagement
+    const positive = (text.match(POSITIVE_WORDS) || []).length
+    const negative = (text.match(NEGATIVE_WORDS) || []).length
+    const disengaged = escapes.fatigue.length > 0 || escapes.impatience.length > 0
+    const enthusiasm = this.clamp(0.4 + positive * 0.15 + (text.includes('!') ? 0.1 : 0) - negative * 0.15)
+    const interestLevel = this.clamp(words.length / 30 - (disengaged ? 0.3 : 0))
+    const proactiveness = /\b(also|additionally|we could|i'?d like|it would be|what if)\b/i.test(text) ? 0.7 : 0.4
+    const collaborativeSpirit = this.clamp(0.6 + (positive > 0 ? 0.1 : 0) - (disengaged ? 0.3 : 0))
+    const engagementLevel = this.average([enthusiasm, interestLevel, completeness, proactiveness, collaborativeSpirit])
+
+    const level = this.toLevel(sophisticationScore)
+    const signalCount = entities.length + sentences.length
+    const overall = this.clamp(
+      0.2 + Math.min(words.length, 60) / 60 * 0.3 + Math.min(signalCount, 8) / 8 * 0.3 + (onDomain ? 0.1 : 0)
+    )
+
+    return {
+      sophisticationScore: this.round(sophisticationScore),
+      engagementLevel: this.round(engagementLevel),
+      clarityScore: this.round(clarityScore),
+      domainKnowledge: {
+        technicalDepth: this.toLevel(technicalLanguage),
+        businessAcumen: this.toLevel(businessAcumen),
+        industryExperience: onDomain ? (domainSpecificity >= 0.6 ? 'deep' : 'moderate') : 'limited',
+        specificAreas: entities.slice(0, 5)
+      },
+      escapeSignals,
+      extractedEntities: entities,
+      sentiment: positive > 0 && negative > 0 ? 'mixed' : positive > 0 ? 'positive' : negative > 0 ? 'negative' : 'neutral',
+      suggestedAdaptations: this.suggestAdaptations(escapes, level),
+      nextQuestionHints: entities.length > 0 ? [`Explore ${entities[0]} in more depth`] : ['Ask for a concrete example'],
+      sophisticationBreakdown: {
+        technicalLanguage: this.round(technicalLanguage),
+        domainSpecificity: this.round(domainSpecificity),
+        complexityHandling: this.round(complexityHandling),
+        businessAcumen: this.round(businessAcumen),
+        communicationClarity: this.round(communicationClarity)
+      },
+      clarityMetrics: {
+        specificity: this.round(specificity),
+        structuredThinking,
+        completeness: this.round(completeness),
+        relevance: this.round(relevance),
+        actionability
+      },
+      engagementMetrics: {
+        enthusiasm: this.round(enthusiasm),
+        interestLevel: this.round(interestLevel),
+        participationQuality: this.round(completeness),
+        proactiveness,
+        collaborativeSpirit: this.round(collaborativeSpirit)
+      },
+      advancedEscapeSignals: {
+        fatigue: {
+          detected: escapes.fatigue.length > 0,
+          confidence: this.signalConfidence(escapes.fatigue),
+          indicators: escapes.fatigue
+        },
+        expertise: {
+          detected: escapes.expertise.length > 0,
+          confidence: this.signalConfidence(escapes.expertise),
+          suggestedSkipLevel: level === 'expert' ? 'advanced' : level === 'advanced' ? 'intermediate' : 'basics'
+        },
+        impatience: {
+          detected: escapes.impatience.length > 0,
+          confidence: this.signalConfidence(escapes.impatience),
+          urgencyLevel: escapes.impatience.length > 1 ? 'high' : escapes.impatience.length > 0 ? 'moderate' : 'mild'
+        },
+        confusion: {
+          detected: escapes.confusion.length > 0,
+          confidence: this.signalConfidence(escapes.confusion),
+          supportLevel: escapes.confusion.length > 1 ? 'guidance' : 'clarification'
+        },
+        redirect: {
+          detected: escapes.redirect.length > 0,
+          confidence: this.signalConfidence(escapes.redirect),
+          requestedDestination: escapes.redirect.length > 0 ? this.redirectDestination(text) : null
+        }
+      },
+      adaptationRecommendations: {
+        nextQuestionComplexity: escapes.confusion.length > 0 ? this.lowerLevel(level) : level,
+        suggestedApproach: escapes.confusion.length > 0
+          ? 'exploratory'
+          : technicalLanguage > businessAcumen ? 'technical' : businessAcumen > 0 ? 'business' : 'validating',
+        toneAdjustment: escapes.confusion.length > 0 || negative > positive ? 'more_empathetic' : 'maintain',
+        pacingRecommendation: escapes.redirect.length > 0 || escapes.fatigue.length > 0
+          ? 'pivot'
+          : escapes.impatience.length > 0 || escapes.expertise.length > 0
+            ? 'speed_up'
+            : escapes.confusion.length > 0 ? 'slow_down' : 'maintain',
+        topicFocus: entities.slice(0, 3)
+      },
+      analysisConfidence: {
+        overall: this.round(overall),
+        sophistication: this.round(this.clamp(overall - 0.1)),
+        clarity: this.round(overall),
+        engagement: this.round(this.clamp(overall - 0.05)),
+        escapeSignals: escapeSignals.detected ? escapeSignals.confidence : 0.6
+      },
+      metadata: {
+        model: 'heuristic',
+        tokens: 0,
+        timestamp: new Date().toISOString(),
+        responseLength: userResponse.length,
+        analysisSource: 'heuristic'
+      }
+    }
+  }
+
+  /**
+   * Sophistication level from the same linguistic and keyword signals
+   */
+  quickSophistication(userResponse: string): { level: SophisticationLevel; confidence: number; keyIndicators: string[] } {
+    const linguistic = analyzeLinguisticComplexity(userResponse)
+    const role = detectRoleByPatterns(userResponse)
+    const terms = [...role.indicators.technical, ...role.indicators.business].filter(indicator => !indicator.startsWith('Pattern:'))
+    const score = this.average([linguistic.overallScore / 100, this.clamp(terms.length / 5)])
+
+    return {
+      level: this.toLevel(score),
+      confidence: this.round(this.clamp(0.3 + terms.length * 0.05, 0, 0.7)),
+      keyIndicators: terms.slice(0, 5)
+    }
+  }
+
+  private detectEscapes(text: string, wordCount: number): Record<EscapeKind, string[]> {
+    const escapes = {} as Record<EscapeKind, string[]>
+    const kinds = Object.keys(ESCAPE_PATTERNS) as EscapeKind[]
+
+    kinds.forEach(kind => {
+      escapes[kind] = ESCAPE_PATTERNS[kind]
+        .map(pattern => text.match(pattern)?.[0].trim())
+        .filter((match): match is string => !!match)
+    })
+
+    // One- or two-word answers deep into a conversation read as fatigue
+    if (wordCount > 0 && wordCount <= 2 && escapes.fatigue.length === 0) {
+      escapes.fatigue.push('very short answer')
+    }
+
+    return escapes
+  }
+
+  // Collapse the detailed signals into the single escape type the engine acts on
+  private toEscapeSignals(escapes: Record<EscapeKind, string[]>): EscapeSignals {
+    const ranked: Array<{ kind: EscapeKind; type: EscapeSignals['type'] }> = [
+      { kind: 'redirect', type: 'impatience' },
+      { kind: 'impatience', type: 'impatience' },
+      { kind: 'fatigue', type: 'boredom' },
+      { kind: 'expertise', type: 'expert_skip' },
+      { kind: 'confusion', type: 'confusion' }
+    ]
+    const strongest = ranked.find(({ kind }) => escapes[kind].length > 0 && escapes[kind][0] !== 'very short answer')
+
+    if (!strongest) {
+      return { detected: false, type: null, confidence: 0.1, indicators: [] }
+    }
+
+    return {
+      detected: true,
+      type: strongest.type,
+      confidence: this.signalConfidence(escapes[strongest.kind]),
+      indicators: escapes[strongest.kind]
+    }
+  }
+
+  private redirectDestination(text: string): string | null {
+    return REDIRECT_DESTINATIONS.find(({ pattern }) => pattern.test(text))?.destination || null
+  }
+
+  // Share of the last question's content words the answer repeats
+  private scoreRelevance(text: string, context: ConversationContext): number {
+    const question = context.currentQuestion?.question
+    if (!question) return 0.6
+
+    const questionWords = (question.toLowerCase().match(/\b[a-z]{3,}\b/g) || []).filter(word => !STOP_WORDS.includes(word))
+    const answer = text.toLowerCase()
+    const shared = questionWords.filter(word => answer.includes(word.replace(/s$/, ''))).length
+
+    return this.clamp(0.4 + shared * 0.15)
+  }
+
+  private extractEntities(terms: string[]): string[] {
+    const seen: string[] = []
+    terms.forEach(term => {
+      const normalized = term.toLowerCase()
+      if (!seen.includes(normalized)) seen.push(normalized)
+    })
+    return seen.slice(0, 8)
+  }
+
+  private suggestAdaptations(escapes: Record<EscapeKind, string[]>, level: SophisticationLevel): string[] {
+    if (escapes.confusion.length > 0) return ['simplify language', 'offer examples']
+    if (escapes.redirect.length > 0 || escapes.fatigue.length > 0) return ['offer to jump to assumptions or deliverables']
+    if (escapes.impatience.length > 0) return ['ask fewer, broader questions']
+    if (escapes.expertise.length > 0) return ['skip the basics', `match ${level} depth`]
+    return [`match ${level} depth`]
+  }
+
+  private signalConfidence(indicators: string[]): number {
+    if (indicators.length === 0) return 0.1
+    return indicators[0] === 'very short answer' ? 0.4 : this.round(this.clamp(0.6 + (indicators.length - 1) * 0.15, 0, 0.9))
+  }
+
+  private toLevel(score: number): SophisticationLevel {
+    if (score >= 0.75) return 'expert'
+    if (score >= 0.5) return 'advanced'
+    if (score >= 0.25) return 'intermediate'
+    return 'novice'
+  }
+
+  private lowerLevel(level: SophisticationLevel): SophisticationLevel {
+    const levels: SophisticationLevel[] = ['novice', 'intermediate', 'advanced', 'expert']
+    return levels[Math.max(0, levels.indexOf(level) - 1)]
+  }
+
+  private average(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length
+  }
+
+  private clamp(value: number, min = 0, max = 1): number {
+    return Math.max(min, Math.min(max, value))
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * PRD Generator
+ *
+ * Turns a completed discovery conversation into a structured Product
+ * Requirements Document. Every conversation exchange and assumption is given
+ * a citation label (E1, E2, A1, ...) in the prompt; each PRD section cites the
+ * labels it was derived from so reviewers can trace it back to the source.
+ */
+
+import { openaiService } from '../openai/client'
+import { prdSchema, type PRDOutput } from '../openai/schemas'
+import type {
+  Assumption,
+  ConversationContext,
+  ConversationStage,
+  Domain
+} from '../types/conversation'
+
+export interface PRDSource {
+  id: string
+  type: 'exchange' | 'assumption'
+  excerpt: string
+  stage?: ConversationStage
+  timestamp?: string
+  accepted?: boolean
+}
+
+export interface PRDDocument extends PRDOutput {
+  sources: PRDSource[]
+  metadata: {
+    sessionId: string
+    domain: Domain
+    generatedAt: string
+    model: string
+    tokens: number
+    exchangeCount: number
+    assumptionCount: number
+  }
+}
+
+export class PRDGenerator {
+  private readonly model: string
+  private readonly maxTokens: number
+  private readonly temperature: number
+
+  constructor(
+    model: string = 'gpt-4o-mini',
+    maxTokens: number = 3000,
+    temperature: number = 0.3
+  ) {
+    this.model = model
+    this.maxTokens = maxTokens
+    this.temperature = temperature
+  }
+
+  /**
+   * Generate a PRD from the conversation history and its assumptions
+   */
+  async generatePRD(context: ConversationContext): Promise<PRDDocument> {
+    if (context.conversationHistory.length === 0) {
+      throw new Error('Cannot generate a PRD from an empty conversation')
+    }
+
+    try {
+      const sources = this.collectSources(context)
+      const prompt = this.buildPRDPrompt(context, sources)
+
+      const { data, response } = await openaiService.createStructuredCompletion({
+        messages: [{ role: 'system', content: prompt }],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: prdSchema,
+        schemaName: 'ProductRequirementsDocument'
+      })
+
+      return {
+        ...this.dropUnknownCitations(data, sources),
+        sources,
+        metadata: {
+          sessionId: context.sessionId,
+          domain: context.domain,
+          generatedAt: new Date().toISOString(),
+          model: this.model,
+          tokens: response.usage?.total_tokens || 0,
+          exchangeCount: context.conversationHistory.length,
+          assumptionCount: sources.filter(source => source.type === 'assumption').length
+        }
+      }
+    } catch (error) {
+      console.error('Error generating PRD:', error)
+      throw new Error(`Failed to generate PRD: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Render a PRD as Markdown with inline citations and a sources appendix
+   */
+  toMarkdown(prd: PRDDocument): string {
+    const cite = (sources: string[]) => (sources.length > 0 ? ` _[${sources.join(', ')}]_` : '')
+    const lines: string[] = [
+      `# ${this.inline(prd.title)}`,
+      '',
+      `_Generated ${prd.metadata.generatedAt} from ${prd.metadata.exchangeCount} exchanges and ${prd.metadata.assumptionCount} assumptions (${prd.metadata.domain})._`,
+      ''
+    ]
+
+    if (prd.summary) {
+      lines.push('## Summary', '', this.inline(prd.summary), '')
+    }
+
+    lines.push('## Goals', '')
+    prd.goals.forEach(goal => lines.push(`- ${this.inline(goal.statement)}${cite(goal.sources)}`))
+    lines.push('')
+
+    lines.push('## Personas', '')
+    if (prd.personas.length === 0) lines.push('_None identified._', '')
+    prd.personas.forEach(persona => {
+      lines.push(`### ${this.inline(persona.name)}${cite(persona.sources)}`, '')
+      if (persona.description) lines.push(this.inline(persona.description), '')
+      persona.needs.forEach(need => lines.push(`- ${this.inline(need)}`))
+      if (persona.needs.length > 0) lines.push('')
+    })
+
+    lines.push('## User Stories', '')
+    if (prd.userStories.length === 0) lines.push('_None identified._')
+    prd.userStories.forEach((story, index) => {
+      lines.push(`${index + 1}. **${this.inline(story.persona)}**: ${this.inline(story.story)}${cite(story.sources)}`)
+      story.acceptanceCriteria.forEach(criterion => lines.push(`   - [ ] ${this.inline(criterion)}`))
+    })
+    lines.push('')
+
+    lines.push('## Functional Requirements', '')
+    if (prd.functionalRequirements.length === 0) lines.push('_None identified._')
+    prd.functionalRequirements.forEach((requirement, index) => {
+      lines.push(`${index + 1}. **${requirement.priority.toUpperCase()}** ${this.inline(requirement.requirement)}${cite(requirement.sources)}`)
+    })
+    lines.push('')
+
+    lines.push('## Non-Goals', '')
+    if (prd.nonGoals.length === 0) lines.push('_None identified._')
+    prd.nonGoals.forEach(nonGoal => lines.push(`- ${this.inline(nonGoal.statement)}${cite(nonGoal.sources)}`))
+    lines.push('')
+
+    lines.push('## Open Questions', '')
+    if (prd.openQuestions.length === 0) lines.push('_None._')
+    prd.openQuestions.forEach(item => {
+      lines.push(`- ${this.inline(item.question)}${item.reason ? ` (${this.inline(item.reason)})` : ''}${cite(item.sources)}`)
+    })
+    lines.push('')
+
+    lines.push('## Sources', '')
+    prd.sources.forEach(source => {
+      const label = source.type === 'exchange'
+        ? `exchange, ${source.stage}`
+        : `assumption, ${source.accepted ? 'accepted' : 'unconfirmed'}`
+      lines.push(`- **${source.id}** (${label}): ${this.inline(source.excerpt)}`)
+    })
+
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Render a PRD as pretty-printed JSON
+   */
+  toJSON(prd: PRDDocument): string {
+    return JSON.stringify(prd, null, 2)
+  }
+
+  /**
+   * Label every exchange and assumption so the model can cite them
+   */
+  private collectSources(context: ConversationContext): PRDSource[] {
+    const exchanges: PRDSource[] = context.conversationHistory.map((exchange, index) => ({
+      id: `E${index + 1}`,
+      type: 'exchange',
+      excerpt: this.truncate(exchange.userResponse),
+      stage: exchange.stage,
+      timestamp: exchange.timestamp
+    }))
+
+    const assumptions: PRDSource[] = (context.assumptions || [])
+      .flatMap(set => set.assumptions)
+      .map((assumption, index) => ({
+        id: `A${index + 1}`,
+        type: 'assumption',
+        excerpt: this.truncate(assumption.assumption),
+        accepted: this.isAccepted(assumption)
+      }))
+
+    return [...exchanges, ...assumptions]
+  }
+
+  private buildPRDPrompt(context: ConversationContext, sources: PRDSource[]): string {
+    const exchanges = context.conversationHistory.map((exchange, index) => {
+      const entities = exchange.analysis?.extractedEntities || []
+      const question = exchange.generatedQuestion?.question
+      return `[E${index + 1}] (${exchange.stage})
+${question ? `Q: ${question}\n` : ''}A: ${exchange.userResponse}
+Entities: ${entities.length > 0 ? entities.join(', ') : 'None'}`
+    })
+
+    const assumptions = sources
+      .filter(source => source.type === 'assumption')
+      .map(source => `[${source.id}] (${source.accepted ? 'ACCEPTED' : 'UNCONFIRMED'}) ${source.excerpt}`)
+
+    return `You are a senior product manager writing a Product Requirements Document for a ${context.domain} product, based only on a discovery conversation.
+
+CONTEXT:
+- Domain: ${context.domain}
+- Final Stage: ${context.stage}
+- User Role: ${context.userProfile.role}
+
+CONVERSATION EXCHANGES:
+${exchanges.join('\n\n')}
+
+ASSUMPTIONS:
+${assumptions.length > 0 ? assumptions.join('\n') : 'None'}
+
+INSTRUCTIONS:
+1. Base every statement on the exchanges and ACCEPTED assumptions above; do not invent features the user never implied
+2. Cite the labels (E1, A2, ...) each item was derived from in its "sources" array
+3. Turn UNCONFIRMED assumptions and anything ambiguous into open questions rather than requirements
+4. Write user stories as "As a <persona>, I want <capability> so that <benefit>"
+5. List explicit non-goals only where the user ruled something out or deferred it
+
+You must respond with valid JSON only, no other text. Use this exact format:
+{
+  "title": "Product name or short description",
+  "summary": "Two or three sentence overview",
+  "goals": [{ "statement": "Goal", "sources": ["E1"] }],
+  "personas": [{ "name": "Persona", "description": "Who they are", "needs": ["Need"], "sources": ["E2"] }],
+  "userStories": [{ "persona": "Persona", "story": "As a ..., I want ... so that ...", "acceptanceCriteria": ["Criterion"], "sources": ["E3"] }],
+  "functionalRequirements": [{ "requirement": "The system must ...", "priority": "must|should|could", "sources": ["E3", "A1"] }],
+  "nonGoals": [{ "statement": "Out of scope", "sources": ["E4"] }],
+  "openQuestions": [{ "question": "What ...?", "reason": "Why it matters", "sources": ["A2"] }]
+}`
+  }
+
+  /**
+   * Keep only citations that refer to real sources
+   */
+  private dropUnknownCitations(prd: PRDOutput, sources: PRDSource[]): PRDOutput {
+    const known = new Set(sources.map(source => source.id))
+    const clean = <T extends { sources: string[] }>(items: T[]): T[] =>
+      items.map(item => ({ ...item, sources: item.sources.filter(id => known.has(id)) }))
+
+    return {
+      ...prd,
+      goals: clean(prd.goals),
+      personas: clean(prd.personas),
+      userStories: clean(prd.userStories),
+      functionalRequirements: clean(prd.functionalRequirements),
+      nonGoals: clean(prd.nonGoals),
+      openQuestions: clean(prd.openQuestions)
+    }
+  }
+
+  private isAccepted(assumption: Assumption): boolean {
+    return assumption.validatedBy === 'user'
+  }
+
+  /**
+   * Keep generated and user-written text on one line and literal, so it
+   * cannot break out of its list item or add headings, links or markup
+   */
+  private inline(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().replace(/[\\`*_[\]<>#|]/g, '\\$&')
+  }
+
+  private truncate(text: string, maxLength: number = 280): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim()
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine
+  }
+}
@@ -9,7 +9,13 @@
  * - Learning pattern recognition and adaptation recommendations
  */
 
-import { openai } from '../openai/client'
+import { openaiService } from '../openai/client'
+import { analysisConfig } from '../config/environment'
+import {
+  enhancedResponseAnalysisSchema,
+  quickSophisticationSchema,
+  type EnhancedResponseAnalysisOutput
+} from '../openai/schemas'
 import type { 
   ConversationContext,
   ConversationResponse,
@@ -18,6 +24,12 @@ import type {
   SophisticationLevel,
   EngagementLevel
 } from '../types/conversation'
+import { formatMemoryForPrompt } from './conversation-memory'
+import { HeuristicResponseAnalyzer } from './heuristic-response-analyzer'
+
+// 'llm' always calls the model; 'heuristic' never does; 'tiered' calls it
+// only when the heuristic analysis is not confident enough
+export type ResponseAnalysisMode = 'llm' | 'tiered' | 'heuristic'
 
 export interface EnhancedResponseAnalysis extends ConversationResponse {
   // Enhanced sophistication analysis
@@ -99,60 +111,75 @@ export class EnhancedResponseAnalyzer {
   private readonly model: string
   private readonly maxTokens: number
   private readonly temperature: number
+  private readonly mode: ResponseAnalysisMode
+  private readonly escalationThreshold: number
+  private readonly heuristicAnalyzer: HeuristicResponseAnalyzer
 
   constructor(
     model: string = 'gpt-4o-mini',
     maxTokens: number = 1500,
-    temperature: number = 0.2  // Lower temperature for more consistent analysis
+    temperature: number = 0.2,  // Lower temperature for more consistent analysis
+    mode: ResponseAnalysisMode = analysisConfig.mode,
+    escalationThreshold: number = analysisConfig.escalationThreshold
   ) {
     this.model = model
     this.maxTokens = maxTokens
     this.temperature = temperature
+    this.mode = mode
+    this.escalationThreshold = escalationThreshold
+    this.heuristicAnalyzer = new HeuristicResponseAnalyzer()
   }
 
   /**
-   * Perform comprehensive multi-dimensional response analysis
+   * Perform comprehensive multi-dimensional response analysis. Falls back
+   * to the heuristic analysis when the model call fails or the LLM budget
+   * is used up, so a turn is never lost to analysis.
    */
   async analyzeResponse(
     userResponse: string,
     context: ConversationContext
   ): Promise<EnhancedResponseAnalysis> {
+    if (this.mode === 'heuristic') {
+      return this.heuristicAnalyzer.analyze(userResponse, context)
+    }
+
+    if (openaiService.isBudgetExhausted()) {
+      console.warn('LLM budget exhausted, using heuristic response analysis')
+      return this.heuristicAnalyzer.analyze(userResponse, context)
+    }
+
+    if (this.mode === 'tiered') {
+      const heuristic = this.heuristicAnalyzer.analyze(userResponse, context)
+      if (heuristic.analysisConfidence.overall >= this.escalationThreshold) {
+        return heuristic
+      }
+    }
+
     try {
       const prompt = this.buildEnhancedAnalysisPrompt(userResponse, context)
       
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: analysis, response } = await openaiService.createStructuredCompletion({
         messages: [
           {
             role: 'system',
             content: prompt
           }
         ],
-        max_tokens: this.maxTokens,
-        temperature: this.temperature
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: enhancedResponseAnalysisSchema,
+        schemaName: 'EnhancedResponseAnalysis'
       })
-
-      const content = response.choices[0].message.content || '{}'
-      let analysis
-      
-      try {
-        analysis = JSON.parse(content)
-      } catch (parseError) {
-        // If JSON parsing fails, try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/)
-        if (jsonMatch) {
-          analysis = JSON.parse(jsonMatch[0])
-        } else {
-          throw new Error(`Invalid JSON response from GPT-4: ${content}`)
-        }
-      }
       
       // Convert to our enhanced interface
       return this.mapToEnhancedAnalysis(analysis, userResponse, response.usage?.total_tokens || 0)
       
     } catch (error) {
-      console.error('Error in enhanced response analysis:', error)
-      throw new Error(`Failed to analyze response: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      console.error('Error in enhanced response analysis, using heuristic analysis:', error)
+      return this.heuristicAnalyzer.analyze(userResponse, context)
     }
   }
 
@@ -167,32 +194,34 @@ export class EnhancedResponseAnalyzer {
     confidence: number
     keyIndicators: string[]
   }> {
+    if (this.mode === 'heuristic' || openaiService.isBudgetExhausted()) {
+      return this.heuristicAnalyzer.quickSophistication(userResponse)
+    }
+
     const prompt = this.buildQuickSophisticationPrompt(userResponse, domain)
     
     try {
-      const response = await openai.chat.completions.create({
-        model: this.model,
+      const { data: result } = await openaiService.createStructuredCompletion({
         messages: [{ role: 'system', content: prompt }],
-        max_tokens: 300,
-        temperature: 0.1
+        options: {
+          model: this.model,
+          maxTokens: 300,
+          temperature: 0.1
+        },
+        schema: quickSophisticationSchema,
+        schemaName: 'QuickSophisticationCheck',
+        maxRepairAttempts: 1
       })
-
-      const content = response.choices[0].message.content || '{}'
-      const result = JSON.parse(content)
       
       return {
         level: result.sophisticationLevel,
         confidence: result.confidence,
-        keyIndicators: result.keyIndicators || []
+        keyIndicators: result.keyIndicators
       }
     } catch (error) {
       console.error('Error in quick sophistication check:', error)
-      // Fallback to basic assessment
-      return {
-        level: 'intermediate',
-        confidence: 0.5,
-        keyIndicators: ['fallback_assessment']
-      }
+      // Fallback to heuristic assessment
+      return this.heuristicAnalyzer.quickSophistication(userResponse)
     }
   }
 
@@ -266,6 +295,8 @@ CONTEXT:
 - Recent Conversation:
 ${conversationContext}
 
+${formatMemoryForPrompt(context.memory)}
+
 USER RESPONSE TO ANALYZE: "${userResponse}"
 
 ANALYSIS REQUIRED:
@@ -401,77 +432,21 @@ Respond with valid JSON only:
   }
 
   /**
-   * Map GPT-4 analysis result to our enhanced interface
+   * Map the schema-validated analysis to our enhanced interface
    */
   private mapToEnhancedAnalysis(
-    analysis: any, 
+    analysis: EnhancedResponseAnalysisOutput, 
     userResponse: string, 
     tokens: number
   ): EnhancedResponseAnalysis {
     return {
-      // Base ConversationResponse fields
-      sophisticationScore: analysis.sophisticationScore || 0.5,
-      engagementLevel: analysis.engagementLevel || 0.5,
-      clarityScore: analysis.clarityScore || 0.5,
-      domainKnowledge: analysis.domainKnowledge || {},
-      escapeSignals: analysis.escapeSignals || {
-        detected: false,
-        type: null,
-        confidence: 0
-      },
-      extractedEntities: analysis.extractedEntities || [],
-      sentiment: analysis.sentiment || 'neutral',
-      suggestedAdaptations: analysis.suggestedAdaptations || [],
-      nextQuestionHints: analysis.nextQuestionHints || [],
+      ...analysis,
       metadata: {
         model: this.model,
         tokens: tokens,
         timestamp: new Date().toISOString(),
-        responseLength: userResponse.length
-      },
-
-      // Enhanced fields
-      sophisticationBreakdown: analysis.sophisticationBreakdown || {
-        technicalLanguage: 0.5,
-        domainSpecificity: 0.5,
-        complexityHandling: 0.5,
-        businessAcumen: 0.5,
-        communicationClarity: 0.5
-      },
-      clarityMetrics: analysis.clarityMetrics || {
-        specificity: 0.5,
-        structuredThinking: 0.5,
-        completeness: 0.5,
-        relevance: 0.5,
-        actionability: 0.5
-      },
-      engagementMetrics: analysis.engagementMetrics || {
-        enthusiasm: 0.5,
-        interestLevel: 0.5,
-        participationQuality: 0.5,
-        proactiveness: 0.5,
-        collaborativeSpirit: 0.5
-      },
-      advancedEscapeSignals: analysis.advancedEscapeSignals || {
-        fatigue: { detected: false, confidence: 0, indicators: [] },
-        expertise: { detected: false, confidence: 0, suggestedSkipLevel: 'basics' },
-        impatience: { detected: false, confidence: 0, urgencyLevel: 'mild' },
-        confusion: { detected: false, confidence: 0, supportLevel: 'clarification' },
-        redirect: { detected: false, confidence: 0, requestedDestination: null }
-      },
-      adaptationRecommendations: analysis.adaptationRecommendations || {
-        nextQuestionComplexity: 'intermediate',
-        suggestedApproach: 'business',
-        toneAdjustment: 'maintain',
-        pacingRecommendation: 'maintain',
-        topicFocus: []
-      },
-      analysisConfidence: analysis.analysisConfidence || {
-        overall: 0.7,
-        sophistication: 0.7,
-        clarity: 0.7,
-        engagement: 0.7,
-        escapeSignals: 0.7
+        responseLength: userResponse.length,
+        analysisSource: 'llm'
       }
     }
   }
@@ -0,0 +1,268 @@
+/**
+ * Assumption Risk Register
+ *
+ * Turns an AssumptionSet into a prioritized risk register for product leads.
+ * Each assumption is scored by impact times uncertainty (1 - confidence), so
+ * a high-impact guess outranks a confident detail, and gets suggested
+ * validation experiments based on its category, validation questions and
+ * alternatives. Exports as Markdown, CSV and JSON. No LLM calls.
+ */
+
+import type { Assumption, AssumptionSet } from './assumption-generator'
+
+export type RiskPriority = 'high' | 'medium' | 'low'
+
+export interface ValidationExperiment {
+  method: string
+  description: string
+  successSignal: string
+}
+
+export interface RiskRegisterEntry {
+  id: string              // R1, R2, ... in priority order
+  assumptionId: string
+  title: string
+  description: string
+  category: Assumption['category']
+  impact: Assumption['impact']
+  confidence: number
+  uncertainty: number     // 1 - confidence
+  riskScore: number       // impact weight (1-3) x uncertainty
+  priority: RiskPriority
+  validationQuestions: string[]
+  alternatives: string[]
+  experiments: ValidationExperiment[]
+}
+
+export interface RiskRegister {
+  title: string
+  generatedAt: string
+  summary: Record<RiskPriority, number> & { total: number }
+  entries: RiskRegisterEntry[]
+}
+
+const IMPACT_WEIGHTS: Record<Assumption['impact'], number> = {
+  low: 1,
+  medium: 2,
+  high: 3
+}
+
+// Risk score thresholds for each priority band
+const HIGH_PRIORITY_SCORE = 1.2
+const MEDIUM_PRIORITY_SCORE = 0.6
+
+// The cheapest experiment that would confirm or refute each kind of assumption
+const CATEGORY_EXPERIMENTS: Record<Assumption['category'], { method: string; description: string; successSignal: string }> = {
+  user_target: {
+    method: 'Customer interviews',
+    description: 'Interview 5-8 people who match the assumed user profile about how they handle this today',
+    successSignal: 'Most interviewees recognise the problem and describe themselves as the buyer or daily user'
+  },
+  problem_definition: {
+    method: 'Workflow observation',
+    description: 'Shadow two or three users through the current process and time the painful steps',
+    successSignal: 'The pain shows up unprompted and costs meaningful time or money each week'
+  },
+  technical_requirements: {
+    method: 'Technical spike',
+    description: 'Time-box a 1-3 day prototype of the riskiest technical piece',
+    successSignal: 'The prototype meets the requirement without unplanned infrastructure or vendors'
+  },
+  business_model: {
+    method: 'Pricing test',
+    description: 'Put the proposed pricing in front of prospects (pricing page, fake door or sales call) and record reactions',
+    successSignal: 'A meaningful share of prospects accept the price or ask how to sign up'
+  },
+  constraints: {
+    method: 'Stakeholder review',
+    description: 'Review the constraint with the people who own it (legal, security, finance or operations)',
+    successSignal: 'The owner confirms the constraint and its limits in writing'
+  }
+}
+
+// Column order for spreadsheet import
+const CSV_COLUMNS = [
+  'Rank',
+  'Risk ID',
+  'Assumption',
+  'Description',
+  'Category',
+  'Impact',
+  'Confidence',
+  'Uncertainty',
+  'Risk Score',
+  'Priority',
+  'Validation Questions',
+  'Alternatives',
+  'Suggested Experiments',
+  'Success Signals'
+]
+
+export class RiskRegisterExporter {
+  /**
+   * Score, rank and attach experiments to every assumption in the set
+   */
+  build(assumptionSet: Pick<AssumptionSet, 'assumptions'>, title: string = 'Assumption Risk Register'): RiskRegister {
+    const entries = assumptionSet.assumptions
+      .map(assumption => this.toEntry(assumption))
+      .sort((a, b) =>
+        b.riskScore - a.riskScore ||
+        IMPACT_WEIGHTS[b.impact] - IMPACT_WEIGHTS[a.impact] ||
+        a.confidence - b.confidence
+      )
+      .map((entry, index) => ({ ...entry, id: `R${index + 1}` }))
+
+    const count = (priority: RiskPriority) => entries.filter(entry => entry.priority === priority).length
+
+    return {
+      title,
+      generatedAt: new Date().toISOString(),
+      summary: { total: entries.length, high: count('high'), medium: count('medium'), low: count('low') },
+      entries
+    }
+  }
+
+  /**
+   * Render as Markdown: an overview table, then one section per risk
+   */
+  toMarkdown(register: RiskRegister): string {
+    const { summary } = register
+    const lines = [
+      `# ${register.title}`,
+      '',
+      `Generated ${register.generatedAt}. ${summary.total} assumptions: ${summary.high} high, ${summary.medium} medium and ${summary.low} low priority. Ranked by impact x uncertainty.`,
+      '',
+      '| Rank | Assumption | Impact | Confidence | Risk score | Priority |',
+      '| --- | --- | --- | --- | --- | --- |',
+      ...register.entries.map(entry =>
+        `| ${entry.id} | ${this.escapeTableCell(entry.title)} | ${entry.impact} | ${this.percent(entry.confidence)} | ${entry.riskScore.toFixed(2)} | ${entry.priority} |`
+      )
+    ]
+
+    register.entries.forEach(entry => {
+      lines.push(
+        '',
+        `## ${entry.id}. ${entry.title}`,
+        '',
+        entry.description,
+        '',
+        `- **Category:** ${entry.category}`,
+        `- **Impact:** ${entry.impact}, **confidence:** ${this.percent(entry.confidence)}, **risk score:** ${entry.riskScore.toFixed(2)} (${entry.priority} priority)`
+      )
+
+      if (entry.validationQuestions.length > 0) {
+        lines.push('', '**Validation questions**', '', ...entry.validationQuestions.map(question => `- ${question}`))
+      }
+
+      if (entry.alternatives.length > 0) {
+        lines.push('', '**If this is wrong**', '', ...entry.alternatives.map(alternative => `- ${alternative}`))
+      }
+
+      lines.push('', '**Suggested experiments**', '')
+      entry.experiments.forEach(experiment => {
+        lines.push(`- [ ] **${experiment.method}:** ${experiment.description} (success signal: ${this.lowerFirst(experiment.successSignal)})`)
+      })
+    })
+
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Render as CSV, one row per risk in priority order
+   */
+  toCSV(register: RiskRegister): string {
+    const rows: string[][] = [CSV_COLUMNS]
+
+    register.entries.forEach((entry, index) => {
+      rows.push([
+        String(index + 1),
+        entry.id,
+        entry.title,
+        entry.description,
+        entry.category,
+        entry.impact,
+        entry.confidence.toFixed(2),
+        entry.uncertainty.toFixed(2),
+        entry.riskScore.toFixed(2),
+        entry.priority,
+        entry.validationQuestions.join('\n'),
+        entry.alternatives.join('\n'),
+        entry.experiments.map(experiment => `${experiment.method}: ${experiment.description}`).join('\n'),
+        entry.experiments.map(experiment => experiment.successSignal).join('\n')
+      ])
+    })
+
+    return rows.map(row => row.map(cell => this.escapeCSV(cell)).join(',')).join('\r\n') + '\r\n'
+  }
+
+  /**
+   * Render as pretty-printed JSON
+   */
+  toJSON(register: RiskRegister): string {
+    return JSON.stringify(register, null, 2) + '\n'
+  }
+
+  private toEntry(assumption: Assumption): RiskRegisterEntry {
+    const confidence = Math.max(0, Math.min(1, assumption.confidence))
+    const uncertainty = this.round(1 - confidence)
+    const riskScore = this.round(IMPACT_WEIGHTS[assumption.impact] * uncertainty)
+
+    return {
+      id: '',
+      assumptionId: assumption.id,
+      title: assumption.title,
+      description: assumption.description,
+      category: assumption.category,
+      impact: assumption.impact,
+      confidence,
+      uncertainty,
+      riskScore,
+      priority: riskScore >= HIGH_PRIORITY_SCORE ? 'high' : riskScore >= MEDIUM_PRIORITY_SCORE ? 'medium' : 'low',
+      validationQuestions: assumption.validationQuestions || [],
+      alternatives: assumption.alternatives || [],
+      experiments: this.suggestExperiments(assumption)
+    }
+  }
+
+  private suggestExperiments(assumption: Assumption): ValidationExperiment[] {
+    const base = CATEGORY_EXPERIMENTS[assumption.category] || CATEGORY_EXPERIMENTS.constraints
+    const questions = assumption.validationQuestions || []
+    const experiments: ValidationExperiment[] = [{
+      method: base.method,
+      description: questions.length > 0 ? `${base.description}, asking "${questions[0]}"` : base.description,
+      successSignal: base.successSignal
+    }]
+
+    // Only worth testing alternatives side by side when the call is uncertain
+    const alternatives = assumption.alternatives || []
+    if (alternatives.length > 0 && assumption.confidence < 0.8) {
+      experiments.push({
+        method: 'Alternative comparison',
+        description: `Present "${assumption.title}" alongside ${alternatives.map(alternative => `"${alternative}"`).join(', ')} to the same audience and compare reactions`,
+        successSignal: `"${assumption.title}" is clearly preferred over the alternatives`
+      })
+    }
+
+    return experiments
+  }
+
+  private lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1)
+  }
+
+  private percent(value: number): string {
+    return `${Math.round(value * 100)}%`
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100
+  }
+
+  private escapeTableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\s+/g, ' ')
+  }
+
+  private escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  }
+}
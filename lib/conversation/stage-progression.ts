@@ -0,0 +1,223 @@
+/**
+ * Stage Progression
+ *
+ * Decides when the current conversation stage has gathered enough information
+ * to move on. A stage is complete when its topics have been covered with
+ * sufficient clarity, or earlier when the user explicitly confirms they are
+ * ready to continue.
+ *
+ * Topic coverage is measured by the TopicCoverageTracker (see
+ * topic-coverage.ts), which question generation also steers by; the topics
+ * below are the defaults it starts from.
+ */
+
+import { ConversationStage } from '../types/conversation'
+import type { ConversationContext, ConversationExchange } from '../types/conversation'
+import type { StageCoverage } from './topic-coverage'
+
+export const STAGE_ORDER: ConversationStage[] = [
+  ConversationStage.IDEA_CLARITY,
+  ConversationStage.USER_WORKFLOW,
+  ConversationStage.TECHNICAL_SPECS,
+  ConversationStage.WIREFRAMES,
+  ConversationStage.COMPLETED
+]
+
+export interface StageTopic {
+  id: string
+  label: string
+  keywords: string[]    // whole words, plurals and simple inflections included; a trailing * matches any word starting with it
+}
+
+export interface StageRequirements {
+  topics: StageTopic[]
+  minExchanges: number
+  minClarity: number              // 0-1: average clarity across the stage's exchanges
+  confirmationCoverage: number    // 0-1: coverage needed before a user confirmation is honoured
+  transitionMessage: string
+}
+
+export interface StageAssessment {
+  stage: ConversationStage
+  nextStage: ConversationStage | null
+  exchanges: number
+  coverage: number
+  coveredTopics: string[]
+  missingTopics: string[]
+  clarity: number
+  userConfirmed: boolean
+  shouldAdvance: boolean
+  reason: 'criteria_met' | 'user_confirmed' | 'insufficient_information' | 'final_stage'
+}
+
+export interface StageTransition {
+  from: ConversationStage
+  to: ConversationStage
+  reason: 'criteria_met' | 'user_confirmed'
+  message: string
+  coverage: number
+  clarity: number
+  timestamp: string
+}
+
+const STAGE_REQUIREMENTS: Partial<Record<ConversationStage, StageRequirements>> = {
+  [ConversationStage.IDEA_CLARITY]: {
+    topics: [
+      { id: 'problem', label: 'the core problem', keywords: ['problem', 'pain', 'struggle', 'frustrat*', 'challenge', 'difficult', 'manual', 'waste', 'broken'] },
+      { id: 'target_users', label: 'who it is for', keywords: ['user', 'customer', 'client', 'audience', 'team', 'people', 'business', 'freelancer', 'owner', 'manager'] },
+      { id: 'value', label: 'the value delivered', keywords: ['solution', 'value', 'benefit', 'save', 'faster', 'easier', 'better', 'success', 'goal', 'help'] },
+      { id: 'monetization', label: 'how it makes money', keywords: ['pricing', 'price', 'subscription', 'revenue', 'charge', 'fee', 'monetiz*', 'business model', 'freemium', 'per seat', 'licens*', 'pay for'] }
+    ],
+    minExchanges: 2,
+    minClarity: 0.5,
+    confirmationCoverage: 0.6,
+    transitionMessage: "I have a clear picture of the problem and who it's for. Let's walk through how people will actually use the product."
+  },
+  [ConversationStage.USER_WORKFLOW]: {
+    topics: [
+      { id: 'primary_workflow', label: 'the main workflow', keywords: ['workflow', 'step', 'process', 'flow', 'first', 'then', 'after', 'journey', 'onboard*'] },
+      { id: 'roles', label: 'the people involved', keywords: ['admin', 'manager', 'role', 'approve', 'reviewer', 'team', 'owner', 'colleague', 'stakeholder'] },
+      { id: 'key_actions', label: 'the key actions', keywords: ['create', 'upload', 'track', 'review', 'submit', 'search', 'manage', 'pay', 'book', 'share', 'export', 'notify'] }
+    ],
+    minExchanges: 2,
+    minClarity: 0.5,
+    confirmationCoverage: 0.6,
+    transitionMessage: "That workflow makes sense. Next, let's pin down the technical requirements behind it."
+  },
+  [ConversationStage.TECHNICAL_SPECS]: {
+    topics: [
+      { id: 'integrations', label: 'integrations and data sources', keywords: ['integrat*', 'api', 'system', 'data source', 'import', 'sync', 'connect*', 'webhook', 'database'] },
+      { id: 'scale', label: 'scale and performance', keywords: ['scale', 'latency', 'performance', 'volume', 'load', 'availability', 'uptime', 'concurrent', 'real-time', 'real time'] },
+      { id: 'security', label: 'security and compliance', keywords: ['security', 'privacy', 'compliance', 'gdpr', 'hipaa', 'soc2', 'pci', 'auth', 'authenticat*', 'authoriz*', 'encrypt*', 'permission'] },
+      { id: 'data_model', label: 'the data model', keywords: ['data model', 'entity', 'entities', 'record', 'field', 'schema', 'table', 'attribute', 'relationship', 'store'] }
+    ],
+    minExchanges: 2,
+    minClarity: 0.5,
+    confirmationCoverage: 0.6,
+    transitionMessage: "Great, the technical constraints are clear. Let's sketch out the key screens."
+  },
+  [ConversationStage.WIREFRAMES]: {
+    topics: [
+      { id: 'key_screens', label: 'the key screens', keywords: ['screen', 'page', 'dashboard', 'view', 'landing', 'home', 'form', 'modal'] },
+      { id: 'content', label: 'what each screen shows', keywords: ['show', 'display', 'visible', 'see', 'information', 'chart', 'list', 'table', 'summary'] }
+    ],
+    minExchanges: 1,
+    minClarity: 0.5,
+    confirmationCoverage: 0.5,
+    transitionMessage: "That covers everything I need. I'll put together the requirements summary."
+  }
+}
+
+// Explicit signals that the user is happy with the current stage
+const CONFIRMATION_PATTERNS = [
+  /\b(move|moving) on\b/i,
+  /\bnext (stage|step|part|section)\b/i,
+  /\blet'?s (continue|proceed|move)\b/i,
+  /\bthat'?s (right|correct|everything|it|all)\b/i,
+  /\b(sounds|looks) (good|right|great)\b/i,
+  /\bnothing (else|more) to add\b/i,
+  /\bready to (continue|proceed|move)\b/i
+]
+
+export class StageProgressionEvaluator {
+  /**
+   * Assess whether the conversation should leave its current stage, given
+   * the topic coverage of that stage
+   */
+  evaluate(context: ConversationContext, stageCoverage: StageCoverage): StageAssessment {
+    const stage = context.stage
+    const nextStage = getNextStage(stage)
+    const requirements = STAGE_REQUIREMENTS[stage]
+    const stageExchanges = context.conversationHistory.filter(exchange => exchange.stage === stage)
+    const latest = stageExchanges[stageExchanges.length - 1]
+
+    if (!requirements || !nextStage) {
+      return {
+        stage,
+        nextStage: null,
+        exchanges: stageExchanges.length,
+        coverage: 1,
+        coveredTopics: [],
+        missingTopics: [],
+        clarity: this.averageClarity(stageExchanges),
+        userConfirmed: false,
+        shouldAdvance: false,
+        reason: 'final_stage'
+      }
+    }
+
+    const coveredTopics = stageCoverage.topics
+      .filter(topic => topic.status === 'covered')
+      .map(topic => topic.id)
+    const missingTopics = stageCoverage.topics
+      .filter(topic => topic.status !== 'covered')
+      .map(topic => topic.id)
+    const coverage = stageCoverage.coverage
+    const clarity = this.averageClarity(stageExchanges)
+    const userConfirmed = !!latest && this.isConfirmation(latest.userResponse)
+
+    const criteriaMet = coverage >= 1
+      && clarity >= requirements.minClarity
+      && stageExchanges.length >= requirements.minExchanges
+    const confirmedEarly = userConfirmed && coverage >= requirements.confirmationCoverage
+
+    return {
+      stage,
+      nextStage,
+      exchanges: stageExchanges.length,
+      coverage,
+      coveredTopics,
+      missingTopics,
+      clarity,
+      userConfirmed,
+      shouldAdvance: criteriaMet || confirmedEarly,
+      reason: criteriaMet ? 'criteria_met' : confirmedEarly ? 'user_confirmed' : 'insufficient_information'
+    }
+  }
+
+  /**
+   * Build the transition for an assessment that should advance
+   */
+  buildTransition(assessment: StageAssessment): StageTransition | null {
+    if (!assessment.shouldAdvance || !assessment.nextStage) return null
+
+    return {
+      from: assessment.stage,
+      to: assessment.nextStage,
+      reason: assessment.reason === 'user_confirmed' ? 'user_confirmed' : 'criteria_met',
+      message: STAGE_REQUIREMENTS[assessment.stage]?.transitionMessage || `Moving on to ${assessment.nextStage}.`,
+      coverage: assessment.coverage,
+      clarity: assessment.clarity,
+      timestamp: new Date().toISOString()
+    }
+  }
+
+  private averageClarity(exchanges: ConversationExchange[]): number {
+    const scores = exchanges
+      .map(exchange => exchange.analysis?.clarityScore)
+      .filter((score): score is number => typeof score === 'number')
+
+    if (scores.length === 0) return 0
+    return scores.reduce((a, b) => a + b, 0) / scores.length
+  }
+
+  private isConfirmation(userResponse: string): boolean {
+    return CONFIRMATION_PATTERNS.some(pattern => pattern.test(userResponse))
+  }
+}
+
+/**
+ * Topics a stage must cover before it can complete
+ */
+export function getStageTopics(stage: ConversationStage): StageTopic[] {
+  return STAGE_REQUIREMENTS[stage]?.topics || []
+}
+
+/**
+ * Stage that follows the given one, or null once the conversation is complete
+ */
+export function getNextStage(stage: ConversationStage): ConversationStage | null {
+  const index = STAGE_ORDER.indexOf(stage)
+  if (index < 0 || index >= STAGE_ORDER.length - 1) return null
+  return STAGE_ORDER[index + 1]
+}
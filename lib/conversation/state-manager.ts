@@ -7,16 +7,19 @@ import {
   ConversationMetrics,
   IConversationStateManager 
 } from '../types/conversation';
+import { ConversationStateStore, createConversationStateStore } from './state-storage';
 
 /**
- * In-memory conversation state manager for MVP
- * TODO: Replace with database persistence in production
+ * Conversation state manager
+ * State lives in a ConversationStateStore (memory, Redis or Supabase, see
+ * CONVERSATION_STATE_STORE). Every mutation loads, updates and saves the
+ * whole state, so any instance can serve any session.
  */
 export class ConversationStateManager implements IConversationStateManager {
-  private states: Map<string, ConversationState> = new Map();
+  constructor(private readonly store: ConversationStateStore = createConversationStateStore()) {}
 
   async getCurrentState(sessionId: string): Promise<ConversationState | null> {
-    return this.states.get(sessionId) || null;
+    return this.store.get(sessionId);
   }
 
   async createConversationState(sessionId: string, userId: string): Promise<ConversationState> {
@@ -37,19 +40,16 @@ export class ConversationStateManager implements IConversationStateManager {
       updatedAt: now
     };
 
-    this.states.set(sessionId, initialState);
+    await this.store.save(initialState);
     return initialState;
   }
 
   async updateCurrentStage(sessionId: string, stage: ConversationStage): Promise<void> {
-    const state = this.states.get(sessionId);
-    if (!state) {
-      throw new Error(`Conversation state not found for session: ${sessionId}`);
-    }
+    const state = await this.requireState(sessionId);
 
     // Mark previous stage as completed if moving forward
     if (this.isStageProgression(state.currentStage, stage)) {
-      await this.markStageComplete(sessionId, state.currentStage);
+      this.completeStage(state, state.currentStage);
     }
 
     // Update current stage
@@ -64,14 +64,12 @@ export class ConversationStateManager implements IConversationStateManager {
     }
 
     // Recalculate overall progress
-    state.overallProgress = await this.calculateOverallProgress(sessionId);
+    state.overallProgress = this.computeOverallProgress(state);
+    await this.store.save(state);
   }
 
   async recordQuestionResponse(sessionId: string, response: QuestionResponse): Promise<void> {
-    const state = this.states.get(sessionId);
-    if (!state) {
-      throw new Error(`Conversation state not found for session: ${sessionId}`);
-    }
+    const state = await this.requireState(sessionId);
 
     const currentStageProgress = state.stageProgresses.get(state.currentStage);
     if (!currentStageProgress) {
@@ -91,97 +89,45 @@ export class ConversationStateManager implements IConversationStateManager {
     state.updatedAt = new Date();
     
     // Recalculate progress
-    state.overallProgress = await this.calculateOverallProgress(sessionId);
+    state.overallProgress = this.computeOverallProgress(state);
+    await this.store.save(state);
   }
 
   async markStageComplete(sessionId: string, stage: ConversationStage): Promise<void> {
-    const state = this.states.get(sessionId);
-    if (!state) {
-      throw new Error(`Conversation state not found for session: ${sessionId}`);
-    }
-
-    const stageProgress = state.stageProgresses.get(stage);
-    if (!stageProgress) {
-      throw new Error(`Stage progress not found for stage: ${stage}`);
-    }
-
-    stageProgress.status = StageStatus.COMPLETED;
-    stageProgress.completionTime = new Date();
-    state.updatedAt = new Date();
-
-    // If this is the last stage, mark conversation as completed
-    if (stage === ConversationStage.WIREFRAMES) {
-      state.currentStage = ConversationStage.COMPLETED;
-    }
-
-    // Recalculate progress
-    state.overallProgress = await this.calculateOverallProgress(sessionId);
+    const state = await this.requireState(sessionId);
+    this.completeStage(state, stage);
+    await this.store.save(state);
   }
 
   async calculateOverallProgress(sessionId: string): Promise<number> {
-    const state = this.states.get(sessionId);
-    if (!state) return 0;
-
-    const stages = [
-      ConversationStage.IDEA_CLARITY,
-      ConversationStage.USER_WORKFLOW,
-      ConversationStage.TECHNICAL_SPECS,
-      ConversationStage.WIREFRAMES
-    ];
-
-    let totalWeight = 0;
-    let completedWeight = 0;
-
-    for (const stage of stages) {
-      const stageProgress = state.stageProgresses.get(stage);
-      if (!stageProgress) continue;
-
-      const weight = 25; // Each stage is 25% of total progress
-      totalWeight += weight;
-
-      if (stageProgress.status === StageStatus.COMPLETED) {
-        completedWeight += weight;
-      } else if (stageProgress.status === StageStatus.IN_PROGRESS) {
-        // Partial progress based on answered questions
-        const stageCompletion = stageProgress.totalQuestions > 0 
-          ? (stageProgress.answeredQuestions / stageProgress.totalQuestions) 
-          : 0;
-        completedWeight += weight * stageCompletion;
-      }
-    }
-
-    return totalWeight > 0 ? Math.round((completedWeight / totalWeight) * 100) : 0;
+    const state = await this.store.get(sessionId);
+    return state ? this.computeOverallProgress(state) : 0;
   }
 
   async getStageProgress(sessionId: string, stage: ConversationStage): Promise<StageProgress | null> {
-    const state = this.states.get(sessionId);
+    const state = await this.store.get(sessionId);
     if (!state) return null;
 
     return state.stageProgresses.get(stage) || null;
   }
 
   async triggerEscape(sessionId: string, stage: ConversationStage): Promise<void> {
-    const state = this.states.get(sessionId);
-    if (!state) {
-      throw new Error(`Conversation state not found for session: ${sessionId}`);
-    }
+    const state = await this.requireState(sessionId);
 
     state.escapeTriggered = true;
     state.escapeStage = stage;
     state.escapeTimestamp = new Date();
     state.updatedAt = new Date();
+    await this.store.save(state);
   }
 
   async isEscapeTriggered(sessionId: string): Promise<boolean> {
-    const state = this.states.get(sessionId);
+    const state = await this.store.get(sessionId);
     return state?.escapeTriggered || false;
   }
 
   async getConversationMetrics(sessionId: string): Promise<ConversationMetrics> {
-    const state = this.states.get(sessionId);
-    if (!state) {
-      throw new Error(`Conversation state not found for session: ${sessionId}`);
-    }
+    const state = await this.requireState(sessionId);
 
     const totalDuration = this.calculateTotalDuration(state);
     const averageResponseTime = this.calculateAverageResponseTime(state);
@@ -204,14 +150,8 @@ export class ConversationStateManager implements IConversationStateManager {
   }
 
   async getAggregateMetrics(timeRange?: { start: Date; end: Date }): Promise<ConversationMetrics> {
-    const allStates = Array.from(this.states.values());
-    
-    // Filter by time range if provided
-    const filteredStates = timeRange 
-      ? allStates.filter(state => 
-          state.createdAt >= timeRange.start && state.createdAt <= timeRange.end
-        )
-      : allStates;
+    // Sessions from every instance, filtered by time range in the store
+    const filteredStates = await this.store.list(timeRange);
 
     if (filteredStates.length === 0) {
       return {
@@ -259,6 +199,65 @@ export class ConversationStateManager implements IConversationStateManager {
   }
 
   // Helper methods
+  private async requireState(sessionId: string): Promise<ConversationState> {
+    const state = await this.store.get(sessionId);
+    if (!state) {
+      throw new Error(`Conversation state not found for session: ${sessionId}`);
+    }
+    return state;
+  }
+
+  private completeStage(state: ConversationState, stage: ConversationStage): void {
+    const stageProgress = state.stageProgresses.get(stage);
+    if (!stageProgress) {
+      throw new Error(`Stage progress not found for stage: ${stage}`);
+    }
+
+    stageProgress.status = StageStatus.COMPLETED;
+    stageProgress.completionTime = new Date();
+    state.updatedAt = new Date();
+
+    // If this is the last stage, mark conversation as completed
+    if (stage === ConversationStage.WIREFRAMES) {
+      state.currentStage = ConversationStage.COMPLETED;
+    }
+
+    // Recalculate progress
+    state.overallProgress = this.computeOverallProgress(state);
+  }
+
+  private computeOverallProgress(state: ConversationState): number {
+    const stages = [
+      ConversationStage.IDEA_CLARITY,
+      ConversationStage.USER_WORKFLOW,
+      ConversationStage.TECHNICAL_SPECS,
+      ConversationStage.WIREFRAMES
+    ];
+
+    let totalWeight = 0;
+    let completedWeight = 0;
+
+    for (const stage of stages) {
+      const stageProgress = state.stageProgresses.get(stage);
+      if (!stageProgress) continue;
+
+      const weight = 25; // Each stage is 25% of total progress
+      totalWeight += weight;
+
+      if (stageProgress.status === StageStatus.COMPLETED) {
+        completedWeight += weight;
+      } else if (stageProgress.status === StageStatus.IN_PROGRESS) {
+        // Partial progress based on answered questions
+        const stageCompletion = stageProgress.totalQuestions > 0 
+          ? (stageProgress.answeredQuestions / stageProgress.totalQuestions) 
+          : 0;
+        completedWeight += weight * stageCompletion;
+      }
+    }
+
+    return totalWeight > 0 ? Math.round((completedWeight / totalWeight) * 100) : 0;
+  }
+
   private createInitialStageProgress(stage: ConversationStage): StageProgress {
     return {
       stage,
@@ -0,0 +1,298 @@
+import type { Redis } from '@upstash/redis';
+import { redis } from '../redis/client';
+import { redisConfig, storageConfig } from '../config/environment';
+import {
+  ConversationState,
+  ConversationStage,
+  StageProgress
+} from '../types/conversation';
+
+/**
+ * Conversation state storage adapters
+ *
+ * ConversationStateManager reads and writes whole ConversationState objects
+ * through one of these. State is stored in a JSON-safe form: the
+ * stageProgresses Map becomes an array of [stage, progress] entries and
+ * Dates become ISO strings, revived on load.
+ */
+
+export interface ConversationStateStore {
+  get(sessionId: string): Promise<ConversationState | null>;
+  save(state: ConversationState): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  list(timeRange?: { start: Date; end: Date }): Promise<ConversationState[]>;
+}
+
+type SerializedStageProgress = Omit<StageProgress, 'startTime' | 'completionTime' | 'responses'> & {
+  startTime?: string;
+  completionTime?: string;
+  responses: Array<Omit<StageProgress['responses'][number], 'timestamp'> & { timestamp: string }>;
+};
+
+export interface SerializedConversationState
+  extends Omit<ConversationState, 'stageProgresses' | 'escapeTimestamp' | 'createdAt' | 'updatedAt'> {
+  stageProgresses: Array<[ConversationStage, SerializedStageProgress]>;
+  escapeTimestamp?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function serializeConversationState(state: ConversationState): SerializedConversationState {
+  return {
+    ...state,
+    stageProgresses: Array.from(state.stageProgresses.entries()).map(([stage, progress]) => [
+      stage,
+      {
+        ...progress,
+        startTime: progress.startTime?.toISOString(),
+        completionTime: progress.completionTime?.toISOString(),
+        responses: progress.responses.map(response => ({
+          ...response,
+          timestamp: new Date(response.timestamp).toISOString()
+        }))
+      }
+    ]),
+    escapeTimestamp: state.escapeTimestamp?.toISOString(),
+    createdAt: state.createdAt.toISOString(),
+    updatedAt: state.updatedAt.toISOString()
+  };
+}
+
+export function deserializeConversationState(data: SerializedConversationState): ConversationState {
+  return {
+    ...data,
+    stageProgresses: new Map(
+      data.stageProgresses.map(([stage, progress]): [ConversationStage, StageProgress] => [
+        stage,
+        {
+          ...progress,
+          startTime: progress.startTime ? new Date(progress.startTime) : undefined,
+          completionTime: progress.completionTime ? new Date(progress.completionTime) : undefined,
+          responses: progress.responses.map(response => ({
+            ...response,
+            timestamp: new Date(response.timestamp)
+          }))
+        }
+      ])
+    ),
+    escapeTimestamp: data.escapeTimestamp ? new Date(data.escapeTimestamp) : undefined,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt)
+  };
+}
+
+function inTimeRange(state: ConversationState, timeRange?: { start: Date; end: Date }): boolean {
+  return !timeRange || (state.createdAt >= timeRange.start && state.createdAt <= timeRange.end);
+}
+
+/**
+ * In-process store for tests and local development. Round-trips through the
+ * serialized form so callers never share references with stored state, the
+ * same as with a remote store.
+ */
+export class MemoryConversationStateStore implements ConversationStateStore {
+  private states: Map<string, SerializedConversationState> = new Map();
+
+  async get(sessionId: string): Promise<ConversationState | null> {
+    const data = this.states.get(sessionId);
+    return data ? deserializeConversationState(data) : null;
+  }
+
+  async save(state: ConversationState): Promise<void> {
+    this.states.set(state.sessionId, serializeConversationState(state));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.states.delete(sessionId);
+  }
+
+  async list(timeRange?: { start: Date; end: Date }): Promise<ConversationState[]> {
+    return Array.from(this.states.values())
+      .map(deserializeConversationState)
+      .filter(state => inTimeRange(state, timeRange));
+  }
+}
+
+/**
+ * Upstash Redis store. Each state is a JSON value with the session TTL; a
+ * sorted set scored by createdAt indexes sessions for aggregate metrics.
+ */
+export class RedisConversationStateStore implements ConversationStateStore {
+  private static readonly KEY_PREFIX = 'conversation_state:';
+  private static readonly INDEX_KEY = 'conversation_state:index';
+
+  constructor(
+    private readonly client: Redis = redis,
+    private readonly ttlSeconds: number = redisConfig.ttl.session
+  ) {}
+
+  async get(sessionId: string): Promise<ConversationState | null> {
+    try {
+      const data = await this.client.get<SerializedConversationState>(this.key(sessionId));
+      return data ? deserializeConversationState(data) : null;
+    } catch (error) {
+      console.error('Error reading conversation state from Redis:', error);
+      throw new Error(`Failed to read conversation state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async save(state: ConversationState): Promise<void> {
+    try {
+      await this.client
+        .pipeline()
+        .set(this.key(state.sessionId), serializeConversationState(state), { ex: this.ttlSeconds })
+        .zadd(RedisConversationStateStore.INDEX_KEY, { score: state.createdAt.getTime(), member: state.sessionId })
+        .exec();
+    } catch (error) {
+      console.error('Error writing conversation state to Redis:', error);
+      throw new Error(`Failed to save conversation state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await this.client
+        .pipeline()
+        .del(this.key(sessionId))
+        .zrem(RedisConversationStateStore.INDEX_KEY, sessionId)
+        .exec();
+    } catch (error) {
+      console.error('Error deleting conversation state from Redis:', error);
+      throw new Error(`Failed to delete conversation state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async list(timeRange?: { start: Date; end: Date }): Promise<ConversationState[]> {
+    try {
+      const sessionIds = timeRange
+        ? await this.client.zrange<string[]>(
+            RedisConversationStateStore.INDEX_KEY,
+            timeRange.start.getTime(),
+            timeRange.end.getTime(),
+            { byScore: true }
+          )
+        : await this.client.zrange<string[]>(RedisConversationStateStore.INDEX_KEY, 0, -1);
+
+      if (sessionIds.length === 0) return [];
+
+      const values = await this.client.mget<Array<SerializedConversationState | null>>(
+        ...sessionIds.map(sessionId => this.key(sessionId))
+      );
+
+      // Index entries outlive states that expired through their TTL
+      const expired = sessionIds.filter((_, index) => !values[index]);
+      if (expired.length > 0) {
+        await this.client.zrem(RedisConversationStateStore.INDEX_KEY, ...expired);
+      }
+
+      return values
+        .filter((value): value is SerializedConversationState => !!value)
+        .map(deserializeConversationState);
+    } catch (error) {
+      console.error('Error listing conversation states from Redis:', error);
+      throw new Error(`Failed to list conversation states: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private key(sessionId: string): string {
+    return `${RedisConversationStateStore.KEY_PREFIX}${sessionId}`;
+  }
+}
+
+/**
+ * Supabase / Postgres store, one row per session in `conversation_states`
+ * (supabase/migrations/20261019000000_conversation_states.sql).
+ *
+ * The Supabase client is loaded on first use so the other stores work
+ * without it installed.
+ */
+export class SupabaseConversationStateStore implements ConversationStateStore {
+  private static readonly TABLE = 'conversation_states';
+
+  async get(sessionId: string): Promise<ConversationState | null> {
+    const client = await this.client();
+    const { data, error } = await client
+      .from(SupabaseConversationStateStore.TABLE)
+      .select('state')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read conversation state: ${error.message}`);
+    }
+
+    return data ? deserializeConversationState(data.state as SerializedConversationState) : null;
+  }
+
+  async save(state: ConversationState): Promise<void> {
+    const client = await this.client();
+    const { error } = await client
+      .from(SupabaseConversationStateStore.TABLE)
+      .upsert({
+        session_id: state.sessionId,
+        user_id: state.userId,
+        current_stage: state.currentStage,
+        state: serializeConversationState(state),
+        created_at: state.createdAt.toISOString(),
+        updated_at: state.updatedAt.toISOString()
+      }, { onConflict: 'session_id' });
+
+    if (error) {
+      throw new Error(`Failed to save conversation state: ${error.message}`);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const client = await this.client();
+    const { error } = await client
+      .from(SupabaseConversationStateStore.TABLE)
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to delete conversation state: ${error.message}`);
+    }
+  }
+
+  async list(timeRange?: { start: Date; end: Date }): Promise<ConversationState[]> {
+    const client = await this.client();
+    let query = client
+      .from(SupabaseConversationStateStore.TABLE)
+      .select('state');
+
+    if (timeRange) {
+      query = query
+        .gte('created_at', timeRange.start.toISOString())
+        .lte('created_at', timeRange.end.toISOString());
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list conversation states: ${error.message}`);
+    }
+
+    return (data || []).map((row: { state: SerializedConversationState }) => deserializeConversationState(row.state));
+  }
+
+  private async client() {
+    const { supabaseAdmin } = await import('../supabase/client');
+    return supabaseAdmin;
+  }
+}
+
+/**
+ * Store selected by CONVERSATION_STATE_STORE
+ */
+export function createConversationStateStore(
+  kind: typeof storageConfig.conversationState = storageConfig.conversationState
+): ConversationStateStore {
+  switch (kind) {
+    case 'redis':
+      return new RedisConversationStateStore();
+    case 'supabase':
+      return new SupabaseConversationStateStore();
+    default:
+      return new MemoryConversationStateStore();
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Task List Generator
+ *
+ * Breaks a generated PRD (or an accepted assumption set when the user escaped
+ * before a PRD was written) into a hierarchical implementation plan: parent
+ * tasks with sub-tasks, relevant files and acceptance criteria. Exports to
+ * Markdown checklists, JSON and CSV for Jira / Linear import.
+ */
+
+import { openaiService } from '../openai/client'
+import { taskListSchema, type TaskListOutput } from '../openai/schemas'
+import type { PRDDocument } from './prd-generator'
+import type { AssumptionSet } from './assumption-generator'
+
+export type TaskListSource =
+  | { type: 'prd'; prd: PRDDocument }
+  | { type: 'assumptions'; assumptionSet: AssumptionSet }
+
+export interface SubTask {
+  id: string                     // "1.1", "1.2", ...
+  title: string
+  description: string
+  acceptanceCriteria: string[]
+  relevantFiles: string[]
+}
+
+export interface ParentTask {
+  id: string                     // "1.0", "2.0", ...
+  title: string
+  description: string
+  acceptanceCriteria: string[]
+  sources: string[]              // PRD requirement / story / assumption labels
+  subTasks: SubTask[]
+}
+
+export interface TaskList {
+  title: string
+  relevantFiles: Array<{ path: string; description: string }>
+  tasks: ParentTask[]
+  metadata: {
+    generatedFrom: TaskListSource['type']
+    generatedAt: string
+    model: string
+    tokens: number
+    taskCount: number
+    subTaskCount: number
+  }
+}
+
+// Column order matches the CSV importers in Jira and Linear
+const CSV_COLUMNS = [
+  'Issue ID',
+  'Parent ID',
+  'Issue Type',
+  'Summary',
+  'Description',
+  'Acceptance Criteria',
+  'Relevant Files',
+  'Labels'
+]
+
+export class TaskListGenerator {
+  private readonly model: string
+  private readonly maxTokens: number
+  private readonly temperature: number
+
+  constructor(
+    model: string = 'gpt-4o-mini',
+    maxTokens: number = 3000,
+    temperature: number = 0.2
+  ) {
+    this.model = model
+    this.maxTokens = maxTokens
+    this.temperature = temperature
+  }
+
+  /**
+   * Generate a task list from a PRD or an accepted assumption set
+   */
+  async generateTaskList(source: TaskListSource): Promise<TaskList> {
+    try {
+      const prompt = this.buildTaskListPrompt(source)
+
+      const { data, response } = await openaiService.createStructuredCompletion({
+        messages: [{ role: 'system', content: prompt }],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: taskListSchema,
+        schemaName: 'TaskList'
+      })
+
+      const tasks = this.numberTasks(data)
+
+      return {
+        title: data.title,
+        relevantFiles: data.relevantFiles,
+        tasks,
+        metadata: {
+          generatedFrom: source.type,
+          generatedAt: new Date().toISOString(),
+          model: this.model,
+          tokens: response.usage?.total_tokens || 0,
+          taskCount: tasks.length,
+          subTaskCount: tasks.reduce((count, task) => count + task.subTasks.length, 0)
+        }
+      }
+    } catch (error) {
+      console.error('Error generating task list:', error)
+      throw new Error(`Failed to generate task list: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Render as a Markdown checklist in the style of generate-tasks.md
+   */
+  toMarkdown(taskList: TaskList): string {
+    const lines: string[] = [`# ${this.inline(taskList.title)}`, '']
+
+    if (taskList.relevantFiles.length > 0) {
+      lines.push('## Relevant Files', '')
+      taskList.relevantFiles.forEach(file => {
+        lines.push(`- \`${file.path}\`${file.description ? ` - ${this.inline(file.description)}` : ''}`)
+      })
+      lines.push('')
+    }
+
+    lines.push('## Tasks', '')
+    taskList.tasks.forEach(task => {
+      const sources = task.sources.length > 0 ? ` _[${task.sources.join(', ')}]_` : ''
+      lines.push(`- [ ] ${task.id} ${this.inline(task.title)}${sources}`)
+      task.acceptanceCriteria.forEach(criterion => lines.push(`  - _Done when:_ ${this.inline(criterion)}`))
+
+      task.subTasks.forEach(subTask => {
+        lines.push(`  - [ ] ${subTask.id} ${this.inline(subTask.title)}`)
+        subTask.acceptanceCriteria.forEach(criterion => lines.push(`    - _Done when:_ ${this.inline(criterion)}`))
+        if (subTask.relevantFiles.length > 0) {
+          lines.push(`    - _Files:_ ${subTask.relevantFiles.map(path => `\`${path}\``).join(', ')}`)
+        }
+      })
+    })
+
+    return lines.join('\n') + '\n'
+  }
+
+  /**
+   * Render as pretty-printed JSON
+   */
+  toJSON(taskList: TaskList): string {
+    return JSON.stringify(taskList, null, 2)
+  }
+
+  /**
+   * Render as CSV: one row per task, sub-tasks reference their parent
+   */
+  toCSV(taskList: TaskList): string {
+    const rows: string[][] = [CSV_COLUMNS]
+
+    taskList.tasks.forEach(task => {
+      rows.push([
+        task.id,
+        '',
+        'Task',
+        task.title,
+        task.description,
+        task.acceptanceCriteria.join('\n'),
+        '',
+        task.sources.join(' ')
+      ])
+
+      task.subTasks.forEach(subTask => {
+        rows.push([
+          subTask.id,
+          task.id,
+          'Sub-task',
+          subTask.title,
+          subTask.description,
+          subTask.acceptanceCriteria.join('\n'),
+          subTask.relevantFiles.join(' '),
+          ''
+        ])
+      })
+    })
+
+    return rows.map(row => row.map(cell => this.escapeCSV(cell)).join(',')).join('\r\n') + '\r\n'
+  }
+
+  private buildTaskListPrompt(source: TaskListSource): string {
+    const input = source.type === 'prd'
+      ? this.describePRD(source.prd)
+      : this.describeAssumptions(source.assumptionSet)
+
+    return `You are a senior engineering lead turning product requirements into an implementation plan for a junior developer.
+
+${input}
+
+INSTRUCTIONS:
+1. Create 3-8 parent tasks covering every requirement above; order them so dependencies come first
+2. Break each parent task into concrete sub-tasks small enough to finish in under a day
+3. Give every parent and sub-task testable acceptance criteria
+4. List the files likely to be created or modified, with a one-line description each
+5. Cite the labels (FR1, US2, A1, ...) each parent task implements in its "sources" array
+
+You must respond with valid JSON only, no other text. Use this exact format:
+{
+  "title": "Tasks for <product>",
+  "relevantFiles": [{ "path": "app/example/page.tsx", "description": "What this file does" }],
+  "tasks": [
+    {
+      "title": "Parent task",
+      "description": "What this delivers",
+      "acceptanceCriteria": ["Criterion"],
+      "sources": ["FR1"],
+      "subTasks": [
+        { "title": "Sub-task", "description": "Details", "acceptanceCriteria": ["Criterion"], "relevantFiles": ["app/example/page.tsx"] }
+      ]
+    }
+  ]
+}`
+  }
+
+  private describePRD(prd: PRDDocument): string {
+    const requirements = prd.functionalRequirements
+      .map((requirement, index) => `[FR${index + 1}] (${requirement.priority}) ${requirement.requirement}`)
+    const stories = prd.userStories
+      .map((story, index) => `[US${index + 1}] ${story.story}${story.acceptanceCriteria.length > 0 ? ` | Criteria: ${story.acceptanceCriteria.join('; ')}` : ''}`)
+
+    return `PRODUCT: ${prd.title}
+${prd.summary}
+
+GOALS:
+${prd.goals.map(goal => `- ${goal.statement}`).join('\n') || 'None'}
+
+FUNCTIONAL REQUIREMENTS:
+${requirements.join('\n') || 'None'}
+
+USER STORIES:
+${stories.join('\n') || 'None'}
+
+NON-GOALS (do not plan work for these):
+${prd.nonGoals.map(nonGoal => `- ${nonGoal.statement}`).join('\n') || 'None'}`
+  }
+
+  private describeAssumptions(assumptionSet: AssumptionSet): string {
+    const assumptions = assumptionSet.assumptions
+      .map((assumption, index) => `[A${index + 1}] (${assumption.category}, ${assumption.impact} impact) ${assumption.title}: ${assumption.description}`)
+
+    return `ACCEPTED ASSUMPTIONS (treat these as requirements):
+${assumptions.join('\n')}
+
+MISSING INFORMATION (add discovery sub-tasks where it blocks work):
+${assumptionSet.missingCriticalInfo.map(item => `- ${item}`).join('\n') || 'None'}`
+  }
+
+  /**
+   * Assign "1.0" / "1.1" style identifiers
+   */
+  private numberTasks(data: TaskListOutput): ParentTask[] {
+    return data.tasks.map((task, taskIndex) => ({
+      id: `${taskIndex + 1}.0`,
+      title: task.title,
+      description: task.description,
+      acceptanceCriteria: task.acceptanceCriteria,
+      sources: task.sources,
+      subTasks: task.subTasks.map((subTask, subIndex) => ({
+        id: `${taskIndex + 1}.${subIndex + 1}`,
+        ...subTask
+      }))
+    }))
+  }
+
+  /**
+   * Keep generated text on one line and literal, so it cannot break out of
+   * its checklist item or add headings, links or markup
+   */
+  private inline(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().replace(/[\\`*_[\]<>#|]/g, '\\$&')
+  }
+
+  private escapeCSV(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  }
+}
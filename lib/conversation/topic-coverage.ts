@@ -0,0 +1,163 @@
+/**
+ * Topic Coverage
+ *
+ * Tracks which discovery topics the conversation has covered so far (target
+ * users, core problem, monetization, data model, integrations, compliance,
+ * ...). Each stage has a list of topics; every exchange that mentions a
+ * topic's keywords, in the answer or its extracted entities, adds evidence
+ * weighted by the answer's clarity score. Assumptions the user accepted
+ * count as clear answers. Enough evidence marks the topic covered, some
+ * marks it partial, none leaves it missing.
+ *
+ * The stage topics from stage-progression are the defaults; domain
+ * profiles can replace a topic (same id) or add their own. The same
+ * coverage decides when a stage is complete and steers the next question.
+ */
+
+import { ConversationStage } from '../types/conversation'
+import type { ConversationContext } from '../types/conversation'
+import { STAGE_ORDER, getStageTopics, type StageTopic } from './stage-progression'
+
+export type TopicCoverageStatus = 'covered' | 'partial' | 'missing'
+
+export interface TopicCoverage {
+  id: string
+  label: string
+  status: TopicCoverageStatus
+  score: number         // 0-1 accumulated evidence
+  sources: string[]     // exchange labels (E1, E2, ...) and accepted assumption ids that mention the topic
+}
+
+export interface StageCoverage {
+  stage: ConversationStage
+  coverage: number      // 0-1: covered topics count 1, partial ones 0.5
+  topics: TopicCoverage[]
+}
+
+export type CoverageMap = Partial<Record<ConversationStage, StageCoverage>>
+
+export type CoverageTopicConfig = Partial<Record<ConversationStage, StageTopic[]>>
+
+interface CoverageEvidence {
+  source: string
+  text: string
+  clarity: number
+}
+
+// Evidence needed to call a topic covered
+const COVERED_THRESHOLD = 0.6
+
+// Used when an exchange has no clarity score
+const DEFAULT_CLARITY = 0.5
+
+const keywordPatterns = new Map<string, RegExp>()
+
+// Keywords match whole words so short ones ('api', 'phi', 'lab') do not
+// fire inside unrelated words ('capital', 'sophisticated', 'available')
+function keywordPattern(keyword: string): RegExp {
+  let pattern = keywordPatterns.get(keyword)
+  if (!pattern) {
+    const prefix = keyword.endsWith('*')
+    const escaped = keyword.replace(/\*$/, '').toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    pattern = new RegExp(`\\b${escaped}${prefix ? '\\w*' : '(?:s|es|d|ed|ing)?'}\\b`)
+    keywordPatterns.set(keyword, pattern)
+  }
+  return pattern
+}
+
+export class TopicCoverageTracker {
+  private readonly topics: CoverageTopicConfig
+
+  constructor(overrides: CoverageTopicConfig = {}) {
+    this.topics = {}
+    STAGE_ORDER.forEach(stage => {
+      const merged = this.mergeTopics(getStageTopics(stage), overrides[stage] || [])
+      if (merged.length > 0) this.topics[stage] = merged
+    })
+  }
+
+  /**
+   * Topics tracked for a stage
+   */
+  topicsFor(stage: ConversationStage): StageTopic[] {
+    return this.topics[stage] || []
+  }
+
+  /**
+   * Coverage for every stage that has topics
+   */
+  assess(context: ConversationContext): CoverageMap {
+    const map: CoverageMap = {}
+    STAGE_ORDER.forEach(stage => {
+      if (this.topics[stage]) map[stage] = this.assessStage(context, stage)
+    })
+    return map
+  }
+
+  /**
+   * Coverage of one stage's topics across the whole conversation, since
+   * users often answer ahead of or behind the current stage
+   */
+  assessStage(context: ConversationContext, stage: ConversationStage = context.stage): StageCoverage {
+    const evidence = this.collectEvidence(context)
+    const topics = this.topicsFor(stage).map(topic => this.assessTopic(topic, evidence))
+    const coverage = topics.length === 0
+      ? 1
+      : topics.reduce((sum, topic) => sum + (topic.status === 'covered' ? 1 : topic.status === 'partial' ? 0.5 : 0), 0) / topics.length
+
+    return { stage, coverage, topics }
+  }
+
+  /**
+   * Topics in a stage that are not yet covered, missing ones first
+   */
+  gaps(context: ConversationContext, stage: ConversationStage = context.stage): TopicCoverage[] {
+    return this.assessStage(context, stage).topics
+      .filter(topic => topic.status !== 'covered')
+      .sort((a, b) => a.score - b.score)
+  }
+
+  private collectEvidence(context: ConversationContext): CoverageEvidence[] {
+    const exchanges = context.conversationHistory.map((exchange, index) => ({
+      source: `E${index + 1}`,
+      text: [exchange.userResponse, ...(exchange.analysis?.extractedEntities || [])].join(' ').toLowerCase(),
+      clarity: exchange.analysis?.clarityScore ?? DEFAULT_CLARITY
+    }))
+
+    const accepted = (context.assumptions || [])
+      .flatMap(set => set.assumptions)
+      .filter(assumption => assumption.validatedBy === 'user' && !assumption.supersededBy)
+      .map(assumption => ({ source: assumption.id, text: assumption.assumption.toLowerCase(), clarity: 1 }))
+
+    return [...exchanges, ...accepted]
+  }
+
+  private assessTopic(topic: StageTopic, evidence: CoverageEvidence[]): TopicCoverage {
+    let score = 0
+    const sources: string[] = []
+
+    evidence.forEach(({ source, text, clarity }) => {
+      const hits = topic.keywords.filter(keyword => keywordPattern(keyword).test(text)).length
+      if (hits === 0) return
+
+      // A passing mention counts for less than a focused answer
+      score += (hits >= 2 ? 1 : 0.6) * clarity
+      sources.push(source)
+    })
+
+    score = Math.min(1, score)
+
+    return {
+      id: topic.id,
+      label: topic.label,
+      status: score >= COVERED_THRESHOLD ? 'covered' : score > 0 ? 'partial' : 'missing',
+      score: Math.round(score * 100) / 100,
+      sources
+    }
+  }
+
+  private mergeTopics(defaults: StageTopic[], overrides: StageTopic[]): StageTopic[] {
+    const merged = defaults.map(topic => overrides.find(override => override.id === topic.id) || topic)
+    return [...merged, ...overrides.filter(override => !defaults.some(topic => topic.id === override.id))]
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Wireframe Generator
+ *
+ * Derives a screen graph (screens, their components and the navigation
+ * between them) from the USER_WORKFLOW and TECHNICAL_SPECS exchanges of a
+ * conversation. The graph is the intermediate format; WireframeRenderer turns
+ * it into low-fidelity SVG / HTML.
+ */
+
+import { openaiService } from '../openai/client'
+import {
+  wireframeScreenGraphSchema,
+  type WireframeScreenGraphOutput
+} from '../openai/schemas'
+import {
+  ConversationStage,
+  type ConversationContext,
+  type ConversationExchange,
+  type Domain
+} from '../types/conversation'
+
+export type WireframeScreenGraph = WireframeScreenGraphOutput
+export type WireframeScreen = WireframeScreenGraph['screens'][number]
+export type WireframeComponent = WireframeScreen['components'][number]
+export type WireframeNavigation = WireframeScreenGraph['navigation'][number]
+
+export interface WireframeSource {
+  id: string
+  stage: ConversationStage
+  excerpt: string
+}
+
+export interface WireframeSet {
+  screenGraph: WireframeScreenGraph
+  sources: WireframeSource[]
+  metadata: {
+    sessionId: string
+    domain: Domain
+    generatedAt: string
+    model: string
+    tokens: number
+    screenCount: number
+  }
+}
+
+export interface WireframeOptions {
+  screenTypes?: string[]          // e.g. ["dashboard", "onboarding"]; the model decides when omitted
+  maxScreens?: number
+}
+
+const WIREFRAME_STAGES: ConversationStage[] = [
+  ConversationStage.USER_WORKFLOW,
+  ConversationStage.TECHNICAL_SPECS
+]
+
+export class WireframeGenerator {
+  private readonly model: string
+  private readonly maxTokens: number
+  private readonly temperature: number
+
+  constructor(
+    model: string = 'gpt-4o-mini',
+    maxTokens: number = 3000,
+    temperature: number = 0.3
+  ) {
+    this.model = model
+    this.maxTokens = maxTokens
+    this.temperature = temperature
+  }
+
+  /**
+   * Generate a screen graph from the workflow and technical exchanges
+   */
+  async generateWireframes(
+    context: ConversationContext,
+    options: WireframeOptions = {}
+  ): Promise<WireframeSet> {
+    const sources = this.collectSources(context.conversationHistory)
+
+    if (sources.length === 0) {
+      throw new Error('Cannot generate wireframes without user workflow or technical spec exchanges')
+    }
+
+    try {
+      const prompt = this.buildWireframePrompt(context, options)
+
+      const { data, response } = await openaiService.createStructuredCompletion({
+        messages: [{ role: 'system', content: prompt }],
+        options: {
+          model: this.model,
+          maxTokens: this.maxTokens,
+          temperature: this.temperature
+        },
+        schema: wireframeScreenGraphSchema,
+        schemaName: 'WireframeScreenGraph'
+      })
+
+      const screenGraph = this.normalizeGraph(data, sources)
+
+      return {
+        screenGraph,
+        sources,
+        metadata: {
+          sessionId: context.sessionId,
+          domain: context.domain,
+          generatedAt: new Date().toISOString(),
+          model: this.model,
+          tokens: response.usage?.total_tokens || 0,
+          screenCount: screenGraph.screens.length
+        }
+      }
+    } catch (error) {
+      console.error('Error generating wireframes:', error)
+      throw new Error(`Failed to generate wireframes: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Label the exchanges wireframes are derived from. Labels use the exchange's
+   * position in the full history so they match PRD citations.
+   */
+  private collectSources(history: ConversationExchange[]): WireframeSource[] {
+    return history
+      .map((exchange, index) => ({
+        id: `E${index + 1}`,
+        stage: exchange.stage,
+        excerpt: exchange.userResponse.replace(/\s+/g, ' ').trim()
+      }))
+      .filter(source => WIREFRAME_STAGES.includes(source.stage))
+  }
+
+  private buildWireframePrompt(context: ConversationContext, options: WireframeOptions): string {
+    const exchanges = context.conversationHistory
+      .map((exchange, index) => ({ exchange, id: `E${index + 1}` }))
+      .filter(({ exchange }) => WIREFRAME_STAGES.includes(exchange.stage))
+      .map(({ exchange, id }) => {
+        const question = exchange.generatedQuestion?.question
+        return `[${id}] (${exchange.stage})
+${question ? `Q: ${question}\n` : ''}A: ${exchange.userResponse}`
+      })
+
+    const maxScreens = options.maxScreens || 8
+
+    return `You are a UX designer producing low-fidelity wireframes for a ${context.domain} product from a discovery conversation.
+
+CONTEXT:
+- Domain: ${context.domain}
+- User Role: ${context.userProfile.role}
+- Requested Screens: ${options.screenTypes && options.screenTypes.length > 0 ? options.screenTypes.join(', ') : 'Decide from the workflow'}
+
+WORKFLOW AND TECHNICAL EXCHANGES:
+${exchanges.join('\n\n')}
+
+INSTRUCTIONS:
+1. Design at most ${maxScreens} screens that let the user complete the workflow described above
+2. Give each screen a kebab-case id, a layout, and its components in top-to-bottom order
+3. Add a navigation edge for every way the user moves between screens, with the trigger (button or link label)
+4. Set entryScreen to the screen a first-time user lands on
+5. Cite the exchange labels (E1, E2, ...) each screen and edge was derived from in its "sources" array
+6. Component types: header, navigation, text, button, input, form, table, list, card, chart, image, search, tabs, modal
+
+You must respond with valid JSON only, no other text. Use this exact format:
+{
+  "title": "Product name wireframes",
+  "entryScreen": "home",
+  "screens": [
+    {
+      "id": "home",
+      "name": "Home",
+      "purpose": "What the user does here",
+      "layout": "landing|dashboard|list|detail|form|settings",
+      "components": [{ "type": "header", "label": "App name", "description": "" }],
+      "sources": ["E1"]
+    }
+  ],
+  "navigation": [{ "from": "home", "to": "details", "trigger": "Open item", "sources": ["E2"] }]
+}`
+  }
+
+  /**
+   * Drop edges and citations that point nowhere, and make sure the entry
+   * screen exists
+   */
+  private normalizeGraph(graph: WireframeScreenGraph, sources: WireframeSource[]): WireframeScreenGraph {
+    const knownSources = new Set(sources.map(source => source.id))
+    const screens = graph.screens.map(screen => ({
+      ...screen,
+      sources: screen.sources.filter(id => knownSources.has(id))
+    }))
+    const screenIds = new Set(screens.map(screen => screen.id))
+
+    return {
+      ...graph,
+      entryScreen: screenIds.has(graph.entryScreen) ? graph.entryScreen : screens[0].id,
+      screens,
+      navigation: graph.navigation
+        .filter(edge => screenIds.has(edge.from) && screenIds.has(edge.to))
+        .map(edge => ({ ...edge, sources: edge.sources.filter(id => knownSources.has(id)) }))
+    }
+  }
+}
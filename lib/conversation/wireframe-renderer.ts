@@ -0,0 +1,263 @@
+/**
+ * Wireframe Renderer
+ *
+ * Renders a screen graph as low-fidelity, greyscale SVG: one frame per
+ * screen with its components stacked top to bottom, plus a flow diagram of
+ * the navigation edges. renderHTML() wraps everything in a standalone page.
+ */
+
+import type {
+  WireframeComponent,
+  WireframeScreen,
+  WireframeScreenGraph
+} from './wireframe-generator'
+
+const SCREEN_WIDTH = 360
+const PADDING = 16
+const GAP = 12
+
+// Block height per component type, in px
+const COMPONENT_HEIGHTS: Record<WireframeComponent['type'], number> = {
+  header: 48,
+  navigation: 40,
+  text: 36,
+  button: 40,
+  input: 40,
+  form: 132,
+  table: 148,
+  list: 120,
+  card: 96,
+  chart: 140,
+  image: 120,
+  search: 40,
+  tabs: 36,
+  modal: 160
+}
+
+const FLOW_NODE_WIDTH = 160
+const FLOW_NODE_HEIGHT = 48
+const FLOW_COLUMN_GAP = 80
+const FLOW_ROW_GAP = 48
+const FLOW_COLUMNS = 4
+const FLOW_MAX_BOW = 40
+
+export class WireframeRenderer {
+
+  /**
+   * Render one screen as an SVG document
+   */
+  renderScreenSVG(screen: WireframeScreen): string {
+    const blocks: string[] = []
+    let y = PADDING + 28
+
+    screen.components.forEach(component => {
+      const height = COMPONENT_HEIGHTS[component.type]
+      blocks.push(this.renderComponent(component, PADDING, y, SCREEN_WIDTH - PADDING * 2, height))
+      y += height + GAP
+    })
+
+    const height = y + PADDING - GAP
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${SCREEN_WIDTH}" height="${height}" viewBox="0 0 ${SCREEN_WIDTH} ${height}" font-family="sans-serif" data-screen="${this.escape(screen.id)}">
+  <rect x="0.5" y="0.5" width="${SCREEN_WIDTH - 1}" height="${height - 1}" rx="12" fill="#ffffff" stroke="#333333"/>
+  <text x="${PADDING}" y="${PADDING + 12}" font-size="13" font-weight="bold" fill="#333333">${this.escape(screen.name)}</text>
+${blocks.join('\n')}
+</svg>`
+  }
+
+  /**
+   * Render the navigation graph as an SVG flow diagram
+   */
+  renderFlowSVG(graph: WireframeScreenGraph): string {
+    const positions = new Map<string, { x: number; y: number }>()
+    this.orderForFlow(graph).forEach((screen, index) => {
+      positions.set(screen.id, {
+        x: PADDING + (index % FLOW_COLUMNS) * (FLOW_NODE_WIDTH + FLOW_COLUMN_GAP),
+        y: PADDING + FLOW_MAX_BOW + Math.floor(index / FLOW_COLUMNS) * (FLOW_NODE_HEIGHT + FLOW_ROW_GAP)
+      })
+    })
+
+    const columns = Math.min(graph.screens.length, FLOW_COLUMNS)
+    const rows = Math.ceil(graph.screens.length / FLOW_COLUMNS)
+    const width = PADDING * 2 + columns * FLOW_NODE_WIDTH + (columns - 1) * FLOW_COLUMN_GAP
+    const height = PADDING * 2 + FLOW_MAX_BOW * 2 + rows * FLOW_NODE_HEIGHT + (rows - 1) * FLOW_ROW_GAP
+
+    const edges = graph.navigation.map(edge => {
+      const from = positions.get(edge.from)!
+      const to = positions.get(edge.to)!
+      const x1 = from.x + FLOW_NODE_WIDTH / 2
+      const y1 = from.y + FLOW_NODE_HEIGHT / 2
+      const x2 = to.x + FLOW_NODE_WIDTH / 2
+      const y2 = to.y + FLOW_NODE_HEIGHT / 2
+      // Bow the line so A->B and B->A do not overlap and long edges clear
+      // the nodes in between
+      const length = Math.hypot(x2 - x1, y2 - y1) || 1
+      const bow = Math.min(0.2, FLOW_MAX_BOW / length)
+      const cx = (x1 + x2) / 2 + (y2 - y1) * bow
+      const cy = (y1 + y2) / 2 - (x2 - x1) * bow
+
+      return `  <path d="M ${x1} ${y1} Q ${cx} ${cy} ${x2} ${y2}" fill="none" stroke="#888888" marker-end="url(#arrow)"/>
+  <text x="${cx}" y="${cy}" font-size="10" text-anchor="middle" fill="#555555">${this.escape(edge.trigger)}</text>`
+    })
+
+    const nodes = graph.screens.map(screen => {
+      const { x, y } = positions.get(screen.id)!
+      const isEntry = screen.id === graph.entryScreen
+      return `  <a href="#screen-${this.escape(screen.id)}">
+    <rect x="${x}" y="${y}" width="${FLOW_NODE_WIDTH}" height="${FLOW_NODE_HEIGHT}" rx="8" fill="${isEntry ? '#e6e6e6' : '#ffffff'}" stroke="#333333" stroke-width="${isEntry ? 2 : 1}"/>
+    <text x="${x + FLOW_NODE_WIDTH / 2}" y="${y + FLOW_NODE_HEIGHT / 2 + 4}" font-size="12" text-anchor="middle" fill="#333333">${this.escape(this.truncate(screen.name, 22))}</text>
+  </a>`
+    })
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">
+  <defs>
+    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+      <path d="M 0 0 L 10 5 L 0 10 z" fill="#888888"/>
+    </marker>
+  </defs>
+${[...edges, ...nodes].join('\n')}
+</svg>`
+  }
+
+  /**
+   * Render the whole graph as a standalone HTML page
+   */
+  renderHTML(graph: WireframeScreenGraph): string {
+    const screens = graph.screens.map(screen => {
+      const outgoing = graph.navigation
+        .filter(edge => edge.from === screen.id)
+        .map(edge => {
+          const target = graph.screens.find(candidate => candidate.id === edge.to)!
+          return `<li>${this.escape(edge.trigger || 'Go to')} &rarr; <a href="#screen-${this.escape(target.id)}">${this.escape(target.name)}</a></li>`
+        })
+
+      return `<section id="screen-${this.escape(screen.id)}">
+  <h2>${this.escape(screen.name)}${screen.id === graph.entryScreen ? ' <small>(entry)</small>' : ''}</h2>
+  ${screen.purpose ? `<p>${this.escape(screen.purpose)}</p>` : ''}
+  ${this.renderScreenSVG(screen)}
+  ${outgoing.length > 0 ? `<ul>${outgoing.join('')}</ul>` : ''}
+</section>`
+    })
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${this.escape(graph.title)}</title>
+<style>
+  body { font-family: sans-serif; color: #333333; margin: 24px; }
+  main { display: flex; flex-wrap: wrap; gap: 32px; }
+  section { width: 360px; }
+  h2 { font-size: 16px; }
+  small { color: #888888; font-weight: normal; }
+</style>
+</head>
+<body>
+<h1>${this.escape(graph.title)}</h1>
+<h2>Navigation</h2>
+${this.renderFlowSVG(graph)}
+<main>
+${screens.join('\n')}
+</main>
+</body>
+</html>
+`
+  }
+
+  private renderComponent(component: WireframeComponent, x: number, y: number, width: number, height: number): string {
+    const label = this.escape(this.truncate(component.label, 40))
+    const box = (fill: string) =>
+      `  <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="4" fill="${fill}" stroke="#999999"/>`
+    const caption = (offsetY: number = height / 2 + 4) =>
+      `  <text x="${x + 10}" y="${y + offsetY}" font-size="12" fill="#555555">${label}</text>`
+
+    switch (component.type) {
+      case 'header':
+      case 'navigation':
+      case 'tabs':
+        return [box('#e6e6e6'), caption()].join('\n')
+
+      case 'text':
+        return `  <text x="${x}" y="${y + 14}" font-size="12" fill="#555555">${label}</text>
+  <rect x="${x}" y="${y + 22}" width="${width * 0.8}" height="6" fill="#dddddd"/>`
+
+      case 'button':
+        return `  <rect x="${x}" y="${y}" width="${width / 2}" height="${height}" rx="20" fill="#cccccc" stroke="#999999"/>
+  <text x="${x + width / 4}" y="${y + height / 2 + 4}" font-size="12" text-anchor="middle" fill="#333333">${label}</text>`
+
+      case 'input':
+      case 'search':
+        return [box('#ffffff'), caption()].join('\n')
+
+      case 'image':
+        return [
+          box('#f2f2f2'),
+          `  <path d="M ${x} ${y} L ${x + width} ${y + height} M ${x + width} ${y} L ${x} ${y + height}" stroke="#cccccc"/>`,
+          caption()
+        ].join('\n')
+
+      case 'table':
+      case 'list':
+      case 'form': {
+        const rows = Array.from({ length: 4 }, (_, index) => {
+          const rowY = y + 28 + index * ((height - 36) / 4)
+          return `  <rect x="${x + 10}" y="${rowY}" width="${width - 20}" height="${(height - 36) / 4 - 6}" fill="${component.type === 'form' ? '#ffffff' : '#eeeeee'}" stroke="#dddddd"/>`
+        })
+        return [box('#fafafa'), caption(18), ...rows].join('\n')
+      }
+
+      case 'chart': {
+        const bars = [0.4, 0.7, 0.5, 0.9, 0.6].map((ratio, index) => {
+          const barHeight = (height - 36) * ratio
+          return `  <rect x="${x + 16 + index * 40}" y="${y + height - 8 - barHeight}" width="24" height="${barHeight}" fill="#cccccc"/>`
+        })
+        return [box('#fafafa'), caption(18), ...bars].join('\n')
+      }
+
+      case 'modal':
+        return [
+          `  <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="#ffffff" stroke="#333333" stroke-dasharray="6 4"/>`,
+          caption(20)
+        ].join('\n')
+
+      default:
+        return [box('#f2f2f2'), caption()].join('\n')
+    }
+  }
+
+  /**
+   * Entry screen first, then breadth-first along navigation edges, then any
+   * unreachable screens
+   */
+  private orderForFlow(graph: WireframeScreenGraph): WireframeScreen[] {
+    const ordered: string[] = [graph.entryScreen]
+
+    for (let index = 0; index < ordered.length; index++) {
+      graph.navigation
+        .filter(edge => edge.from === ordered[index])
+        .forEach(edge => {
+          if (!ordered.includes(edge.to)) ordered.push(edge.to)
+        })
+    }
+
+    graph.screens
+      .filter(screen => !ordered.includes(screen.id))
+      .forEach(screen => ordered.push(screen.id))
+
+    return ordered
+      .map(id => graph.screens.find(screen => screen.id === id))
+      .filter((screen): screen is WireframeScreen => !!screen)
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
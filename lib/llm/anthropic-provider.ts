@@ -0,0 +1,220 @@
+import { llmConfig, openaiConfig } from '../config/environment'
+import {
+  LLMProviderError,
+  messageText,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type ChatCompletionParams,
+  type LLMProvider
+} from './provider'
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Messages API has no JSON mode; prefilling the reply with "{" has the same effect
+const JSON_PREFILL = '{'
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+interface AnthropicResponse {
+  id: string
+  model: string
+  content: Array<{ type: string; text?: string }>
+  stop_reason: string | null
+  usage: { input_tokens: number; output_tokens: number }
+}
+
+/**
+ * Anthropic-compatible provider
+ * Calls the Messages API over fetch and maps requests/responses to the
+ * OpenAI chat-completion shape. Works with any endpoint speaking the same
+ * protocol via ANTHROPIC_BASE_URL.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const
+  readonly models = {
+    primary: llmConfig.anthropic.models.primary,
+    fallback: llmConfig.anthropic.models.fallback,
+  }
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletion> {
+    const response = await this.post(params, false)
+    const data = await response.json() as AnthropicResponse
+    const content = this.prefill(params) + data.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+
+    return {
+      id: data.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: data.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content, refusal: null },
+        finish_reason: this.mapStopReason(data.stop_reason),
+        logprobs: null,
+      }],
+      usage: {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens,
+      },
+    }
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncIterable<ChatCompletionChunk> {
+    const response = await this.post(params, true)
+    if (!response.body) {
+      throw new LLMProviderError('Anthropic stream returned no body', this.name, 502)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let id = ''
+    let model = params.model
+    let inputTokens = 0
+    let prefill = this.prefill(params)
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+
+      for (const event of events) {
+        const dataLine = event.split('\n').find(line => line.startsWith('data:'))
+        if (!dataLine) continue
+
+        const payload = JSON.parse(dataLine.slice(5).trim())
+
+        if (payload.type === 'message_start') {
+          id = payload.message.id
+          model = payload.message.model
+          inputTokens = payload.message.usage?.input_tokens || 0
+        } else if (payload.type === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+          yield this.toChunk(id, model, { content: prefill + payload.delta.text }, null)
+          prefill = ''
+        } else if (payload.type === 'message_delta') {
+          const outputTokens = payload.usage?.output_tokens || 0
+          yield {
+            ...this.toChunk(id, model, {}, this.mapStopReason(payload.delta?.stop_reason)),
+            usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens },
+          }
+        } else if (payload.type === 'error') {
+          throw new LLMProviderError(payload.error?.message || 'Anthropic stream error', this.name, 500)
+        }
+      }
+    }
+  }
+
+  /**
+   * Send a Messages API request, raising LLMProviderError on non-2xx
+   */
+  private async post(params: ChatCompletionParams, stream: boolean): Promise<Response> {
+    if (!llmConfig.anthropic.apiKey) {
+      throw new LLMProviderError('ANTHROPIC_API_KEY is not configured', this.name, 401)
+    }
+
+    const { system, messages } = this.mapMessages(params)
+
+    const response = await fetch(`${llmConfig.anthropic.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': llmConfig.anthropic.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.resolveModel(params.model),
+        system: system || undefined,
+        messages,
+        max_tokens: params.maxTokens,
+        temperature: params.temperature,
+        stream,
+      }),
+      signal: AbortSignal.timeout(params.timeout || openaiConfig.limits.timeout * 1000),
+    })
+
+    if (!response.ok) {
+      const body = await response.text()
+      throw new LLMProviderError(
+        `Anthropic request failed (${response.status}): ${body}`,
+        this.name,
+        response.status,
+        Object.fromEntries(response.headers.entries())
+      )
+    }
+
+    return response
+  }
+
+  /**
+   * System messages become the top-level system prompt. Our conversation
+   * modules send a single system prompt, so promote it to the user turn when
+   * there is nothing else for the model to answer.
+   */
+  private mapMessages(params: ChatCompletionParams): { system: string; messages: AnthropicMessage[] } {
+    const system = params.messages
+      .filter(message => message.role === 'system' || message.role === 'developer')
+      .map(messageText)
+      .join('\n\n')
+
+    const messages: AnthropicMessage[] = params.messages
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => ({
+        role: message.role as 'user' | 'assistant',
+        content: messageText(message),
+      }))
+
+    const prefill = this.prefill(params)
+    const assistantPrefill: AnthropicMessage[] = prefill ? [{ role: 'assistant', content: prefill }] : []
+
+    if (messages.length === 0) {
+      return { system: '', messages: [{ role: 'user', content: system }, ...assistantPrefill] }
+    }
+
+    return { system, messages: [...messages, ...assistantPrefill] }
+  }
+
+  private prefill(params: ChatCompletionParams): string {
+    return params.responseFormat === 'json_object' ? JSON_PREFILL : ''
+  }
+
+  /**
+   * Callers still pass OpenAI model names; translate them to the configured
+   * Anthropic tier unless a Claude model was requested explicitly
+   */
+  private resolveModel(model: string): string {
+    if (model.startsWith('claude')) return model
+    if (model === openaiConfig.models.fallback || model === this.models.fallback) {
+      return this.models.fallback
+    }
+    return this.models.primary
+  }
+
+  private mapStopReason(reason: string | null | undefined): 'stop' | 'length' {
+    return reason === 'max_tokens' ? 'length' : 'stop'
+  }
+
+  private toChunk(
+    id: string,
+    model: string,
+    delta: { content?: string },
+    finishReason: 'stop' | 'length' | null
+  ): ChatCompletionChunk {
+    return {
+      id,
+      object: 'chat.completion.chunk',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  LLMProviderError,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type ChatCompletionParams,
+  type LLMProvider
+} from './provider'
+
+/**
+ * Record/replay cassettes for LLM calls
+ * In record mode every completion is passed through to the wrapped provider
+ * and written to `<dir>/<hash>.json`; in replay mode the same request is
+ * answered from that file and the wrapped provider is never touched.
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface CassetteEntry {
+  key: string
+  provider: string
+  recordedAt: string
+  request: {
+    model: string
+    messages: ChatCompletionParams['messages']
+    maxTokens: number
+    temperature: number
+    responseFormat?: ChatCompletionParams['responseFormat']
+    stream: boolean
+  }
+  response: ChatCompletion
+}
+
+/**
+ * Stable hash of everything that influences the model output. Timeouts and
+ * other transport settings are deliberately left out. Streamed calls get
+ * their own key: a stream the consumer stopped early records a truncated
+ * completion that must never answer the non-streamed call.
+ */
+export function cassetteKey(params: ChatCompletionParams, stream: boolean = false): string {
+  const payload = JSON.stringify({
+    model: params.model,
+    messages: params.messages,
+    maxTokens: params.maxTokens,
+    temperature: params.temperature,
+    responseFormat: params.responseFormat,
+    stream,
+  })
+  return createHash('sha256').update(payload).digest('hex').slice(0, 16)
+}
+
+export class CassetteProvider implements LLMProvider {
+  readonly name: LLMProvider['name']
+  readonly models: LLMProvider['models']
+
+  constructor(
+    private inner: LLMProvider,
+    private mode: Exclude<CassetteMode, 'off'>,
+    private directory: string
+  ) {
+    this.name = inner.name
+    this.models = inner.models
+  }
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletion> {
+    const key = cassetteKey(params, false)
+
+    if (this.mode === 'replay') {
+      return (await this.load(key)).response
+    }
+
+    const response = await this.inner.createChatCompletion(params)
+    await this.save(key, params, false, response)
+    return response
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncIterable<ChatCompletionChunk> {
+    const key = cassetteKey(params, true)
+
+    if (this.mode === 'replay') {
+      const { response } = await this.load(key)
+      yield* this.replayAsChunks(response)
+      return
+    }
+
+    // Pass chunks through while assembling the completion we store
+    let id = ''
+    let model = params.model
+    let content = ''
+    let finishReason: ChatCompletion['choices'][number]['finish_reason'] = 'stop'
+    let usage: ChatCompletion['usage']
+    let failed = false
+
+    try {
+      for await (const chunk of this.inner.streamChatCompletion(params)) {
+        id = chunk.id || id
+        model = chunk.model || model
+        content += chunk.choices[0]?.delta?.content || ''
+        finishReason = chunk.choices[0]?.finish_reason || finishReason
+        usage = chunk.usage || usage
+        yield chunk
+      }
+    } catch (error) {
+      failed = true
+      throw error
+    } finally {
+      // Also runs when the consumer stops reading early; the cassette then
+      // holds what the consumer saw
+      if (!failed) {
+        await this.save(key, params, true, {
+          id,
+          object: 'chat.completion',
+          created: Math.floor(Date.now() / 1000),
+          model,
+          choices: [{
+            index: 0,
+            message: { role: 'assistant', content, refusal: null },
+            finish_reason: finishReason,
+            logprobs: null,
+          }],
+          ...(usage ? { usage } : {}),
+        })
+      }
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`)
+  }
+
+  private async load(key: string): Promise<CassetteEntry> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), 'utf8')
+      return JSON.parse(raw) as CassetteEntry
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new LLMProviderError(
+          `No cassette recorded for prompt hash ${key} in ${this.directory}. Re-run with LLM_CASSETTE_MODE=record.`,
+          this.name,
+          404
+        )
+      }
+      throw error
+    }
+  }
+
+  private async save(key: string, params: ChatCompletionParams, stream: boolean, response: ChatCompletion): Promise<void> {
+    const entry: CassetteEntry = {
+      key,
+      provider: this.inner.name,
+      recordedAt: new Date().toISOString(),
+      request: {
+        model: params.model,
+        messages: params.messages,
+        maxTokens: params.maxTokens,
+        temperature: params.temperature,
+        responseFormat: params.responseFormat,
+        stream,
+      },
+      response,
+    }
+
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(this.filePath(key), JSON.stringify(entry, null, 2) + '\n', 'utf8')
+  }
+
+  private *replayAsChunks(response: ChatCompletion): Iterable<ChatCompletionChunk> {
+    const content = response.choices[0]?.message?.content || ''
+    const pieces = content.match(/\S+\s*|\s+/g) || []
+
+    for (const piece of pieces) {
+      yield this.toChunk(response, { content: piece }, null)
+    }
+    yield {
+      ...this.toChunk(response, {}, response.choices[0]?.finish_reason || 'stop'),
+      ...(response.usage ? { usage: response.usage } : {}),
+    }
+  }
+
+  private toChunk(
+    response: ChatCompletion,
+    delta: { content?: string },
+    finishReason: ChatCompletionChunk['choices'][number]['finish_reason']
+  ): ChatCompletionChunk {
+    return {
+      id: response.id,
+      object: 'chat.completion.chunk',
+      created: response.created,
+      model: response.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+    }
+  }
+}
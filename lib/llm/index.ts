@@ -0,0 +1,47 @@
+import path from 'path'
+import { llmConfig } from '../config/environment'
+import { AnthropicProvider } from './anthropic-provider'
+import { CassetteProvider } from './cassette'
+import { LocalProvider } from './local-provider'
+import { OpenAIProvider } from './openai-provider'
+import type { LLMProvider, LLMProviderName } from './provider'
+
+export * from './provider'
+export { AnthropicProvider } from './anthropic-provider'
+export { CassetteProvider, cassetteKey, type CassetteEntry, type CassetteMode } from './cassette'
+export { LocalProvider } from './local-provider'
+export { OpenAIProvider } from './openai-provider'
+
+/**
+ * Create a provider by name
+ */
+export function createLLMProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider()
+    case 'local':
+      return new LocalProvider()
+    case 'openai':
+      return new OpenAIProvider()
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+}
+
+let activeProvider: LLMProvider | null = null
+
+/**
+ * Get the provider selected by LLM_PROVIDER (created lazily, then shared),
+ * wrapped in a cassette when LLM_CASSETTE_MODE is record or replay
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    const provider = createLLMProvider(llmConfig.provider)
+    const { mode, directory } = llmConfig.cassette
+
+    activeProvider = mode === 'off'
+      ? provider
+      : new CassetteProvider(provider, mode, path.resolve(process.cwd(), directory))
+  }
+  return activeProvider
+}
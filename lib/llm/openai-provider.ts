@@ -0,0 +1,62 @@
+import OpenAI from 'openai'
+import { openaiConfig } from '../config/environment'
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionParams,
+  LLMProvider
+} from './provider'
+
+// OpenAI client configuration
+export const openai = new OpenAI({
+  apiKey: openaiConfig.apiKey,
+  organization: openaiConfig.orgId,
+  timeout: openaiConfig.limits.timeout * 1000, // Convert to milliseconds
+  maxRetries: 3,
+  defaultHeaders: {
+    'User-Agent': 'Meta-Agent-System/1.0.0',
+  },
+})
+
+/**
+ * OpenAI provider - thin pass-through to the official SDK
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const
+  readonly models = {
+    primary: openaiConfig.models.primary,
+    fallback: openaiConfig.models.fallback,
+  }
+
+  constructor(private client: OpenAI = openai) {}
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletion> {
+    return this.client.chat.completions.create({
+      model: params.model,
+      messages: params.messages,
+      max_tokens: params.maxTokens,
+      temperature: params.temperature,
+      response_format: params.responseFormat ? { type: params.responseFormat } : undefined,
+    }, {
+      timeout: params.timeout,
+    })
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncIterable<ChatCompletionChunk> {
+    const stream = await this.client.chat.completions.create({
+      model: params.model,
+      messages: params.messages,
+      max_tokens: params.maxTokens,
+      temperature: params.temperature,
+      response_format: params.responseFormat ? { type: params.responseFormat } : undefined,
+      stream: true,
+      stream_options: { include_usage: true }, // usage arrives on a final chunk with no choices
+    }, {
+      timeout: params.timeout,
+    })
+
+    for await (const chunk of stream) {
+      yield chunk
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import type OpenAI from 'openai'
+
+/**
+ * LLM Provider abstraction
+ * Every provider speaks the OpenAI chat-completion shape so callers (and
+ * OpenAIService's rate limiting / fallback logic) never branch on vendor.
+ */
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local'
+
+export type ChatCompletion = OpenAI.Chat.Completions.ChatCompletion
+export type ChatCompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk
+export type ChatCompletionMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam
+
+export interface ChatCompletionParams {
+  model: string
+  messages: ChatCompletionMessageParam[]
+  maxTokens: number
+  temperature: number
+  timeout?: number
+  responseFormat?: 'text' | 'json_object'
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly models: {
+    primary: string
+    fallback: string
+  }
+  createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletion>
+  streamChatCompletion(params: ChatCompletionParams): AsyncIterable<ChatCompletionChunk>
+}
+
+// Provider-level error carrying an HTTP-like status so OpenAIService can map it
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderName,
+    public status?: number,
+    public headers?: Record<string, string>
+  ) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+/**
+ * Flatten a message's content to plain text (providers other than OpenAI
+ * only need the text parts)
+ */
+export function messageText(message: ChatCompletionMessageParam): string {
+  const { content } = message
+  if (typeof content === 'string') return content
+  if (!Array.isArray(content)) return ''
+
+  return content
+    .map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+    .join('')
+}
+
+/**
+ * Rough token estimate used by providers that don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
@@ -1,16 +1,8 @@
 import OpenAI from 'openai'
+import type { ZodIssue, ZodType, ZodTypeDef } from 'zod'
 import { openaiConfig, env } from '../config/environment'
-
-// OpenAI client configuration
-const openai = new OpenAI({
-  apiKey: openaiConfig.apiKey,
-  organization: openaiConfig.orgId,
-  timeout: openaiConfig.limits.timeout * 1000, // Convert to milliseconds
-  maxRetries: 3,
-  defaultHeaders: {
-    'User-Agent': 'Meta-Agent-System/1.0.0',
-  },
-})
+import { getLLMProvider, LLMProviderError, type LLMProvider } from '../llm'
+import { openai } from '../llm/openai-provider'
 
 // Rate limiting tracking
 interface RateLimitState {
@@ -60,6 +52,11 @@ class OpenAIRateLimiter {
     return true
   }
 
+  isBudgetExhausted(): boolean {
+    return this.state.dailyUsage >= openaiConfig.limits.dailyQuota ||
+      this.state.monthlyBudget >= openaiConfig.limits.monthlyBudget
+  }
+
   incrementUsage(): void {
     this.state.requests++
     this.state.dailyUsage++
@@ -108,6 +105,30 @@ export class OpenAIQuotaExceededError extends OpenAIError {
   }
 }
 
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export class OpenAIValidationError extends OpenAIError {
+  constructor(
+    public schemaName: string,
+    public issues: ValidationIssue[],
+    public rawContent: string,
+    public attempts: number
+  ) {
+    super(
+      `${schemaName} failed validation after ${attempts} attempt(s): ${issues.map(issue => `${issue.path} (${issue.message})`).join('; ')}`,
+      'INVALID_RESPONSE'
+    )
+    this.name = 'OpenAIValidationError'
+  }
+
+  get fields(): string[] {
+    return this.issues.map(issue => issue.path)
+  }
+}
+
 // Request options interface
 export interface OpenAIRequestOptions {
   model?: string
@@ -116,6 +137,7 @@ export interface OpenAIRequestOptions {
   usesFallback?: boolean
   retries?: number
   timeout?: number
+  responseFormat?: 'text' | 'json_object'
 }
 
 // Completion request interface
@@ -124,12 +146,37 @@ export interface CompletionRequest {
   options?: OpenAIRequestOptions
 }
 
-// OpenAI service class
+// Structured (schema-validated) completion request
+export interface StructuredCompletionRequest<T> extends CompletionRequest {
+  schema: ZodType<T, ZodTypeDef, unknown>
+  schemaName: string
+  maxRepairAttempts?: number
+}
+
+export interface StructuredCompletionResult<T> {
+  data: T
+  response: OpenAI.Chat.Completions.ChatCompletion
+  attempts: number
+}
+
+// Events emitted while streaming a structured completion
+export type StructuredStreamEvent<T> =
+  | { type: 'delta'; content: string }
+  | { type: 'complete'; data: T; attempts: number; tokens?: number } // tokens left out when the provider reports no usage
+
+// OpenAI service class - all LLM traffic goes through the configured provider
 export class OpenAIService {
-  private client: OpenAI
+  private provider: LLMProvider
+
+  constructor(provider: LLMProvider = getLLMProvider()) {
+    this.provider = provider
+  }
 
-  constructor() {
-    this.client = openai
+  /**
+   * Name of the provider serving requests
+   */
+  get providerName(): string {
+    return this.provider.name
   }
 
   /**
@@ -142,19 +189,14 @@ export class OpenAIService {
       // Check rate limits
       await rateLimiter.checkRateLimit()
       
-      // Prepare request parameters
-      const model = options.model || openaiConfig.models.primary
-      const maxTokens = options.maxTokens || openaiConfig.limits.maxTokens
-      const temperature = options.temperature ?? openaiConfig.limits.temperature
-
       // Make the API request
-      const response = await this.client.chat.completions.create({
-        model,
+      const response = await this.provider.createChatCompletion({
+        model: options.model || this.provider.models.primary,
         messages,
-        max_tokens: maxTokens,
-        temperature,
-      }, {
+        maxTokens: options.maxTokens || openaiConfig.limits.maxTokens,
+        temperature: options.temperature ?? openaiConfig.limits.temperature,
         timeout: options.timeout || openaiConfig.limits.timeout * 1000,
+        responseFormat: options.responseFormat,
       })
 
       // Track usage
@@ -180,13 +222,13 @@ export class OpenAIService {
     } catch (error: any) {
       // If it's a rate limit or quota error, try fallback model
       if (this.shouldUseFallback(error)) {
-        console.warn(`Primary model failed, using fallback: ${openaiConfig.models.fallback}`)
+        console.warn(`Primary model failed, using fallback: ${this.provider.models.fallback}`)
         
         const fallbackRequest = {
           ...request,
           options: {
             ...request.options,
-            model: openaiConfig.models.fallback,
+            model: this.provider.models.fallback,
             usesFallback: true,
           }
         }
@@ -198,6 +240,83 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Create a JSON-mode completion and validate it against a zod schema.
+   * Invalid output is sent back to the model with the offending fields listed
+   * so it can repair its answer; once attempts run out an
+   * OpenAIValidationError names every field that still fails.
+   */
+  async createStructuredCompletion<T>(request: StructuredCompletionRequest<T>): Promise<StructuredCompletionResult<T>> {
+    const { schema, schemaName, maxRepairAttempts = 2 } = request
+    const messages = [...request.messages]
+    const options: OpenAIRequestOptions = { ...request.options, responseFormat: 'json_object' }
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.createCompletionWithFallback({ messages, options })
+      const content = response.choices[0]?.message?.content || ''
+      const issues = this.validateStructuredContent(content, schema)
+
+      if (!Array.isArray(issues)) {
+        return { data: issues.data, response, attempts: attempt }
+      }
+
+      if (attempt > maxRepairAttempts) {
+        throw new OpenAIValidationError(schemaName, issues, content, attempt)
+      }
+
+      console.warn(`${schemaName} failed validation (attempt ${attempt}), requesting repair: ${issues.map(issue => issue.path).join(', ')}`)
+
+      messages.push(...this.buildRepairMessages(schemaName, content, issues))
+    }
+  }
+
+  /**
+   * Stream a JSON-mode completion, forwarding raw deltas as they arrive and
+   * finishing with the validated object. If the streamed output fails
+   * validation, repair continues without streaming.
+   */
+  async *streamStructuredCompletion<T>(request: StructuredCompletionRequest<T>): AsyncIterable<StructuredStreamEvent<T>> {
+    const { schema, schemaName } = request
+    const options: OpenAIRequestOptions = { ...request.options, responseFormat: 'json_object' }
+    let content = ''
+    let streamedTokens: number | undefined
+
+    for await (const chunk of this.streamCompletion({ messages: request.messages, options })) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        content += delta
+        yield { type: 'delta', content: delta }
+      }
+      if (chunk.usage) {
+        streamedTokens = chunk.usage.total_tokens
+      }
+    }
+
+    const result = this.validateStructuredContent(content, schema)
+    if (!Array.isArray(result)) {
+      yield { type: 'complete', data: result.data, attempts: 1, tokens: streamedTokens }
+      return
+    }
+
+    console.warn(`${schemaName} failed validation (streamed attempt), requesting repair: ${result.map(issue => issue.path).join(', ')}`)
+
+    const repaired = await this.createStructuredCompletion({
+      ...request,
+      messages: [...request.messages, ...this.buildRepairMessages(schemaName, content, result)],
+      maxRepairAttempts: Math.max(0, (request.maxRepairAttempts ?? 2) - 1),
+    })
+
+    const repairTokens = repaired.response.usage?.total_tokens
+    yield {
+      type: 'complete',
+      data: repaired.data,
+      attempts: repaired.attempts + 1,
+      tokens: streamedTokens === undefined && repairTokens === undefined
+        ? undefined
+        : (streamedTokens || 0) + (repairTokens || 0),
+    }
+  }
+
   /**
    * Stream a chat completion
    */
@@ -207,28 +326,26 @@ export class OpenAIService {
     try {
       await rateLimiter.checkRateLimit()
 
-      const model = options.model || openaiConfig.models.primary
-      const maxTokens = options.maxTokens || openaiConfig.limits.maxTokens
-      const temperature = options.temperature ?? openaiConfig.limits.temperature
-
-      const stream = await this.client.chat.completions.create({
-        model,
+      const stream = this.provider.streamChatCompletion({
+        model: options.model || this.provider.models.primary,
         messages,
-        max_tokens: maxTokens,
-        temperature,
-        stream: true,
-      }, {
+        maxTokens: options.maxTokens || openaiConfig.limits.maxTokens,
+        temperature: options.temperature ?? openaiConfig.limits.temperature,
         timeout: options.timeout || openaiConfig.limits.timeout * 1000,
+        responseFormat: options.responseFormat,
       })
 
       rateLimiter.incrementUsage()
 
       for await (const chunk of stream) {
+        if (chunk.usage) {
+          await rateLimiter.trackCost(chunk.usage)
+        }
         yield chunk
       }
 
     } catch (error: any) {
-      throw this.handleError(error, request, options)
+      await this.handleError(error, request, options)
     }
   }
 
@@ -242,7 +359,7 @@ export class OpenAIService {
           { role: 'user', content: 'Say "Connection test successful"' }
         ],
         options: {
-          model: openaiConfig.models.fallback, // Use cheaper model for testing
+          model: this.provider.models.fallback, // Use cheaper model for testing
           maxTokens: 10,
           temperature: 0,
         }
@@ -263,6 +380,14 @@ export class OpenAIService {
     }
   }
 
+  /**
+   * Whether the daily request quota or monthly budget is used up, so
+   * callers with a local fallback can skip the model call
+   */
+  isBudgetExhausted(): boolean {
+    return rateLimiter.isBudgetExhausted()
+  }
+
   /**
    * Get current usage statistics
    */
@@ -270,12 +395,14 @@ export class OpenAIService {
     currentMinuteRequests: number
     dailyUsage: number
     monthlyBudget: number
+    provider: string
     limits: typeof openaiConfig.limits
   } {
     return {
       currentMinuteRequests: rateLimiter['state'].requests,
       dailyUsage: rateLimiter['state'].dailyUsage,
       monthlyBudget: rateLimiter['state'].monthlyBudget,
+      provider: this.provider.name,
       limits: openaiConfig.limits,
     }
   }
@@ -284,8 +411,8 @@ export class OpenAIService {
    * Handle OpenAI API errors
    */
   private async handleError(error: any, request: CompletionRequest, options: OpenAIRequestOptions): Promise<never> {
-    // OpenAI SDK errors
-    if (error instanceof OpenAI.APIError) {
+    // OpenAI SDK and provider errors
+    if (error instanceof OpenAI.APIError || error instanceof LLMProviderError) {
       switch (error.status) {
         case 401:
           throw new OpenAIError('Invalid API key', 'INVALID_API_KEY', 401, error)
@@ -297,7 +424,7 @@ export class OpenAIService {
         case 502:
         case 503:
         case 504:
-          throw new OpenAIError('OpenAI service unavailable', 'SERVICE_UNAVAILABLE', error.status, error)
+          throw new OpenAIError(`${this.provider.name} service unavailable`, 'SERVICE_UNAVAILABLE', error.status, error)
         default:
           throw new OpenAIError(error.message, 'API_ERROR', error.status, error)
       }
@@ -314,7 +441,7 @@ export class OpenAIService {
     }
 
     // Custom rate limit errors
-    if (error.message.includes('Rate limit exceeded') || error.message.includes('quota exceeded')) {
+    if (error.message?.includes('Rate limit exceeded') || error.message?.includes('quota exceeded')) {
       throw new OpenAIQuotaExceededError(error.message)
     }
 
@@ -322,6 +449,58 @@ export class OpenAIService {
     throw new OpenAIError(error.message || 'Unknown OpenAI error', 'UNKNOWN_ERROR', undefined, error)
   }
 
+  /**
+   * Parse model output (tolerating surrounding prose) and validate it.
+   * Returns the parsed data, or the list of issues to report back.
+   */
+  private validateStructuredContent<T>(
+    content: string,
+    schema: ZodType<T, ZodTypeDef, unknown>
+  ): { data: T } | ValidationIssue[] {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      const jsonMatch = content.match(/\{[\s\S]*\}/)
+      try {
+        parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : undefined
+      } catch {
+        parsed = undefined
+      }
+    }
+
+    if (parsed === undefined) {
+      return [{ path: '(root)', message: 'Response is not valid JSON' }]
+    }
+
+    const result = schema.safeParse(parsed)
+    if (result.success) {
+      return { data: result.data }
+    }
+
+    return result.error.issues.map((issue: ZodIssue) => ({
+      path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+      message: issue.message,
+    }))
+  }
+
+  /**
+   * Echo invalid output back to the model with the failing fields listed
+   */
+  private buildRepairMessages(
+    schemaName: string,
+    content: string,
+    issues: ValidationIssue[]
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    return [
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required ${schemaName} format:\n${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}\n\nRespond again with the complete corrected JSON object only, no other text.`,
+      },
+    ]
+  }
+
   /**
    * Check if we should use fallback model
    */
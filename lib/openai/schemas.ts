@@ -0,0 +1,312 @@
+import { z } from 'zod'
+
+/**
+ * Output schemas for every JSON-producing LLM prompt
+ * Required fields are the ones callers cannot sensibly default; everything
+ * else carries the same default the callers used to apply by hand.
+ */
+
+const score = z.number().min(0).max(1)
+const stringList = z.array(z.string()).default([])
+
+export const sophisticationLevelSchema = z.enum(['novice', 'intermediate', 'advanced', 'expert'])
+
+// ===== Question generation (engine, domain generator, style adapter) =====
+
+export const questionGenerationSchema = z.object({
+  question: z.string().min(1),
+  questionType: z.enum(['clarification', 'deep-dive', 'technical', 'business', 'validation']),
+  sophisticationLevel: sophisticationLevelSchema,
+  domainContext: z.string().default(''),
+  followUpSuggestions: stringList,
+  confidence: score.default(0.8),
+  reasoning: z.string().default(''),
+  expectedResponseTypes: stringList,
+})
+
+// ===== Response analysis =====
+
+const domainKnowledgeSchema = z.object({
+  technicalDepth: z.string().optional(),
+  businessAcumen: z.string().optional(),
+  industryExperience: z.string().optional(),
+  specificAreas: z.array(z.string()).optional(),
+})
+
+const escapeSignalsSchema = z.object({
+  detected: z.boolean(),
+  type: z.enum(['boredom', 'impatience', 'expert_skip', 'confusion']).nullable().default(null),
+  confidence: score.default(0),
+  indicators: z.array(z.string()).optional(),
+})
+
+const signal = <T extends z.ZodRawShape>(shape: T) => z.object({
+  detected: z.boolean(),
+  confidence: score,
+  ...shape,
+})
+
+export const responseAnalysisSchema = z.object({
+  sophisticationScore: score,
+  engagementLevel: score,
+  clarityScore: score,
+  domainKnowledge: domainKnowledgeSchema.default({}),
+  escapeSignals: escapeSignalsSchema.default({ detected: false, type: null, confidence: 0 }),
+  extractedEntities: stringList,
+  sentiment: z.enum(['positive', 'neutral', 'negative', 'mixed']).default('neutral'),
+  suggestedAdaptations: stringList,
+  nextQuestionHints: stringList,
+})
+
+export const enhancedResponseAnalysisSchema = responseAnalysisSchema.extend({
+  sophisticationBreakdown: z.object({
+    technicalLanguage: score,
+    domainSpecificity: score,
+    complexityHandling: score,
+    businessAcumen: score,
+    communicationClarity: score,
+  }),
+  clarityMetrics: z.object({
+    specificity: score,
+    structuredThinking: score,
+    completeness: score,
+    relevance: score,
+    actionability: score,
+  }),
+  engagementMetrics: z.object({
+    enthusiasm: score,
+    interestLevel: score,
+    participationQuality: score,
+    proactiveness: score,
+    collaborativeSpirit: score,
+  }),
+  advancedEscapeSignals: z.object({
+    fatigue: signal({ indicators: stringList }),
+    expertise: signal({ suggestedSkipLevel: z.enum(['basics', 'intermediate', 'advanced']).default('basics') }),
+    impatience: signal({ urgencyLevel: z.enum(['mild', 'moderate', 'high']).default('mild') }),
+    confusion: signal({ supportLevel: z.enum(['clarification', 'guidance', 'restart']).default('clarification') }),
+    redirect: signal({ requestedDestination: z.string().nullable().default(null) }),
+  }),
+  adaptationRecommendations: z.object({
+    nextQuestionComplexity: sophisticationLevelSchema,
+    suggestedApproach: z.enum(['technical', 'business', 'exploratory', 'validating']),
+    toneAdjustment: z.enum(['more_formal', 'more_casual', 'maintain', 'more_empathetic']),
+    pacingRecommendation: z.enum(['slow_down', 'maintain', 'speed_up', 'pivot']),
+    topicFocus: stringList,
+  }),
+  analysisConfidence: z.object({
+    overall: score,
+    sophistication: score,
+    clarity: score,
+    engagement: score,
+    escapeSignals: score,
+  }).default({ overall: 0.7, sophistication: 0.7, clarity: 0.7, engagement: 0.7, escapeSignals: 0.7 }),
+})
+
+export const quickSophisticationSchema = z.object({
+  sophisticationLevel: sophisticationLevelSchema,
+  confidence: score,
+  keyIndicators: stringList,
+})
+
+// ===== Assumptions =====
+
+export const assumptionSchema = z.object({
+  id: z.string().optional(),
+  category: z.enum(['user_target', 'problem_definition', 'technical_requirements', 'business_model', 'constraints']),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  confidence: score,
+  reasoning: z.string().default(''),
+  impact: z.enum(['low', 'medium', 'high']),
+  dependencies: stringList,
+  validationQuestions: stringList,
+  alternatives: z.array(z.string()).optional(),
+})
+
+export const assumptionSetSchema = z.object({
+  assumptions: z.array(assumptionSchema).min(1),
+  confidence: score.default(0.7),
+  reasoning: z.string().default('Generated based on conversation context'),
+  missingCriticalInfo: stringList,
+  recommendedNextSteps: stringList,
+})
+
+// ===== Profile classifiers (snake_case, as the prompts request) =====
+
+export const industryClassificationSchema = z.object({
+  primary_industry: z.enum(['fintech', 'healthcare', 'ecommerce', 'saas', 'consumer', 'enterprise', 'general']),
+  confidence: score,
+  reasoning: z.string().min(1),
+  sub_industry: z.string().optional(),
+  key_indicators: stringList,
+  alternative_classifications: z.array(z.object({
+    industry: z.string(),
+    confidence: score,
+    reasoning: z.string().default(''),
+  })).default([]),
+})
+
+export const roleClassificationSchema = z.object({
+  role: z.enum(['technical', 'business', 'hybrid', 'unknown']),
+  confidence: score,
+  reasoning: z.string().min(1),
+  sophistication_level: z.enum(['low', 'medium', 'high']).default('medium'),
+  key_indicators: stringList,
+  role_signals: z.object({
+    technical: stringList,
+    business: stringList,
+    hybrid: stringList,
+  }).default({ technical: [], business: [], hybrid: [] }),
+  alternative_roles: z.array(z.object({
+    role: z.string(),
+    confidence: score,
+    reasoning: z.string().default(''),
+  })).default([]),
+})
+
+export const sophisticationScoreSchema = z.object({
+  sophistication_level: z.enum(['low', 'medium', 'high']),
+  overall_score: z.number().min(0).max(100),
+  confidence: score.default(0.5),
+  reasoning: z.string().default(''),
+  factor_scores: z.record(z.number()).default({}),
+  indicators: z.object({
+    advanced: stringList,
+    intermediate: stringList,
+    basic: stringList,
+  }).default({ advanced: [], intermediate: [], basic: [] }),
+  recommendations: stringList,
+})
+
+// ===== PRD generation =====
+
+// Citations reference the source labels given in the prompt (E1, A2, ...)
+const citations = z.array(z.string()).default([])
+
+export const prdSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().default(''),
+  goals: z.array(z.object({
+    statement: z.string().min(1),
+    sources: citations,
+  })).min(1),
+  personas: z.array(z.object({
+    name: z.string().min(1),
+    description: z.string().default(''),
+    needs: stringList,
+    sources: citations,
+  })).default([]),
+  userStories: z.array(z.object({
+    persona: z.string().min(1),
+    story: z.string().min(1),
+    acceptanceCriteria: stringList,
+    sources: citations,
+  })).default([]),
+  functionalRequirements: z.array(z.object({
+    requirement: z.string().min(1),
+    priority: z.enum(['must', 'should', 'could']).default('should'),
+    sources: citations,
+  })).default([]),
+  nonGoals: z.array(z.object({
+    statement: z.string().min(1),
+    sources: citations,
+  })).default([]),
+  openQuestions: z.array(z.object({
+    question: z.string().min(1),
+    reason: z.string().default(''),
+    sources: citations,
+  })).default([]),
+})
+
+// ===== Task list generation =====
+
+const relevantFileSchema = z.object({
+  path: z.string().min(1),
+  description: z.string().default(''),
+})
+
+export const taskListSchema = z.object({
+  title: z.string().min(1),
+  relevantFiles: z.array(relevantFileSchema).default([]),
+  tasks: z.array(z.object({
+    title: z.string().min(1),
+    description: z.string().default(''),
+    acceptanceCriteria: stringList,
+    sources: citations,
+    subTasks: z.array(z.object({
+      title: z.string().min(1),
+      description: z.string().default(''),
+      acceptanceCriteria: stringList,
+      relevantFiles: stringList,
+    })).min(1),
+  })).min(1),
+})
+
+// ===== Wireframe generation =====
+
+export const wireframeComponentTypeSchema = z.enum([
+  'header', 'navigation', 'text', 'button', 'input', 'form', 'table',
+  'list', 'card', 'chart', 'image', 'search', 'tabs', 'modal',
+])
+
+export const wireframeScreenGraphSchema = z.object({
+  title: z.string().min(1),
+  entryScreen: z.string().min(1),
+  screens: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    purpose: z.string().default(''),
+    layout: z.enum(['landing', 'dashboard', 'list', 'detail', 'form', 'settings']),
+    components: z.array(z.object({
+      type: wireframeComponentTypeSchema,
+      label: z.string().min(1),
+      description: z.string().default(''),
+    })).min(1),
+    sources: citations,
+  })).min(1),
+  navigation: z.array(z.object({
+    from: z.string().min(1),
+    to: z.string().min(1),
+    trigger: z.string().default(''),
+    sources: citations,
+  })).default([]),
+})
+
+// ===== Conversation memory =====
+
+const memoryItemSchema = z.object({
+  statement: z.string().min(1),
+  sources: citations,
+})
+
+export const conversationMemorySchema = z.object({
+  facts: z.array(memoryItemSchema).default([]),
+  decisions: z.array(memoryItemSchema).default([]),
+  openQuestions: z.array(memoryItemSchema).default([]),
+})
+
+// ===== Consistency checking =====
+
+export const contradictionCheckSchema = z.object({
+  contradictions: z.array(z.object({
+    topic: z.string().default(''),
+    newStatement: z.string().min(1),
+    conflictingSource: z.string().min(1),
+    conflictingStatement: z.string().min(1),
+    severity: z.enum(['low', 'medium', 'high']).default('medium'),
+    clarificationQuestion: z.string().min(1),
+  })).default([]),
+})
+
+export type QuestionGenerationOutput = z.infer<typeof questionGenerationSchema>
+export type EnhancedResponseAnalysisOutput = z.infer<typeof enhancedResponseAnalysisSchema>
+export type AssumptionSetOutput = z.infer<typeof assumptionSetSchema>
+export type IndustryClassificationOutput = z.infer<typeof industryClassificationSchema>
+export type RoleClassificationOutput = z.infer<typeof roleClassificationSchema>
+export type SophisticationScoreOutput = z.infer<typeof sophisticationScoreSchema>
+export type PRDOutput = z.infer<typeof prdSchema>
+export type TaskListOutput = z.infer<typeof taskListSchema>
+export type WireframeScreenGraphOutput = z.infer<typeof wireframeScreenGraphSchema>
+export type ConversationMemoryOutput = z.infer<typeof conversationMemorySchema>
+export type ContradictionCheckOutput = z.infer<typeof contradictionCheckSchema>
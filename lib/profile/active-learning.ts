@@ -0,0 +1,322 @@
+import { Industry } from './industry-classifier';
+import { UserRole } from './role-detector';
+import { SophisticationLevel } from './sophistication-scorer';
+import type { ProfileDetectionResult } from './profile-detector';
+import {
+  TrainingDataCollector,
+  TrainingDataPoint,
+  anonymizeInput,
+  trainingDataCollector
+} from './training-data-collector';
+
+/**
+ * Active Learning Queue
+ * Collects uncertain profile detections for human review. Detections are
+ * ranked by how much a label would teach the detectors: low confidence,
+ * a close runner-up, and disagreement between the heuristic (keyword or
+ * pattern) and GPT results. Annotated items become EXPERT_ANNOTATION
+ * training data.
+ *
+ * Inputs are anonymised before they are queued, as the training data
+ * collector does. Labelled and skipped items are kept for a retention
+ * period and up to a cap, after which the oldest are dropped.
+ */
+
+export type ActiveLearningStatus = 'pending' | 'labelled' | 'skipped';
+
+export interface AnnotationLabels {
+  industry: Industry;
+  role: UserRole;
+  sophisticationLevel: SophisticationLevel;
+}
+
+export interface ActiveLearningItem {
+  id: string;
+  input: string; // anonymised
+  sessionId?: string;
+  analysis: ProfileDetectionResult['analysis'];
+  uncertainties: string[];
+  informativeness: number; // 0-1, higher is reviewed first
+  reasons: string[];
+  status: ActiveLearningStatus;
+  createdAt: Date;
+  labels?: AnnotationLabels;
+  annotator?: string;
+  labelledAt?: Date;
+  skippedAt?: Date;
+  skipReason?: string;
+  trainingDataId?: string;
+}
+
+export interface ActiveLearningConfig {
+  maxPending: number;         // least informative items are dropped beyond this
+  minInformativeness: number; // detections below this are not queued
+  maxResolved: number;        // oldest labelled or skipped items are dropped beyond this
+  resolvedRetentionDays: number;
+}
+
+export interface ActiveLearningStats {
+  pending: number;
+  labelled: number;
+  skipped: number;
+  // Share of labelled items where the detector already had the label right
+  detectorAgreement: {
+    industry: number;
+    role: number;
+    sophistication: number;
+  };
+}
+
+export class ActiveLearningError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'ActiveLearningError';
+  }
+}
+
+/**
+ * In-memory review queue; labelled items are handed to the training data collector
+ */
+export class ActiveLearningQueue {
+  private items: Map<string, ActiveLearningItem> = new Map();
+  private itemsByInput: Map<string, string> = new Map(); // normalised input -> item id
+  private config: ActiveLearningConfig;
+
+  constructor(
+    config: Partial<ActiveLearningConfig> = {},
+    private readonly collector: TrainingDataCollector = trainingDataCollector
+  ) {
+    this.config = {
+      maxPending: 500,
+      minInformativeness: 0.2,
+      maxResolved: 1000,
+      resolvedRetentionDays: 30,
+      ...config
+    };
+  }
+
+  /**
+   * Queue a detection if it is uncertain enough to be worth labelling.
+   * A pending item for the same input is replaced when the new detection
+   * is more informative; inputs already labelled or skipped are not queued
+   * again while their item is retained.
+   */
+  consider(input: string, result: ProfileDetectionResult, sessionId?: string): ActiveLearningItem | null {
+    const { informativeness, reasons, disagreements } = this.scoreInformativeness(result);
+
+    if (result.uncertainties.length === 0 && disagreements === 0) return null;
+    if (informativeness < this.config.minInformativeness) return null;
+
+    this.pruneResolved();
+
+    const anonymized = anonymizeInput(input);
+    const existing = this.findByInput(anonymized);
+    if (existing && (existing.status !== 'pending' || existing.informativeness >= informativeness)) {
+      return null;
+    }
+    if (existing) this.remove(existing);
+
+    const item: ActiveLearningItem = {
+      id: `al-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      input: anonymized,
+      sessionId,
+      analysis: result.analysis,
+      uncertainties: result.uncertainties,
+      informativeness,
+      reasons,
+      status: 'pending',
+      createdAt: new Date()
+    };
+
+    this.items.set(item.id, item);
+    this.itemsByInput.set(normalizeInput(anonymized), item.id);
+    this.evictOverflow();
+
+    return this.items.has(item.id) ? item : null;
+  }
+
+  /**
+   * Most informative pending items first
+   */
+  getPending(limit: number = 20): ActiveLearningItem[] {
+    return Array.from(this.items.values())
+      .filter(item => item.status === 'pending')
+      .sort((a, b) => b.informativeness - a.informativeness || a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  getItem(id: string): ActiveLearningItem | undefined {
+    return this.items.get(id);
+  }
+
+  /**
+   * Record ground-truth labels and add the item to the training data
+   */
+  async annotate(
+    id: string,
+    labels: AnnotationLabels,
+    annotator?: string
+  ): Promise<{ item: ActiveLearningItem; trainingData: TrainingDataPoint }> {
+    const item = this.requirePending(id);
+
+    const invalid = [
+      !Object.values(Industry).includes(labels?.industry) && 'industry',
+      !Object.values(UserRole).includes(labels?.role) && 'role',
+      !Object.values(SophisticationLevel).includes(labels?.sophisticationLevel) && 'sophisticationLevel'
+    ].filter(Boolean);
+    if (invalid.length > 0) {
+      throw new ActiveLearningError(`Invalid labels: ${invalid.join(', ')}`, 400);
+    }
+
+    const trainingData = await this.collector.collectFromAnnotation(
+      item.input,
+      item.analysis,
+      labels,
+      item.id,
+      item.sessionId
+    );
+
+    Object.assign(item, {
+      status: 'labelled',
+      labels,
+      annotator,
+      labelledAt: new Date(),
+      trainingDataId: trainingData.id
+    });
+    this.pruneResolved();
+
+    return { item, trainingData };
+  }
+
+  /**
+   * Take an item out of the queue without labelling it
+   */
+  skip(id: string, reason?: string): ActiveLearningItem {
+    const item = this.requirePending(id);
+    item.status = 'skipped';
+    item.skippedAt = new Date();
+    item.skipReason = reason;
+    this.pruneResolved();
+    return item;
+  }
+
+  /**
+   * Counts and detector agreement cover the items currently retained
+   */
+  getStats(): ActiveLearningStats {
+    const items = Array.from(this.items.values());
+    const labelled = items.filter(item => item.status === 'labelled');
+    const agreement = (matches: (item: ActiveLearningItem) => boolean) =>
+      labelled.length > 0 ? Math.round((labelled.filter(matches).length / labelled.length) * 1000) / 1000 : 0;
+
+    return {
+      pending: items.filter(item => item.status === 'pending').length,
+      labelled: labelled.length,
+      skipped: items.filter(item => item.status === 'skipped').length,
+      detectorAgreement: {
+        industry: agreement(item => item.analysis.industry.industry === item.labels!.industry),
+        role: agreement(item => item.analysis.role.role === item.labels!.role),
+        sophistication: agreement(item => item.analysis.sophistication.level === item.labels!.sophisticationLevel)
+      }
+    };
+  }
+
+  /**
+   * Least-confidence, margin and heuristic/GPT disagreement, combined:
+   * half from the weakest confidence, a fifth from the closest runner-up,
+   * and 0.3 when the methods disagreed on any task
+   */
+  private scoreInformativeness(result: ProfileDetectionResult) {
+    const { industry, role, sophistication } = result.analysis;
+    const reasons: string[] = [];
+
+    const confidences: Array<[string, number]> = [
+      ['industry', industry.confidence],
+      ['role', role.confidence],
+      ['sophistication', sophistication.confidence]
+    ];
+    const [weakestTask, weakest] = confidences.reduce((min, entry) => entry[1] < min[1] ? entry : min);
+    reasons.push(`Lowest confidence: ${weakestTask} ${(weakest * 100).toFixed(0)}%`);
+
+    const margins: Array<[string, number]> = [];
+    if (industry.alternativeIndustries.length > 0) {
+      margins.push([industry.alternativeIndustries[0].industry, industry.confidence - industry.alternativeIndustries[0].confidence]);
+    }
+    if (role.alternativeRoles.length > 0) {
+      margins.push([role.alternativeRoles[0].role, role.confidence - role.alternativeRoles[0].confidence]);
+    }
+    const closest = margins.sort((a, b) => a[1] - b[1])[0];
+    const marginUncertainty = closest ? Math.min(1, Math.max(0, 1 - closest[1])) : 0;
+    if (closest && closest[1] < 0.2) {
+      reasons.push(`Close alternative: ${closest[0]} within ${(Math.max(0, closest[1]) * 100).toFixed(0)} points`);
+    }
+
+    let disagreements = 0;
+    if (industry.methodDisagreement) {
+      disagreements++;
+      reasons.push(`Keyword analysis says ${industry.methodDisagreement.keyword}, GPT says ${industry.methodDisagreement.gpt}`);
+    }
+    if (role.methodDisagreement) {
+      disagreements++;
+      reasons.push(`Pattern analysis says ${role.methodDisagreement.pattern}, GPT says ${role.methodDisagreement.gpt}`);
+    }
+
+    const score = 0.5 * (1 - weakest) + 0.2 * marginUncertainty + (disagreements > 0 ? 0.3 : 0);
+
+    return {
+      informativeness: Math.round(Math.min(1, Math.max(0, score)) * 1000) / 1000,
+      reasons,
+      disagreements
+    };
+  }
+
+  private findByInput(anonymized: string): ActiveLearningItem | undefined {
+    const id = this.itemsByInput.get(normalizeInput(anonymized));
+    return id ? this.items.get(id) : undefined;
+  }
+
+  private remove(item: ActiveLearningItem): void {
+    this.items.delete(item.id);
+    this.itemsByInput.delete(normalizeInput(item.input));
+  }
+
+  private requirePending(id: string): ActiveLearningItem {
+    const item = this.items.get(id);
+    if (!item) {
+      throw new ActiveLearningError(`Active learning item not found: ${id}`, 404);
+    }
+    if (item.status !== 'pending') {
+      throw new ActiveLearningError(`Active learning item ${id} is already ${item.status}`, 409);
+    }
+    return item;
+  }
+
+  private evictOverflow(): void {
+    const pending = this.getPending(Infinity);
+    pending.slice(this.config.maxPending).forEach(item => this.remove(item));
+  }
+
+  /**
+   * Drop labelled and skipped items past the retention period, then the
+   * oldest beyond maxResolved
+   */
+  private pruneResolved(): void {
+    const cutoff = Date.now() - this.config.resolvedRetentionDays * 24 * 60 * 60 * 1000;
+    const resolvedAt = (item: ActiveLearningItem) => (item.labelledAt || item.skippedAt)!.getTime();
+
+    const resolved = Array.from(this.items.values())
+      .filter(item => item.status !== 'pending')
+      .sort((a, b) => resolvedAt(b) - resolvedAt(a));
+
+    resolved
+      .filter((item, index) => index >= this.config.maxResolved || resolvedAt(item) < cutoff)
+      .forEach(item => this.remove(item));
+  }
+}
+
+function normalizeInput(input: string): string {
+  return input.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Singleton instance for global use
+export const activeLearningQueue = new ActiveLearningQueue();
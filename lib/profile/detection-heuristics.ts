@@ -0,0 +1,462 @@
+import { KeywordWeights, keywordWeights } from './keyword-weights';
+import type { Industry, IndustryKeywords } from './industry-classifier';
+import type { RoleIndicators, UserRole } from './role-detector';
+
+/**
+ * Detection Heuristics
+ * Keyword industry classification, pattern role detection and linguistic
+ * complexity analysis: the model-free halves of the profile detectors.
+ * The detectors combine these with GPT; the heuristic response analyzer,
+ * the evaluation harness, the fine-tuning export and keyword recalibration
+ * use them on their own.
+ *
+ * The detectors import this module, so it only takes types from them.
+ */
+
+// Industry-specific keyword patterns for initial classification
+const INDUSTRY_KEYWORDS: IndustryKeywords = {
+  fintech: [
+    'payment', 'finance', 'banking', 'fintech', 'cryptocurrency', 'blockchain',
+    'lending', 'investment', 'trading', 'wallet', 'transaction', 'compliance',
+    'KYC', 'AML', 'PCI DSS', 'SOC2', 'fraud', 'credit', 'debit', 'mortgage',
+    'insurance', 'wealth management', 'robo-advisor', 'neobank', 'regtech'
+  ],
+  healthcare: [
+    'healthcare', 'medical', 'hospital', 'clinic', 'patient', 'doctor',
+    'physician', 'nurse', 'health', 'medicine', 'pharmaceutical', 'biotech',
+    'EHR', 'EMR', 'HIPAA', 'clinical', 'diagnosis', 'treatment', 'therapy',
+    'telehealth', 'telemedicine', 'medical device', 'FDA', 'clinical trial'
+  ],
+  ecommerce: [
+    'ecommerce', 'e-commerce', 'online store', 'marketplace', 'retail',
+    'shopping', 'cart', 'checkout', 'inventory', 'fulfillment', 'shipping',
+    'product catalog', 'dropshipping', 'B2C', 'consumer goods', 'merchant',
+    'Shopify', 'Amazon', 'marketplace seller', 'online retail'
+  ],
+  saas: [
+    'SaaS', 'software as a service', 'B2B software', 'cloud software',
+    'subscription', 'API', 'platform', 'dashboard', 'analytics', 'CRM',
+    'productivity', 'collaboration', 'workflow', 'automation', 'integration',
+    'enterprise software', 'business software', 'tool', 'solution'
+  ],
+  consumer: [
+    'consumer app', 'mobile app', 'social', 'entertainment', 'gaming',
+    'lifestyle', 'travel', 'food', 'fitness', 'dating', 'social media',
+    'content', 'media', 'streaming', 'B2C', 'user engagement', 'viral'
+  ],
+  enterprise: [
+    'enterprise', 'B2B', 'corporate', 'business', 'organization',
+    'company', 'internal tool', 'employee', 'HR', 'operations',
+    'management', 'governance', 'compliance', 'security', 'infrastructure'
+  ],
+  general: [
+    'business', 'startup', 'idea', 'product', 'service', 'market',
+    'customer', 'user', 'solution', 'problem', 'opportunity'
+  ]
+};
+
+// Role-specific indicators for classification
+const ROLE_INDICATORS: RoleIndicators = {
+  technical: {
+    keywords: [
+      // Programming & Development
+      'API', 'SDK', 'framework', 'library', 'database', 'server', 'cloud',
+      'microservices', 'DevOps', 'CI/CD', 'containerization', 'Kubernetes',
+      'React', 'Node.js', 'Python', 'JavaScript', 'TypeScript', 'SQL',
+      'REST', 'GraphQL', 'authentication', 'authorization', 'encryption',
+      
+      // Technical Architecture
+      'scalability', 'performance', 'latency', 'throughput', 'caching',
+      'load balancing', 'sharding', 'replication', 'backup', 'monitoring',
+      'logging', 'debugging', 'testing', 'unit tests', 'integration tests',
+      
+      // Infrastructure & Tools
+      'AWS', 'Azure', 'GCP', 'Docker', 'Git', 'GitHub', 'GitLab',
+      'Jenkins', 'Terraform', 'Ansible', 'Redis', 'PostgreSQL', 'MongoDB',
+      'Elasticsearch', 'Kafka', 'RabbitMQ', 'nginx', 'Apache',
+      
+      // Security & Compliance
+      'HTTPS', 'SSL/TLS', 'OAuth', 'JWT', 'CORS', 'XSS', 'CSRF',
+      'penetration testing', 'vulnerability', 'security audit',
+      'data encryption', 'key management', 'zero trust'
+    ],
+    patterns: [
+      /\b\w+\.(js|ts|py|java|php|rb|go|rs)\b/i, // File extensions
+      /\b(v\d+\.\d+(\.\d+)?)\b/i, // Version numbers
+      /\b(HTTP|HTTPS|FTP|SSH|TCP|UDP|IP)\b/i, // Protocols
+      /\b(GET|POST|PUT|DELETE|PATCH)\b/i, // HTTP methods
+      /\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/, // IP addresses
+      /\b[a-zA-Z]+:[\/]{2}[a-zA-Z0-9\.\-]+/i, // URLs
+    ],
+    phrases: [
+      'technical implementation', 'code review', 'pull request',
+      'tech stack', 'system architecture', 'data model',
+      'algorithm optimization', 'performance tuning', 'bug fixing',
+      'technical debt', 'refactoring', 'deployment pipeline',
+      'infrastructure as code', 'development environment'
+    ]
+  },
+  business: {
+    keywords: [
+      // Business Strategy
+      'revenue', 'profit', 'ROI', 'KPI', 'metrics', 'analytics',
+      'market share', 'competitive advantage', 'value proposition',
+      'business model', 'monetization', 'pricing strategy',
+      'customer acquisition', 'retention', 'churn', 'LTV', 'CAC',
+      
+      // Operations & Management
+      'stakeholders', 'executives', 'board', 'investors', 'funding',
+      'Series A', 'Series B', 'venture capital', 'angel investors',
+      'IPO', 'acquisition', 'merger', 'partnership', 'collaboration',
+      'team management', 'hiring', 'organizational structure',
+      
+      // Marketing & Sales
+      'go-to-market', 'marketing strategy', 'brand', 'positioning',
+      'target audience', 'customer segments', 'personas', 'funnel',
+      'conversion rate', 'lead generation', 'sales pipeline',
+      'B2B', 'B2C', 'enterprise sales', 'SMB', 'customer success',
+      
+      // Finance & Legal
+      'budget', 'forecast', 'P&L', 'cash flow', 'burn rate',
+      'runway', 'valuation', 'equity', 'compliance', 'regulation',
+      'contract', 'agreement', 'terms of service', 'privacy policy'
+    ],
+    patterns: [
+      /\$[\d,]+(\.\d{2})?[KMB]?/i, // Currency amounts
+      /\b\d+%\b/, // Percentages
+      /\bQ[1-4]\s+\d{4}\b/i, // Quarters
+      /\b(YoY|MoM|QoQ)\b/i, // Time comparisons
+    ],
+    phrases: [
+      'business plan', 'market research', 'competitive analysis',
+      'customer validation', 'product-market fit', 'user feedback',
+      'business requirements', 'success metrics', 'growth strategy',
+      'operational efficiency', 'cost optimization', 'resource allocation',
+      'risk management', 'strategic planning', 'business development'
+    ]
+  },
+  hybrid: {
+    keywords: [
+      // Product Management
+      'product', 'feature', 'roadmap', 'backlog', 'sprint', 'agile',
+      'scrum', 'user story', 'acceptance criteria', 'MVP', 'prototype',
+      'user experience', 'UX', 'UI', 'design', 'wireframe', 'mockup',
+      
+      // Technical Business
+      'API integration', 'data analytics', 'business intelligence',
+      'automation', 'workflow', 'process optimization', 'digital transformation',
+      'tech-enabled', 'data-driven', 'platform strategy',
+      
+      // Bridge Concepts
+      'requirements', 'specifications', 'documentation', 'project management',
+      'cross-functional', 'stakeholder alignment', 'technical debt',
+      'feasibility', 'implementation timeline', 'resource planning'
+    ],
+    patterns: [
+      /\b(PM|TPM|PMM)\b/i, // Product Manager acronyms
+      /\b(A\/B|AB)\s+test/i, // A/B testing
+    ],
+    phrases: [
+      'product requirements', 'technical feasibility', 'user research',
+      'data analysis', 'performance metrics', 'technical discussion',
+      'business logic', 'system requirements', 'product strategy',
+      'technical specifications', 'implementation plan', 'project scope'
+    ]
+  }
+};
+
+// Complexity indicators
+const COMPLEXITY_INDICATORS = {
+  advanced: {
+    sentenceLength: 25, // Words per sentence
+    syllablesPerWord: 2.5,
+    uniqueWordRatio: 0.7,
+    technicalTermDensity: 0.15,
+    abstractConcepts: ['framework', 'methodology', 'paradigm', 'ecosystem', 'architecture']
+  },
+  intermediate: {
+    sentenceLength: 18,
+    syllablesPerWord: 2.0,
+    uniqueWordRatio: 0.6,
+    technicalTermDensity: 0.08,
+    abstractConcepts: ['strategy', 'process', 'system', 'approach', 'solution']
+  },
+  basic: {
+    sentenceLength: 12,
+    syllablesPerWord: 1.5,
+    uniqueWordRatio: 0.5,
+    technicalTermDensity: 0.03,
+    abstractConcepts: ['idea', 'plan', 'way', 'method', 'tool']
+  }
+};
+
+/**
+ * Score industries by keyword matches, each scaled by its learned weight
+ */
+export function classifyIndustryByKeywords(input: string, weights: KeywordWeights = keywordWeights) {
+  const inputLower = input.toLowerCase();
+  const industryScores: Record<Industry, number> = {
+    fintech: 0,
+    healthcare: 0,
+    ecommerce: 0,
+    saas: 0,
+    consumer: 0,
+    enterprise: 0,
+    general: 0
+  };
+  
+  const foundKeywords: Record<Industry, string[]> = {
+    fintech: [],
+    healthcare: [],
+    ecommerce: [],
+    saas: [],
+    consumer: [],
+    enterprise: [],
+    general: []
+  };
+
+  // Score each industry based on keyword matches, weighted by the learned keyword weights
+  Object.entries(INDUSTRY_KEYWORDS).forEach(([industry, keywords]) => {
+    keywords.forEach((keyword: string) => {
+      if (inputLower.includes(keyword.toLowerCase())) {
+        industryScores[industry as Industry] += weights.weightOf('industry', industry, keyword);
+        foundKeywords[industry as Industry].push(keyword);
+      }
+    });
+  });
+
+  // Find top industry and alternatives
+  const sortedIndustries = Object.entries(industryScores)
+    .sort(([,a], [,b]) => b - a)
+    .filter(([,score]) => score > 0);
+
+  const topIndustry = sortedIndustries[0]?.[0] as Industry || 'general' as Industry;
+  const topScore = sortedIndustries[0]?.[1] || 0;
+  
+  // Calculate confidence based on keyword matches and uniqueness
+  const totalMatches = Object.values(industryScores).reduce((sum, score) => sum + score, 0);
+  const rawConfidence = totalMatches > 0 ? Math.min(0.8, topScore / totalMatches) : 0.1;
+  const confidence = Math.min(0.8, weights.calibrate('industry', rawConfidence));
+
+  const alternatives = sortedIndustries.slice(1, 4).map(([industry, score]) => ({
+    industry: industry as Industry,
+    confidence: totalMatches > 0 ? score / totalMatches : 0,
+    reasoning: `Keyword matches: ${foundKeywords[industry as Industry].join(', ')}`
+  }));
+
+  return {
+    topIndustry,
+    confidence,
+    reasoning: `Keyword analysis found ${foundKeywords[topIndustry].length} matches for ${topIndustry}: ${foundKeywords[topIndustry].join(', ')}`,
+    keywords: foundKeywords[topIndustry],
+    matches: foundKeywords,
+    alternatives
+  };
+}
+
+/**
+ * Score roles by keywords, regex patterns and phrases, each scaled by its learned weight
+ */
+export function detectRoleByPatterns(input: string, weights: KeywordWeights = keywordWeights) {
+  const inputLower = input.toLowerCase();
+  const roleScores = {
+    technical: 0,
+    business: 0,
+    hybrid: 0
+  };
+  
+  const foundIndicators = {
+    technical: [] as string[],
+    business: [] as string[],
+    hybrid: [] as string[]
+  };
+
+  // Check keywords for each role; every indicator is scaled by its learned weight
+  Object.entries(ROLE_INDICATORS).forEach(([role, indicators]) => {
+    // Keyword matching
+    indicators.keywords.forEach((keyword: string) => {
+      if (inputLower.includes(keyword.toLowerCase())) {
+        roleScores[role as keyof typeof roleScores] += weights.weightOf('role', role, keyword);
+        foundIndicators[role as keyof typeof foundIndicators].push(keyword);
+      }
+    });
+
+    // Pattern matching
+    indicators.patterns.forEach((pattern: RegExp) => {
+      const matches = input.match(pattern);
+      if (matches) {
+        roleScores[role as keyof typeof roleScores] += matches.length * weights.weightOf('role', role, `Pattern: ${pattern.source}`);
+        foundIndicators[role as keyof typeof foundIndicators].push(`Pattern: ${pattern.source}`);
+      }
+    });
+
+    // Phrase matching
+    indicators.phrases.forEach((phrase: string) => {
+      if (inputLower.includes(phrase.toLowerCase())) {
+        roleScores[role as keyof typeof roleScores] += 2 * weights.weightOf('role', role, phrase); // Phrases are more indicative
+        foundIndicators[role as keyof typeof foundIndicators].push(phrase);
+      }
+    });
+  });
+
+  // Determine top role
+  const sortedRoles = Object.entries(roleScores)
+    .sort(([,a], [,b]) => b - a)
+    .filter(([,score]) => score > 0);
+
+  const top = sortedRoles[0]?.[0];
+  const topRole = (top || 'unknown') as UserRole;
+  const topScore = sortedRoles[0]?.[1] || 0;
+  
+  // Calculate confidence
+  const totalScore = Object.values(roleScores).reduce((sum, score) => sum + score, 0);
+  let confidence = 0.1; // Base confidence for unknown
+  
+  if (totalScore > 0) {
+    confidence = topScore / totalScore;
+    
+    // Boost confidence for clear technical indicators
+    if (top === 'technical' && foundIndicators.technical.length > 3) {
+      confidence = Math.min(0.9, confidence + 0.2);
+    }
+    
+    // Boost confidence for clear business indicators
+    if (top === 'business' && foundIndicators.business.length > 2) {
+      confidence = Math.min(0.9, confidence + 0.15);
+    }
+    
+    // Hybrid needs evidence from multiple roles
+    if (top === 'hybrid') {
+      const hasMultipleRoleEvidence = (foundIndicators.technical.length > 0 && foundIndicators.business.length > 0);
+      if (!hasMultipleRoleEvidence) {
+        confidence *= 0.7; // Reduce confidence for weak hybrid signals
+      }
+    }
+  }
+
+  const alternatives = sortedRoles.slice(1).map(([role, score]) => ({
+    role: role as UserRole,
+    confidence: totalScore > 0 ? score / totalScore : 0,
+    reasoning: `Score: ${Math.round(score * 100) / 100}, indicators: ${(foundIndicators[role as keyof typeof foundIndicators] || []).slice(0, 3).join(', ')}`
+  }));
+
+  const clamp = (value: number) => Math.max(0.1, Math.min(0.9, value));
+
+  return {
+    topRole,
+    confidence: clamp(weights.calibrate('role', clamp(confidence))),
+    reasoning: `Pattern analysis: ${Math.round(topScore * 100) / 100} points for ${topRole}. Key indicators: ${(foundIndicators[topRole as keyof typeof foundIndicators] || []).slice(0, 5).join(', ')}`,
+    indicators: foundIndicators,
+    alternatives
+  };
+}
+
+/**
+ * Analyze linguistic complexity of the text
+ */
+export function analyzeLinguisticComplexity(input: string) {
+  const words = input.toLowerCase().match(/\b\w+\b/g) || [];
+  const sentences = input.split(/[.!?]+/).filter(s => s.trim().length > 0);
+  const uniqueWords = new Set(words);
+
+  // Calculate metrics
+  const avgSentenceLength = words.length / Math.max(sentences.length, 1);
+  const uniqueWordRatio = uniqueWords.size / Math.max(words.length, 1);
+  const avgSyllables = calculateAverageSyllables(words);
+  
+  // Score components (0-100)
+  const sentenceComplexity = scoreComplexityMetric(
+    avgSentenceLength,
+    COMPLEXITY_INDICATORS.basic.sentenceLength,
+    COMPLEXITY_INDICATORS.advanced.sentenceLength
+  );
+  
+  const vocabularyDiversity = scoreComplexityMetric(
+    uniqueWordRatio,
+    COMPLEXITY_INDICATORS.basic.uniqueWordRatio,
+    COMPLEXITY_INDICATORS.advanced.uniqueWordRatio
+  );
+  
+  const syllableComplexity = scoreComplexityMetric(
+    avgSyllables,
+    COMPLEXITY_INDICATORS.basic.syllablesPerWord,
+    COMPLEXITY_INDICATORS.advanced.syllablesPerWord
+  );
+
+  // Abstract concept usage
+  const abstractScore = scoreAbstractConcepts(input);
+
+  return {
+    sentenceComplexity,
+    vocabularyDiversity,
+    syllableComplexity,
+    abstractScore,
+    avgSentenceLength,
+    uniqueWordRatio,
+    avgSyllables,
+    overallScore: (sentenceComplexity + vocabularyDiversity + syllableComplexity + abstractScore) / 4
+  };
+}
+
+// Helper functions
+
+function calculateAverageSyllables(words: string[]): number {
+  const syllableCounts = words.map(word => countSyllables(word));
+  return syllableCounts.reduce((sum, count) => sum + count, 0) / Math.max(words.length, 1);
+}
+
+function countSyllables(word: string): number {
+  word = word.toLowerCase();
+  if (word.length <= 3) return 1;
+  
+  const vowels = 'aeiouy';
+  let count = 0;
+  let previousWasVowel = false;
+  
+  for (let i = 0; i < word.length; i++) {
+    const isVowel = vowels.includes(word[i]);
+    if (isVowel && !previousWasVowel) {
+      count++;
+    }
+    previousWasVowel = isVowel;
+  }
+  
+  // Adjust for silent e
+  if (word.endsWith('e') && count > 1) {
+    count--;
+  }
+  
+  return Math.max(1, count);
+}
+
+function scoreComplexityMetric(value: number, basicThreshold: number, advancedThreshold: number): number {
+  if (value <= basicThreshold) return (value / basicThreshold) * 33;
+  if (value <= advancedThreshold) {
+    const range = advancedThreshold - basicThreshold;
+    const position = value - basicThreshold;
+    return 33 + (position / range) * 34;
+  }
+  return Math.min(100, 67 + ((value - advancedThreshold) / advancedThreshold) * 33);
+}
+
+function scoreAbstractConcepts(input: string): number {
+  const inputLower = input.toLowerCase();
+  let score = 0;
+  
+  // Check for advanced abstract concepts
+  COMPLEXITY_INDICATORS.advanced.abstractConcepts.forEach(concept => {
+    if (inputLower.includes(concept)) score += 25;
+  });
+  
+  // Check for intermediate concepts
+  COMPLEXITY_INDICATORS.intermediate.abstractConcepts.forEach(concept => {
+    if (inputLower.includes(concept)) score += 15;
+  });
+  
+  // Check for basic concepts
+  COMPLEXITY_INDICATORS.basic.abstractConcepts.forEach(concept => {
+    if (inputLower.includes(concept)) score += 5;
+  });
+  
+  return Math.min(100, score);
+}
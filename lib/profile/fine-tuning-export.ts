@@ -0,0 +1,327 @@
+import { createHash } from 'crypto';
+import { IndustryClassifier, industryClassifier } from './industry-classifier';
+import { RoleDetector, UserRole, roleDetector } from './role-detector';
+import { SophisticationScorer, SophisticationLevel, sophisticationScorer } from './sophistication-scorer';
+import { classifyIndustryByKeywords, detectRoleByPatterns } from './detection-heuristics';
+import { EVALUATION_TASKS, type EvaluationTask } from './profile-evaluation';
+import type { TrainingDataPoint } from './training-data-collector';
+
+/**
+ * Fine-Tuning Dataset Export
+ * Turns labelled training data points into chat-format fine-tuning records
+ * (one JSONL file per task and split) for the industry, role and
+ * sophistication classification prompts. Each record pairs the exact
+ * system/user prompt the classifier sends at inference with the JSON answer
+ * the structured-output schema expects, filled in from the ground truth.
+ *
+ * Pipeline: deduplicate by normalized input, split train/validation by a
+ * hash of the input (so an example keeps its split across exports), cap
+ * majority classes in the train split, and describe the result in a
+ * manifest whose version is a hash of the file contents.
+ */
+
+export interface FineTuningMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface FineTuningRecord {
+  messages: FineTuningMessage[];
+}
+
+export type FineTuningSplit = 'train' | 'validation';
+
+export interface FineTuningExportOptions {
+  tasks: EvaluationTask[];
+  validationRatio: number;   // share of inputs held out for validation
+  maxClassImbalance: number; // train classes capped at this multiple of the smallest class; 0 disables
+}
+
+export interface FineTuningTaskManifest {
+  files: Record<FineTuningSplit, string>;
+  records: Record<FineTuningSplit, number>;
+  classDistribution: Record<FineTuningSplit, Record<string, number>>;
+  duplicatesRemoved: number;
+  conflictingLabels: number; // duplicate inputs whose labels disagreed
+  droppedForBalance: number;
+  examples: Record<FineTuningSplit, string[]>; // data point ids
+}
+
+export interface FineTuningManifest {
+  version: string;
+  createdAt: string;
+  options: FineTuningExportOptions;
+  sourcePoints: number;
+  tasks: Partial<Record<EvaluationTask, FineTuningTaskManifest>>;
+}
+
+export interface FineTuningDataset {
+  manifest: FineTuningManifest;
+  files: Record<string, string>; // file name -> JSONL content
+}
+
+// Labels in the training set are verified, so the target answers are confident
+const LABEL_CONFIDENCE = 0.9;
+
+const SOPHISTICATION_SCORES: Record<SophisticationLevel, number> = {
+  [SophisticationLevel.LOW]: 25,
+  [SophisticationLevel.MEDIUM]: 60,
+  [SophisticationLevel.HIGH]: 85
+};
+
+const SOPHISTICATION_INDICATORS: Record<SophisticationLevel, 'basic' | 'intermediate' | 'advanced'> = {
+  [SophisticationLevel.LOW]: 'basic',
+  [SophisticationLevel.MEDIUM]: 'intermediate',
+  [SophisticationLevel.HIGH]: 'advanced'
+};
+
+export const DEFAULT_FINE_TUNING_OPTIONS: FineTuningExportOptions = {
+  tasks: EVALUATION_TASKS,
+  validationRatio: 0.2,
+  maxClassImbalance: 3
+};
+
+/**
+ * Builds fine-tuning datasets. The classifiers supply the prompts, so the
+ * records stay in step with what the models are actually asked.
+ */
+export class FineTuningExporter {
+  constructor(
+    private readonly classifiers: {
+      industry: IndustryClassifier;
+      role: RoleDetector;
+      sophistication: SophisticationScorer;
+    } = {
+      industry: industryClassifier,
+      role: roleDetector,
+      sophistication: sophisticationScorer
+    }
+  ) {}
+
+  /**
+   * Build records, splits and manifest from already filtered data points
+   * (see TrainingDataCollector.exportFineTuningDataset for the quality filter)
+   */
+  buildDataset(points: TrainingDataPoint[], options: Partial<FineTuningExportOptions> = {}): FineTuningDataset {
+    const resolved: FineTuningExportOptions = { ...DEFAULT_FINE_TUNING_OPTIONS, ...options };
+    const files: Record<string, string> = {};
+    const tasks: Partial<Record<EvaluationTask, FineTuningTaskManifest>> = {};
+
+    resolved.tasks.forEach(task => {
+      const { unique, duplicatesRemoved, conflictingLabels } = deduplicate(points, task);
+      const splits: Record<FineTuningSplit, TrainingDataPoint[]> = { train: [], validation: [] };
+      unique.forEach(point => {
+        splits[splitOf(point, resolved.validationRatio)].push(point);
+      });
+
+      const balanced = balance(splits.train, task, resolved.maxClassImbalance);
+      splits.train = balanced.kept;
+
+      const manifest: FineTuningTaskManifest = {
+        files: { train: `${task}.train.jsonl`, validation: `${task}.validation.jsonl` },
+        records: { train: splits.train.length, validation: splits.validation.length },
+        classDistribution: {
+          train: distribution(splits.train, task),
+          validation: distribution(splits.validation, task)
+        },
+        duplicatesRemoved,
+        conflictingLabels,
+        droppedForBalance: balanced.dropped,
+        examples: {
+          train: splits.train.map(point => point.id),
+          validation: splits.validation.map(point => point.id)
+        }
+      };
+
+      (['train', 'validation'] as FineTuningSplit[]).forEach(split => {
+        files[manifest.files[split]] = splits[split]
+          .map(point => JSON.stringify(this.buildRecord(point, task)))
+          .join('\n');
+      });
+
+      tasks[task] = manifest;
+    });
+
+    const version = createHash('sha256');
+    Object.keys(files).sort().forEach(name => version.update(name).update('\0').update(files[name]).update('\0'));
+
+    return {
+      manifest: {
+        version: version.digest('hex').slice(0, 16),
+        createdAt: new Date().toISOString(),
+        options: resolved,
+        sourcePoints: points.length,
+        tasks
+      },
+      files
+    };
+  }
+
+  /**
+   * One chat record: the classifier's prompt and the schema-shaped answer.
+   * Prompts carry the same heuristic hints the classifiers add at inference.
+   */
+  buildRecord(point: TrainingDataPoint, task: EvaluationTask): FineTuningRecord {
+    const { input, groundTruth, predictions } = point;
+    let prompt: { system: string; user: string };
+    let answer: Record<string, unknown>;
+
+    switch (task) {
+      case 'industry': {
+        const keywordHint = classifyIndustryByKeywords(input);
+        prompt = this.classifiers.industry.buildClassificationPrompt(input, undefined, keywordHint);
+        // Detected keywords are only evidence when the detector got the industry right
+        const indicators = predictions?.industry?.industry === groundTruth.industry ? groundTruth.keywords : [];
+        answer = {
+          primary_industry: groundTruth.industry,
+          confidence: LABEL_CONFIDENCE,
+          reasoning: explain(groundTruth.industry, indicators),
+          key_indicators: indicators,
+          alternative_classifications: []
+        };
+        break;
+      }
+      case 'role': {
+        const patternHint = detectRoleByPatterns(input);
+        prompt = this.classifiers.role.buildRoleDetectionPrompt(input, undefined, patternHint);
+        const signals = { technical: [] as string[], business: [] as string[], hybrid: [] as string[] };
+        const role = groundTruth.role;
+        if (predictions?.role?.role === role && role !== UserRole.UNKNOWN) {
+          signals[role] = predictions.role.indicators?.[role] || [];
+        }
+        answer = {
+          role,
+          confidence: LABEL_CONFIDENCE,
+          reasoning: explain(role, role === UserRole.UNKNOWN ? [] : signals[role]),
+          sophistication_level: groundTruth.sophisticationLevel,
+          key_indicators: role === UserRole.UNKNOWN ? [] : signals[role],
+          role_signals: signals,
+          alternative_roles: []
+        };
+        break;
+      }
+      case 'sophistication': {
+        const level = groundTruth.sophisticationLevel;
+        prompt = this.classifiers.sophistication.buildSophisticationPrompt(input, {
+          userRole: groundTruth.role,
+          industry: groundTruth.industry
+        });
+        const agrees = predictions?.sophistication?.level === level;
+        const indicators = { advanced: [] as string[], intermediate: [] as string[], basic: [] as string[] };
+        if (agrees) {
+          indicators[SOPHISTICATION_INDICATORS[level]] = predictions.sophistication.indicators?.[SOPHISTICATION_INDICATORS[level]] || [];
+        }
+        answer = {
+          sophistication_level: level,
+          overall_score: agrees ? predictions.sophistication.score : SOPHISTICATION_SCORES[level],
+          confidence: LABEL_CONFIDENCE,
+          reasoning: explain(level, indicators[SOPHISTICATION_INDICATORS[level]]),
+          factor_scores: {},
+          indicators,
+          recommendations: []
+        };
+        break;
+      }
+    }
+
+    return {
+      messages: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+        { role: 'assistant', content: JSON.stringify(answer) }
+      ]
+    };
+  }
+}
+
+function labelOf(point: TrainingDataPoint, task: EvaluationTask): string {
+  return task === 'sophistication' ? point.groundTruth.sophisticationLevel : point.groundTruth[task];
+}
+
+function predictedLabelOf(point: TrainingDataPoint, task: EvaluationTask): string | undefined {
+  switch (task) {
+    case 'industry': return point.predictions?.industry?.industry;
+    case 'role': return point.predictions?.role?.role;
+    case 'sophistication': return point.predictions?.sophistication?.level;
+  }
+}
+
+function normalizeInput(input: string): string {
+  return input.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function hashOf(point: TrainingDataPoint): string {
+  return createHash('sha256').update(normalizeInput(point.input)).digest('hex');
+}
+
+/**
+ * One point per normalized input. The correction route stores one point per
+ * corrected field, so duplicates can disagree: a label that overrides the
+ * detector wins over one that echoes it, then the newest wins.
+ */
+function deduplicate(points: TrainingDataPoint[], task: EvaluationTask) {
+  const groups = new Map<string, TrainingDataPoint[]>();
+  points.forEach(point => {
+    const key = normalizeInput(point.input);
+    groups.set(key, [...(groups.get(key) || []), point]);
+  });
+
+  let conflictingLabels = 0;
+  const unique = Array.from(groups.values()).map(group => {
+    if (new Set(group.map(point => labelOf(point, task))).size > 1) conflictingLabels++;
+
+    return [...group].sort((a, b) => {
+      const corrected = Number(labelOf(b, task) !== predictedLabelOf(b, task)) - Number(labelOf(a, task) !== predictedLabelOf(a, task));
+      return corrected || new Date(b.metadata.timestamp).getTime() - new Date(a.metadata.timestamp).getTime();
+    })[0];
+  });
+
+  return { unique, duplicatesRemoved: points.length - unique.length, conflictingLabels };
+}
+
+function splitOf(point: TrainingDataPoint, validationRatio: number): FineTuningSplit {
+  return parseInt(hashOf(point).slice(0, 8), 16) / 0xffffffff < validationRatio ? 'validation' : 'train';
+}
+
+/**
+ * Cap each class at `maxClassImbalance` times the smallest one, keeping a
+ * stable (hash-ordered) subset so repeated exports drop the same points
+ */
+function balance(points: TrainingDataPoint[], task: EvaluationTask, maxClassImbalance: number) {
+  const counts = distribution(points, task);
+  const smallest = Math.min(...Object.values(counts));
+  if (maxClassImbalance <= 0 || !Number.isFinite(smallest)) {
+    return { kept: points, dropped: 0 };
+  }
+
+  const cap = Math.ceil(smallest * maxClassImbalance);
+  const hashes = new Map(points.map(point => [point, hashOf(point)]));
+  const keep = new Set<TrainingDataPoint>();
+  const taken: Record<string, number> = {};
+  [...points]
+    .sort((a, b) => hashes.get(a)!.localeCompare(hashes.get(b)!))
+    .forEach(point => {
+      const label = labelOf(point, task);
+      if ((taken[label] || 0) < cap) {
+        taken[label] = (taken[label] || 0) + 1;
+        keep.add(point);
+      }
+    });
+
+  return { kept: points.filter(point => keep.has(point)), dropped: points.length - keep.size };
+}
+
+function distribution(points: TrainingDataPoint[], task: EvaluationTask): Record<string, number> {
+  const counts: Record<string, number> = {};
+  points.forEach(point => {
+    const label = labelOf(point, task);
+    counts[label] = (counts[label] || 0) + 1;
+  });
+  return counts;
+}
+
+function explain(label: string, indicators: string[]): string {
+  return indicators.length > 0
+    ? `Classified as ${label} based on: ${indicators.join(', ')}`
+    : `Classified as ${label} from the overall framing of the input`;
+}
@@ -1,5 +1,8 @@
 import { OpenAIService, CompletionRequest } from '@/lib/openai/client';
 import { openaiConfig } from '@/lib/config/environment';
+import { industryClassificationSchema, type IndustryClassificationOutput } from '@/lib/openai/schemas';
+import { KeywordWeights, keywordWeights } from './keyword-weights';
+import { classifyIndustryByKeywords } from './detection-heuristics';
 
 /**
  * Industry Classification System
@@ -27,6 +30,13 @@ export interface IndustryClassification {
     confidence: number;
     reasoning: string;
   }>;
+  // Set when keyword analysis and GPT picked different industries
+  methodDisagreement?: {
+    keyword: Industry;
+    keywordConfidence: number;
+    gpt: Industry;
+    gptConfidence: number;
+  };
 }
 
 export interface IndustryKeywords {
@@ -39,55 +49,13 @@ export interface IndustryKeywords {
   [Industry.GENERAL]: string[];
 }
 
-// Industry-specific keyword patterns for initial classification
-const INDUSTRY_KEYWORDS: IndustryKeywords = {
-  [Industry.FINTECH]: [
-    'payment', 'finance', 'banking', 'fintech', 'cryptocurrency', 'blockchain',
-    'lending', 'investment', 'trading', 'wallet', 'transaction', 'compliance',
-    'KYC', 'AML', 'PCI DSS', 'SOC2', 'fraud', 'credit', 'debit', 'mortgage',
-    'insurance', 'wealth management', 'robo-advisor', 'neobank', 'regtech'
-  ],
-  [Industry.HEALTHCARE]: [
-    'healthcare', 'medical', 'hospital', 'clinic', 'patient', 'doctor',
-    'physician', 'nurse', 'health', 'medicine', 'pharmaceutical', 'biotech',
-    'EHR', 'EMR', 'HIPAA', 'clinical', 'diagnosis', 'treatment', 'therapy',
-    'telehealth', 'telemedicine', 'medical device', 'FDA', 'clinical trial'
-  ],
-  [Industry.ECOMMERCE]: [
-    'ecommerce', 'e-commerce', 'online store', 'marketplace', 'retail',
-    'shopping', 'cart', 'checkout', 'inventory', 'fulfillment', 'shipping',
-    'product catalog', 'dropshipping', 'B2C', 'consumer goods', 'merchant',
-    'Shopify', 'Amazon', 'marketplace seller', 'online retail'
-  ],
-  [Industry.SAAS]: [
-    'SaaS', 'software as a service', 'B2B software', 'cloud software',
-    'subscription', 'API', 'platform', 'dashboard', 'analytics', 'CRM',
-    'productivity', 'collaboration', 'workflow', 'automation', 'integration',
-    'enterprise software', 'business software', 'tool', 'solution'
-  ],
-  [Industry.CONSUMER]: [
-    'consumer app', 'mobile app', 'social', 'entertainment', 'gaming',
-    'lifestyle', 'travel', 'food', 'fitness', 'dating', 'social media',
-    'content', 'media', 'streaming', 'B2C', 'user engagement', 'viral'
-  ],
-  [Industry.ENTERPRISE]: [
-    'enterprise', 'B2B', 'corporate', 'business', 'organization',
-    'company', 'internal tool', 'employee', 'HR', 'operations',
-    'management', 'governance', 'compliance', 'security', 'infrastructure'
-  ],
-  [Industry.GENERAL]: [
-    'business', 'startup', 'idea', 'product', 'service', 'market',
-    'customer', 'user', 'solution', 'problem', 'opportunity'
-  ]
-};
-
 /**
  * Advanced industry classifier using OpenAI GPT-4
  */
 export class IndustryClassifier {
   private openaiService: OpenAIService;
 
-  constructor() {
+  constructor(private weights: KeywordWeights = keywordWeights) {
     this.openaiService = new OpenAIService();
   }
 
@@ -97,7 +65,7 @@ export class IndustryClassifier {
   async classifyIndustry(input: string, context?: string): Promise<IndustryClassification> {
     try {
       // First, do a quick keyword-based pre-classification
-      const keywordResults = this.keywordBasedClassification(input);
+      const keywordResults = classifyIndustryByKeywords(input, this.weights);
       
       // Then use GPT-4 for sophisticated analysis
       const gptResults = await this.gptBasedClassification(input, context, keywordResults);
@@ -109,7 +77,7 @@ export class IndustryClassifier {
       console.error('Industry classification failed:', error);
       
       // Fallback to keyword-based classification
-      const fallbackResult = this.keywordBasedClassification(input);
+      const fallbackResult = classifyIndustryByKeywords(input, this.weights);
       return {
         industry: fallbackResult.topIndustry,
         confidence: Math.max(0.3, fallbackResult.confidence), // Lower confidence for fallback
@@ -120,68 +88,6 @@ export class IndustryClassifier {
     }
   }
 
-  /**
-   * Keyword-based classification for quick initial analysis
-   */
-  private keywordBasedClassification(input: string) {
-    const inputLower = input.toLowerCase();
-    const industryScores: Record<Industry, number> = {
-      [Industry.FINTECH]: 0,
-      [Industry.HEALTHCARE]: 0,
-      [Industry.ECOMMERCE]: 0,
-      [Industry.SAAS]: 0,
-      [Industry.CONSUMER]: 0,
-      [Industry.ENTERPRISE]: 0,
-      [Industry.GENERAL]: 0
-    };
-    
-    const foundKeywords: Record<Industry, string[]> = {
-      [Industry.FINTECH]: [],
-      [Industry.HEALTHCARE]: [],
-      [Industry.ECOMMERCE]: [],
-      [Industry.SAAS]: [],
-      [Industry.CONSUMER]: [],
-      [Industry.ENTERPRISE]: [],
-      [Industry.GENERAL]: []
-    };
-
-    // Score each industry based on keyword matches
-    Object.entries(INDUSTRY_KEYWORDS).forEach(([industry, keywords]) => {
-      keywords.forEach((keyword: string) => {
-        if (inputLower.includes(keyword.toLowerCase())) {
-          industryScores[industry as Industry]++;
-          foundKeywords[industry as Industry].push(keyword);
-        }
-      });
-    });
-
-    // Find top industry and alternatives
-    const sortedIndustries = Object.entries(industryScores)
-      .sort(([,a], [,b]) => b - a)
-      .filter(([,score]) => score > 0);
-
-    const topIndustry = sortedIndustries[0]?.[0] as Industry || Industry.GENERAL;
-    const topScore = sortedIndustries[0]?.[1] || 0;
-    
-    // Calculate confidence based on keyword matches and uniqueness
-    const totalMatches = Object.values(industryScores).reduce((sum, score) => sum + score, 0);
-    const confidence = totalMatches > 0 ? Math.min(0.8, topScore / totalMatches) : 0.1;
-
-    const alternatives = sortedIndustries.slice(1, 4).map(([industry, score]) => ({
-      industry: industry as Industry,
-      confidence: totalMatches > 0 ? score / totalMatches : 0,
-      reasoning: `Keyword matches: ${foundKeywords[industry as Industry].join(', ')}`
-    }));
-
-    return {
-      topIndustry,
-      confidence,
-      reasoning: `Keyword analysis found ${topScore} matches for ${topIndustry}: ${foundKeywords[topIndustry].join(', ')}`,
-      keywords: foundKeywords[topIndustry],
-      alternatives
-    };
-  }
-
   /**
    * GPT-4 based sophisticated industry classification
    */
@@ -210,15 +116,19 @@ export class IndustryClassifier {
       }
     };
 
-    const response = await this.openaiService.createCompletionWithFallback(request);
+    const { data } = await this.openaiService.createStructuredCompletion({
+      ...request,
+      schema: industryClassificationSchema,
+      schemaName: 'IndustryClassification'
+    });
     
-    return this.parseGPTResponse(response.choices[0].message.content || '');
+    return this.mapGPTResponse(data);
   }
 
   /**
    * Build classification prompt for GPT-4
    */
-  private buildClassificationPrompt(
+  buildClassificationPrompt(
     input: string, 
     context?: string, 
     keywordHint?: { topIndustry: Industry; confidence: number }
@@ -273,36 +183,17 @@ INPUT: "${input}"`;
   }
 
   /**
-   * Parse GPT-4 response into structured classification
+   * Map validated GPT-4 output into structured classification
    */
-  private parseGPTResponse(content: string): any {
-    try {
-      // Extract JSON from response (handle cases where GPT adds extra text)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.primary_industry || !parsed.confidence || !parsed.reasoning) {
-        throw new Error('Missing required fields in GPT response');
-      }
-
-      return {
-        industry: parsed.primary_industry,
-        confidence: Math.max(0, Math.min(1, parsed.confidence)), // Clamp to 0-1
-        reasoning: parsed.reasoning,
-        subIndustry: parsed.sub_industry,
-        keywords: parsed.key_indicators || [],
-        alternatives: parsed.alternative_classifications || []
-      };
-
-    } catch (error) {
-      console.error('Failed to parse GPT classification response:', error);
-      throw new Error(`GPT response parsing failed: ${error}`);
-    }
+  private mapGPTResponse(parsed: IndustryClassificationOutput) {
+    return {
+      industry: parsed.primary_industry as Industry,
+      confidence: parsed.confidence,
+      reasoning: parsed.reasoning,
+      subIndustry: parsed.sub_industry,
+      keywords: parsed.key_indicators,
+      alternatives: parsed.alternative_classifications
+    };
   }
 
   /**
@@ -336,13 +227,22 @@ INPUT: "${input}"`;
       arr.findIndex(a => a.industry === alt.industry) === index
     ).slice(0, 3); // Keep top 3
 
+    // Weak keyword signals are too noisy to count as disagreement
+    const disagrees = keywordResults.topIndustry !== gptResults.industry && keywordResults.confidence > 0.3;
+
     return {
       industry: gptResults.industry,
       confidence: finalConfidence,
       reasoning: `Combined analysis: ${gptResults.reasoning}. Keyword analysis: ${keywordResults.reasoning}`,
       keywords: allKeywords,
       subIndustry: gptResults.subIndustry,
-      alternativeIndustries: alternatives
+      alternativeIndustries: alternatives,
+      methodDisagreement: disagrees ? {
+        keyword: keywordResults.topIndustry,
+        keywordConfidence: keywordResults.confidence,
+        gpt: gptResults.industry,
+        gptConfidence: gptResults.confidence
+      } : undefined
     };
   }
 
@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+import { UserRole } from './role-detector';
+import { classifyIndustryByKeywords, detectRoleByPatterns } from './detection-heuristics';
+import type { TrainingDataPoint } from './training-data-collector';
+import type { LearningInsights } from './profile-correction';
+import { KeywordWeights, keywordWeights, type ConfidenceBin, type KeywordWeightsFile, type TaskWeights, type WeightedTask } from './keyword-weights';
+
+/**
+ * Keyword Recalibration
+ * Learns keyword weights and confidence calibration for the heuristic
+ * industry and role detectors from labelled training data (user
+ * corrections and expert annotations).
+ *
+ * An indicator's weight is the smoothed odds that the label it votes for
+ * is the right one when it matches:
+ *
+ *   weight = (right + 1) / (wrong + 1), clamped to `weightRange`
+ *
+ * so a keyword that usually points at the wrong industry loses influence.
+ * Indicators matched fewer than `minSupport` times keep weight 1. Examples
+ * whose correction is one of the common misclassifications reported by
+ * the correction history count extra, up to double for the most frequent.
+ * Calibration bins are then fitted on the reweighted detector's output.
+ */
+
+export interface RecalibrationOptions {
+  minSupport: number;
+  weightRange: [number, number];
+  misclassifications: LearningInsights['commonMisclassifications'];
+}
+
+export interface RecalibrationResult {
+  weights: Omit<KeywordWeightsFile, 'version' | 'createdAt'>;
+  // Indicators whose weight moved furthest from 1
+  changes: Record<WeightedTask, Array<{ label: string; indicator: string; weight: number; matches: number }>>;
+}
+
+interface Example {
+  input: string;
+  label: string;
+  predicted?: string; // absent on points imported without predictions, e.g. gold data
+  weight: number;
+}
+
+const DEFAULT_OPTIONS: RecalibrationOptions = {
+  minSupport: 3,
+  weightRange: [0.25, 3],
+  misclassifications: []
+};
+
+const WEIGHTED_TASKS: WeightedTask[] = ['industry', 'role'];
+const CALIBRATION_BINS = 5;
+const MAX_REPORTED_CHANGES = 10;
+
+export class KeywordRecalibrator {
+  constructor(private weights: KeywordWeights = keywordWeights) {}
+
+  /**
+   * Fit new weights on labelled points. The current weights are only
+   * used to report accuracy before recalibration.
+   */
+  recalibrate(labelled: TrainingDataPoint[], options: Partial<RecalibrationOptions> = {}): RecalibrationResult {
+    const config = { ...DEFAULT_OPTIONS, ...options };
+
+    const examples: Record<WeightedTask, Example[]> = {
+      industry: labelled.map(point => ({
+        input: point.input,
+        label: point.groundTruth.industry,
+        predicted: point.predictions?.industry?.industry,
+        weight: 1
+      })),
+      role: labelled
+        .filter(point => point.groundTruth.role !== UserRole.UNKNOWN)
+        .map(point => ({
+          input: point.input,
+          label: point.groundTruth.role,
+          predicted: point.predictions?.role?.role,
+          weight: 1
+        }))
+    };
+    WEIGHTED_TASKS.forEach(task => this.applyMisclassificationBoost(examples[task], config.misclassifications));
+
+    const fitted = {
+      industry: this.fitWeights(examples.industry, 'industry', config),
+      role: this.fitWeights(examples.role, 'role', config)
+    };
+
+    // Calibration bins are fitted on the reweighted heuristics' raw confidence
+    const uncalibrated = new KeywordWeights({
+      industry: { weights: fitted.industry, calibration: [] },
+      role: { weights: fitted.role, calibration: [] }
+    });
+
+    const tasks = {} as Record<WeightedTask, TaskWeights>;
+    const metrics = {} as KeywordWeightsFile['metrics'];
+    WEIGHTED_TASKS.forEach(task => {
+      const before = examples[task].map(example => this.predict(task, example.input, this.weights));
+      const after = examples[task].map(example => this.predict(task, example.input, uncalibrated));
+
+      tasks[task] = {
+        weights: fitted[task],
+        calibration: computeBins(examples[task].map((example, i) => ({
+          confidence: after[i].confidence,
+          correct: after[i].label === example.label
+        })))
+      };
+      metrics[task] = {
+        examples: examples[task].length,
+        accuracyBefore: accuracy(examples[task], before),
+        accuracyAfter: accuracy(examples[task], after)
+      };
+    });
+
+    const sources: Record<string, number> = {};
+    labelled.forEach(point => {
+      sources[point.source] = (sources[point.source] || 0) + 1;
+    });
+
+    return {
+      weights: {
+        trainedOn: { examples: labelled.length, dataHash: hashExamples(labelled), sources },
+        metrics,
+        industry: tasks.industry,
+        role: tasks.role
+      },
+      changes: {
+        industry: this.largestChanges(fitted.industry, examples.industry, 'industry'),
+        role: this.largestChanges(fitted.role, examples.role, 'role')
+      }
+    };
+  }
+
+  /**
+   * Indicators matched in an input, by the label they vote for
+   */
+  private matchIndicators(task: WeightedTask, input: string): Record<string, string[]> {
+    return task === 'industry'
+      ? classifyIndustryByKeywords(input, this.weights).matches
+      : detectRoleByPatterns(input, this.weights).indicators;
+  }
+
+  private fitWeights(examples: Example[], task: WeightedTask, config: RecalibrationOptions): Record<string, Record<string, number>> {
+    const stats = this.indicatorStats(examples, task);
+    const [minWeight, maxWeight] = config.weightRange;
+    const weights: Record<string, Record<string, number>> = {};
+
+    stats.forEach(({ label, indicator, matches, right, wrong }) => {
+      if (matches < config.minSupport) return;
+
+      const weight = round(Math.max(minWeight, Math.min(maxWeight, (right + 1) / (wrong + 1))));
+      if (weight !== 1) {
+        weights[label] = { ...(weights[label] || {}), [indicator]: weight };
+      }
+    });
+
+    return weights;
+  }
+
+  private indicatorStats(examples: Example[], task: WeightedTask) {
+    const stats = new Map<string, { label: string; indicator: string; matches: number; right: number; wrong: number }>();
+
+    examples.forEach(example => {
+      Object.entries(this.matchIndicators(task, example.input)).forEach(([label, indicators]) => {
+        new Set(indicators).forEach(indicator => {
+          const key = `${label}\u0000${indicator}`;
+          const entry = stats.get(key) || { label, indicator, matches: 0, right: 0, wrong: 0 };
+          entry.matches++;
+          if (label === example.label) entry.right += example.weight;
+          else entry.wrong += example.weight;
+          stats.set(key, entry);
+        });
+      });
+    });
+
+    return Array.from(stats.values());
+  }
+
+  private applyMisclassificationBoost(examples: Example[], misclassifications: RecalibrationOptions['misclassifications']) {
+    const maxFrequency = Math.max(0, ...misclassifications.map(entry => entry.frequency));
+    if (maxFrequency === 0) return;
+
+    examples.forEach(example => {
+      const match = misclassifications.find(entry =>
+        entry.original === example.predicted && entry.corrected === example.label
+      );
+      if (match) {
+        example.weight = 1 + match.frequency / maxFrequency;
+      }
+    });
+  }
+
+  private largestChanges(weights: Record<string, Record<string, number>>, examples: Example[], task: WeightedTask) {
+    const matches = new Map(this.indicatorStats(examples, task).map(entry => [`${entry.label}\u0000${entry.indicator}`, entry.matches]));
+
+    return Object.entries(weights)
+      .flatMap(([label, indicators]) => Object.entries(indicators).map(([indicator, weight]) => ({
+        label,
+        indicator,
+        weight,
+        matches: matches.get(`${label}\u0000${indicator}`) || 0
+      })))
+      .sort((a, b) => Math.abs(Math.log(b.weight)) - Math.abs(Math.log(a.weight)))
+      .slice(0, MAX_REPORTED_CHANGES);
+  }
+
+  private predict(task: WeightedTask, input: string, weights: KeywordWeights) {
+    if (task === 'industry') {
+      const result = classifyIndustryByKeywords(input, weights);
+      return { label: result.topIndustry as string, confidence: result.confidence };
+    }
+    const result = detectRoleByPatterns(input, weights);
+    return { label: result.topRole as string, confidence: result.confidence };
+  }
+}
+
+function computeBins(results: Array<{ confidence: number; correct: boolean }>): ConfidenceBin[] {
+  const bins: ConfidenceBin[] = [];
+
+  for (let i = 0; i < CALIBRATION_BINS; i++) {
+    const low = i / CALIBRATION_BINS;
+    const high = (i + 1) / CALIBRATION_BINS;
+    const inBin = results.filter(({ confidence }) =>
+      confidence >= low && (confidence < high || (i === CALIBRATION_BINS - 1 && confidence <= high))
+    );
+
+    bins.push({
+      range: [round(low), round(high)],
+      count: inBin.length,
+      accuracy: round(inBin.length > 0 ? inBin.filter(({ correct }) => correct).length / inBin.length : 0)
+    });
+  }
+
+  return bins;
+}
+
+function accuracy(examples: Example[], predictions: Array<{ label: string }>): number {
+  if (examples.length === 0) return 0;
+  return round(examples.filter((example, i) => predictions[i].label === example.label).length / examples.length);
+}
+
+function hashExamples(points: TrainingDataPoint[]): string {
+  const content = points
+    .map(point => `${point.id}:${point.groundTruth.industry}:${point.groundTruth.role}`)
+    .sort()
+    .join('\n');
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const keywordRecalibrator = new KeywordRecalibrator();
@@ -0,0 +1,213 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { profileConfig } from '@/lib/config/environment';
+
+/**
+ * Keyword Weights
+ * Learned weights for the keyword industry classifier and the pattern role
+ * detector, plus a calibration of their confidence. Weights are versioned
+ * files next to a manifest naming the active version:
+ *
+ *   config/profile-weights/
+ *     manifest.json      { active, pinned, versions }
+ *     weights-v1.json
+ *     weights-v2.json
+ *
+ * The classifiers load the active version when the process starts. With no
+ * manifest every indicator weighs 1 and confidence is used as computed,
+ * which is the hand-tuned behaviour.
+ */
+
+export type WeightedTask = 'industry' | 'role';
+
+export interface ConfidenceBin {
+  range: [number, number];
+  count: number;    // examples whose raw confidence fell in the bin
+  accuracy: number; // share of them the classifier got right
+}
+
+export interface TaskWeights {
+  // label -> indicator (keyword, phrase or "Pattern: ..." entry) -> weight; missing entries weigh 1
+  weights: Record<string, Record<string, number>>;
+  calibration: ConfidenceBin[];
+}
+
+export interface KeywordWeightsFile {
+  version: number;
+  createdAt: string;
+  trainedOn: {
+    examples: number;
+    dataHash: string;
+    sources: Record<string, number>;
+  };
+  metrics: Record<WeightedTask, { examples: number; accuracyBefore: number; accuracyAfter: number }>;
+  industry: TaskWeights;
+  role: TaskWeights;
+}
+
+export interface WeightsManifest {
+  active: number | null;
+  pinned: boolean; // new versions are recorded but not activated
+  versions: Array<{ version: number; createdAt: string; examples: number; file: string }>;
+}
+
+export class KeywordWeightsError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'KeywordWeightsError';
+  }
+}
+
+// Pseudo-count pulling sparsely populated calibration bins toward the raw confidence
+const CALIBRATION_PRIOR = 5;
+
+/**
+ * Read-only view of one weights version used while classifying
+ */
+export class KeywordWeights {
+  constructor(private file: (Pick<KeywordWeightsFile, WeightedTask> & { version?: number }) | null = null) {}
+
+  get version(): number | null {
+    return this.file?.version ?? null;
+  }
+
+  weightOf(task: WeightedTask, label: string, indicator: string): number {
+    return this.file?.[task].weights[label]?.[indicator] ?? 1;
+  }
+
+  /**
+   * Map a raw confidence to the accuracy observed at that confidence
+   */
+  calibrate(task: WeightedTask, confidence: number): number {
+    const bins = this.file?.[task].calibration || [];
+    const bin = bins.find((candidate, i) =>
+      confidence >= candidate.range[0] && (confidence < candidate.range[1] || i === bins.length - 1)
+    );
+    if (!bin || bin.count === 0) {
+      return confidence;
+    }
+
+    return (bin.count * bin.accuracy + CALIBRATION_PRIOR * confidence) / (bin.count + CALIBRATION_PRIOR);
+  }
+}
+
+/**
+ * Versioned weights files in a directory. Publishing a version activates it
+ * unless the active version is pinned; rolling back pins the version it
+ * returns to so the next recalibration does not replace it.
+ */
+export class KeywordWeightsRegistry {
+  constructor(private dir: string = profileConfig.weightsDir) {}
+
+  getManifest(): WeightsManifest {
+    const path = join(this.dir, 'manifest.json');
+    if (!existsSync(path)) {
+      return { active: null, pinned: false, versions: [] };
+    }
+    return JSON.parse(readFileSync(path, 'utf8'));
+  }
+
+  /**
+   * A stored version, the active one by default; null when nothing is active
+   */
+  load(version?: number): KeywordWeightsFile | null {
+    const manifest = this.getManifest();
+    const wanted = version ?? manifest.active;
+    if (wanted === null) {
+      return null;
+    }
+
+    const entry = this.findVersion(manifest, wanted);
+    return JSON.parse(readFileSync(join(this.dir, entry.file), 'utf8'));
+  }
+
+  publish(
+    weights: Omit<KeywordWeightsFile, 'version' | 'createdAt'>,
+    options: { activate?: boolean; now?: Date } = {}
+  ): { file: KeywordWeightsFile; activated: boolean } {
+    const { activate = true, now = new Date() } = options;
+    const manifest = this.getManifest();
+    const version = Math.max(0, ...manifest.versions.map(entry => entry.version)) + 1;
+    const file: KeywordWeightsFile = { version, createdAt: now.toISOString(), ...weights };
+    const name = `weights-v${version}.json`;
+
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(join(this.dir, name), JSON.stringify(file, null, 2) + '\n');
+
+    const activated = activate && !manifest.pinned;
+    this.saveManifest({
+      ...manifest,
+      active: activated ? version : manifest.active,
+      versions: [...manifest.versions, { version, createdAt: file.createdAt, examples: file.trainedOn.examples, file: name }]
+    });
+
+    return { file, activated };
+  }
+
+  /**
+   * Keep a version (the active one by default) active until unpinned
+   */
+  pin(version?: number): WeightsManifest {
+    const manifest = this.getManifest();
+    const target = version ?? manifest.active;
+    if (target === null) {
+      throw new KeywordWeightsError('No weights version is active', 404);
+    }
+
+    this.findVersion(manifest, target);
+    return this.saveManifest({ ...manifest, active: target, pinned: true });
+  }
+
+  unpin(): WeightsManifest {
+    return this.saveManifest({ ...this.getManifest(), pinned: false });
+  }
+
+  /**
+   * Return to an earlier version (the one before the active version by
+   * default) and pin it
+   */
+  rollback(version?: number): WeightsManifest {
+    const manifest = this.getManifest();
+    if (version === undefined) {
+      const earlier = manifest.versions
+        .map(entry => entry.version)
+        .filter(candidate => manifest.active !== null && candidate < manifest.active);
+      if (earlier.length === 0) {
+        throw new KeywordWeightsError('No earlier weights version to roll back to', 409);
+      }
+      version = Math.max(...earlier);
+    }
+
+    return this.pin(version);
+  }
+
+  private findVersion(manifest: WeightsManifest, version: number) {
+    const entry = manifest.versions.find(candidate => candidate.version === version);
+    if (!entry) {
+      throw new KeywordWeightsError(`Weights version ${version} not found in ${this.dir}`, 404);
+    }
+    return entry;
+  }
+
+  private saveManifest(manifest: WeightsManifest): WeightsManifest {
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(join(this.dir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+    return manifest;
+  }
+}
+
+/**
+ * The active weights, or the defaults when none are published or they
+ * cannot be read
+ */
+export function loadKeywordWeights(registry = new KeywordWeightsRegistry()): KeywordWeights {
+  try {
+    return new KeywordWeights(registry.load());
+  } catch (error) {
+    console.error('Failed to load keyword weights, using defaults:', error);
+    return new KeywordWeights();
+  }
+}
+
+// Export singleton instance, loaded once at startup
+export const keywordWeights = loadKeywordWeights();
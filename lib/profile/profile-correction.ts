@@ -2,6 +2,12 @@ import { UserProfile } from '@/lib/types/agent-types';
 import { Industry } from './industry-classifier';
 import { UserRole } from './role-detector';
 import { SophisticationLevel } from './sophistication-scorer';
+import {
+  createProfileVersionStore,
+  type ProfileSnapshot,
+  type ProfileVersion,
+  type ProfileVersionStore
+} from '@/lib/stores/profile-version-store';
 
 /**
  * Profile Correction System
@@ -60,26 +66,97 @@ export interface CorrectionValidation {
   confidence: number;
 }
 
+export interface AccuracyByField {
+  industry: number;
+  role: number;
+  sophistication: number;
+}
+
+export interface LearningInsights {
+  totalCorrections: number;
+  mostCorrectedField: CorrectionType;
+  commonMisclassifications: Array<{
+    original: any;
+    corrected: any;
+    frequency: number;
+  }>;
+  // Share of profiles detected in the period that needed no correction
+  accuracyTrends: AccuracyByField;
+  windows: Array<{
+    start: string;
+    end: string;
+    profiles: number;     // profiles detected in the window
+    corrections: number;
+    accuracy: AccuracyByField | null; // null when no profiles were detected
+  }>;
+}
+
+// Undo or rollback that cannot be applied (unknown target, or a later change in the way)
+export class ProfileCorrectionError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'ProfileCorrectionError';
+  }
+}
+
+// The correctable subset of UserProfile, as recorded in each version's snapshot
+type CorrectableField = keyof ProfileSnapshot;
+
+// Snapshot fields each correction type changes; undo restores them together
+const CORRECTION_FIELDS: Record<CorrectionType, CorrectableField[]> = {
+  [CorrectionType.INDUSTRY]: ['industry', 'industryConfidence'],
+  [CorrectionType.ROLE]: ['role', 'roleConfidence'],
+  [CorrectionType.SOPHISTICATION]: ['sophisticationLevel', 'sophisticationScore'],
+  [CorrectionType.TERMINOLOGY]: ['terminology'],
+  [CorrectionType.COMMUNICATION_STYLE]: ['preferredCommunicationStyle'],
+  [CorrectionType.ASSUMPTION_TOLERANCE]: ['assumptionTolerance']
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function restoreField<K extends CorrectableField>(target: ProfileSnapshot, source: ProfileSnapshot, field: K): void {
+  target[field] = source[field];
+}
+
 /**
  * Profile correction manager
  */
 export class ProfileCorrectionManager {
-  private corrections: Map<string, ProfileCorrection[]> = new Map();
-  private learningData: Map<string, any[]> = new Map();
+  constructor(private readonly store: ProfileVersionStore = createProfileVersionStore()) {}
+
+  /**
+   * Record a freshly detected profile as version 1 of its history, so
+   * accuracy can be measured against every detection, not only corrected ones
+   */
+  async recordDetection(profile: UserProfile, changedBy: string = 'system'): Promise<void> {
+    const history = await this.store.history(profile.id);
+    if (history.length > 0) return;
+
+    await this.store.append(this.buildVersion(profile.id, profile.sessionId, 1, 'detected', changedBy, [], this.snapshot(profile)));
+  }
 
   /**
-   * Apply user corrections to a profile
+   * Apply user corrections to a profile and record them as a new version
    */
   async applyCorrections(
     profile: UserProfile,
-    correctionRequest: ProfileCorrectionRequest
+    correctionRequest: ProfileCorrectionRequest,
+    changedBy: string = 'user'
   ): Promise<{
     updatedProfile: UserProfile;
     corrections: ProfileCorrection[];
     impact: CorrectionImpact;
+    version?: number;
   }> {
+    // The stored history is the source of truth for correctable fields: the
+    // submitted profile may be stale, so its values for them are ignored
+    let history = await this.store.history(profile.id);
+    const current: UserProfile = history.length > 0
+      ? { ...profile, ...history[history.length - 1].snapshot }
+      : profile;
+
     const corrections: ProfileCorrection[] = [];
-    const updatedProfile = { ...profile };
+    const updatedProfile = { ...current };
     let overallImpact: CorrectionImpact = {
       agentBehaviorChanges: [],
       questioningAdjustments: [],
@@ -91,7 +168,7 @@ export class ProfileCorrectionManager {
     for (const [field, newValue] of Object.entries(correctionRequest.corrections)) {
       if (newValue !== undefined) {
         const correction = await this.createCorrection(
-          profile,
+          current,
           field as keyof typeof correctionRequest.corrections,
           newValue,
           correctionRequest
@@ -108,26 +185,133 @@ export class ProfileCorrectionManager {
           
           // Merge impacts
           overallImpact = this.mergeImpacts(overallImpact, impact);
-          
-          // Store for learning
-          this.storeCorrectionForLearning(correction);
         }
       }
     }
 
     // Update profile metadata
     updatedProfile.lastUpdated = new Date();
-    
-    // Store corrections
-    this.storeCorrections(profile.sessionId || 'default', corrections);
+
+    let version: number | undefined;
+    if (corrections.length > 0) {
+      // Profiles corrected before their detection was recorded start from the submitted values
+      if (history.length === 0) {
+        await this.recordDetection(profile);
+        history = await this.store.history(profile.id);
+      }
+
+      version = history[history.length - 1].version + 1;
+      await this.store.append(this.buildVersion(
+        profile.id,
+        correctionRequest.sessionId || profile.sessionId,
+        version,
+        'correct',
+        changedBy,
+        corrections,
+        this.snapshot(updatedProfile)
+      ));
+    }
 
     return {
       updatedProfile,
       corrections,
-      impact: overallImpact
+      impact: overallImpact,
+      version
     };
   }
 
+  /**
+   * Take back one correction, restoring the fields it changed to their
+   * values before it. Refused when a later change touched the same field.
+   */
+  async undoCorrection(profileId: string, correctionId: string, changedBy: string = 'user'): Promise<ProfileVersion> {
+    const history = await this.requireHistory(profileId);
+    const index = history.findIndex(entry => entry.action === 'correct' && entry.changes.some(change => change.id === correctionId));
+    if (index === -1) {
+      throw new ProfileCorrectionError(`Correction not found: ${correctionId}`, 404);
+    }
+    if (history.some(entry => entry.reverts.includes(correctionId))) {
+      throw new ProfileCorrectionError(`Correction ${correctionId} has already been undone`, 409);
+    }
+
+    const correction = history[index].changes.find(change => change.id === correctionId)!;
+    const later = history.slice(index + 1).find(entry => entry.changes.some(change => change.correctionType === correction.correctionType));
+    if (later) {
+      throw new ProfileCorrectionError(
+        `${correction.correctionType} was changed again in version ${later.version}; roll back to version ${history[index - 1].version} instead`,
+        409
+      );
+    }
+
+    const current = history[history.length - 1].snapshot;
+    const before = history[index - 1].snapshot;
+    const snapshot = { ...current };
+    CORRECTION_FIELDS[correction.correctionType].forEach(field => restoreField(snapshot, before, field));
+
+    const version = this.buildVersion(
+      profileId,
+      history[history.length - 1].sessionId,
+      history[history.length - 1].version + 1,
+      'undo',
+      changedBy,
+      [this.revertChange(profileId, correction.correctionType, current, snapshot, correction.sessionId)],
+      snapshot,
+      [correctionId]
+    );
+    await this.store.append(version);
+
+    return version;
+  }
+
+  /**
+   * Restore the profile as it was at an earlier version. Recorded as a new
+   * version, so the rollback itself can be rolled back.
+   */
+  async rollbackToVersion(profileId: string, targetVersion: number, changedBy: string = 'user'): Promise<ProfileVersion> {
+    const history = await this.requireHistory(profileId);
+    const target = history.find(entry => entry.version === targetVersion);
+    const latest = history[history.length - 1];
+    if (!target) {
+      throw new ProfileCorrectionError(`Profile ${profileId} has no version ${targetVersion}`, 404);
+    }
+    if (target === latest) {
+      throw new ProfileCorrectionError(`Version ${targetVersion} is already the current version`, 409);
+    }
+
+    const changes = (Object.keys(CORRECTION_FIELDS) as CorrectionType[])
+      .filter(type => CORRECTION_FIELDS[type].some(field => !this.valuesEqual(latest.snapshot[field], target.snapshot[field])))
+      .map(type => this.revertChange(profileId, type, latest.snapshot, target.snapshot, latest.sessionId || ''));
+
+    // Corrections made after the target that are still in effect
+    const undone = new Set(history.flatMap(entry => entry.reverts));
+    const reverts = history
+      .filter(entry => entry.version > targetVersion && entry.action === 'correct')
+      .flatMap(entry => entry.changes.map(change => change.id))
+      .filter(id => !undone.has(id));
+
+    const version = this.buildVersion(
+      profileId,
+      latest.sessionId,
+      latest.version + 1,
+      'rollback',
+      changedBy,
+      changes,
+      { ...target.snapshot },
+      reverts,
+      targetVersion
+    );
+    await this.store.append(version);
+
+    return version;
+  }
+
+  /**
+   * Full audit trail of a profile, oldest version first
+   */
+  async getProfileHistory(profileId: string): Promise<ProfileVersion[]> {
+    return this.store.history(profileId);
+  }
+
   /**
    * Create a correction record
    */
@@ -422,30 +606,31 @@ export class ProfileCorrectionManager {
   }
 
   /**
-   * Get correction history for a session
+   * Get correction history for a session, including undos and rollbacks
    */
-  getCorrectionHistory(sessionId: string): ProfileCorrection[] {
-    return this.corrections.get(sessionId) || [];
+  async getCorrectionHistory(sessionId: string): Promise<ProfileCorrection[]> {
+    const versions = await this.store.list({ sessionId });
+    return versions.flatMap(entry => entry.changes);
   }
 
   /**
-   * Get learning insights from corrections
+   * Learning insights over the last `windows` periods of `windowDays` days.
+   * Accuracy per field is the share of profiles detected in a period that
+   * were never corrected on that field; undone or rolled back corrections
+   * do not count.
    */
-  getLearningInsights(): {
-    totalCorrections: number;
-    mostCorrectedField: CorrectionType;
-    commonMisclassifications: Array<{
-      original: any;
-      corrected: any;
-      frequency: number;
-    }>;
-    accuracyTrends: {
-      industry: number;
-      role: number;
-      sophistication: number;
-    };
-  } {
-    const allCorrections = Array.from(this.corrections.values()).flat();
+  async getLearningInsights(
+    options: { windowDays?: number; windows?: number; now?: Date } = {}
+  ): Promise<LearningInsights> {
+    const { windowDays = 7, windows = 4, now = new Date() } = options;
+    const since = new Date(now.getTime() - windowDays * windows * DAY_MS);
+    const versions = await this.store.list({ since });
+
+    const reverted = new Set(versions.flatMap(entry => entry.reverts));
+    const allCorrections = versions
+      .filter(entry => entry.action === 'correct')
+      .flatMap(entry => entry.changes)
+      .filter(correction => !reverted.has(correction.id));
     
     // Count corrections by type
     const correctionCounts = new Map<CorrectionType, number>();
@@ -474,23 +659,46 @@ export class ProfileCorrectionManager {
         return { original, corrected, frequency };
       });
 
-    // Calculate accuracy trends (simplified)
-    const industryCorrections = allCorrections.filter(c => c.correctionType === CorrectionType.INDUSTRY).length;
-    const roleCorrections = allCorrections.filter(c => c.correctionType === CorrectionType.ROLE).length;
-    const sophisticationCorrections = allCorrections.filter(c => c.correctionType === CorrectionType.SOPHISTICATION).length;
-
-    const totalSessions = this.corrections.size || 1;
-    const accuracyTrends = {
-      industry: Math.max(0, 1 - (industryCorrections / totalSessions)),
-      role: Math.max(0, 1 - (roleCorrections / totalSessions)),
-      sophistication: Math.max(0, 1 - (sophisticationCorrections / totalSessions))
+    // Profiles detected in the period, by detection time, with the fields corrected on them
+    const detections = versions
+      .filter(entry => entry.version === 1)
+      .map(entry => ({
+        detectedAt: new Date(entry.createdAt).getTime(),
+        corrected: new Set(allCorrections.filter(correction => correction.profileId === entry.profileId).map(correction => correction.correctionType))
+      }));
+
+    const accuracyOf = (profiles: typeof detections): AccuracyByField | null => {
+      if (profiles.length === 0) return null;
+      const rate = (type: CorrectionType) =>
+        Math.round((1 - profiles.filter(profile => profile.corrected.has(type)).length / profiles.length) * 1000) / 1000;
+      return {
+        industry: rate(CorrectionType.INDUSTRY),
+        role: rate(CorrectionType.ROLE),
+        sophistication: rate(CorrectionType.SOPHISTICATION)
+      };
     };
 
+    const trendWindows = Array.from({ length: windows }, (_, i) => {
+      const start = since.getTime() + i * windowDays * DAY_MS;
+      const end = start + windowDays * DAY_MS;
+      // The last window ends now and includes it
+      const inWindow = (at: number) => at >= start && (at < end || (i === windows - 1 && at <= end));
+      const profiles = detections.filter(profile => inWindow(profile.detectedAt));
+      return {
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        profiles: profiles.length,
+        corrections: allCorrections.filter(correction => inWindow(correction.timestamp.getTime())).length,
+        accuracy: accuracyOf(profiles)
+      };
+    });
+
     return {
       totalCorrections: allCorrections.length,
       mostCorrectedField,
       commonMisclassifications,
-      accuracyTrends
+      accuracyTrends: accuracyOf(detections) || { industry: 1, role: 1, sophistication: 1 },
+      windows: trendWindows
     };
   }
 
@@ -512,20 +720,73 @@ export class ProfileCorrectionManager {
     };
   }
 
-  private storeCorrections(sessionId: string, corrections: ProfileCorrection[]): void {
-    const existing = this.corrections.get(sessionId) || [];
-    this.corrections.set(sessionId, [...existing, ...corrections]);
+  private snapshot(profile: UserProfile): ProfileSnapshot {
+    return {
+      industry: profile.industry,
+      industryConfidence: profile.industryConfidence,
+      role: profile.role,
+      roleConfidence: profile.roleConfidence,
+      sophisticationLevel: profile.sophisticationLevel,
+      sophisticationScore: profile.sophisticationScore,
+      terminology: profile.terminology,
+      preferredCommunicationStyle: profile.preferredCommunicationStyle,
+      assumptionTolerance: profile.assumptionTolerance
+    };
+  }
+
+  private buildVersion(
+    profileId: string,
+    sessionId: string | undefined,
+    version: number,
+    action: ProfileVersion['action'],
+    changedBy: string,
+    changes: ProfileCorrection[],
+    snapshot: ProfileSnapshot,
+    reverts: string[] = [],
+    rollbackTo?: number
+  ): ProfileVersion {
+    return {
+      profileId,
+      sessionId,
+      version,
+      action,
+      changedBy,
+      changes,
+      snapshot,
+      reverts,
+      rollbackTo,
+      createdAt: new Date().toISOString()
+    };
+  }
+
+  // The field change an undo or rollback makes, in the same shape as a correction
+  private revertChange(
+    profileId: string,
+    type: CorrectionType,
+    from: ProfileSnapshot,
+    to: ProfileSnapshot,
+    sessionId: string
+  ): ProfileCorrection {
+    const field = CORRECTION_FIELDS[type][0];
+    return {
+      id: `correction-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      sessionId,
+      profileId,
+      correctionType: type,
+      originalValue: from[field],
+      correctedValue: to[field],
+      confidence: 1,
+      timestamp: new Date(),
+      applied: true
+    };
   }
 
-  private storeCorrectionForLearning(correction: ProfileCorrection): void {
-    const key = correction.correctionType;
-    const existing = this.learningData.get(key) || [];
-    this.learningData.set(key, [...existing, {
-      from: correction.originalValue,
-      to: correction.correctedValue,
-      confidence: correction.confidence,
-      timestamp: correction.timestamp
-    }]);
+  private async requireHistory(profileId: string): Promise<ProfileVersion[]> {
+    const history = await this.store.history(profileId);
+    if (history.length === 0) {
+      throw new ProfileCorrectionError(`No history for profile ${profileId}`, 404);
+    }
+    return history;
   }
 }
 
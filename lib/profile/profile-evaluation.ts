@@ -0,0 +1,448 @@
+import { createHash } from 'crypto';
+import { Industry } from './industry-classifier';
+import { UserRole } from './role-detector';
+import { SophisticationScorer, SophisticationLevel, sophisticationScorer } from './sophistication-scorer';
+import { ProfileDetector, profileDetector } from './profile-detector';
+import { classifyIndustryByKeywords, detectRoleByPatterns } from './detection-heuristics';
+
+/**
+ * Profile Detection Evaluation
+ * Measures industry, role and sophistication detection against a labelled
+ * gold dataset (JSONL, one TrainingDataPoint per line as emitted by
+ * TrainingDataCollector.exportTrainingData('jsonl')). Reports per-class precision,
+ * recall and F1, confusion matrices and calibration, and compares headline
+ * metrics with a stored baseline so regressions can fail CI.
+ *
+ * Modes:
+ * - heuristic: keyword, pattern and linguistic analysis only; no model calls
+ * - full: ProfileDetector.detectProfile, i.e. the classifiers with GPT
+ */
+
+export type EvaluationMode = 'heuristic' | 'full';
+export type EvaluationTask = 'industry' | 'role' | 'sophistication';
+
+export const EVALUATION_TASKS: EvaluationTask[] = ['industry', 'role', 'sophistication'];
+
+export interface GoldExample {
+  id: string;
+  input: string;
+  groundTruth: Record<EvaluationTask, string>;
+}
+
+export interface GoldDataset {
+  name: string;
+  hash: string; // content hash, so a baseline is only compared with the dataset it was recorded on
+  examples: GoldExample[];
+}
+
+export interface Prediction {
+  label: string;
+  confidence: number;
+}
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface CalibrationBin {
+  range: [number, number];
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface TaskReport {
+  task: EvaluationTask;
+  accuracy: number;
+  macroF1: number;
+  perClass: Record<string, ClassMetrics>;
+  confusionMatrix: {
+    labels: string[];
+    matrix: number[][]; // rows: expected label, columns: predicted label
+  };
+  calibration: {
+    bins: CalibrationBin[];
+    expectedCalibrationError: number;
+  };
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  datasetHash: string;
+  mode: EvaluationMode;
+  examples: number;
+  generatedAt: string;
+  tasks: Record<EvaluationTask, TaskReport>;
+  exactMatch: number; // share of examples with all three labels right
+  failures: Array<{ id: string; error: string }>;
+}
+
+// Headline numbers kept per dataset and mode
+export interface BaselineMetrics {
+  accuracy: number;
+  macroF1: number;
+  expectedCalibrationError: number;
+}
+
+export interface EvaluationBaseline {
+  dataset: string;
+  datasetHash: string;
+  modes: Partial<Record<EvaluationMode, Record<EvaluationTask, BaselineMetrics> & { recordedAt: string }>>;
+}
+
+export interface RegressionFinding {
+  task: EvaluationTask | 'dataset';
+  metric: keyof BaselineMetrics | 'hash';
+  baseline: number | string;
+  current: number | string;
+  message: string;
+}
+
+const TASK_LABELS: Record<EvaluationTask, string[]> = {
+  industry: Object.values(Industry),
+  role: Object.values(UserRole),
+  sophistication: Object.values(SophisticationLevel)
+};
+
+const CALIBRATION_BINS = 5;
+
+/**
+ * Parse a JSONL gold dataset. Lines may be full TrainingDataPoints; only
+ * `id`, `input` and `groundTruth` are read. Blank lines are skipped.
+ */
+export function parseGoldDataset(content: string, name: string): GoldDataset {
+  const examples: GoldExample[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let point: any;
+    try {
+      point = JSON.parse(line);
+    } catch {
+      throw new Error(`${name}:${index + 1}: invalid JSON`);
+    }
+
+    const truth = point?.groundTruth || {};
+    const groundTruth = {
+      industry: truth.industry,
+      role: truth.role,
+      sophistication: truth.sophisticationLevel
+    };
+
+    if (typeof point?.input !== 'string' || !point.input.trim()) {
+      throw new Error(`${name}:${index + 1}: missing input`);
+    }
+
+    EVALUATION_TASKS.forEach(task => {
+      if (!TASK_LABELS[task].includes(groundTruth[task])) {
+        throw new Error(`${name}:${index + 1}: invalid ${task} label "${groundTruth[task]}"`);
+      }
+    });
+
+    examples.push({ id: point.id || `line-${index + 1}`, input: point.input, groundTruth });
+  });
+
+  return {
+    name,
+    hash: createHash('sha256').update(content).digest('hex').slice(0, 16),
+    examples
+  };
+}
+
+/**
+ * Accuracy, per-class metrics, confusion matrix and calibration for one task
+ */
+export function computeTaskMetrics(
+  task: EvaluationTask,
+  results: Array<{ expected: string; predicted: Prediction }>
+): TaskReport {
+  // Fixed label order plus anything unexpected the detector returned
+  const labels = [...TASK_LABELS[task]];
+  results.forEach(({ expected, predicted }) => {
+    [expected, predicted.label].forEach(label => {
+      if (!labels.includes(label)) labels.push(label);
+    });
+  });
+
+  const matrix = labels.map(() => labels.map(() => 0));
+  results.forEach(({ expected, predicted }) => {
+    matrix[labels.indexOf(expected)][labels.indexOf(predicted.label)]++;
+  });
+
+  const perClass: Record<string, ClassMetrics> = {};
+  labels.forEach((label, i) => {
+    const truePositives = matrix[i][i];
+    const predictedCount = matrix.reduce((sum, row) => sum + row[i], 0);
+    const support = matrix[i].reduce((sum, count) => sum + count, 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+
+    perClass[label] = {
+      precision: round(precision),
+      recall: round(recall),
+      f1: round(precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0),
+      support
+    };
+  });
+
+  // Macro F1 over the classes present in the gold set
+  const present = labels.filter(label => perClass[label].support > 0);
+  const correct = results.filter(({ expected, predicted }) => expected === predicted.label).length;
+
+  return {
+    task,
+    accuracy: round(results.length > 0 ? correct / results.length : 0),
+    macroF1: round(present.length > 0 ? present.reduce((sum, label) => sum + perClass[label].f1, 0) / present.length : 0),
+    perClass,
+    confusionMatrix: { labels, matrix },
+    calibration: computeCalibration(results)
+  };
+}
+
+/**
+ * Reliability of the detectors' confidence: in each confidence bin, how
+ * often the prediction was right. ECE is the count-weighted gap.
+ */
+function computeCalibration(results: Array<{ expected: string; predicted: Prediction }>): TaskReport['calibration'] {
+  const bins: CalibrationBin[] = [];
+
+  for (let i = 0; i < CALIBRATION_BINS; i++) {
+    const low = i / CALIBRATION_BINS;
+    const high = (i + 1) / CALIBRATION_BINS;
+    const inBin = results.filter(({ predicted }) => {
+      const confidence = Math.max(0, Math.min(1, predicted.confidence));
+      return confidence >= low && (confidence < high || (i === CALIBRATION_BINS - 1 && confidence <= high));
+    });
+    const count = inBin.length;
+
+    bins.push({
+      range: [round(low), round(high)],
+      count,
+      meanConfidence: round(count > 0 ? inBin.reduce((sum, { predicted }) => sum + predicted.confidence, 0) / count : 0),
+      accuracy: round(count > 0 ? inBin.filter(({ expected, predicted }) => expected === predicted.label).length / count : 0)
+    });
+  }
+
+  const total = results.length;
+  const expectedCalibrationError = total > 0
+    ? bins.reduce((sum, bin) => sum + (bin.count / total) * Math.abs(bin.accuracy - bin.meanConfidence), 0)
+    : 0;
+
+  return { bins, expectedCalibrationError: round(expectedCalibrationError) };
+}
+
+/**
+ * Compare a report with the baseline for its mode. Accuracy and macro F1
+ * may not drop, and calibration error may not rise, by more than
+ * `tolerance`. A baseline recorded on different dataset contents is a
+ * finding in itself.
+ */
+export function compareWithBaseline(
+  report: EvaluationReport,
+  baseline: EvaluationBaseline,
+  tolerance: number = 0.02
+): RegressionFinding[] {
+  if (baseline.datasetHash !== report.datasetHash) {
+    return [{
+      task: 'dataset',
+      metric: 'hash',
+      baseline: baseline.datasetHash,
+      current: report.datasetHash,
+      message: `Baseline was recorded on different dataset contents (${baseline.dataset}); re-record it with --update-baseline`
+    }];
+  }
+
+  const expected = baseline.modes[report.mode];
+  if (!expected) {
+    return [];
+  }
+
+  const findings: RegressionFinding[] = [];
+  EVALUATION_TASKS.forEach(task => {
+    const current = report.tasks[task];
+    const recorded = expected[task];
+
+    (['accuracy', 'macroF1'] as const).forEach(metric => {
+      if (current[metric] < recorded[metric] - tolerance) {
+        findings.push({
+          task,
+          metric,
+          baseline: recorded[metric],
+          current: current[metric],
+          message: `${task} ${metric} dropped from ${recorded[metric]} to ${current[metric]}`
+        });
+      }
+    });
+
+    const ece = current.calibration.expectedCalibrationError;
+    if (ece > recorded.expectedCalibrationError + tolerance) {
+      findings.push({
+        task,
+        metric: 'expectedCalibrationError',
+        baseline: recorded.expectedCalibrationError,
+        current: ece,
+        message: `${task} calibration error rose from ${recorded.expectedCalibrationError} to ${ece}`
+      });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * Record a report's headline metrics in the baseline, replacing its mode.
+ * Recording on a different dataset starts a fresh baseline.
+ */
+export function updateBaseline(report: EvaluationReport, baseline?: EvaluationBaseline): EvaluationBaseline {
+  const modes = baseline && baseline.datasetHash === report.datasetHash ? { ...baseline.modes } : {};
+  const metrics = {} as Record<EvaluationTask, BaselineMetrics>;
+
+  EVALUATION_TASKS.forEach(task => {
+    metrics[task] = {
+      accuracy: report.tasks[task].accuracy,
+      macroF1: report.tasks[task].macroF1,
+      expectedCalibrationError: report.tasks[task].calibration.expectedCalibrationError
+    };
+  });
+
+  return {
+    dataset: report.dataset,
+    datasetHash: report.datasetHash,
+    modes: { ...modes, [report.mode]: { ...metrics, recordedAt: report.generatedAt } }
+  };
+}
+
+/**
+ * Plain-text summary: headline metrics, per-class table and confusion
+ * matrix for each task, and the calibration bins
+ */
+export function formatEvaluationReport(report: EvaluationReport): string {
+  const lines = [
+    `Profile detection evaluation (${report.mode}) on ${report.dataset} [${report.datasetHash}]`,
+    `${report.examples} examples, exact match ${percent(report.exactMatch)}${report.failures.length > 0 ? `, ${report.failures.length} failed` : ''}`
+  ];
+
+  EVALUATION_TASKS.forEach(task => {
+    const taskReport = report.tasks[task];
+    const { labels, matrix } = taskReport.confusionMatrix;
+    const shown = labels.filter((label, i) => taskReport.perClass[label].support > 0 || matrix.some(row => row[i] > 0));
+    const width = Math.max(10, ...shown.map(label => label.length)) + 2;
+
+    lines.push(
+      '',
+      `${task}: accuracy ${percent(taskReport.accuracy)}, macro F1 ${taskReport.macroF1.toFixed(2)}, ECE ${taskReport.calibration.expectedCalibrationError.toFixed(2)}`,
+      `  ${'class'.padEnd(width)}precision  recall  f1     support`
+    );
+    shown.forEach(label => {
+      const metrics = taskReport.perClass[label];
+      lines.push(`  ${label.padEnd(width)}${metrics.precision.toFixed(2).padEnd(11)}${metrics.recall.toFixed(2).padEnd(8)}${metrics.f1.toFixed(2).padEnd(7)}${metrics.support}`);
+    });
+
+    lines.push(`  confusion (rows expected, columns predicted):`, `  ${''.padEnd(width)}${shown.map(label => label.slice(0, 8).padEnd(9)).join('')}`);
+    shown.forEach(label => {
+      const row = matrix[labels.indexOf(label)];
+      lines.push(`  ${label.padEnd(width)}${shown.map(column => String(row[labels.indexOf(column)]).padEnd(9)).join('')}`);
+    });
+
+    lines.push(`  calibration: ${taskReport.calibration.bins
+      .filter(bin => bin.count > 0)
+      .map(bin => `${bin.range[0].toFixed(1)}-${bin.range[1].toFixed(1)}: ${percent(bin.accuracy)} right at ${bin.meanConfidence.toFixed(2)} (${bin.count})`)
+      .join('; ')}`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Runs the detectors over a gold dataset
+ */
+export class ProfileEvaluator {
+  constructor(
+    private readonly detectors: {
+      sophistication: SophisticationScorer;
+      profile: ProfileDetector;
+    } = {
+      sophistication: sophisticationScorer,
+      profile: profileDetector
+    }
+  ) {}
+
+  /**
+   * Evaluate every example. Examples that throw are reported as failures
+   * and left out of the metrics.
+   */
+  async evaluate(dataset: GoldDataset, mode: EvaluationMode): Promise<EvaluationReport> {
+    const results: Record<EvaluationTask, Array<{ expected: string; predicted: Prediction }>> = {
+      industry: [],
+      role: [],
+      sophistication: []
+    };
+    const failures: Array<{ id: string; error: string }> = [];
+    let exact = 0;
+
+    // Sequential, so full mode stays within the LLM rate limits
+    for (const example of dataset.examples) {
+      try {
+        const predictions = await this.predict(example.input, mode);
+        EVALUATION_TASKS.forEach(task => {
+          results[task].push({ expected: example.groundTruth[task], predicted: predictions[task] });
+        });
+        if (EVALUATION_TASKS.every(task => predictions[task].label === example.groundTruth[task])) {
+          exact++;
+        }
+      } catch (error) {
+        failures.push({ id: example.id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const evaluated = dataset.examples.length - failures.length;
+
+    return {
+      dataset: dataset.name,
+      datasetHash: dataset.hash,
+      mode,
+      examples: evaluated,
+      generatedAt: new Date().toISOString(),
+      tasks: {
+        industry: computeTaskMetrics('industry', results.industry),
+        role: computeTaskMetrics('role', results.role),
+        sophistication: computeTaskMetrics('sophistication', results.sophistication)
+      },
+      exactMatch: round(evaluated > 0 ? exact / evaluated : 0),
+      failures
+    };
+  }
+
+  private async predict(input: string, mode: EvaluationMode): Promise<Record<EvaluationTask, Prediction>> {
+    if (mode === 'full') {
+      const { analysis } = await this.detectors.profile.detectProfile(input, { enableLearning: false });
+      return {
+        industry: { label: analysis.industry.industry, confidence: analysis.industry.confidence },
+        role: { label: analysis.role.role, confidence: analysis.role.confidence },
+        sophistication: { label: analysis.sophistication.level, confidence: analysis.sophistication.confidence }
+      };
+    }
+
+    const industry = classifyIndustryByKeywords(input);
+    const role = detectRoleByPatterns(input);
+    const sophistication = this.detectors.sophistication.scoreHeuristically(input);
+
+    return {
+      industry: { label: industry.topIndustry, confidence: industry.confidence },
+      role: { label: role.topRole, confidence: role.confidence },
+      sophistication: { label: sophistication.level, confidence: sophistication.confidence }
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
@@ -1,5 +1,8 @@
 import { OpenAIService, CompletionRequest } from '@/lib/openai/client';
 import { openaiConfig } from '@/lib/config/environment';
+import { roleClassificationSchema, type RoleClassificationOutput } from '@/lib/openai/schemas';
+import { KeywordWeights, keywordWeights } from './keyword-weights';
+import { detectRoleByPatterns } from './detection-heuristics';
 
 /**
  * Role Detection System
@@ -28,6 +31,13 @@ export interface RoleClassification {
     confidence: number;
     reasoning: string;
   }>;
+  // Set when pattern analysis and GPT picked different roles
+  methodDisagreement?: {
+    pattern: UserRole;
+    patternConfidence: number;
+    gpt: UserRole;
+    gptConfidence: number;
+  };
 }
 
 export interface RoleIndicators {
@@ -48,123 +58,13 @@ export interface RoleIndicators {
   };
 }
 
-// Role-specific indicators for classification
-const ROLE_INDICATORS: RoleIndicators = {
-  technical: {
-    keywords: [
-      // Programming & Development
-      'API', 'SDK', 'framework', 'library', 'database', 'server', 'cloud',
-      'microservices', 'DevOps', 'CI/CD', 'containerization', 'Kubernetes',
-      'React', 'Node.js', 'Python', 'JavaScript', 'TypeScript', 'SQL',
-      'REST', 'GraphQL', 'authentication', 'authorization', 'encryption',
-      
-      // Technical Architecture
-      'scalability', 'performance', 'latency', 'throughput', 'caching',
-      'load balancing', 'sharding', 'replication', 'backup', 'monitoring',
-      'logging', 'debugging', 'testing', 'unit tests', 'integration tests',
-      
-      // Infrastructure & Tools
-      'AWS', 'Azure', 'GCP', 'Docker', 'Git', 'GitHub', 'GitLab',
-      'Jenkins', 'Terraform', 'Ansible', 'Redis', 'PostgreSQL', 'MongoDB',
-      'Elasticsearch', 'Kafka', 'RabbitMQ', 'nginx', 'Apache',
-      
-      // Security & Compliance
-      'HTTPS', 'SSL/TLS', 'OAuth', 'JWT', 'CORS', 'XSS', 'CSRF',
-      'penetration testing', 'vulnerability', 'security audit',
-      'data encryption', 'key management', 'zero trust'
-    ],
-    patterns: [
-      /\b\w+\.(js|ts|py|java|php|rb|go|rs)\b/i, // File extensions
-      /\b(v\d+\.\d+(\.\d+)?)\b/i, // Version numbers
-      /\b(HTTP|HTTPS|FTP|SSH|TCP|UDP|IP)\b/i, // Protocols
-      /\b(GET|POST|PUT|DELETE|PATCH)\b/i, // HTTP methods
-      /\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/, // IP addresses
-      /\b[a-zA-Z]+:[\/]{2}[a-zA-Z0-9\.\-]+/i, // URLs
-    ],
-    phrases: [
-      'technical implementation', 'code review', 'pull request',
-      'tech stack', 'system architecture', 'data model',
-      'algorithm optimization', 'performance tuning', 'bug fixing',
-      'technical debt', 'refactoring', 'deployment pipeline',
-      'infrastructure as code', 'development environment'
-    ]
-  },
-  business: {
-    keywords: [
-      // Business Strategy
-      'revenue', 'profit', 'ROI', 'KPI', 'metrics', 'analytics',
-      'market share', 'competitive advantage', 'value proposition',
-      'business model', 'monetization', 'pricing strategy',
-      'customer acquisition', 'retention', 'churn', 'LTV', 'CAC',
-      
-      // Operations & Management
-      'stakeholders', 'executives', 'board', 'investors', 'funding',
-      'Series A', 'Series B', 'venture capital', 'angel investors',
-      'IPO', 'acquisition', 'merger', 'partnership', 'collaboration',
-      'team management', 'hiring', 'organizational structure',
-      
-      // Marketing & Sales
-      'go-to-market', 'marketing strategy', 'brand', 'positioning',
-      'target audience', 'customer segments', 'personas', 'funnel',
-      'conversion rate', 'lead generation', 'sales pipeline',
-      'B2B', 'B2C', 'enterprise sales', 'SMB', 'customer success',
-      
-      // Finance & Legal
-      'budget', 'forecast', 'P&L', 'cash flow', 'burn rate',
-      'runway', 'valuation', 'equity', 'compliance', 'regulation',
-      'contract', 'agreement', 'terms of service', 'privacy policy'
-    ],
-    patterns: [
-      /\$[\d,]+(\.\d{2})?[KMB]?/i, // Currency amounts
-      /\b\d+%\b/, // Percentages
-      /\bQ[1-4]\s+\d{4}\b/i, // Quarters
-      /\b(YoY|MoM|QoQ)\b/i, // Time comparisons
-    ],
-    phrases: [
-      'business plan', 'market research', 'competitive analysis',
-      'customer validation', 'product-market fit', 'user feedback',
-      'business requirements', 'success metrics', 'growth strategy',
-      'operational efficiency', 'cost optimization', 'resource allocation',
-      'risk management', 'strategic planning', 'business development'
-    ]
-  },
-  hybrid: {
-    keywords: [
-      // Product Management
-      'product', 'feature', 'roadmap', 'backlog', 'sprint', 'agile',
-      'scrum', 'user story', 'acceptance criteria', 'MVP', 'prototype',
-      'user experience', 'UX', 'UI', 'design', 'wireframe', 'mockup',
-      
-      // Technical Business
-      'API integration', 'data analytics', 'business intelligence',
-      'automation', 'workflow', 'process optimization', 'digital transformation',
-      'tech-enabled', 'data-driven', 'platform strategy',
-      
-      // Bridge Concepts
-      'requirements', 'specifications', 'documentation', 'project management',
-      'cross-functional', 'stakeholder alignment', 'technical debt',
-      'feasibility', 'implementation timeline', 'resource planning'
-    ],
-    patterns: [
-      /\b(PM|TPM|PMM)\b/i, // Product Manager acronyms
-      /\b(A\/B|AB)\s+test/i, // A/B testing
-    ],
-    phrases: [
-      'product requirements', 'technical feasibility', 'user research',
-      'data analysis', 'performance metrics', 'technical discussion',
-      'business logic', 'system requirements', 'product strategy',
-      'technical specifications', 'implementation plan', 'project scope'
-    ]
-  }
-};
-
 /**
  * Advanced role detector using pattern matching and GPT-4
  */
 export class RoleDetector {
   private openaiService: OpenAIService;
 
-  constructor() {
+  constructor(private weights: KeywordWeights = keywordWeights) {
     this.openaiService = new OpenAIService();
   }
 
@@ -174,7 +74,7 @@ export class RoleDetector {
   async detectRole(input: string, conversationHistory?: string[]): Promise<RoleClassification> {
     try {
       // Pattern-based analysis first
-      const patternResults = this.patternBasedDetection(input);
+      const patternResults = detectRoleByPatterns(input, this.weights);
       
       // GPT-4 based sophisticated analysis
       const gptResults = await this.gptBasedDetection(input, conversationHistory, patternResults);
@@ -186,7 +86,7 @@ export class RoleDetector {
       console.error('Role detection failed:', error);
       
       // Fallback to pattern-based detection
-      const fallbackResult = this.patternBasedDetection(input);
+      const fallbackResult = detectRoleByPatterns(input, this.weights);
       return {
         role: fallbackResult.topRole,
         confidence: Math.max(0.3, fallbackResult.confidence),
@@ -198,100 +98,6 @@ export class RoleDetector {
     }
   }
 
-  /**
-   * Pattern-based role detection using keywords and regex
-   */
-  private patternBasedDetection(input: string) {
-    const inputLower = input.toLowerCase();
-    const roleScores = {
-      [UserRole.TECHNICAL]: 0,
-      [UserRole.BUSINESS]: 0,
-      [UserRole.HYBRID]: 0
-    };
-    
-    const foundIndicators = {
-      technical: [] as string[],
-      business: [] as string[],
-      hybrid: [] as string[]
-    };
-
-    // Check keywords for each role
-    Object.entries(ROLE_INDICATORS).forEach(([role, indicators]) => {
-      // Keyword matching
-      indicators.keywords.forEach((keyword: string) => {
-        if (inputLower.includes(keyword.toLowerCase())) {
-          roleScores[role as keyof typeof roleScores]++;
-          foundIndicators[role as keyof typeof foundIndicators].push(keyword);
-        }
-      });
-
-      // Pattern matching
-      indicators.patterns.forEach((pattern: RegExp) => {
-        const matches = input.match(pattern);
-        if (matches) {
-          roleScores[role as keyof typeof roleScores] += matches.length;
-          foundIndicators[role as keyof typeof foundIndicators].push(`Pattern: ${pattern.source}`);
-        }
-      });
-
-      // Phrase matching
-      indicators.phrases.forEach((phrase: string) => {
-        if (inputLower.includes(phrase.toLowerCase())) {
-          roleScores[role as keyof typeof roleScores] += 2; // Phrases are more indicative
-          foundIndicators[role as keyof typeof foundIndicators].push(phrase);
-        }
-      });
-    });
-
-    // Determine top role
-    const sortedRoles = Object.entries(roleScores)
-      .sort(([,a], [,b]) => b - a)
-      .filter(([,score]) => score > 0);
-
-    const topRole = sortedRoles[0]?.[0] as UserRole || UserRole.UNKNOWN;
-    const topScore = sortedRoles[0]?.[1] || 0;
-    
-    // Calculate confidence
-    const totalScore = Object.values(roleScores).reduce((sum, score) => sum + score, 0);
-    let confidence = 0.1; // Base confidence for unknown
-    
-    if (totalScore > 0) {
-      confidence = topScore / totalScore;
-      
-      // Boost confidence for clear technical indicators
-      if (topRole === UserRole.TECHNICAL && foundIndicators.technical.length > 3) {
-        confidence = Math.min(0.9, confidence + 0.2);
-      }
-      
-      // Boost confidence for clear business indicators
-      if (topRole === UserRole.BUSINESS && foundIndicators.business.length > 2) {
-        confidence = Math.min(0.9, confidence + 0.15);
-      }
-      
-      // Hybrid needs evidence from multiple roles
-      if (topRole === UserRole.HYBRID) {
-        const hasMultipleRoleEvidence = (foundIndicators.technical.length > 0 && foundIndicators.business.length > 0);
-        if (!hasMultipleRoleEvidence) {
-          confidence *= 0.7; // Reduce confidence for weak hybrid signals
-        }
-      }
-    }
-
-    const alternatives = sortedRoles.slice(1).map(([role, score]) => ({
-      role: role as UserRole,
-      confidence: totalScore > 0 ? score / totalScore : 0,
-      reasoning: `Score: ${score}, indicators: ${(foundIndicators[role as keyof typeof foundIndicators] || []).slice(0, 3).join(', ')}`
-    }));
-
-    return {
-      topRole,
-      confidence: Math.max(0.1, Math.min(0.9, confidence)),
-      reasoning: `Pattern analysis: ${topScore} points for ${topRole}. Key indicators: ${(foundIndicators[topRole as keyof typeof foundIndicators] || []).slice(0, 5).join(', ')}`,
-      indicators: foundIndicators,
-      alternatives
-    };
-  }
-
   /**
    * GPT-4 based sophisticated role detection
    */
@@ -320,15 +126,19 @@ export class RoleDetector {
       }
     };
 
-    const response = await this.openaiService.createCompletionWithFallback(request);
+    const { data } = await this.openaiService.createStructuredCompletion({
+      ...request,
+      schema: roleClassificationSchema,
+      schemaName: 'RoleClassification'
+    });
     
-    return this.parseRoleResponse(response.choices[0].message.content || '');
+    return this.mapRoleResponse(data);
   }
 
   /**
    * Build role detection prompt for GPT-4
    */
-  private buildRoleDetectionPrompt(
+  buildRoleDetectionPrompt(
     input: string,
     conversationHistory?: string[],
     patternHint?: { topRole: UserRole; confidence: number }
@@ -402,41 +212,18 @@ INPUT: "${input}"`;
   }
 
   /**
-   * Parse GPT-4 role detection response
+   * Map validated GPT-4 role detection output
    */
-  private parseRoleResponse(content: string): any {
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Validate required fields
-      if (!parsed.role || !parsed.confidence || !parsed.reasoning) {
-        throw new Error('Missing required fields in role response');
-      }
-
-      // Validate role value
-      if (!Object.values(UserRole).includes(parsed.role)) {
-        throw new Error(`Invalid role: ${parsed.role}`);
-      }
-
-      return {
-        role: parsed.role,
-        confidence: Math.max(0, Math.min(1, parsed.confidence)),
-        reasoning: parsed.reasoning,
-        sophisticationLevel: parsed.sophistication_level || 'medium',
-        indicators: parsed.role_signals || { technical: [], business: [], hybrid: [] },
-        keywords: parsed.key_indicators || [],
-        alternatives: parsed.alternative_roles || []
-      };
-
-    } catch (error) {
-      console.error('Failed to parse role detection response:', error);
-      throw new Error(`Role response parsing failed: ${error}`);
-    }
+  private mapRoleResponse(parsed: RoleClassificationOutput) {
+    return {
+      role: parsed.role as UserRole,
+      confidence: parsed.confidence,
+      reasoning: parsed.reasoning,
+      sophisticationLevel: parsed.sophistication_level,
+      indicators: parsed.role_signals,
+      keywords: parsed.key_indicators,
+      alternatives: parsed.alternative_roles
+    };
   }
 
   /**
@@ -480,7 +267,13 @@ INPUT: "${input}"`;
       reasoning: `Combined analysis: ${gptResults.reasoning}. Pattern indicators: ${Object.values(patternResults.indicators).flat().slice(0, 3).join(', ')}`,
       indicators: combinedIndicators,
       sophisticationLevel: gptResults.sophisticationLevel || this.estimateSophisticationFromPatterns(combinedIndicators),
-      alternativeRoles: alternatives
+      alternativeRoles: alternatives,
+      methodDisagreement: patternResults.topRole !== gptResults.role && patternResults.confidence > 0.4 ? {
+        pattern: patternResults.topRole,
+        patternConfidence: patternResults.confidence,
+        gpt: gptResults.role,
+        gptConfidence: gptResults.confidence
+      } : undefined
     };
   }
 
@@ -1,7 +1,9 @@
 import { OpenAIService, CompletionRequest } from '@/lib/openai/client';
 import { openaiConfig } from '@/lib/config/environment';
+import { sophisticationScoreSchema, type SophisticationScoreOutput } from '@/lib/openai/schemas';
 import { UserRole } from './role-detector';
 import { Industry } from './industry-classifier';
+import { analyzeLinguisticComplexity } from './detection-heuristics';
 
 /**
  * Sophistication Scoring System
@@ -118,31 +120,6 @@ export class SophisticationScorer {
     ]
   };
 
-  // Complexity indicators
-  private complexityIndicators = {
-    advanced: {
-      sentenceLength: 25, // Words per sentence
-      syllablesPerWord: 2.5,
-      uniqueWordRatio: 0.7,
-      technicalTermDensity: 0.15,
-      abstractConcepts: ['framework', 'methodology', 'paradigm', 'ecosystem', 'architecture']
-    },
-    intermediate: {
-      sentenceLength: 18,
-      syllablesPerWord: 2.0,
-      uniqueWordRatio: 0.6,
-      technicalTermDensity: 0.08,
-      abstractConcepts: ['strategy', 'process', 'system', 'approach', 'solution']
-    },
-    basic: {
-      sentenceLength: 12,
-      syllablesPerWord: 1.5,
-      uniqueWordRatio: 0.5,
-      technicalTermDensity: 0.03,
-      abstractConcepts: ['idea', 'plan', 'way', 'method', 'tool']
-    }
-  };
-
   constructor() {
     this.openaiService = new OpenAIService();
   }
@@ -156,7 +133,7 @@ export class SophisticationScorer {
   ): Promise<SophisticationScore> {
     try {
       // Linguistic analysis
-      const linguisticAnalysis = this.analyzeLinguisticComplexity(input);
+      const linguisticAnalysis = analyzeLinguisticComplexity(input);
       
       // Domain expertise analysis
       const domainAnalysis = this.analyzeDomainExpertise(input, context?.industry, context?.userRole);
@@ -177,56 +154,16 @@ export class SophisticationScorer {
       console.error('Sophistication scoring failed:', error);
       
       // Fallback to linguistic analysis only
-      const fallbackAnalysis = this.analyzeLinguisticComplexity(input);
+      const fallbackAnalysis = analyzeLinguisticComplexity(input);
       return this.createFallbackScore(fallbackAnalysis, input);
     }
   }
 
   /**
-   * Analyze linguistic complexity of the text
+   * Score from linguistic analysis alone, without a model call
    */
-  private analyzeLinguisticComplexity(input: string) {
-    const words = input.toLowerCase().match(/\b\w+\b/g) || [];
-    const sentences = input.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const uniqueWords = new Set(words);
-
-    // Calculate metrics
-    const avgSentenceLength = words.length / Math.max(sentences.length, 1);
-    const uniqueWordRatio = uniqueWords.size / Math.max(words.length, 1);
-    const avgSyllables = this.calculateAverageSyllables(words);
-    
-    // Score components (0-100)
-    const sentenceComplexity = this.scoreComplexityMetric(
-      avgSentenceLength,
-      this.complexityIndicators.basic.sentenceLength,
-      this.complexityIndicators.advanced.sentenceLength
-    );
-    
-    const vocabularyDiversity = this.scoreComplexityMetric(
-      uniqueWordRatio,
-      this.complexityIndicators.basic.uniqueWordRatio,
-      this.complexityIndicators.advanced.uniqueWordRatio
-    );
-    
-    const syllableComplexity = this.scoreComplexityMetric(
-      avgSyllables,
-      this.complexityIndicators.basic.syllablesPerWord,
-      this.complexityIndicators.advanced.syllablesPerWord
-    );
-
-    // Abstract concept usage
-    const abstractScore = this.scoreAbstractConcepts(input);
-
-    return {
-      sentenceComplexity,
-      vocabularyDiversity,
-      syllableComplexity,
-      abstractScore,
-      avgSentenceLength,
-      uniqueWordRatio,
-      avgSyllables,
-      overallScore: (sentenceComplexity + vocabularyDiversity + syllableComplexity + abstractScore) / 4
-    };
+  scoreHeuristically(input: string): SophisticationScore {
+    return this.createFallbackScore(analyzeLinguisticComplexity(input), input);
   }
 
   /**
@@ -299,15 +236,19 @@ export class SophisticationScorer {
       }
     };
 
-    const response = await this.openaiService.createCompletionWithFallback(request);
+    const { data } = await this.openaiService.createStructuredCompletion({
+      ...request,
+      schema: sophisticationScoreSchema,
+      schemaName: 'SophisticationScore'
+    });
     
-    return this.parseSophisticationResponse(response.choices[0].message.content || '');
+    return this.mapSophisticationResponse(data);
   }
 
   /**
    * Build sophistication analysis prompt
    */
-  private buildSophisticationPrompt(input: string, context?: SophisticationAnalysisContext) {
+  buildSophisticationPrompt(input: string, context?: SophisticationAnalysisContext) {
     const system = `You are an expert in assessing professional sophistication and domain expertise. Analyze the user's communication to determine their level of sophistication across multiple dimensions.
 
 SOPHISTICATION LEVELS:
@@ -372,35 +313,18 @@ INPUT: "${input}"`;
   }
 
   /**
-   * Parse GPT sophistication response
+   * Map validated GPT sophistication output
    */
-  private parseSophisticationResponse(content: string): any {
-    try {
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      if (!parsed.sophistication_level || parsed.overall_score === undefined) {
-        throw new Error('Missing required fields in sophistication response');
-      }
-
-      return {
-        level: parsed.sophistication_level,
-        score: Math.max(0, Math.min(100, parsed.overall_score)),
-        confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)),
-        reasoning: parsed.reasoning || '',
-        factors: parsed.factor_scores || {},
-        indicators: parsed.indicators || { advanced: [], intermediate: [], basic: [] },
-        recommendations: parsed.recommendations || []
-      };
-
-    } catch (error) {
-      console.error('Failed to parse sophistication response:', error);
-      throw new Error(`Sophistication response parsing failed: ${error}`);
-    }
+  private mapSophisticationResponse(parsed: SophisticationScoreOutput) {
+    return {
+      level: parsed.sophistication_level as SophisticationLevel,
+      score: parsed.overall_score,
+      confidence: parsed.confidence,
+      reasoning: parsed.reasoning,
+      factors: parsed.factor_scores,
+      indicators: parsed.indicators,
+      recommendations: parsed.recommendations
+    };
   }
 
   /**
@@ -494,67 +418,6 @@ INPUT: "${input}"`;
 
   // Helper methods
 
-  private calculateAverageSyllables(words: string[]): number {
-    const syllableCounts = words.map(word => this.countSyllables(word));
-    return syllableCounts.reduce((sum, count) => sum + count, 0) / Math.max(words.length, 1);
-  }
-
-  private countSyllables(word: string): number {
-    word = word.toLowerCase();
-    if (word.length <= 3) return 1;
-    
-    const vowels = 'aeiouy';
-    let count = 0;
-    let previousWasVowel = false;
-    
-    for (let i = 0; i < word.length; i++) {
-      const isVowel = vowels.includes(word[i]);
-      if (isVowel && !previousWasVowel) {
-        count++;
-      }
-      previousWasVowel = isVowel;
-    }
-    
-    // Adjust for silent e
-    if (word.endsWith('e') && count > 1) {
-      count--;
-    }
-    
-    return Math.max(1, count);
-  }
-
-  private scoreComplexityMetric(value: number, basicThreshold: number, advancedThreshold: number): number {
-    if (value <= basicThreshold) return (value / basicThreshold) * 33;
-    if (value <= advancedThreshold) {
-      const range = advancedThreshold - basicThreshold;
-      const position = value - basicThreshold;
-      return 33 + (position / range) * 34;
-    }
-    return Math.min(100, 67 + ((value - advancedThreshold) / advancedThreshold) * 33);
-  }
-
-  private scoreAbstractConcepts(input: string): number {
-    const inputLower = input.toLowerCase();
-    let score = 0;
-    
-    // Check for advanced abstract concepts
-    this.complexityIndicators.advanced.abstractConcepts.forEach(concept => {
-      if (inputLower.includes(concept)) score += 25;
-    });
-    
-    // Check for intermediate concepts
-    this.complexityIndicators.intermediate.abstractConcepts.forEach(concept => {
-      if (inputLower.includes(concept)) score += 15;
-    });
-    
-    // Check for basic concepts
-    this.complexityIndicators.basic.abstractConcepts.forEach(concept => {
-      if (inputLower.includes(concept)) score += 5;
-    });
-    
-    return Math.min(100, score);
-  }
-
   private generateRecommendations(level: SophisticationLevel, indicators: any): string[] {
     const recommendations: string[] = [];
     
@@ -3,6 +3,8 @@ import { Industry, IndustryClassification } from './industry-classifier';
 import { UserRole, RoleClassification } from './role-detector';
 import { SophisticationLevel, SophisticationScore } from './sophistication-scorer';
 import { ProfileCorrection } from './profile-correction';
+import { FineTuningExporter, type FineTuningDataset, type FineTuningExportOptions } from './fine-tuning-export';
+import { KeywordRecalibrator, keywordRecalibrator, type RecalibrationOptions, type RecalibrationResult } from './keyword-recalibration';
 
 /**
  * Training Data Collection Framework
@@ -129,7 +131,7 @@ export class TrainingDataCollector {
     // Create training data point
     const dataPoint: TrainingDataPoint = {
       id: `training-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      input: this.config.anonymizeData ? this.anonymizeInput(input) : input,
+      input: this.config.anonymizeData ? anonymizeInput(input) : input,
       groundTruth: {
         industry: predictions.industry.industry,
         role: predictions.role.role,
@@ -176,7 +178,7 @@ export class TrainingDataCollector {
 
     const dataPoint: TrainingDataPoint = {
       id: `correction-${correction.id}`,
-      input: this.config.anonymizeData ? this.anonymizeInput(input) : input,
+      input: this.config.anonymizeData ? anonymizeInput(input) : input,
       groundTruth,
       predictions: originalPredictions,
       source: TrainingDataSource.USER_CORRECTION,
@@ -195,6 +197,51 @@ export class TrainingDataCollector {
     return dataPoint;
   }
 
+  /**
+   * Collect training data from an annotator's labels for a detection
+   * (see lib/profile/active-learning.ts)
+   */
+  async collectFromAnnotation(
+    input: string,
+    predictions: {
+      industry: IndustryClassification;
+      role: RoleClassification;
+      sophistication: SophisticationScore;
+    },
+    labels: {
+      industry: Industry;
+      role: UserRole;
+      sophisticationLevel: SophisticationLevel;
+    },
+    annotationId: string,
+    sessionId?: string
+  ): Promise<TrainingDataPoint> {
+    const dataPoint: TrainingDataPoint = {
+      id: `annotation-${annotationId}`,
+      input: this.config.anonymizeData ? anonymizeInput(input) : input,
+      groundTruth: {
+        ...labels,
+        // Detected keywords only support the label when the detector agreed
+        keywords: predictions.industry.industry === labels.industry ? predictions.industry.keywords : [],
+        context: 'Expert annotation'
+      },
+      predictions,
+      source: TrainingDataSource.EXPERT_ANNOTATION,
+      quality: DataQuality.HIGH,
+      metadata: {
+        sessionId,
+        timestamp: new Date(),
+        correctionApplied: false,
+        userVerified: true,
+        confidenceScore: 1
+      }
+    };
+
+    this.trainingData.set(dataPoint.id, dataPoint);
+
+    return dataPoint;
+  }
+
   /**
    * Generate synthetic training data for underrepresented categories
    */
@@ -318,6 +365,50 @@ export class TrainingDataCollector {
     }
   }
 
+  /**
+   * Export high-quality (user verified or corrected) data points as
+   * chat-format fine-tuning files plus a versioned manifest
+   */
+  exportFineTuningDataset(options: Partial<FineTuningExportOptions> = {}): FineTuningDataset {
+    const eligible = Array.from(this.trainingData.values()).filter(d => d.quality === DataQuality.HIGH);
+    return new FineTuningExporter().buildDataset(eligible, options);
+  }
+
+  /**
+   * Learn keyword weights and confidence calibration for the heuristic
+   * detectors from high-quality data points
+   */
+  recalibrateKeywordWeights(
+    options: Partial<RecalibrationOptions> = {},
+    recalibrator: KeywordRecalibrator = keywordRecalibrator
+  ): RecalibrationResult {
+    const eligible = Array.from(this.trainingData.values()).filter(d => d.quality === DataQuality.HIGH);
+    return recalibrator.recalibrate(eligible, options);
+  }
+
+  /**
+   * Load data points from a JSON or JSONL export (see exportTrainingData).
+   * Points with an existing id are replaced. Returns the number loaded.
+   */
+  importTrainingData(content: string): number {
+    const trimmed = content.trim();
+    const points: TrainingDataPoint[] = trimmed.startsWith('[')
+      ? JSON.parse(trimmed)
+      : trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+    points.forEach(point => {
+      if (!point?.id || typeof point.input !== 'string' || !point.groundTruth) {
+        throw new Error(`Invalid training data point: ${JSON.stringify(point).slice(0, 80)}`);
+      }
+      this.trainingData.set(point.id, {
+        ...point,
+        metadata: { ...point.metadata, timestamp: new Date(point.metadata?.timestamp) }
+      });
+    });
+
+    return points.length;
+  }
+
   /**
    * Get training data statistics and insights
    */
@@ -436,15 +527,6 @@ export class TrainingDataCollector {
     return DataQuality.UNCERTAIN;
   }
 
-  private anonymizeInput(input: string): string {
-    // Simple anonymization - replace potential PII
-    return input
-      .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, '[EMAIL]')
-      .replace(/\b\d{3}-\d{3}-\d{4}\b/g, '[PHONE]')
-      .replace(/\b[A-Z][a-z]+ [A-Z][a-z]+\b/g, '[NAME]')
-      .replace(/\bhttps?:\/\/[^\s]+\b/g, '[URL]');
-  }
-
   private extractGroundTruthFromCorrection(originalPredictions: any, correction: ProfileCorrection) {
     const groundTruth = {
       industry: originalPredictions.industry.industry,
@@ -582,5 +664,16 @@ export class TrainingDataCollector {
   }
 }
 
+/**
+ * Simple anonymization - replace potential PII
+ */
+export function anonymizeInput(input: string): string {
+  return input
+    .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, '[EMAIL]')
+    .replace(/\b\d{3}-\d{3}-\d{4}\b/g, '[PHONE]')
+    .replace(/\b[A-Z][a-z]+ [A-Z][a-z]+\b/g, '[NAME]')
+    .replace(/\bhttps?:\/\/[^\s]+\b/g, '[URL]');
+}
+
 // Singleton instance for global use
 export const trainingDataCollector = new TrainingDataCollector(); 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { Redis } from '@upstash/redis'
+import { redisConfig } from '@/lib/config/environment'
+
+// Upstash REST client; requests are made per call, so this is safe to share
+export const redis = new Redis({
+  url: redisConfig.url,
+  token: redisConfig.token,
+})
+
+// The key/value subset of the Upstash client used for persistence
+export interface RedisKeyValue {
+  get<TData>(key: string): Promise<TData | null>
+  set<TData>(key: string, value: TData, options?: { ex?: number }): Promise<unknown>
+  del(...keys: string[]): Promise<number>
+  eval<TArgs extends unknown[], TData = unknown>(script: string, keys: string[], args: TArgs): Promise<TData>
+}
+
+/**
+ * Compare-and-set on a JSON value's `revision` field, run atomically by
+ * Redis. Writes ARGV[2] with an ARGV[3]-second expiry and returns 1 when
+ * the stored revision (0 for a missing key) equals ARGV[1]; returns 0 and
+ * leaves the key alone otherwise.
+ */
+export const SET_IF_REVISION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local revision = 0
+if current then
+  revision = tonumber(cjson.decode(current).revision) or 0
+end
+if revision ~= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`
+
+/**
+ * In-process stand-in for local development and tests. Mirrors Upstash's
+ * behaviour: values are stored as JSON and parsed on read, and `ex` expires
+ * keys after the given number of seconds. It cannot run Lua, so `eval` only
+ * accepts SET_IF_REVISION_SCRIPT and runs its equivalent.
+ */
+export class MemoryRedis implements RedisKeyValue {
+  private entries: Map<string, { value: string; expiresAt?: number }> = new Map()
+
+  async get<TData>(key: string): Promise<TData | null> {
+    return this.read<TData>(key)
+  }
+
+  async set<TData>(key: string, value: TData, options: { ex?: number } = {}): Promise<'OK'> {
+    this.write(key, value, options.ex)
+    return 'OK'
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter(key => this.entries.delete(key)).length
+  }
+
+  async eval<TArgs extends unknown[], TData = unknown>(script: string, keys: string[], args: TArgs): Promise<TData> {
+    if (script !== SET_IF_REVISION_SCRIPT) {
+      throw new Error('MemoryRedis can only run SET_IF_REVISION_SCRIPT')
+    }
+
+    // Read and write without awaiting in between, so the swap is atomic here too
+    const [expected, value, ex] = args
+    const revision = Number(this.read<{ revision?: number }>(keys[0])?.revision) || 0
+    if (revision !== Number(expected)) return 0 as TData
+
+    this.write(keys[0], value, Number(ex))
+    return 1 as TData
+  }
+
+  private read<TData>(key: string): TData | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+
+    try {
+      return JSON.parse(entry.value) as TData
+    } catch {
+      return entry.value as unknown as TData
+    }
+  }
+
+  private write(key: string, value: unknown, ex?: number): void {
+    this.entries.set(key, {
+      value: typeof value === 'string' ? value : JSON.stringify(value),
+      expiresAt: ex !== undefined ? Date.now() + ex * 1000 : undefined,
+    })
+  }
+}
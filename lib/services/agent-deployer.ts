@@ -1,5 +1,9 @@
-import { SpecializedAgent, AgentDeploymentRequest, AgentTemplate, UserProfile } from '@/lib/types/agent-types'
+import { SpecializedAgent, AgentDeploymentRequest, AgentTemplate, UserProfile, ConversationFlow } from '@/lib/types/agent-types'
 import { nanoid } from 'nanoid'
+import { conversationFlowEngine, FlowContext, FlowStepResult } from '@/lib/services/conversation-flow-engine'
+import { agentTemplateManager } from '@/lib/services/agent-template-manager'
+import { sessionStore } from '@/lib/services/session-store'
+import { questionSelectionEngine } from '@/lib/services/question-selection-engine'
 
 /**
  * Agent Deployer Service
@@ -30,7 +34,8 @@ export class AgentDeployer {
           collectedData: {},
           assumptions: [],
           nextActions: ['start_conversation'],
-          confidence: 0.5
+          confidence: 0.5,
+          flowState: conversationFlowEngine.createRuntimeState(template.conversationFlow)
         },
         
         // Customizations
@@ -39,7 +44,7 @@ export class AgentDeployer {
         conversationStyle: customizations.conversationStyle,
         
         // Methods (placeholder implementations)
-        processInput: async (input: string) => this.processInput(agent, input),
+        processInput: async (input: string) => this.processInput(agent, template.conversationFlow, input),
         generateQuestion: async () => this.generateQuestion(agent),
         makeAssumption: async (context) => this.makeAssumption(agent, context),
         updateState: async (newState) => this.updateState(agent, newState),
@@ -58,30 +63,155 @@ export class AgentDeployer {
   }
 
   /**
-   * Process user input (placeholder implementation)
+   * Process user input and advance the template's conversation flow
    */
-  private async processInput(agent: SpecializedAgent, input: string): Promise<any> {
-    // This will be implemented in TASK-004 with full agent functionality
+  private async processInput(agent: SpecializedAgent, flow: ConversationFlow, input: string): Promise<any> {
+    agent.messageCount++
+    agent.lastActivity = new Date()
+    this.recordPendingAnswer(agent, input)
+
+    const result = await conversationFlowEngine.step(flow, this.toFlowContext(agent, flow, input), {
+      deployAgent: async (templateId) => this.deployFromFlow(agent, templateId)
+    })
+    this.applyFlowResult(agent, result)
+
     return {
-      message: `Processed input: ${input}`,
-      type: 'acknowledgment' as const,
-      metadata: { timestamp: new Date() }
+      message: result.messages.join('\n') || `Processed input: ${input}`,
+      type: result.transition ? 'transition' as const : 'acknowledgment' as const,
+      metadata: {
+        timestamp: new Date(),
+        flow: {
+          stage: agent.currentStage,
+          transition: result.transition,
+          pendingTransition: result.pendingTransition,
+          actions: result.actions,
+          deployedAgentIds: result.deployedAgents.map(deployed => deployed.id),
+          expired: result.expired,
+          completed: result.completed
+        }
+      }
     }
   }
 
   /**
-   * Generate next question (placeholder implementation)
+   * Move an agent to a specific stage of its template's flow, e.g. to confirm
+   * a pending transition when autoAdvance is off or to backtrack
    */
-  private async generateQuestion(agent: SpecializedAgent): Promise<any> {
-    // This will be implemented in TASK-005 with question banks
+  async moveAgentToStage(agent: SpecializedAgent, targetStage: string): Promise<FlowStepResult> {
+    const template = await agentTemplateManager.getTemplate(agent.templateId)
+    if (!template) {
+      throw new Error(`Template not found: ${agent.templateId}`)
+    }
+
+    const flow = template.conversationFlow
+    const result = await conversationFlowEngine.moveTo(flow, this.toFlowContext(agent, flow), targetStage, {
+      deployAgent: async (templateId) => this.deployFromFlow(agent, templateId)
+    })
+    this.applyFlowResult(agent, result)
+    agent.lastActivity = new Date()
+
+    return result
+  }
+
+  /**
+   * Session state the flow engine evaluates conditions against
+   */
+  private toFlowContext(agent: SpecializedAgent, flow: ConversationFlow, input?: string): FlowContext {
     return {
-      id: nanoid(),
-      text: 'What would you like to build?',
-      type: 'text' as const,
-      required: true
+      sessionId: agent.sessionId,
+      currentStage: agent.currentStage,
+      profile: agent.profile,
+      collectedData: agent.conversationState.collectedData,
+      lastInput: input,
+      runtime: agent.conversationState.flowState
+        || conversationFlowEngine.createRuntimeState(flow, agent.created)
     }
   }
 
+  /**
+   * Copy the flow engine's updated session state back onto the agent
+   */
+  private applyFlowResult(agent: SpecializedAgent, result: FlowStepResult): void {
+    const { context } = result
+
+    agent.currentStage = context.currentStage
+    agent.conversationState.stage = context.currentStage
+    agent.conversationState.collectedData = context.collectedData
+    agent.conversationState.flowState = context.runtime
+    if (context.profile) {
+      agent.profile = context.profile
+    }
+  }
+
+  /**
+   * Deploy a follow-on agent requested by a flow `deploy_agent` action and
+   * make it the session's active agent
+   */
+  private async deployFromFlow(agent: SpecializedAgent, templateId: string): Promise<SpecializedAgent> {
+    const template = await agentTemplateManager.getTemplate(templateId)
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`)
+    }
+
+    const deployed = await this.deployAgent({
+      template,
+      profile: agent.profile,
+      sessionId: agent.sessionId,
+      customizations: {
+        terminology: agent.customTerminology,
+        questionSet: agent.activeQuestionSet,
+        conversationStyle: agent.conversationStyle
+      }
+    })
+
+    const session = await sessionStore.getSession(agent.sessionId)
+    await session?.registerAgent(deployed)
+
+    return deployed
+  }
+
+  /**
+   * Generate next question from the agent's question bank
+   */
+  private async generateQuestion(agent: SpecializedAgent): Promise<any> {
+    if (agent.activeQuestionSet.length === 0) {
+      return {
+        id: nanoid(),
+        text: 'What would you like to build?',
+        type: 'text' as const,
+        required: true
+      }
+    }
+
+    const question = questionSelectionEngine.getNextQuestion(
+      agent.activeQuestionSet,
+      agent.conversationState,
+      agent.profile
+    )
+    agent.conversationState.currentQuestionId = question?.id
+
+    return question
+  }
+
+  /**
+   * Store the user's input as the answer to the question last asked
+   */
+  private recordPendingAnswer(agent: SpecializedAgent, input: string): void {
+    const questionId = agent.conversationState.currentQuestionId
+    if (!questionId) return
+
+    const question = agent.activeQuestionSet
+      .flatMap(set => set.questions)
+      .find(candidate => candidate.id === questionId)
+    if (!question) return
+
+    agent.conversationState = questionSelectionEngine.recordAnswer(
+      agent.conversationState,
+      question,
+      questionSelectionEngine.normalizeAnswer(question, input)
+    )
+  }
+
   /**
    * Make assumption (placeholder implementation)
    */
@@ -229,7 +229,7 @@ export class AgentTemplateManager {
       domain: 'general',
       version: '1.0.0',
       description: 'General purpose business application agent for any industry',
-      questionBank: [],
+      questionBank: this.getDefaultQuestionBank(),
       terminology: new Map(),
       assumptionTemplates: [],
       conversationFlow: this.getDefaultConversationFlow()
@@ -242,7 +242,7 @@ export class AgentTemplateManager {
       domain: 'fintech',
       version: '1.0.0',
       description: 'Financial technology focused agent with compliance and regulatory expertise',
-      questionBank: [],
+      questionBank: this.getDefaultQuestionBank(),
       terminology: new Map([
         ['payment', 'payment processing system'],
         ['compliance', 'regulatory compliance framework'],
@@ -260,7 +260,7 @@ export class AgentTemplateManager {
       domain: 'healthcare',
       version: '1.0.0',
       description: 'Healthcare industry agent with HIPAA compliance and clinical workflow expertise',
-      questionBank: [],
+      questionBank: this.getDefaultQuestionBank(),
       terminology: new Map([
         ['patient', 'healthcare patient or individual'],
         ['EHR', 'Electronic Health Record system'],
@@ -272,6 +272,133 @@ export class AgentTemplateManager {
     })
   }
 
+  private getDefaultQuestionBank(): QuestionSet[] {
+    return [
+      {
+        id: 'idea-clarity',
+        category: 'idea-clarity',
+        priority: 1,
+        questions: [
+          {
+            id: 'problem_statement',
+            text: 'What problem are you trying to solve, and for whom?',
+            type: 'text',
+            required: true,
+            dataField: 'problemStatement',
+            followUpQuestions: ['current_alternatives']
+          },
+          {
+            id: 'current_alternatives',
+            text: 'How do people deal with this problem today?',
+            type: 'text',
+            required: false,
+            dataField: 'currentAlternatives'
+          },
+          {
+            id: 'target_users',
+            text: 'Who are your primary users?',
+            type: 'text',
+            required: true,
+            dataField: 'targetUsers'
+          },
+          {
+            id: 'success_metric',
+            text: 'How will you measure success in the first six months?',
+            type: 'text',
+            required: false,
+            dataField: 'successMetric',
+            minSophistication: 'medium'
+          }
+        ]
+      },
+      {
+        id: 'user-workflow',
+        category: 'user-workflow',
+        priority: 2,
+        prerequisites: ['idea-clarity'],
+        questions: [
+          {
+            id: 'core_workflow',
+            text: 'Walk me through the main thing a user does with the product, step by step.',
+            type: 'text',
+            required: true,
+            dataField: 'coreWorkflow',
+            followUpQuestions: ['approval_steps']
+          },
+          {
+            id: 'approval_steps',
+            text: 'Does anyone else need to review or approve what the user does?',
+            type: 'boolean',
+            required: false,
+            dataField: 'hasApprovals'
+          },
+          {
+            id: 'platforms',
+            text: 'Where will people use it?',
+            type: 'choice',
+            options: ['web', 'mobile', 'both'],
+            required: true,
+            dataField: 'platforms'
+          }
+        ]
+      },
+      {
+        id: 'technical-specs',
+        category: 'technical-specs',
+        priority: 3,
+        prerequisites: ['user-workflow'],
+        questions: [
+          {
+            id: 'integrations',
+            text: 'Which existing tools or systems does this need to connect to?',
+            type: 'text',
+            required: true,
+            dataField: 'integrations'
+          },
+          {
+            id: 'expected_users',
+            text: 'Roughly how many users do you expect in the first year?',
+            type: 'scale',
+            required: true,
+            dataField: 'expectedUsers'
+          },
+          {
+            id: 'scaling_strategy',
+            text: 'How do you plan to handle peak load and data growth?',
+            type: 'text',
+            required: false,
+            dataField: 'scalingStrategy',
+            dependsOn: ['expected_users'],
+            skipConditions: [{ field: 'expectedUsers', operator: 'less_than', value: 1000 }]
+          },
+          {
+            id: 'offline_support',
+            text: 'Does the mobile app need to work offline?',
+            type: 'boolean',
+            required: false,
+            dataField: 'offlineSupport',
+            skipConditions: [{ field: 'platforms', operator: 'equals', value: 'web' }]
+          }
+        ]
+      },
+      {
+        id: 'wireframes',
+        category: 'wireframes',
+        priority: 4,
+        prerequisites: ['technical-specs'],
+        questions: [
+          {
+            id: 'key_screen',
+            text: 'What is the first screen a new user should see, and what should they do there?',
+            type: 'text',
+            required: true,
+            dataField: 'keyScreen'
+          }
+        ]
+      }
+    ]
+  }
+
   private getDefaultConversationFlow(): ConversationFlow {
     return {
       stages: ['idea-clarity', 'user-workflow', 'technical-specs', 'wireframes'],
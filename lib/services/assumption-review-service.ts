@@ -0,0 +1,341 @@
+import {
+  AssumptionGenerator,
+  type Assumption,
+  type AssumptionChangeRequest,
+  type AssumptionSet as GeneratedAssumptionSet
+} from '@/lib/conversation/assumption-generator'
+import type { AssumptionDiff } from '@/lib/conversation/assumption-graph'
+import type { AssumptionSet, ConversationContext } from '@/lib/types/conversation'
+import {
+  AssumptionDecision,
+  AssumptionDecisionAction,
+  AssumptionDecisionStore,
+  AssumptionVersionConflictError,
+  createAssumptionDecisionStore
+} from '@/lib/stores/assumption-decision-store'
+import { ConversationContextService, conversationContextService } from './conversation-context-service'
+
+// Id of the context's AssumptionSet holding the assumptions the user accepted
+const REVIEWED_SET_ID = 'user_reviewed_assumptions'
+
+// Review errors carry the HTTP status routes should answer with
+export class AssumptionReviewError extends Error {
+  constructor(message: string, public statusCode: number, public currentVersion?: number) {
+    super(message)
+    this.name = 'AssumptionReviewError'
+  }
+}
+
+/**
+ * Assumption Review Service
+ *
+ * Lets users accept, reject or edit generated assumptions one at a time.
+ * Every decision is appended to the assumption's versioned history, and a
+ * decision must name the version it was made against, so two reviewers
+ * cannot silently overwrite each other.
+ *
+ * Accepted (and edited) assumptions are written into the session's
+ * conversation context as user-validated assumptions, where question
+ * generation treats them as facts. The context set is rebuilt from the full
+ * history on every decision.
+ *
+ * Rejecting or editing an assumption cascades to the assumptions that
+ * depend on it (ENABLE_ASSUMPTION_CASCADE): each is regenerated where
+ * possible and recorded as an `invalidate` decision, which returns it to
+ * pending review.
+ */
+export class AssumptionReviewService {
+  constructor(
+    private readonly store: AssumptionDecisionStore = createAssumptionDecisionStore(),
+    private readonly contexts: ConversationContextService = conversationContextService,
+    private readonly generator: AssumptionGenerator = new AssumptionGenerator()
+  ) {}
+
+  /**
+   * Record newly generated assumptions as version 1. Assumptions already
+   * registered for the session are left alone.
+   */
+  async registerAssumptions(sessionId: string, assumptionSet: GeneratedAssumptionSet): Promise<ReviewedAssumption[]> {
+    try {
+      const known = new Set((await this.store.history(sessionId)).map(decision => decision.assumptionId))
+      const decidedAt = new Date().toISOString()
+
+      for (const assumption of assumptionSet.assumptions) {
+        if (known.has(assumption.id)) continue
+        await this.store.append({
+          sessionId,
+          assumptionId: assumption.id,
+          version: 1,
+          action: 'generated',
+          assumption,
+          decidedAt
+        })
+      }
+
+      return this.listAssumptions(sessionId)
+    } catch (error) {
+      console.error('Error registering assumptions:', error)
+      throw new Error(`Failed to register assumptions: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Current state of every assumption in the session, in generation order
+   */
+  async listAssumptions(sessionId: string): Promise<ReviewedAssumption[]> {
+    return this.currentState(await this.store.history(sessionId))
+  }
+
+  /**
+   * One assumption's current state and full history, or null if unknown
+   */
+  async getAssumption(
+    sessionId: string,
+    assumptionId: string
+  ): Promise<{ assumption: ReviewedAssumption; history: AssumptionDecision[] } | null> {
+    const history = await this.store.history(sessionId, assumptionId)
+    if (history.length === 0) return null
+
+    return { assumption: this.currentState(history)[0], history }
+  }
+
+  /**
+   * Accept, reject or edit one assumption. `contextVersion` is the session's
+   * conversation context version, which the decision bumps; a stale context
+   * version throws a ConversationContextError and a stale assumption version
+   * a 409 AssumptionReviewError, and nothing is recorded in either case.
+   *
+   * The decision, and the invalidations a reject or edit cascades to, are
+   * appended only after the context write succeeds. If an append then
+   * fails, the context is rebuilt from the stored history before the error
+   * is rethrown.
+   */
+  async decide(
+    sessionId: string,
+    contextVersion: number,
+    request: AssumptionDecisionRequest
+  ): Promise<AssumptionDecisionResult> {
+    let decision!: AssumptionDecision
+    let cascade: { diff: AssumptionDiff; invalidated: AssumptionDecision[] } | undefined
+    let reviewed!: ReviewedAssumption[]
+
+    const { version } = await this.contexts.updateContext(sessionId, contextVersion, async context => {
+      const history = await this.store.history(sessionId)
+      const current = this.currentState(history)
+      const target = current.find(item => item.assumption.id === request.assumptionId)
+
+      if (!target) {
+        throw new AssumptionReviewError(`Assumption not found: ${request.assumptionId}`, 404)
+      }
+
+      if (target.version !== request.expectedVersion) {
+        throw new AssumptionReviewError(
+          `Assumption version conflict: expected ${request.expectedVersion}, current is ${target.version}`,
+          409,
+          target.version
+        )
+      }
+
+      decision = {
+        sessionId,
+        assumptionId: request.assumptionId,
+        version: target.version + 1,
+        action: request.action,
+        assumption: request.action === 'edit' ? { ...target.assumption, ...request.edits, confidence: 1 } : target.assumption,
+        feedback: request.feedback,
+        decidedAt: new Date().toISOString()
+      }
+
+      cascade = request.action === 'accept' ? undefined : await this.cascade(current, decision, request, context)
+
+      reviewed = this.currentState([...history, decision, ...(cascade?.invalidated || [])])
+      return { ...context, assumptions: this.withReviewedSet(context, reviewed) }
+    })
+
+    try {
+      for (const entry of [decision, ...(cascade?.invalidated || [])]) {
+        await this.store.append(entry)
+      }
+    } catch (error) {
+      await this.rebuildReviewedSet(sessionId, version)
+      if (error instanceof AssumptionVersionConflictError) {
+        throw new AssumptionReviewError(error.message, 409)
+      }
+      throw error
+    }
+
+    return {
+      assumption: reviewed.find(item => item.assumption.id === request.assumptionId)!,
+      decision,
+      invalidated: cascade?.invalidated || [],
+      diff: cascade?.diff,
+      version
+    }
+  }
+
+  /**
+   * Health check for the service
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.store.history('__health__')
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Apply a reject or edit to the session's open assumptions and turn every
+   * dependent the cascade flagged into an `invalidate` decision
+   */
+  private async cascade(
+    current: ReviewedAssumption[],
+    decision: AssumptionDecision,
+    request: AssumptionDecisionRequest,
+    context: ConversationContext
+  ): Promise<{ diff: AssumptionDiff; invalidated: AssumptionDecision[] }> {
+    const open = current.filter(item => item.status !== 'rejected' || item.assumption.id === request.assumptionId)
+    const result = await this.generator.applyAssumptionChange(
+      {
+        assumptions: open.map(item => item.assumption),
+        confidence: open.reduce((sum, item) => sum + item.assumption.confidence, 0) / open.length,
+        reasoning: 'Assumptions under review',
+        missingCriticalInfo: [],
+        recommendedNextSteps: [],
+        metadata: { generatedAt: decision.decidedAt, model: 'review', tokens: 0, escapeSignalTrigger: 'review' }
+      },
+      {
+        assumptionId: request.assumptionId,
+        action: request.action === 'reject' ? 'reject' : 'correct',
+        correction: request.edits,
+        feedback: request.feedback
+      },
+      context
+    )
+
+    const reasons = new Map(result.diff.changes.map(change => [change.assumptionId, change.reason]))
+    const invalidated = result.staleAssumptionIds.map(id => ({
+      sessionId: decision.sessionId,
+      assumptionId: id,
+      version: open.find(item => item.assumption.id === id)!.version + 1,
+      action: 'invalidate' as const,
+      assumption: result.assumptionSet.assumptions.find(assumption => assumption.id === id)!,
+      feedback: reasons.get(id),
+      decidedAt: decision.decidedAt
+    }))
+
+    return { diff: result.diff, invalidated }
+  }
+
+  // Compensate for decisions the context shows but the history never stored
+  private async rebuildReviewedSet(sessionId: string, contextVersion: number): Promise<void> {
+    try {
+      await this.contexts.updateContext(sessionId, contextVersion, async context => ({
+        ...context,
+        assumptions: this.withReviewedSet(context, this.currentState(await this.store.history(sessionId)))
+      }))
+    } catch (error) {
+      console.error('Error rebuilding reviewed assumptions:', error)
+    }
+  }
+
+  // Fold each assumption's history into its current state
+  private currentState(history: AssumptionDecision[]): ReviewedAssumption[] {
+    const states = new Map<string, ReviewedAssumption>()
+
+    history
+      .slice()
+      .sort((a, b) => a.version - b.version)
+      .forEach(decision => {
+        const previous = states.get(decision.assumptionId)
+        states.set(decision.assumptionId, {
+          assumption: decision.assumption,
+          status: decision.action === 'reject'
+            ? 'rejected'
+            : decision.action === 'accept' || decision.action === 'edit' ? 'accepted' : 'pending',
+          version: decision.version,
+          // A regenerated assumption no longer carries the user's edits
+          edited: decision.action === 'edit' || (decision.action !== 'invalidate' && !!previous?.edited),
+          feedback: decision.feedback ?? previous?.feedback,
+          updatedAt: decision.decidedAt
+        })
+      })
+
+    // Keep generation order (first appearance in the history)
+    const order: string[] = []
+    history.forEach(decision => {
+      if (!order.includes(decision.assumptionId)) order.push(decision.assumptionId)
+    })
+    return order.map(id => states.get(id)!)
+  }
+
+  private withReviewedSet(context: ConversationContext, reviewed: ReviewedAssumption[]): AssumptionSet[] {
+    const others = (context.assumptions || []).filter(set => set.id !== REVIEWED_SET_ID)
+    const accepted = reviewed.filter(item => item.status === 'accepted')
+    if (accepted.length === 0) return others
+
+    const open = reviewed.filter(item => item.status !== 'rejected').length
+    const previous = (context.assumptions || []).find(set => set.id === REVIEWED_SET_ID)?.assumptions || []
+
+    return [
+      ...others,
+      {
+        id: REVIEWED_SET_ID,
+        domain: context.domain,
+        stage: context.stage,
+        assumptions: accepted.map(({ assumption, edited, feedback }) => {
+          const statement = `${assumption.title}: ${assumption.description}`
+          // A contradiction only supersedes the wording it was detected against
+          const prior = previous.find(item => item.id === assumption.id && item.assumption === statement)
+
+          return {
+            id: assumption.id,
+            category: assumption.category,
+            assumption: statement,
+            reasoning: assumption.reasoning,
+            confidence: assumption.confidence,
+            impact: assumption.impact,
+            source: 'conversation' as const,
+            dependencies: assumption.dependencies,
+            validatedBy: 'user' as const,
+            correctedBy: edited ? feedback || 'user' : undefined,
+            supersededBy: prior?.supersededBy
+          }
+        }),
+        completeness: accepted.length / open,
+        confidence: accepted.reduce((sum, item) => sum + item.assumption.confidence, 0) / accepted.length,
+        lastUpdated: new Date().toISOString()
+      }
+    ]
+  }
+}
+
+// Supporting interfaces
+export interface ReviewedAssumption {
+  assumption: Assumption
+  status: 'pending' | 'accepted' | 'rejected'   // edited assumptions count as accepted, invalidated ones as pending
+  version: number
+  edited: boolean
+  feedback?: string
+  updatedAt: string
+}
+
+export interface AssumptionDecisionRequest {
+  assumptionId: string
+  expectedVersion: number
+  action: Exclude<AssumptionDecisionAction, 'generated' | 'invalidate'>
+  edits?: AssumptionChangeRequest['correction']
+  feedback?: string
+}
+
+export interface AssumptionDecisionResult {
+  assumption: ReviewedAssumption
+  decision: AssumptionDecision
+  invalidated: AssumptionDecision[]   // dependents the cascade invalidated
+  diff?: AssumptionDiff               // how the open assumptions changed, for rejects and edits
+  version: number   // new conversation context version
+}
+
+// Export singleton instance
+export const assumptionReviewService = new AssumptionReviewService()
@@ -0,0 +1,213 @@
+import { ConversationContext, Domain, UserProfile } from '@/lib/types/conversation'
+import { normalizeContext } from '@/lib/conversation/context-normalizer'
+import { EnhancedSessionManager, SessionManagementSystem, sessionManagementSystem } from './session-management-system'
+import { SessionConflictError } from './session-persistence'
+
+const CONTEXT_KEY = 'conversationContext'
+const VERSION_KEY = 'conversationContextVersion'
+
+// Context errors carry the HTTP status routes should answer with
+export class ConversationContextError extends Error {
+  constructor(message: string, public statusCode: number, public currentVersion?: number) {
+    super(message)
+    this.name = 'ConversationContextError'
+  }
+}
+
+/**
+ * Conversation Context Service
+ *
+ * Owns each session's ConversationContext on the server so clients only send
+ * a sessionId, their response and the version they last saw. Contexts live in
+ * the session's metadata, so they persist and rehydrate with the session.
+ *
+ * Updates use optimistic concurrency: the expected version is checked before
+ * the update runs, and the write is a compare-and-set on the session's stored
+ * revision, so a write from another instance in between fails with a 409
+ * instead of being overwritten. Every write bumps the version. Updates to
+ * one session are serialized within an instance.
+ */
+export class ConversationContextService {
+  private locks: Map<string, Promise<void>> = new Map()
+
+  constructor(private readonly sessions: SessionManagementSystem = sessionManagementSystem) {}
+
+  /**
+   * Start a conversation in a new session. Only the seed fields are taken
+   * from the caller; history always starts empty.
+   */
+  async createContext(seed: ContextSeed = {}): Promise<VersionedContext> {
+    try {
+      const session = await this.sessions.createSession()
+      const context = normalizeContext({
+        sessionId: session.sessionId,
+        userId: seed.userId,
+        domain: seed.domain,
+        userProfile: seed.userProfile as UserProfile | undefined,
+        conversationHistory: []
+      })
+
+      await session.updateMetadata({ [CONTEXT_KEY]: context, [VERSION_KEY]: 1 })
+      return { context: this.clone(context), version: 1 }
+    } catch (error) {
+      console.error('Error creating conversation context:', error)
+      throw new Error(`Failed to create conversation context: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Current context and version, or null for an unknown or expired session
+   */
+  async getContext(sessionId: string): Promise<VersionedContext | null> {
+    const session = await this.sessions.getSession(sessionId)
+    const current = session && this.read(session)
+    if (!current) return null
+
+    return { context: current.context, version: current.version }
+  }
+
+  /**
+   * Current context, provided the caller has seen the latest version.
+   * Throws a 404 or 409 ConversationContextError otherwise.
+   */
+  async requireContext(sessionId: string, expectedVersion: number): Promise<VersionedContext> {
+    const current = await this.getContext(sessionId)
+
+    if (!current) {
+      throw new ConversationContextError(`Conversation session not found: ${sessionId}`, 404)
+    }
+
+    if (current.version !== expectedVersion) {
+      throw new ConversationContextError(
+        `Context version conflict: expected ${expectedVersion}, current is ${current.version}`,
+        409,
+        current.version
+      )
+    }
+
+    return current
+  }
+
+  /**
+   * Current context for read-only use, checked against `expectedVersion`
+   * when the caller gives one. Throws a 404 or 409 ConversationContextError.
+   */
+  async loadContext(sessionId: string, expectedVersion?: number): Promise<VersionedContext> {
+    if (expectedVersion !== undefined) {
+      return this.requireContext(sessionId, expectedVersion)
+    }
+
+    const current = await this.getContext(sessionId)
+    if (!current) {
+      throw new ConversationContextError(`Conversation session not found: ${sessionId}`, 404)
+    }
+    return current
+  }
+
+  /**
+   * Apply an update to the context at `expectedVersion` and store the result
+   * as the next version. The updater receives a copy it may modify. Throws a
+   * 409 ConversationContextError if another write lands first; failures to
+   * save are rethrown.
+   */
+  async updateContext(
+    sessionId: string,
+    expectedVersion: number,
+    update: (context: ConversationContext) => ConversationContext | Promise<ConversationContext>
+  ): Promise<VersionedContext> {
+    return this.withLock(sessionId, async () => {
+      const session = await this.sessions.getSession(sessionId)
+      const current = session && this.read(session)
+
+      if (!session || !current) {
+        throw new ConversationContextError(`Conversation session not found: ${sessionId}`, 404)
+      }
+
+      if (current.version !== expectedVersion) {
+        throw new ConversationContextError(
+          `Context version conflict: expected ${expectedVersion}, current is ${current.version}`,
+          409,
+          current.version
+        )
+      }
+
+      const updated = normalizeContext({ ...(await update(current.context)), sessionId })
+      const version = expectedVersion + 1
+
+      try {
+        // Only written if the session is still at the revision the context was read from
+        await session.updateMetadata({ [CONTEXT_KEY]: updated, [VERSION_KEY]: version }, current.revision)
+      } catch (error) {
+        if (error instanceof SessionConflictError) {
+          const current = await this.getContext(sessionId)
+          throw new ConversationContextError(
+            `Context version conflict: expected ${expectedVersion}, current is ${current?.version}`,
+            409,
+            current?.version
+          )
+        }
+        throw error
+      }
+
+      return { context: this.clone(updated), version }
+    })
+  }
+
+  /**
+   * Health check for the service
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const { status } = await this.sessions.getHealthStatus()
+      return status !== 'unhealthy'
+    } catch {
+      return false
+    }
+  }
+
+  private async withLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(sessionId) || Promise.resolve()
+    const run = previous.then(task)
+    const settled = run.then(() => undefined, () => undefined)
+    this.locks.set(sessionId, settled)
+
+    try {
+      return await run
+    } finally {
+      if (this.locks.get(sessionId) === settled) {
+        this.locks.delete(sessionId)
+      }
+    }
+  }
+
+  private read(session: EnhancedSessionManager): (VersionedContext & { revision: number }) | null {
+    const { metadata, revision } = session.readMetadata()
+    if (!metadata[CONTEXT_KEY]) return null
+
+    return {
+      context: this.clone(metadata[CONTEXT_KEY]),
+      version: metadata[VERSION_KEY] || 1,
+      revision
+    }
+  }
+
+  // Stored contexts are never handed out by reference
+  private clone(context: ConversationContext): ConversationContext {
+    return JSON.parse(JSON.stringify(context))
+  }
+}
+
+// Supporting interfaces
+export interface ContextSeed {
+  userId?: string
+  domain?: Domain
+  userProfile?: Partial<UserProfile>
+}
+
+export interface VersionedContext {
+  context: ConversationContext
+  version: number
+}
+
+// Export singleton instance
+export const conversationContextService = new ConversationContextService()
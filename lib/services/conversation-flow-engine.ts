@@ -0,0 +1,397 @@
+import {
+  ConversationFlow,
+  FlowTransition,
+  TransitionCondition,
+  FlowAction,
+  FlowRuntimeState,
+  UserProfile,
+  SpecializedAgent
+} from '@/lib/types/agent-types'
+
+/**
+ * Conversation Flow Engine
+ *
+ * Interprets an agent template's ConversationFlow: evaluates transition
+ * conditions against session state after each turn and runs the declared
+ * actions, honouring the flow's autoAdvance, allowBacktracking and
+ * maxDuration settings.
+ */
+export class ConversationFlowEngine {
+  private customConditions: Map<string, CustomConditionEvaluator> = new Map()
+  private customActions: Map<string, CustomActionHandler> = new Map()
+
+  /**
+   * Register an evaluator for `custom` conditions with `parameters.name`
+   */
+  registerCondition(name: string, evaluator: CustomConditionEvaluator): void {
+    this.customConditions.set(name, evaluator)
+  }
+
+  /**
+   * Register a handler for `custom` actions with `parameters.name`
+   */
+  registerAction(name: string, handler: CustomActionHandler): void {
+    this.customActions.set(name, handler)
+  }
+
+  /**
+   * Create runtime state for a flow starting now
+   */
+  createRuntimeState(flow: ConversationFlow, now: Date = new Date()): FlowRuntimeState {
+    return {
+      startedAt: now,
+      stageEnteredAt: now,
+      visitedStages: flow.stages.length > 0 ? [flow.stages[0]] : [],
+      completed: false,
+      expired: false
+    }
+  }
+
+  /**
+   * Evaluate the flow after a turn. With autoAdvance the first satisfied
+   * transition is taken and its actions run; otherwise it is returned as
+   * pending so the caller can confirm it with moveTo().
+   */
+  async step(
+    flow: ConversationFlow,
+    context: FlowContext,
+    hooks: FlowActionHooks = {}
+  ): Promise<FlowStepResult> {
+    const current = this.cloneContext(context)
+    const result = this.emptyResult(current)
+
+    if (current.runtime.completed) {
+      return result
+    }
+
+    if (this.hasExpired(flow, current)) {
+      current.runtime.expired = true
+      result.expired = true
+      return result
+    }
+
+    const transition = await this.findSatisfiedTransition(flow, current)
+    if (!transition) {
+      return result
+    }
+
+    if (flow.configuration.autoAdvance === false) {
+      result.pendingTransition = transition
+      return result
+    }
+
+    return await this.applyTransition(flow, transition, current, hooks)
+  }
+
+  /**
+   * Explicitly move to a stage. Forward moves must follow a declared
+   * transition whose conditions hold; moving back to an earlier stage is only
+   * allowed when the flow permits backtracking.
+   */
+  async moveTo(
+    flow: ConversationFlow,
+    context: FlowContext,
+    targetStage: string,
+    hooks: FlowActionHooks = {}
+  ): Promise<FlowStepResult> {
+    const current = this.cloneContext(context)
+
+    if (this.hasExpired(flow, current)) {
+      throw new Error(`Conversation flow expired after ${flow.configuration.maxDuration}ms`)
+    }
+
+    if (this.isBacktrack(flow, current.currentStage, targetStage)) {
+      if (!flow.configuration.allowBacktracking) {
+        throw new Error(`Backtracking from ${current.currentStage} to ${targetStage} is not allowed by this flow`)
+      }
+
+      return await this.applyTransition(
+        flow,
+        { from: current.currentStage, to: targetStage, conditions: [] },
+        current,
+        hooks
+      )
+    }
+
+    const transition = this.getTransitionsFrom(flow, current.currentStage)
+      .find(candidate => candidate.to === targetStage)
+
+    if (!transition) {
+      throw new Error(`No transition from ${current.currentStage} to ${targetStage}`)
+    }
+
+    if (!(await this.conditionsMet(transition.conditions, current))) {
+      throw new Error(`Conditions for transition ${current.currentStage} -> ${targetStage} are not met`)
+    }
+
+    return await this.applyTransition(flow, transition, current, hooks)
+  }
+
+  /**
+   * Evaluate a single transition condition
+   */
+  async evaluateCondition(condition: TransitionCondition, context: FlowContext): Promise<boolean> {
+    const parameters = condition.parameters || {}
+
+    switch (condition.type) {
+      case 'profile_complete':
+        return this.isProfileComplete(context, parameters)
+
+      case 'user_input':
+        return this.matchesUserInput(context.lastInput, parameters)
+
+      case 'time_elapsed': {
+        const since = parameters.since === 'session' ? context.runtime.startedAt : context.runtime.stageEnteredAt
+        const thresholdMs = (parameters.seconds || 0) * 1000 + (parameters.minutes || 0) * 60 * 1000
+        return Date.now() - new Date(since).getTime() >= thresholdMs
+      }
+
+      case 'custom': {
+        const evaluator = this.customConditions.get(parameters.name)
+        if (!evaluator) {
+          console.warn(`No custom flow condition registered for: ${parameters.name}`)
+          return false
+        }
+        return await evaluator(context, parameters)
+      }
+
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Health check for the service
+   */
+  async healthCheck(): Promise<boolean> {
+    return true
+  }
+
+  private async findSatisfiedTransition(
+    flow: ConversationFlow,
+    context: FlowContext
+  ): Promise<FlowTransition | null> {
+    for (const transition of this.getTransitionsFrom(flow, context.currentStage)) {
+      if (this.isBacktrack(flow, transition.from, transition.to) && !flow.configuration.allowBacktracking) {
+        continue
+      }
+
+      if (await this.conditionsMet(transition.conditions, context)) {
+        return transition
+      }
+    }
+
+    return null
+  }
+
+  private async conditionsMet(conditions: TransitionCondition[], context: FlowContext): Promise<boolean> {
+    for (const condition of conditions) {
+      if (!(await this.evaluateCondition(condition, context))) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private async applyTransition(
+    flow: ConversationFlow,
+    transition: FlowTransition,
+    context: FlowContext,
+    hooks: FlowActionHooks
+  ): Promise<FlowStepResult> {
+    context.currentStage = transition.to
+    context.runtime.stageEnteredAt = new Date()
+    context.runtime.visitedStages = [...context.runtime.visitedStages, transition.to]
+    context.runtime.completed = !flow.stages.includes(transition.to)
+
+    const result = this.emptyResult(context)
+    result.transition = transition
+    result.completed = context.runtime.completed
+
+    for (const action of transition.actions || []) {
+      result.actions.push(await this.runAction(action, transition, context, result, hooks))
+    }
+
+    return result
+  }
+
+  private async runAction(
+    action: FlowAction,
+    transition: FlowTransition,
+    context: FlowContext,
+    result: FlowStepResult,
+    hooks: FlowActionHooks
+  ): Promise<FlowActionResult> {
+    const parameters = action.parameters || {}
+
+    try {
+      switch (action.type) {
+        case 'update_profile': {
+          if (!context.profile) {
+            return { type: action.type, status: 'skipped', detail: 'No profile in session' }
+          }
+          const updates: Partial<UserProfile> = parameters.updates || parameters
+          context.profile = { ...context.profile, ...updates, lastUpdated: new Date() }
+          return { type: action.type, status: 'completed', detail: Object.keys(updates).join(', ') }
+        }
+
+        case 'send_message': {
+          if (!parameters.message) {
+            return { type: action.type, status: 'skipped', detail: 'No message configured' }
+          }
+          result.messages.push(String(parameters.message))
+          return { type: action.type, status: 'completed' }
+        }
+
+        case 'deploy_agent': {
+          if (!hooks.deployAgent) {
+            return { type: action.type, status: 'skipped', detail: 'No deployment hook provided' }
+          }
+          const agent = await hooks.deployAgent(parameters.templateId, context)
+          result.deployedAgents.push(agent)
+          return { type: action.type, status: 'completed', detail: agent.id }
+        }
+
+        case 'custom': {
+          const handler = this.customActions.get(parameters.name)
+          if (!handler) {
+            return { type: action.type, status: 'skipped', detail: `No custom action registered for: ${parameters.name}` }
+          }
+          await handler(context, parameters, transition)
+          return { type: action.type, status: 'completed', detail: parameters.name }
+        }
+
+        default:
+          return { type: action.type, status: 'skipped', detail: 'Unknown action type' }
+      }
+    } catch (error) {
+      console.error(`Error running flow action ${action.type}:`, error)
+      return { type: action.type, status: 'failed', detail: (error as Error).message }
+    }
+  }
+
+  private isProfileComplete(context: FlowContext, parameters: Record<string, any>): boolean {
+    const profile = context.profile
+    if (!profile) return false
+
+    const minConfidence = parameters.minConfidence ?? 0.6
+    const fields: string[] = parameters.fields || []
+    const requiredData: string[] = parameters.requiredData || []
+
+    return profile.role !== 'unknown'
+      && !!profile.industry && profile.industry !== 'unknown'
+      && profile.industryConfidence >= minConfidence
+      && profile.roleConfidence >= minConfidence
+      && fields.every(field => this.hasValue((profile as Record<string, any>)[field]))
+      && requiredData.every(key => this.hasValue(context.collectedData[key]))
+  }
+
+  private matchesUserInput(input: string | undefined, parameters: Record<string, any>): boolean {
+    if (!input || !input.trim()) return false
+
+    const text = input.trim().toLowerCase()
+
+    if (parameters.equals !== undefined) {
+      return text === String(parameters.equals).toLowerCase()
+    }
+
+    if (parameters.contains !== undefined) {
+      const needles: string[] = Array.isArray(parameters.contains) ? parameters.contains : [parameters.contains]
+      return needles.some(needle => text.includes(String(needle).toLowerCase()))
+    }
+
+    if (parameters.pattern !== undefined) {
+      return new RegExp(parameters.pattern, 'i').test(input)
+    }
+
+    return true
+  }
+
+  private hasExpired(flow: ConversationFlow, context: FlowContext): boolean {
+    const { maxDuration } = flow.configuration
+    if (context.runtime.expired) return true
+    if (!maxDuration) return false
+    return Date.now() - new Date(context.runtime.startedAt).getTime() > maxDuration
+  }
+
+  private isBacktrack(flow: ConversationFlow, from: string, to: string): boolean {
+    const fromIndex = flow.stages.indexOf(from)
+    const toIndex = flow.stages.indexOf(to)
+    return fromIndex >= 0 && toIndex >= 0 && toIndex < fromIndex
+  }
+
+  private getTransitionsFrom(flow: ConversationFlow, stage: string): FlowTransition[] {
+    return Object.values(flow.transitions).filter(transition => transition.from === stage)
+  }
+
+  private hasValue(value: any): boolean {
+    if (Array.isArray(value)) return value.length > 0
+    return value !== undefined && value !== null && value !== ''
+  }
+
+  private cloneContext(context: FlowContext): FlowContext {
+    return {
+      ...context,
+      collectedData: { ...context.collectedData },
+      runtime: { ...context.runtime, visitedStages: [...context.runtime.visitedStages] }
+    }
+  }
+
+  private emptyResult(context: FlowContext): FlowStepResult {
+    return {
+      context,
+      transition: null,
+      pendingTransition: null,
+      actions: [],
+      messages: [],
+      deployedAgents: [],
+      expired: context.runtime.expired,
+      completed: context.runtime.completed
+    }
+  }
+}
+
+// Supporting interfaces
+export interface FlowContext {
+  sessionId: string
+  currentStage: string
+  profile?: UserProfile
+  collectedData: Record<string, any>
+  lastInput?: string
+  runtime: FlowRuntimeState
+}
+
+export interface FlowActionResult {
+  type: FlowAction['type']
+  status: 'completed' | 'skipped' | 'failed'
+  detail?: string
+}
+
+export interface FlowStepResult {
+  context: FlowContext
+  transition: FlowTransition | null
+  pendingTransition: FlowTransition | null
+  actions: FlowActionResult[]
+  messages: string[]
+  deployedAgents: SpecializedAgent[]
+  expired: boolean
+  completed: boolean
+}
+
+export interface FlowActionHooks {
+  deployAgent?: (templateId: string, context: FlowContext) => Promise<SpecializedAgent>
+}
+
+export type CustomConditionEvaluator = (
+  context: FlowContext,
+  parameters: Record<string, any>
+) => boolean | Promise<boolean>
+
+export type CustomActionHandler = (
+  context: FlowContext,
+  parameters: Record<string, any>,
+  transition: FlowTransition
+) => void | Promise<void>
+
+// Export singleton instance
+export const conversationFlowEngine = new ConversationFlowEngine()
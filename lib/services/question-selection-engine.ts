@@ -0,0 +1,307 @@
+import {
+  QuestionSet,
+  Question,
+  SkipCondition,
+  ConversationState,
+  UserProfile,
+  SophisticationLevel
+} from '@/lib/types/agent-types'
+import { Database, UserSophistication } from '@/lib/types/database'
+
+type QuestionBankRow = Database['public']['Tables']['question_banks']['Row']
+
+const SOPHISTICATION_ORDER: SophisticationLevel[] = ['low', 'medium', 'high']
+
+const SOPHISTICATION_FROM_DB: Record<UserSophistication, SophisticationLevel> = {
+  novice: 'low',
+  intermediate: 'medium',
+  advanced: 'high',
+  expert: 'high'
+}
+
+/**
+ * Question Selection Engine
+ *
+ * Deterministically walks a template's question bank: honours set
+ * prerequisites, question dependencies, follow-up chains, sophistication
+ * ranges and skip conditions evaluated against ConversationState.collectedData.
+ * Used directly by deployed agents, or to seed GPT question generation.
+ */
+export class QuestionSelectionEngine {
+
+  /**
+   * Narrow a question bank to the questions suitable for a profile, ordered
+   * by set priority (lower number first)
+   */
+  filterForProfile(questionSets: QuestionSet[], profile: UserProfile): QuestionSet[] {
+    return this.sortByPriority(questionSets)
+      .map(set => ({
+        ...set,
+        questions: set.questions.filter(question => this.matchesSophistication(question, profile))
+      }))
+      .filter(set => set.questions.length > 0)
+  }
+
+  /**
+   * Questions that could be asked right now, in asking order
+   */
+  getEligibleQuestions(
+    questionSets: QuestionSet[],
+    state: QuestionSelectionState,
+    profile?: UserProfile
+  ): Question[] {
+    const followUpParents = this.buildFollowUpIndex(questionSets)
+
+    return this.sortByPriority(questionSets)
+      .filter(set => this.prerequisitesMet(set, questionSets, state, profile))
+      .flatMap(set => set.questions)
+      .filter(question => this.isEligible(question, state, followUpParents, profile))
+  }
+
+  /**
+   * Next question to ask. Follow-ups of the most recently answered question
+   * come first so related questions stay together.
+   */
+  getNextQuestion(
+    questionSets: QuestionSet[],
+    state: QuestionSelectionState,
+    profile?: UserProfile
+  ): Question | null {
+    const eligible = this.getEligibleQuestions(questionSets, state, profile)
+    if (eligible.length === 0) return null
+
+    const lastAnsweredId = state.completedQuestions[state.completedQuestions.length - 1]
+    const lastAnswered = lastAnsweredId ? this.findQuestion(questionSets, lastAnsweredId) : null
+    const followUp = lastAnswered?.followUpQuestions
+      ?.map(id => eligible.find(question => question.id === id))
+      .find((question): question is Question => !!question)
+
+    return followUp || eligible[0]
+  }
+
+  /**
+   * Texts of the next few questions, for seeding a GPT question prompt
+   */
+  getSeedQuestions(
+    questionSets: QuestionSet[],
+    state: QuestionSelectionState,
+    profile?: UserProfile,
+    limit: number = 3
+  ): string[] {
+    return this.getEligibleQuestions(questionSets, state, profile)
+      .slice(0, limit)
+      .map(question => question.text)
+  }
+
+  /**
+   * Record an answer: mark the question completed and store the answer under
+   * its data field so later skip conditions can see it
+   */
+  recordAnswer(state: ConversationState, question: Question, answer: any): ConversationState {
+    return {
+      ...state,
+      completedQuestions: state.completedQuestions.includes(question.id)
+        ? state.completedQuestions
+        : [...state.completedQuestions, question.id],
+      collectedData: {
+        ...state.collectedData,
+        [question.dataField || question.id]: answer
+      },
+      currentQuestionId: state.currentQuestionId === question.id ? undefined : state.currentQuestionId
+    }
+  }
+
+  /**
+   * Convert a free-text answer into the value type implied by the question,
+   * so numeric and boolean skip conditions can compare against it
+   */
+  normalizeAnswer(question: Question, input: string): any {
+    const text = input.trim()
+
+    switch (question.type) {
+      case 'scale': {
+        const number = Number(text.replace(/[^\d.-]/g, ''))
+        return text && !Number.isNaN(number) ? number : text
+      }
+
+      case 'boolean':
+        if (/^(yes|y|yeah|yep|true|sure|definitely)\b/i.test(text)) return true
+        if (/^(no|n|nope|false|not really)\b/i.test(text)) return false
+        return text
+
+      case 'choice':
+        return question.options?.find(option => text.toLowerCase().includes(option.toLowerCase())) || text
+
+      default:
+        return text
+    }
+  }
+
+  /**
+   * Evaluate a single skip condition against collected data
+   */
+  evaluateSkipCondition(condition: SkipCondition, collectedData: Record<string, any>): boolean {
+    const value = this.readField(collectedData, condition.field)
+    if (value === undefined || value === null) return false
+
+    switch (condition.operator) {
+      case 'equals':
+        return typeof value === 'string' && typeof condition.value === 'string'
+          ? value.toLowerCase() === condition.value.toLowerCase()
+          : value === condition.value
+
+      case 'contains':
+        if (Array.isArray(value)) {
+          return value.some(item => String(item).toLowerCase() === String(condition.value).toLowerCase())
+        }
+        return String(value).toLowerCase().includes(String(condition.value).toLowerCase())
+
+      case 'greater_than':
+        return Number(value) > Number(condition.value)
+
+      case 'less_than':
+        return Number(value) < Number(condition.value)
+
+      default:
+        return false
+    }
+  }
+
+  /**
+   * Convert `question_banks` rows into question sets grouped by category
+   */
+  fromQuestionBankRows(rows: QuestionBankRow[]): QuestionSet[] {
+    const sets = new Map<string, QuestionSet>()
+
+    for (const row of rows.filter(row => row.is_active)) {
+      const category = row.category || row.stage
+      const set = sets.get(category) || {
+        id: category,
+        category,
+        questions: [],
+        priority: row.priority
+      }
+
+      set.priority = Math.min(set.priority, row.priority)
+      set.questions.push({
+        id: row.question_id,
+        text: row.question_text,
+        type: 'text',
+        required: row.is_required,
+        followUpQuestions: this.parseFollowUps(row.follow_up_questions),
+        dependsOn: row.depends_on_questions || undefined,
+        minSophistication: row.min_sophistication ? SOPHISTICATION_FROM_DB[row.min_sophistication] : undefined,
+        maxSophistication: row.max_sophistication ? SOPHISTICATION_FROM_DB[row.max_sophistication] : undefined
+      })
+      sets.set(category, set)
+    }
+
+    return this.sortByPriority(Array.from(sets.values()))
+  }
+
+  /**
+   * Health check for the service
+   */
+  async healthCheck(): Promise<boolean> {
+    return true
+  }
+
+  private isEligible(
+    question: Question,
+    state: QuestionSelectionState,
+    followUpParents: Map<string, string[]>,
+    profile?: UserProfile
+  ): boolean {
+    if (state.completedQuestions.includes(question.id)) return false
+    if (profile && !this.matchesSophistication(question, profile)) return false
+    if (!(question.dependsOn || []).every(id => state.completedQuestions.includes(id))) return false
+
+    // Follow-ups wait until at least one of their parents has been answered
+    const parents = followUpParents.get(question.id)
+    if (parents && !parents.some(id => state.completedQuestions.includes(id))) return false
+
+    return !this.shouldSkip(question, state.collectedData)
+  }
+
+  private shouldSkip(question: Question, collectedData: Record<string, any>): boolean {
+    return (question.skipConditions || []).some(condition => this.evaluateSkipCondition(condition, collectedData))
+  }
+
+  /**
+   * Prerequisites may name question IDs (must be answered) or set IDs (every
+   * required question in the set answered or skipped)
+   */
+  private prerequisitesMet(
+    set: QuestionSet,
+    questionSets: QuestionSet[],
+    state: QuestionSelectionState,
+    profile?: UserProfile
+  ): boolean {
+    return (set.prerequisites || []).every(prerequisite => {
+      if (state.completedQuestions.includes(prerequisite)) return true
+
+      const prerequisiteSet = questionSets.find(candidate => candidate.id === prerequisite)
+      if (!prerequisiteSet) return false
+
+      return prerequisiteSet.questions
+        .filter(question => question.required)
+        .every(question =>
+          state.completedQuestions.includes(question.id)
+          || this.shouldSkip(question, state.collectedData)
+          || (profile !== undefined && !this.matchesSophistication(question, profile))
+        )
+    })
+  }
+
+  private matchesSophistication(question: Question, profile: UserProfile): boolean {
+    const level = SOPHISTICATION_ORDER.indexOf(profile.sophisticationLevel)
+    const min = question.minSophistication ? SOPHISTICATION_ORDER.indexOf(question.minSophistication) : 0
+    const max = question.maxSophistication
+      ? SOPHISTICATION_ORDER.indexOf(question.maxSophistication)
+      : SOPHISTICATION_ORDER.length - 1
+    return level >= min && level <= max
+  }
+
+  private buildFollowUpIndex(questionSets: QuestionSet[]): Map<string, string[]> {
+    const parents = new Map<string, string[]>()
+
+    for (const question of questionSets.flatMap(set => set.questions)) {
+      for (const followUpId of question.followUpQuestions || []) {
+        parents.set(followUpId, [...(parents.get(followUpId) || []), question.id])
+      }
+    }
+
+    return parents
+  }
+
+  private findQuestion(questionSets: QuestionSet[], questionId: string): Question | null {
+    for (const set of questionSets) {
+      const question = set.questions.find(candidate => candidate.id === questionId)
+      if (question) return question
+    }
+    return null
+  }
+
+  private sortByPriority(questionSets: QuestionSet[]): QuestionSet[] {
+    return [...questionSets].sort((a, b) => a.priority - b.priority)
+  }
+
+  private readField(data: Record<string, any>, field: string): any {
+    // recordAnswer stores dotted data fields as flat keys
+    if (field in data) return data[field]
+    return field.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), data)
+  }
+
+  private parseFollowUps(value: QuestionBankRow['follow_up_questions']): string[] | undefined {
+    if (!Array.isArray(value)) return undefined
+    return value
+      .map(item => (typeof item === 'string' ? item : (item as { id?: string } | null)?.id))
+      .filter((id): id is string => !!id)
+  }
+}
+
+// Supporting interfaces
+export type QuestionSelectionState = Pick<ConversationState, 'completedQuestions' | 'collectedData'>
+
+// Export singleton instance
+export const questionSelectionEngine = new QuestionSelectionEngine()
@@ -1,5 +1,6 @@
 import { SessionManager, SessionConfiguration, SessionContext, SessionState, UserProfile, SpecializedAgent } from '@/lib/types/agent-types'
 import { sessionStore } from './session-store'
+import { SessionPersistence, PersistedSession, managedSessionPersistence } from './session-persistence'
 import { nanoid } from 'nanoid'
 
 /**
@@ -30,7 +31,7 @@ export class SessionManagementSystem {
     compressionEnabled: true
   }
 
-  constructor() {
+  constructor(private readonly persistence: SessionPersistence = managedSessionPersistence) {
     this.initializeSystem()
   }
 
@@ -70,25 +71,13 @@ export class SessionManagementSystem {
       // Create enhanced session manager
       const sessionManager = new EnhancedSessionManager(id, {
         maxDuration: options?.maxDuration || this.config.maxSessionDuration,
-        autoSave: options?.autoSave ?? true
-      })
+        autoSave: options?.autoSave ?? true,
+        persistenceEnabled: options?.persistenceEnabled ?? this.config.persistenceEnabled,
+        compressionEnabled: options?.compressionEnabled ?? this.config.compressionEnabled
+      }, this.persistence)
 
       // Initialize session metrics
-      this.sessionMetrics.set(id, {
-        sessionId: id,
-        created: new Date(),
-        lastActivity: new Date(),
-        requestCount: 0,
-        dataSize: 0,
-        errors: 0,
-        warnings: 0,
-        performance: {
-          averageResponseTime: 0,
-          totalRequests: 0,
-          cacheHits: 0,
-          cacheMisses: 0
-        }
-      })
+      this.initializeSessionMetrics(id, new Date())
 
       // Store session
       this.activeSessions.set(id, sessionManager)
@@ -106,28 +95,29 @@ export class SessionManagementSystem {
   }
 
   /**
-   * Get existing session with automatic recovery
+   * Get existing session with automatic recovery. Persisted state wins when
+   * its revision is newer than this instance's copy, e.g. after another
+   * instance served the session.
    */
   async getSession(sessionId: string): Promise<EnhancedSessionManager | undefined> {
     try {
       // Check active sessions first
       let session = this.activeSessions.get(sessionId)
-      
-      if (session) {
-        // Update last activity
-        this.updateSessionActivity(sessionId)
-        return session
-      }
 
       // Try to recover from persistence
       if (this.config.persistenceEnabled) {
-        session = await this.recoverSession(sessionId)
-        
-        if (session) {
+        session = await this.recoverSession(sessionId, session)
+      }
+
+      if (session) {
+        if (!this.activeSessions.has(sessionId)) {
           this.activeSessions.set(sessionId, session)
-          this.updateSessionActivity(sessionId)
-          return session
+          this.initializeSessionMetrics(sessionId, session.getStartTime())
         }
+
+        // Update last activity
+        this.updateSessionActivity(sessionId)
+        return session
       }
 
       return undefined
@@ -300,6 +290,8 @@ export class SessionManagementSystem {
         console.error('Error in cleanup process:', error)
       }
     }, this.config.cleanupInterval)
+    // Housekeeping only; it should not keep the process alive on its own
+    this.cleanupInterval.unref?.()
   }
 
   /**
@@ -322,6 +314,7 @@ export class SessionManagementSystem {
         console.error('Error in monitoring process:', error)
       }
     }, this.config.monitoringInterval)
+    this.monitoringInterval.unref?.()
   }
 
   /**
@@ -353,6 +346,24 @@ export class SessionManagementSystem {
   }
 
   // Helper methods
+  private initializeSessionMetrics(sessionId: string, created: Date): void {
+    this.sessionMetrics.set(sessionId, {
+      sessionId,
+      created,
+      lastActivity: new Date(),
+      requestCount: 0,
+      dataSize: 0,
+      errors: 0,
+      warnings: 0,
+      performance: {
+        averageResponseTime: 0,
+        totalRequests: 0,
+        cacheHits: 0,
+        cacheMisses: 0
+      }
+    })
+  }
+
   private updateSessionActivity(sessionId: string): void {
     const metrics = this.sessionMetrics.get(sessionId)
     if (metrics) {
@@ -447,22 +458,50 @@ export class SessionManagementSystem {
     return warnings
   }
 
-  // Persistence methods (placeholder implementations)
+  // Persistence methods
   private async persistSessionCreation(session: EnhancedSessionManager): Promise<void> {
-    // Implementation for persisting session creation
+    await session.saveState()
   }
 
   private async persistSessionDeletion(sessionId: string): Promise<void> {
-    // Implementation for persisting session deletion
+    await this.persistence.delete(sessionId)
   }
 
-  private async recoverSession(sessionId: string): Promise<EnhancedSessionManager | undefined> {
-    // Implementation for session recovery from persistence
-    return undefined
+  private async recoverSession(
+    sessionId: string,
+    cached?: EnhancedSessionManager
+  ): Promise<EnhancedSessionManager | undefined> {
+    const snapshot = await this.persistence.load(sessionId)
+    if (!snapshot) {
+      // Deleted or expired elsewhere, unless this session never persists
+      if (cached?.isPersistent()) {
+        this.activeSessions.delete(sessionId)
+        this.sessionMetrics.delete(sessionId)
+        return undefined
+      }
+      return cached
+    }
+
+    if (cached && cached.getRevision() >= snapshot.revision) {
+      return cached
+    }
+
+    const session = cached || new EnhancedSessionManager(sessionId, snapshot.configuration, this.persistence)
+    session.restore(snapshot)
+
+    if (session.isExpired()) {
+      await this.persistence.delete(sessionId)
+      return undefined
+    }
+
+    return session
   }
 
   private async persistAllSessions(): Promise<void> {
-    // Implementation for persisting all active sessions
+    // A session another instance saved more recently keeps that copy
+    await Promise.allSettled(
+      Array.from(this.activeSessions.values()).map(session => session.saveState())
+    )
   }
 
   private lastCleanupTime: Date | null = null
@@ -471,20 +510,23 @@ export class SessionManagementSystem {
 /**
  * Enhanced Session Manager with additional features
  */
-class EnhancedSessionManager implements SessionManager {
+export class EnhancedSessionManager implements SessionManager {
   sessionId: string
   profile?: UserProfile
   activeAgent?: SpecializedAgent
   
   private configuration: any
+  private persistence: SessionPersistence
   private startTime: Date
   private lastActivity: Date
+  private revision: number = 0
   private sessionData: Record<string, any> = {}
   private metadata: Record<string, any> = {}
 
-  constructor(sessionId: string, config: any) {
+  constructor(sessionId: string, config: any, persistence: SessionPersistence) {
     this.sessionId = sessionId
     this.configuration = config
+    this.persistence = persistence
     this.startTime = new Date()
     this.lastActivity = new Date()
   }
@@ -519,17 +561,54 @@ class EnhancedSessionManager implements SessionManager {
     }
   }
 
-  async updateMetadata(metadata: Record<string, any>): Promise<void> {
-    Object.assign(this.metadata, metadata)
+  /**
+   * Metadata together with the revision it was saved or restored at, for a
+   * later conditional updateMetadata
+   */
+  readMetadata(): { metadata: Record<string, any>; revision: number } {
+    return { metadata: this.metadata, revision: this.revision }
+  }
+
+  /**
+   * Merge into the session metadata and save. With `expectedRevision` the
+   * save only succeeds if the stored session is still at that revision. A
+   * failed save, including a SessionConflictError when another instance
+   * saved first, is rethrown and leaves the metadata as it was.
+   */
+  async updateMetadata(metadata: Record<string, any>, expectedRevision?: number): Promise<void> {
+    const previous = this.metadata
+    this.metadata = { ...this.metadata, ...metadata }
     this.lastActivity = new Date()
+
+    if (this.configuration.autoSave) {
+      try {
+        await this.saveState(expectedRevision)
+      } catch (error) {
+        this.metadata = previous
+        throw error
+      }
+    }
   }
 
-  async saveState(): Promise<void> {
+  /**
+   * Save a snapshot, provided the stored session is still at
+   * `expectedRevision` (by default the revision this copy was saved or
+   * restored at). Failures are rethrown to the caller.
+   */
+  async saveState(expectedRevision: number = this.revision): Promise<void> {
     try {
-      // Implementation for saving session state
       this.lastActivity = new Date()
+
+      if (this.configuration.persistenceEnabled) {
+        await this.persistence.save({ ...this.toSnapshot(), revision: expectedRevision + 1 }, {
+          compress: !!this.configuration.compressionEnabled,
+          expectedRevision
+        })
+        this.revision = expectedRevision + 1
+      }
     } catch (error) {
       console.error('Error saving session state:', error)
+      throw error
     }
   }
 
@@ -576,7 +655,50 @@ class EnhancedSessionManager implements SessionManager {
 
   async extend(duration: number): Promise<void> {
     this.configuration.maxDuration = (this.configuration.maxDuration || 0) + duration
-    this.lastActivity = new Date()
+    await this.saveState()
+  }
+
+  isPersistent(): boolean {
+    return !!this.configuration.persistenceEnabled
+  }
+
+  getStartTime(): Date {
+    return this.startTime
+  }
+
+  getLastActivity(): Date {
+    return this.lastActivity
+  }
+
+  // Revision of the last snapshot this copy saved or restored
+  getRevision(): number {
+    return this.revision
+  }
+
+  /**
+   * Replace in-memory state with a persisted snapshot
+   */
+  restore(snapshot: PersistedSession): void {
+    this.profile = snapshot.profile
+    this.activeAgent = snapshot.activeAgent
+    this.metadata = snapshot.metadata
+    this.configuration = snapshot.configuration
+    this.startTime = snapshot.startTime
+    this.lastActivity = snapshot.lastActivity
+    this.revision = snapshot.revision
+  }
+
+  private toSnapshot(): PersistedSession {
+    return {
+      sessionId: this.sessionId,
+      profile: this.profile,
+      activeAgent: this.activeAgent,
+      metadata: this.metadata,
+      configuration: this.configuration,
+      startTime: this.startTime,
+      lastActivity: this.lastActivity,
+      revision: this.revision
+    }
   }
 }
 
@@ -0,0 +1,174 @@
+import { gzipSync, gunzipSync } from 'zlib'
+import { UserProfile, SpecializedAgent } from '@/lib/types/agent-types'
+import { redis, MemoryRedis, RedisKeyValue, SET_IF_REVISION_SCRIPT } from '@/lib/redis/client'
+import { redisConfig, storageConfig } from '@/lib/config/environment'
+
+// SessionStore and SessionManagementSystem save different snapshot shapes,
+// so each keeps its own key space and one never rehydrates the other's record
+export const SESSION_KEY_PREFIX = 'session:'
+export const MANAGED_SESSION_KEY_PREFIX = 'managed-session:'
+const DATE_TAG = '__date'
+const MAP_TAG = '__map'
+
+// Thrown when a conditional save finds another revision stored
+export class SessionConflictError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message)
+    this.name = 'SessionConflictError'
+  }
+}
+
+/**
+ * Session Persistence
+ *
+ * Stores session snapshots in Redis (or the in-process MemoryRedis stand-in,
+ * see SESSION_STORE) so any instance can rehydrate a session. Each save
+ * refreshes the REDIS_SESSION_TTL expiry. Dates and Maps nested in profiles
+ * and agents are tagged so they survive the round trip; snapshots can
+ * optionally be gzip-compressed.
+ *
+ * Every snapshot carries a revision that its session bumps on each save, so
+ * instances decide which copy is newer without comparing their clocks. A
+ * save can require the stored revision to be the one its session loaded,
+ * which Redis checks and writes atomically.
+ */
+export class SessionPersistence {
+  constructor(
+    private readonly client: RedisKeyValue = storageConfig.session === 'redis' ? redis : new MemoryRedis(),
+    private readonly ttlSeconds: number = redisConfig.ttl.session,
+    private readonly keyPrefix: string = SESSION_KEY_PREFIX
+  ) {}
+
+  /**
+   * Save a session snapshot, replacing any previous one. With
+   * `expectedRevision` the snapshot is only written if the stored revision
+   * still matches (0 when nothing is stored); otherwise a
+   * SessionConflictError is thrown and nothing is written.
+   */
+  async save(
+    snapshot: PersistedSession,
+    options: { compress?: boolean; expectedRevision?: number } = {}
+  ): Promise<void> {
+    const key = this.key(snapshot.sessionId)
+    const envelope = this.encode(snapshot, !!options.compress)
+
+    try {
+      if (options.expectedRevision === undefined) {
+        await this.client.set(key, envelope, { ex: this.ttlSeconds })
+        return
+      }
+
+      const written = await this.client.eval(
+        SET_IF_REVISION_SCRIPT,
+        [key],
+        [options.expectedRevision, JSON.stringify(envelope), this.ttlSeconds]
+      )
+      if (Number(written) !== 1) {
+        throw new SessionConflictError(
+          `Session ${snapshot.sessionId} changed since revision ${options.expectedRevision}`,
+          409
+        )
+      }
+    } catch (error) {
+      if (error instanceof SessionConflictError) throw error
+      console.error('Error persisting session:', error)
+      throw new Error(`Failed to persist session: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Load a session snapshot, or null if it never existed or has expired
+   */
+  async load(sessionId: string): Promise<PersistedSession | null> {
+    try {
+      const envelope = await this.client.get<SessionEnvelope>(this.key(sessionId))
+      return envelope ? this.decode(envelope) : null
+    } catch (error) {
+      console.error('Error loading persisted session:', error)
+      throw new Error(`Failed to load session: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Remove a session snapshot
+   */
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await this.client.del(this.key(sessionId))
+    } catch (error) {
+      console.error('Error deleting persisted session:', error)
+      throw new Error(`Failed to delete session: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Health check for the service
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const key = this.key('__health__')
+      await this.client.set(key, { ok: true }, { ex: 10 })
+      return (await this.client.get<{ ok: boolean }>(key))?.ok === true
+    } catch {
+      return false
+    }
+  }
+
+  private encode(snapshot: PersistedSession, compress: boolean): SessionEnvelope {
+    const json = JSON.stringify(snapshot, function (this: any, key: string, value: any) {
+      // `value` has already been through Date#toJSON; inspect the original
+      const original = this[key]
+      if (original instanceof Date) return { [DATE_TAG]: original.toISOString() }
+      if (original instanceof Map) return { [MAP_TAG]: Array.from(original.entries()) }
+      return value
+    })
+
+    // The revision stays readable without decoding, for conditional saves
+    return compress
+      ? { encoding: 'gzip', revision: snapshot.revision, data: gzipSync(json).toString('base64') }
+      : { encoding: 'json', revision: snapshot.revision, data: JSON.parse(json) }
+  }
+
+  private decode(envelope: SessionEnvelope): PersistedSession {
+    const json = envelope.encoding === 'gzip'
+      ? gunzipSync(Buffer.from(envelope.data as string, 'base64')).toString('utf8')
+      : JSON.stringify(envelope.data)
+
+    const snapshot: PersistedSession = JSON.parse(json, (_key, value) => {
+      if (value && typeof value === 'object') {
+        if (DATE_TAG in value) return new Date(value[DATE_TAG])
+        if (MAP_TAG in value) return new Map(value[MAP_TAG])
+      }
+      return value
+    })
+
+    // Snapshots saved before revisions were introduced
+    return { ...snapshot, revision: snapshot.revision || 0 }
+  }
+
+  private key(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`
+  }
+}
+
+// Supporting interfaces
+export interface PersistedSession {
+  sessionId: string
+  profile?: UserProfile
+  activeAgent?: SpecializedAgent
+  metadata: Record<string, any>
+  configuration: Record<string, any>
+  startTime: Date
+  lastActivity: Date
+  revision: number  // increases by one with every save of the session
+}
+
+interface SessionEnvelope {
+  encoding: 'json' | 'gzip'
+  revision: number
+  data: unknown
+}
+
+// Export singleton instances: one for SessionStore, one for SessionManagementSystem
+export const sessionPersistence = new SessionPersistence()
+export const managedSessionPersistence = new SessionPersistence(undefined, undefined, MANAGED_SESSION_KEY_PREFIX)
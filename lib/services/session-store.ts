@@ -1,14 +1,19 @@
 import { SessionManager, SessionConfiguration, SessionContext, SessionState, UserProfile, SpecializedAgent } from '@/lib/types/agent-types'
 import { nanoid } from 'nanoid'
+import { SessionPersistence, PersistedSession, sessionPersistence } from './session-persistence'
 
 /**
  * Session Store Service
  * 
- * Manages session data, lifecycle, and persistence
+ * Manages session data, lifecycle, and persistence. Sessions are cached per
+ * instance and persisted through SessionPersistence, so a session created on
+ * one instance can be picked up by another.
  */
 export class SessionStore {
   private sessions: Map<string, SessionManagerImpl> = new Map()
 
+  constructor(private readonly persistence: SessionPersistence = sessionPersistence) {}
+
   /**
    * Create a new session
    */
@@ -16,8 +21,9 @@ export class SessionStore {
     const { sessionId, masterAgent, configuration } = config
 
     try {
-      const sessionManager = new SessionManagerImpl(sessionId, masterAgent, configuration)
+      const sessionManager = new SessionManagerImpl(sessionId, masterAgent, configuration, this.persistence)
       this.sessions.set(sessionId, sessionManager)
+      await sessionManager.saveState()
       
       return sessionManager
     } catch (error) {
@@ -27,10 +33,34 @@ export class SessionStore {
   }
 
   /**
-   * Get existing session
+   * Get existing session, rehydrating it from persistence when this instance
+   * has no copy or another instance has saved a newer revision. A session
+   * that is no longer persisted (deleted elsewhere or expired) is dropped
+   * here too.
    */
   async getSession(sessionId: string): Promise<SessionManager | null> {
-    return this.sessions.get(sessionId) || null
+    const cached = this.sessions.get(sessionId)
+
+    try {
+      const snapshot = await this.persistence.load(sessionId)
+      if (!snapshot) {
+        this.sessions.delete(sessionId)
+        return null
+      }
+
+      if (cached && cached.getRevision() >= snapshot.revision) {
+        return cached
+      }
+
+      const session = cached || new SessionManagerImpl(sessionId, null, snapshot.configuration, this.persistence)
+      session.restore(snapshot)
+      this.sessions.set(sessionId, session)
+
+      return session
+    } catch (error) {
+      console.error('Error rehydrating session:', error)
+      return cached || null
+    }
   }
 
   /**
@@ -42,6 +72,7 @@ export class SessionStore {
       await session.clearSession()
       this.sessions.delete(sessionId)
     }
+    await this.persistence.delete(sessionId)
   }
 
   /**
@@ -81,14 +112,17 @@ class SessionManagerImpl implements SessionManager {
   
   private masterAgent: any
   private configuration: any
+  private persistence: SessionPersistence
   private startTime: Date
   private lastActivity: Date
+  private revision: number = 0
   private sessionData: Record<string, any> = {}
 
-  constructor(sessionId: string, masterAgent: any, configuration: any) {
+  constructor(sessionId: string, masterAgent: any, configuration: any, persistence: SessionPersistence) {
     this.sessionId = sessionId
     this.masterAgent = masterAgent
     this.configuration = configuration
+    this.persistence = persistence
     this.startTime = new Date()
     this.lastActivity = new Date()
   }
@@ -131,11 +165,15 @@ class SessionManagerImpl implements SessionManager {
    */
   async saveState(): Promise<void> {
     try {
-      // In a real implementation, this would persist to database
-      // For now, we'll just update the in-memory state
       this.lastActivity = new Date()
+      await this.persistence.save({ ...this.toSnapshot(), revision: this.revision + 1 }, {
+        compress: !!this.configuration.compressionEnabled,
+        expectedRevision: this.revision
+      })
+      this.revision++
     } catch (error) {
       console.error('Error saving session state:', error)
+      throw error
     }
   }
 
@@ -185,7 +223,42 @@ class SessionManagerImpl implements SessionManager {
   async extend(duration: number): Promise<void> {
     // Update configuration to extend max duration
     this.configuration.maxDuration = (this.configuration.maxDuration || 0) + duration
-    this.lastActivity = new Date()
+    await this.saveState()
+  }
+
+  getLastActivity(): Date {
+    return this.lastActivity
+  }
+
+  // Revision of the last snapshot this copy saved or restored
+  getRevision(): number {
+    return this.revision
+  }
+
+  /**
+   * Replace in-memory state with a persisted snapshot
+   */
+  restore(snapshot: PersistedSession): void {
+    this.profile = snapshot.profile
+    this.activeAgent = snapshot.activeAgent
+    this.sessionData = snapshot.metadata
+    this.configuration = snapshot.configuration
+    this.startTime = snapshot.startTime
+    this.lastActivity = snapshot.lastActivity
+    this.revision = snapshot.revision
+  }
+
+  private toSnapshot(): PersistedSession {
+    return {
+      sessionId: this.sessionId,
+      profile: this.profile,
+      activeAgent: this.activeAgent,
+      metadata: this.sessionData,
+      configuration: this.configuration,
+      startTime: this.startTime,
+      lastActivity: this.lastActivity,
+      revision: this.revision
+    }
   }
 }
 
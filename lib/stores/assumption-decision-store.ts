@@ -0,0 +1,169 @@
+import type { Assumption } from '@/lib/conversation/assumption-generator'
+import type { AssumptionDecisionAction, ConfidenceLevel, Database, Json } from '@/lib/types/database'
+import { storageConfig } from '@/lib/config/environment'
+
+export type { AssumptionDecisionAction } from '@/lib/types/database'
+
+/**
+ * One entry in an assumption's history. Version 1 is the generated
+ * assumption; every accept, reject or edit appends the next version with
+ * the assumption as it stands after the decision. Rejecting or editing an
+ * assumption appends an `invalidate` version to each assumption that
+ * depends on it, holding the regenerated assumption and the reason.
+ */
+export interface AssumptionDecision {
+  sessionId: string
+  assumptionId: string
+  version: number
+  action: AssumptionDecisionAction
+  assumption: Assumption
+  feedback?: string
+  decidedAt: string
+}
+
+// Appending a version that already exists; another decision got there first
+export class AssumptionVersionConflictError extends Error {
+  constructor(public assumptionId: string, public version: number) {
+    super(`Assumption ${assumptionId} already has a version ${version}`)
+    this.name = 'AssumptionVersionConflictError'
+  }
+}
+
+/**
+ * Assumption Decision Store
+ *
+ * Append-only log of assumption decisions. The current state of an
+ * assumption is its latest entry; earlier entries are its history.
+ */
+export interface AssumptionDecisionStore {
+  append(decision: AssumptionDecision): Promise<void>
+  history(sessionId: string, assumptionId?: string): Promise<AssumptionDecision[]>  // oldest first
+}
+
+/**
+ * In-process store for tests and local development
+ */
+export class MemoryAssumptionDecisionStore implements AssumptionDecisionStore {
+  private decisions: Map<string, AssumptionDecision[]> = new Map()
+
+  async append(decision: AssumptionDecision): Promise<void> {
+    const log = this.decisions.get(decision.sessionId) || []
+    if (log.some(entry => entry.assumptionId === decision.assumptionId && entry.version === decision.version)) {
+      throw new AssumptionVersionConflictError(decision.assumptionId, decision.version)
+    }
+
+    this.decisions.set(decision.sessionId, [...log, JSON.parse(JSON.stringify(decision))])
+  }
+
+  async history(sessionId: string, assumptionId?: string): Promise<AssumptionDecision[]> {
+    return (this.decisions.get(sessionId) || [])
+      .filter(entry => !assumptionId || entry.assumptionId === assumptionId)
+      .map(entry => JSON.parse(JSON.stringify(entry)))
+  }
+}
+
+type AssumptionDecisionRow = Database['public']['Tables']['assumption_decisions']['Row']
+type AssumptionDecisionInsert = Database['public']['Tables']['assumption_decisions']['Insert']
+
+/**
+ * Supabase store. Each decision is a row in `assumption_decisions`
+ * (supabase/migrations/20261019000100_assumption_decisions.sql), and the
+ * assumption's row in `assumptions` is kept in step, including
+ * `user_accepted` and `user_feedback`.
+ */
+export class SupabaseAssumptionDecisionStore implements AssumptionDecisionStore {
+  private static readonly TABLE = 'assumption_decisions'
+
+  async append(decision: AssumptionDecision): Promise<void> {
+    const client = await this.client()
+
+    const row: AssumptionDecisionInsert = {
+      session_id: decision.sessionId,
+      assumption_id: decision.assumptionId,
+      version: decision.version,
+      action: decision.action,
+      assumption: decision.assumption as unknown as Json,
+      feedback: decision.feedback ?? null,
+      decided_at: decision.decidedAt
+    }
+    const { error } = await client
+      .from(SupabaseAssumptionDecisionStore.TABLE)
+      .insert(row)
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation
+        throw new AssumptionVersionConflictError(decision.assumptionId, decision.version)
+      }
+      throw new Error(`Failed to record assumption decision: ${error.message}`)
+    }
+
+    const { assumption } = decision
+    const { error: rowError } = await client
+      .from('assumptions')
+      .upsert({
+        id: assumption.id,
+        session_id: decision.sessionId,
+        assumption_text: `${assumption.title}: ${assumption.description}`,
+        confidence_level: this.confidenceLevel(assumption.confidence),
+        category: assumption.category,
+        reasoning: assumption.reasoning,
+        user_accepted: decision.action === 'generated' || decision.action === 'invalidate' ? null : decision.action !== 'reject',
+        user_feedback: decision.feedback ?? null,
+        updated_at: decision.decidedAt
+      }, { onConflict: 'id' })
+
+    if (rowError) {
+      throw new Error(`Failed to update assumption: ${rowError.message}`)
+    }
+  }
+
+  async history(sessionId: string, assumptionId?: string): Promise<AssumptionDecision[]> {
+    const client = await this.client()
+    let query = client
+      .from(SupabaseAssumptionDecisionStore.TABLE)
+      .select('*')
+      .eq('session_id', sessionId)
+
+    if (assumptionId) {
+      query = query.eq('assumption_id', assumptionId)
+    }
+
+    const { data, error } = await query.order('decided_at', { ascending: true }).order('version', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to read assumption decisions: ${error.message}`)
+    }
+
+    return (data || []).map((row: AssumptionDecisionRow) => ({
+      sessionId: row.session_id,
+      assumptionId: row.assumption_id,
+      version: row.version,
+      action: row.action,
+      assumption: row.assumption as unknown as Assumption,
+      feedback: row.feedback ?? undefined,
+      decidedAt: row.decided_at
+    }))
+  }
+
+  private confidenceLevel(confidence: number): ConfidenceLevel {
+    if (confidence >= 0.9) return 'very_high'
+    if (confidence >= 0.7) return 'high'
+    if (confidence >= 0.4) return 'medium'
+    return 'low'
+  }
+
+  // Loaded on first use so the memory store works without Supabase installed
+  private async client() {
+    const { supabaseAdmin } = await import('@/lib/supabase/client')
+    return supabaseAdmin
+  }
+}
+
+/**
+ * Store selected by ASSUMPTION_STORE
+ */
+export function createAssumptionDecisionStore(
+  kind: typeof storageConfig.assumptions = storageConfig.assumptions
+): AssumptionDecisionStore {
+  return kind === 'supabase' ? new SupabaseAssumptionDecisionStore() : new MemoryAssumptionDecisionStore()
+}
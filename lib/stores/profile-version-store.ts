@@ -0,0 +1,200 @@
+import type { UserProfile } from '@/lib/types/agent-types'
+import type { ProfileCorrection } from '@/lib/profile/profile-correction'
+import type { Database, Json, ProfileVersionAction } from '@/lib/types/database'
+import { storageConfig } from '@/lib/config/environment'
+
+export type { ProfileVersionAction } from '@/lib/types/database'
+
+// The profile fields corrections can change
+export type ProfileSnapshot = Pick<
+  UserProfile,
+  | 'industry'
+  | 'industryConfidence'
+  | 'role'
+  | 'roleConfidence'
+  | 'sophisticationLevel'
+  | 'sophisticationScore'
+  | 'terminology'
+  | 'preferredCommunicationStyle'
+  | 'assumptionTolerance'
+>
+
+/**
+ * One entry in a profile's audit trail. Version 1 is the profile as
+ * detected; every correction, undo or rollback appends the next version
+ * with the field changes it made (from and to values) and the result.
+ */
+export interface ProfileVersion {
+  profileId: string
+  sessionId?: string
+  version: number
+  action: ProfileVersionAction
+  changedBy: string
+  changes: ProfileCorrection[]
+  snapshot: ProfileSnapshot
+  reverts: string[]       // ids of earlier corrections this undo or rollback takes back
+  rollbackTo?: number
+  createdAt: string
+}
+
+// Appending a version that already exists; another change got there first
+export class ProfileVersionConflictError extends Error {
+  constructor(public profileId: string, public version: number) {
+    super(`Profile ${profileId} already has a version ${version}`)
+    this.name = 'ProfileVersionConflictError'
+  }
+}
+
+/**
+ * Profile Version Store
+ *
+ * Append-only log of profile versions. The current state of a profile's
+ * correctable fields is its latest snapshot; earlier entries are its history.
+ */
+export interface ProfileVersionStore {
+  append(version: ProfileVersion): Promise<void>
+  history(profileId: string): Promise<ProfileVersion[]>  // oldest first
+  list(filter?: { sessionId?: string; since?: Date }): Promise<ProfileVersion[]>  // oldest first
+}
+
+/**
+ * In-process store for tests and local development
+ */
+export class MemoryProfileVersionStore implements ProfileVersionStore {
+  private versions: Map<string, ProfileVersion[]> = new Map()
+
+  async append(version: ProfileVersion): Promise<void> {
+    const log = this.versions.get(version.profileId) || []
+    if (log.some(entry => entry.version === version.version)) {
+      throw new ProfileVersionConflictError(version.profileId, version.version)
+    }
+
+    this.versions.set(version.profileId, [...log, JSON.parse(JSON.stringify(version))])
+  }
+
+  async history(profileId: string): Promise<ProfileVersion[]> {
+    return (this.versions.get(profileId) || []).map(revive)
+  }
+
+  async list(filter: { sessionId?: string; since?: Date } = {}): Promise<ProfileVersion[]> {
+    return Array.from(this.versions.values())
+      .flat()
+      .filter(entry => !filter.sessionId || entry.sessionId === filter.sessionId)
+      .filter(entry => !filter.since || new Date(entry.createdAt) >= filter.since)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(revive)
+  }
+}
+
+type ProfileVersionRow = Database['public']['Tables']['profile_versions']['Row']
+type ProfileVersionInsert = Database['public']['Tables']['profile_versions']['Insert']
+
+/**
+ * Supabase store. Each version is a row in `profile_versions`
+ * (supabase/migrations/20261019000200_profile_versions.sql).
+ */
+export class SupabaseProfileVersionStore implements ProfileVersionStore {
+  private static readonly TABLE = 'profile_versions'
+
+  async append(version: ProfileVersion): Promise<void> {
+    const client = await this.client()
+
+    const row: ProfileVersionInsert = {
+      profile_id: version.profileId,
+      session_id: version.sessionId ?? null,
+      version: version.version,
+      action: version.action,
+      changed_by: version.changedBy,
+      changes: version.changes as unknown as Json,
+      snapshot: version.snapshot as unknown as Json,
+      reverts: version.reverts,
+      rollback_to: version.rollbackTo ?? null,
+      created_at: version.createdAt
+    }
+    const { error } = await client
+      .from(SupabaseProfileVersionStore.TABLE)
+      .insert(row)
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation
+        throw new ProfileVersionConflictError(version.profileId, version.version)
+      }
+      throw new Error(`Failed to record profile version: ${error.message}`)
+    }
+  }
+
+  async history(profileId: string): Promise<ProfileVersion[]> {
+    const client = await this.client()
+    const { data, error } = await client
+      .from(SupabaseProfileVersionStore.TABLE)
+      .select('*')
+      .eq('profile_id', profileId)
+      .order('version', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to read profile history: ${error.message}`)
+    }
+
+    return (data || []).map((row: ProfileVersionRow) => this.fromRow(row))
+  }
+
+  async list(filter: { sessionId?: string; since?: Date } = {}): Promise<ProfileVersion[]> {
+    const client = await this.client()
+    let query = client
+      .from(SupabaseProfileVersionStore.TABLE)
+      .select('*')
+
+    if (filter.sessionId) {
+      query = query.eq('session_id', filter.sessionId)
+    }
+    if (filter.since) {
+      query = query.gte('created_at', filter.since.toISOString())
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to read profile versions: ${error.message}`)
+    }
+
+    return (data || []).map((row: ProfileVersionRow) => this.fromRow(row))
+  }
+
+  private fromRow(row: ProfileVersionRow): ProfileVersion {
+    return revive({
+      profileId: row.profile_id,
+      sessionId: row.session_id ?? undefined,
+      version: row.version,
+      action: row.action,
+      changedBy: row.changed_by,
+      changes: (row.changes || []) as unknown as ProfileCorrection[],
+      snapshot: row.snapshot as unknown as ProfileSnapshot,
+      reverts: row.reverts || [],
+      rollbackTo: row.rollback_to ?? undefined,
+      createdAt: new Date(row.created_at).toISOString()
+    })
+  }
+
+  // Loaded on first use so the memory store works without Supabase installed
+  private async client() {
+    const { supabaseAdmin } = await import('@/lib/supabase/client')
+    return supabaseAdmin
+  }
+}
+
+// Correction timestamps come back from JSON as strings
+function revive(version: ProfileVersion): ProfileVersion {
+  return {
+    ...version,
+    changes: version.changes.map(change => ({ ...change, timestamp: new Date(change.timestamp) }))
+  }
+}
+
+/**
+ * Store selected by PROFILE_CORRECTION_STORE
+ */
+export function createProfileVersionStore(
+  kind: typeof storageConfig.profileCorrections = storageConfig.profileCorrections
+): ProfileVersionStore {
+  return kind === 'supabase' ? new SupabaseProfileVersionStore() : new MemoryProfileVersionStore()
+}
@@ -84,6 +84,10 @@ export interface Question {
   required: boolean
   followUpQuestions?: string[]
   skipConditions?: SkipCondition[]
+  dependsOn?: string[]                      // question IDs that must be answered first
+  minSophistication?: SophisticationLevel
+  maxSophistication?: SophisticationLevel
+  dataField?: string                        // collectedData key the answer is stored under
 }
 
 export interface SkipCondition {
@@ -125,12 +129,21 @@ export interface FlowAction {
 }
 
 export interface FlowConfiguration {
-  maxDuration?: number
+  maxDuration?: number          // milliseconds from flow start
   autoAdvance?: boolean
   allowBacktracking?: boolean
   customSettings?: Record<string, any>
 }
 
+// Runtime bookkeeping for a flow being executed in a session
+export interface FlowRuntimeState {
+  startedAt: Date
+  stageEnteredAt: Date
+  visitedStages: string[]
+  completed: boolean
+  expired: boolean
+}
+
 // Specialized Agent Types
 export interface SpecializedAgent {
   id: string
@@ -166,6 +179,8 @@ export interface ConversationState {
   assumptions: Assumption[]
   nextActions: string[]
   confidence: number
+  flowState?: FlowRuntimeState
+  currentQuestionId?: string
 }
 
 export interface AgentResponse {
@@ -177,6 +177,7 @@ export interface ConversationResponse {
     tokens: number
     timestamp: string
     responseLength: number
+    analysisSource?: 'llm' | 'heuristic'
   }
 }
 
@@ -196,6 +197,7 @@ export interface QuestionGenerationResult {
     timestamp: string
     questioningStyle?: string
     styleProfile?: any
+    contradictionId?: string  // set when the question clarifies a contradiction
   }
 }
 
@@ -206,6 +208,7 @@ export interface ConversationExchange {
   generatedQuestion?: QuestionGenerationResult
   timestamp: string
   stage: ConversationStage
+  supersededBy?: string  // label (E#) of a later exchange that contradicted this one
 }
 
 // Complete conversation context
@@ -218,15 +221,49 @@ export interface ConversationContext {
   conversationHistory: ConversationExchange[]
   currentQuestion?: QuestionGenerationResult
   assumptions?: AssumptionSet[]
+  memory?: ConversationMemory
+  contradictions?: Contradiction[]
   metadata?: {
     startedAt: string
     lastUpdated: string
     totalQuestions: number
     escapeCount: number
+    // Set by the adaptive questioning route, see QuestioningStyle
+    currentQuestioningStyle?: string
   }
   lastUpdated: string
 }
 
+// Rolling conversation memory, see lib/conversation/conversation-memory.ts
+export interface MemoryItem {
+  statement: string
+  sources: string[] // exchange labels (E1, E2, ...) by position in the history
+}
+
+export interface ConversationMemory {
+  facts: MemoryItem[]
+  decisions: MemoryItem[]
+  openQuestions: MemoryItem[]
+  entities: Array<{ name: string; mentions: number }>
+  summarizedThrough: number // exchanges folded into the summary so far
+  updatedAt: string
+}
+
+// Conflicting statements found by lib/conversation/consistency-checker.ts.
+// The earlier statement is recorded as superseded by the newer one; the
+// clarification question lets the user say which holds.
+export interface Contradiction {
+  id: string
+  topic: string
+  previous: { source: string; statement: string }  // exchange label (E#) or accepted assumption id
+  current: { source: string; statement: string }   // exchange label (E#)
+  severity: 'low' | 'medium' | 'high'
+  clarificationQuestion: string
+  status: 'open' | 'resolved'
+  resolvedBy?: string  // label of the exchange that answered the clarification
+  detectedAt: string
+}
+
 // Assumption generation
 export interface Assumption {
   id: string
@@ -239,6 +276,7 @@ export interface Assumption {
   dependencies?: string[]
   validatedBy?: 'user' | 'system'
   correctedBy?: string
+  supersededBy?: string  // label (E#) of an exchange that contradicted it
 }
 
 export interface AssumptionSet {
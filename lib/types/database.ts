@@ -16,6 +16,8 @@ export type UserRole = 'technical' | 'business' | 'hybrid' | 'consultant' | 'fou
 export type IndustryType = 'fintech' | 'healthcare' | 'ecommerce' | 'saas' | 'consumer_apps' | 'enterprise_software' | 'general' | 'other'
 export type ConversationStage = 'idea_clarity' | 'user_workflow' | 'technical_specs' | 'wireframes' | 'completed'
 export type ConfidenceLevel = 'low' | 'medium' | 'high' | 'very_high'
+export type AssumptionDecisionAction = 'generated' | 'accept' | 'reject' | 'edit' | 'invalidate'
+export type ProfileVersionAction = 'detected' | 'correct' | 'undo' | 'rollback'
 
 // Database interface (simplified)
 export interface Database {
@@ -306,6 +308,44 @@ export interface Database {
           updated_at?: string
         }
       }
+      profile_versions: {
+        Row: {
+          profile_id: string
+          session_id: string | null
+          version: number
+          action: ProfileVersionAction
+          changed_by: string
+          changes: Json
+          snapshot: Json
+          reverts: string[]
+          rollback_to: number | null
+          created_at: string
+        }
+        Insert: {
+          profile_id: string
+          session_id?: string | null
+          version: number
+          action: ProfileVersionAction
+          changed_by: string
+          changes: Json
+          snapshot: Json
+          reverts?: string[]
+          rollback_to?: number | null
+          created_at: string
+        }
+        Update: {
+          profile_id?: string
+          session_id?: string | null
+          version?: number
+          action?: ProfileVersionAction
+          changed_by?: string
+          changes?: Json
+          snapshot?: Json
+          reverts?: string[]
+          rollback_to?: number | null
+          created_at?: string
+        }
+      }
       model_performance: {
         Row: {
           id: string
@@ -394,6 +434,61 @@ export interface Database {
           variant?: string | null
         }
       }
+      assumption_decisions: {
+        Row: {
+          session_id: string
+          assumption_id: string
+          version: number
+          action: AssumptionDecisionAction
+          assumption: Json
+          feedback: string | null
+          decided_at: string
+        }
+        Insert: {
+          session_id: string
+          assumption_id: string
+          version: number
+          action: AssumptionDecisionAction
+          assumption: Json
+          feedback?: string | null
+          decided_at: string
+        }
+        Update: {
+          session_id?: string
+          assumption_id?: string
+          version?: number
+          action?: AssumptionDecisionAction
+          assumption?: Json
+          feedback?: string | null
+          decided_at?: string
+        }
+      }
+      conversation_states: {
+        Row: {
+          session_id: string
+          user_id: string
+          current_stage: ConversationStage
+          state: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          session_id: string
+          user_id: string
+          current_stage: ConversationStage
+          state: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          session_id?: string
+          user_id?: string
+          current_stage?: ConversationStage
+          state?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,112 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Profile Detection Evaluation
+ *
+ * Runs industry, role and sophistication detection over a labelled JSONL
+ * gold dataset and compares the result with the stored baseline.
+ *
+ *   npm run eval:profile                                  # heuristic mode, checks the baseline
+ *   npm run eval:profile -- --mode full                   # with GPT (needs LLM credentials)
+ *   npm run eval:profile -- --update-baseline             # record current metrics
+ *
+ * Options: [dataset.jsonl] --mode heuristic|full, --baseline file,
+ * --tolerance 0.02, --json report.json, --update-baseline.
+ * Exits 1 when a metric regresses past the tolerance, so CI fails.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { basename } from 'path'
+import {
+  ProfileEvaluator,
+  compareWithBaseline,
+  formatEvaluationReport,
+  parseGoldDataset,
+  updateBaseline,
+  type EvaluationBaseline,
+  type EvaluationMode
+} from '../lib/profile/profile-evaluation'
+
+const DEFAULT_DATASET = 'tests/fixtures/profile-eval/gold-v1.jsonl'
+const DEFAULT_BASELINE = 'tests/fixtures/profile-eval/baseline.json'
+const MODES = ['heuristic', 'full']
+
+interface Options {
+  dataset: string
+  mode: string
+  baseline: string
+  tolerance: number
+  json?: string
+  updateBaseline: boolean
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    dataset: DEFAULT_DATASET,
+    mode: 'heuristic',
+    baseline: DEFAULT_BASELINE,
+    tolerance: 0.02,
+    updateBaseline: false
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--mode') options.mode = argv[++i]
+    else if (arg === '--baseline') options.baseline = argv[++i]
+    else if (arg === '--tolerance') options.tolerance = Number(argv[++i])
+    else if (arg === '--json') options.json = argv[++i]
+    else if (arg === '--update-baseline') options.updateBaseline = true
+    else options.dataset = arg
+  }
+
+  return options
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (!MODES.includes(options.mode) || Number.isNaN(options.tolerance)) {
+    console.error('Usage: evaluate-profile-detection [dataset.jsonl] [--mode heuristic|full] [--baseline file] [--tolerance 0.02] [--json file] [--update-baseline]')
+    process.exit(1)
+  }
+
+  const dataset = parseGoldDataset(readFileSync(options.dataset, 'utf8'), basename(options.dataset))
+  const report = await new ProfileEvaluator().evaluate(dataset, options.mode as EvaluationMode)
+
+  process.stdout.write(formatEvaluationReport(report))
+
+  if (options.json) {
+    writeFileSync(options.json, JSON.stringify(report, null, 2) + '\n')
+  }
+
+  const baseline: EvaluationBaseline | undefined = existsSync(options.baseline)
+    ? JSON.parse(readFileSync(options.baseline, 'utf8'))
+    : undefined
+
+  if (options.updateBaseline) {
+    writeFileSync(options.baseline, JSON.stringify(updateBaseline(report, baseline), null, 2) + '\n')
+    console.error(`\nRecorded ${options.mode} baseline in ${options.baseline}`)
+    return
+  }
+
+  if (!baseline) {
+    console.error(`\nNo baseline at ${options.baseline}; run with --update-baseline to record one`)
+    return
+  }
+
+  const findings = compareWithBaseline(report, baseline, options.tolerance)
+  if (findings.length > 0) {
+    console.error(`\nRegressions against ${options.baseline}:`)
+    findings.forEach(finding => console.error(`- ${finding.message}`))
+    process.exit(1)
+  }
+
+  console.error(`\nNo regressions against ${options.baseline} (tolerance ${options.tolerance})`)
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Evaluation failed:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,86 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Fine-Tuning Dataset Export
+ *
+ * Converts a training data export (JSON or JSONL from
+ * TrainingDataCollector.exportTrainingData) into chat-format fine-tuning
+ * files for the industry, role and sophistication classifiers.
+ *
+ *   npm run export:fine-tuning -- training-data.jsonl --out fine-tuning
+ *
+ * Only high-quality (user verified or corrected) points are used. Writes
+ * <task>.train.jsonl, <task>.validation.jsonl and manifest.json to
+ * <out>/<version>, where the version is a hash of the record files.
+ * Options: --out dir (default fine-tuning), --tasks industry,role,
+ * --validation-ratio 0.2, --max-imbalance 3 (0 disables balancing).
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { TrainingDataCollector } from '../lib/profile/training-data-collector'
+import { EVALUATION_TASKS, type EvaluationTask } from '../lib/profile/profile-evaluation'
+import type { FineTuningExportOptions } from '../lib/profile/fine-tuning-export'
+
+interface Options {
+  input?: string
+  out: string
+  export: Partial<FineTuningExportOptions>
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { out: 'fine-tuning', export: {} }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--out') options.out = argv[++i]
+    else if (arg === '--tasks') options.export.tasks = argv[++i].split(',') as EvaluationTask[]
+    else if (arg === '--validation-ratio') options.export.validationRatio = Number(argv[++i])
+    else if (arg === '--max-imbalance') options.export.maxClassImbalance = Number(argv[++i])
+    else if (!options.input) options.input = arg
+  }
+
+  return options
+}
+
+function isValid(options: Options): boolean {
+  const { tasks, validationRatio, maxClassImbalance } = options.export
+  return Boolean(options.input) &&
+    (!tasks || tasks.every(task => EVALUATION_TASKS.includes(task))) &&
+    (validationRatio === undefined || (validationRatio >= 0 && validationRatio < 1)) &&
+    (maxClassImbalance === undefined || maxClassImbalance >= 0)
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (!isValid(options)) {
+    console.error('Usage: export-fine-tuning-dataset <training-data.jsonl|-> [--out dir] [--tasks industry,role,sophistication] [--validation-ratio 0.2] [--max-imbalance 3]')
+    process.exit(1)
+  }
+
+  const collector = new TrainingDataCollector()
+  const loaded = collector.importTrainingData(readFileSync(options.input === '-' ? 0 : options.input!, 'utf8'))
+  const { manifest, files } = collector.exportFineTuningDataset(options.export)
+
+  const dir = join(options.out, manifest.version)
+  mkdirSync(dir, { recursive: true })
+  Object.entries(files).forEach(([name, content]) => {
+    writeFileSync(join(dir, name), content ? content + '\n' : '')
+  })
+  writeFileSync(join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n')
+
+  console.error(`Loaded ${loaded} data points; wrote dataset ${manifest.version} to ${dir}`)
+  Object.entries(manifest.tasks).forEach(([task, stats]) => {
+    console.error(`- ${task}: ${stats!.records.train} train, ${stats!.records.validation} validation` +
+      ` (${stats!.duplicatesRemoved} duplicates, ${stats!.droppedForBalance} dropped for balance)`)
+  })
+}
+
+try {
+  main()
+  process.exit(0)
+} catch (error) {
+  console.error('Export failed:', error)
+  process.exit(1)
+}
@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Assumption Risk Register Export
+ *
+ * Turns a saved AssumptionSet into a prioritized risk register.
+ *
+ *   npm run export:risks -- assumptions.json --format csv --out risks.csv
+ *
+ * The input may be an AssumptionSet or an API response containing one
+ * (`assumptionSet` or `pivotResult.assumptionSet`); use "-" to read stdin.
+ * Options: --format markdown|csv|json (default markdown), --title, --out.
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { RiskRegisterExporter } from '../lib/conversation/risk-register'
+import type { AssumptionSet } from '../lib/conversation/assumption-generator'
+
+const FORMATS = ['markdown', 'csv', 'json']
+
+function parseArgs(argv: string[]): { input?: string; format: string; title?: string; out?: string } {
+  const options: { input?: string; format: string; title?: string; out?: string } = { format: 'markdown' }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--format') options.format = argv[++i]
+    else if (arg === '--title') options.title = argv[++i]
+    else if (arg === '--out') options.out = argv[++i]
+    else if (!options.input) options.input = arg
+  }
+
+  return options
+}
+
+function findAssumptionSet(data: any): AssumptionSet | undefined {
+  if (Array.isArray(data?.assumptions)) return data
+  return [data?.assumptionSet, data?.pivotResult?.assumptionSet].find(candidate => Array.isArray(candidate?.assumptions))
+}
+
+function main() {
+  const { input, format, title, out } = parseArgs(process.argv.slice(2))
+
+  if (!input || !FORMATS.includes(format)) {
+    console.error('Usage: export-risk-register <assumptions.json | -> [--format markdown|csv|json] [--title "..."] [--out file]')
+    process.exit(1)
+  }
+
+  const raw = readFileSync(input === '-' ? 0 : input, 'utf8')
+  const assumptionSet = findAssumptionSet(JSON.parse(raw))
+
+  if (!assumptionSet || assumptionSet.assumptions.length === 0) {
+    console.error(`No assumptions found in ${input === '-' ? 'stdin' : input}`)
+    process.exit(1)
+  }
+
+  const exporter = new RiskRegisterExporter()
+  const register = exporter.build(assumptionSet, title)
+  const output = format === 'csv'
+    ? exporter.toCSV(register)
+    : format === 'json'
+      ? exporter.toJSON(register)
+      : exporter.toMarkdown(register)
+
+  if (out) {
+    writeFileSync(out, output)
+    console.error(`Wrote ${register.entries.length} risks (${register.summary.high} high priority) to ${out}`)
+  } else {
+    process.stdout.write(output)
+  }
+}
+
+main()
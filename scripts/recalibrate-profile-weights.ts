@@ -0,0 +1,145 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Profile Keyword Recalibration
+ *
+ * Learns keyword weights and confidence calibration for the heuristic
+ * industry and role detectors from a training data export (JSON or JSONL
+ * from TrainingDataCollector.exportTrainingData) and publishes them as the
+ * next weights version.
+ *
+ *   npm run recalibrate:profile -- training-data.jsonl            # learn, publish and activate
+ *   npm run recalibrate:profile -- training-data.jsonl --dry-run  # report only
+ *   npm run recalibrate:profile -- --status
+ *   npm run recalibrate:profile -- --pin [version]                # keep a version active
+ *   npm run recalibrate:profile -- --unpin
+ *   npm run recalibrate:profile -- --rollback [version]           # previous version by default; pins it
+ *
+ * Options: --dir (default PROFILE_WEIGHTS_DIR), --min-support 3, --force.
+ * A version whose accuracy on the training data is below the active
+ * version's is published but not activated unless --force is given. The
+ * common misclassifications from the correction history
+ * (PROFILE_CORRECTION_STORE) weight the examples they cover.
+ * Running servers pick up a new active version when they restart.
+ */
+
+import { readFileSync } from 'fs'
+import { TrainingDataCollector } from '../lib/profile/training-data-collector'
+import { KeywordRecalibrator } from '../lib/profile/keyword-recalibration'
+import { KeywordWeights, KeywordWeightsError, KeywordWeightsRegistry, type WeightsManifest } from '../lib/profile/keyword-weights'
+import { profileCorrectionManager } from '../lib/profile/profile-correction'
+
+type Command = 'recalibrate' | 'status' | 'pin' | 'unpin' | 'rollback'
+
+interface Options {
+  command: Command
+  input?: string
+  version?: number
+  dir?: string
+  minSupport?: number
+  dryRun: boolean
+  force: boolean
+}
+
+const MISCLASSIFICATION_WINDOW_DAYS = 90
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { command: 'recalibrate', dryRun: false, force: false }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--status' || arg === '--unpin') options.command = arg.slice(2) as Command
+    else if (arg === '--pin' || arg === '--rollback') {
+      options.command = arg.slice(2) as Command
+      if (argv[i + 1] && !argv[i + 1].startsWith('--')) options.version = Number(argv[++i])
+    }
+    else if (arg === '--dir') options.dir = argv[++i]
+    else if (arg === '--min-support') options.minSupport = Number(argv[++i])
+    else if (arg === '--dry-run') options.dryRun = true
+    else if (arg === '--force') options.force = true
+    else if (!options.input) options.input = arg
+  }
+
+  return options
+}
+
+function isValid(options: Options): boolean {
+  return (options.command !== 'recalibrate' || Boolean(options.input)) &&
+    (options.version === undefined || Number.isInteger(options.version)) &&
+    (options.minSupport === undefined || (Number.isInteger(options.minSupport) && options.minSupport > 0))
+}
+
+function printManifest(manifest: WeightsManifest) {
+  console.error(`Active version: ${manifest.active ?? 'none (default weights)'}${manifest.pinned ? ' (pinned)' : ''}`)
+  manifest.versions.forEach(entry => {
+    console.error(`- v${entry.version} ${entry.createdAt}, ${entry.examples} examples${entry.version === manifest.active ? ' *' : ''}`)
+  })
+}
+
+async function recalibrate(options: Options, registry: KeywordWeightsRegistry) {
+  const collector = new TrainingDataCollector()
+  const loaded = collector.importTrainingData(readFileSync(options.input === '-' ? 0 : options.input!, 'utf8'))
+
+  const insights = await profileCorrectionManager.getLearningInsights({ windowDays: MISCLASSIFICATION_WINDOW_DAYS, windows: 1 })
+
+  // Compare with the registry's active version, not whatever the process loaded
+  const active = new KeywordWeights(registry.load())
+  const recalibrator = new KeywordRecalibrator(active)
+  const { weights, changes } = collector.recalibrateKeywordWeights({
+    ...(options.minSupport !== undefined ? { minSupport: options.minSupport } : {}),
+    misclassifications: insights.commonMisclassifications
+  }, recalibrator)
+
+  console.error(`Loaded ${loaded} data points; ${weights.trainedOn.examples} high-quality examples`)
+  Object.entries(weights.metrics).forEach(([task, metrics]) => {
+    console.error(`- ${task}: ${metrics.examples} examples, accuracy ${metrics.accuracyBefore} -> ${metrics.accuracyAfter}`)
+    changes[task as keyof typeof changes].forEach(change => {
+      console.error(`    ${change.label} "${change.indicator}": ${change.weight} (${change.matches} matches)`)
+    })
+  })
+
+  if (options.dryRun) return
+
+  const regressed = Object.values(weights.metrics).some(metrics => metrics.accuracyAfter < metrics.accuracyBefore)
+  const { file, activated } = registry.publish(weights, { activate: options.force || !regressed })
+
+  console.error(`Published weights v${file.version}; ${activated
+    ? 'now active'
+    : regressed && !options.force ? `not activated: accuracy dropped (use --force, or --pin ${file.version} to activate it)` : 'not activated: the active version is pinned'}`)
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+
+  if (!isValid(options)) {
+    console.error('Usage: recalibrate-profile-weights <training-data.jsonl|-> [--dry-run] [--force] [--min-support 3] [--dir dir]')
+    console.error('       recalibrate-profile-weights --status | --pin [version] | --unpin | --rollback [version]')
+    process.exit(1)
+  }
+
+  const registry = new KeywordWeightsRegistry(options.dir)
+
+  switch (options.command) {
+    case 'status':
+      printManifest(registry.getManifest())
+      break
+    case 'pin':
+      printManifest(registry.pin(options.version))
+      break
+    case 'unpin':
+      printManifest(registry.unpin())
+      break
+    case 'rollback':
+      printManifest(registry.rollback(options.version))
+      break
+    default:
+      await recalibrate(options, registry)
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Recalibration failed:', error instanceof KeywordWeightsError ? error.message : error)
+    process.exit(1)
+  })
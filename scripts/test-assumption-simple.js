@@ -95,7 +95,13 @@ const originalRequire = Module.prototype.require
 
 Module.prototype.require = function(id) {
   if (id === '../lib/openai/client') {
-    return { openai: mockOpenAI }
+    return {
+      openai: mockOpenAI,
+      openaiService: {
+        createCompletionWithFallback: async ({ messages, options }) =>
+          mockOpenAI.chat.completions.create({ messages, ...options })
+      }
+    }
   }
   if (id === '../lib/config/environment') {
     return {
@@ -95,7 +95,13 @@ const originalRequire = Module.prototype.require
 
 Module.prototype.require = function(id: string) {
   if (id === '../lib/openai/client') {
-    return { openai: mockOpenAI }
+    return {
+      openai: mockOpenAI,
+      openaiService: {
+        createCompletionWithFallback: async ({ messages, options }: any) =>
+          mockOpenAI.chat.completions.create({ messages, ...options })
+      }
+    }
   }
   if (id === '../lib/config/environment') {
     return {
@@ -0,0 +1,13 @@
+-- Conversation state for CONVERSATION_STATE_STORE=supabase
+-- (SupabaseConversationStateStore in lib/conversation/state-storage.ts)
+
+create table if not exists conversation_states (
+  session_id text primary key,
+  user_id text not null,
+  current_stage text not null,
+  state jsonb not null,
+  created_at timestamptz not null,
+  updated_at timestamptz not null
+);
+
+create index if not exists conversation_states_created_at_idx on conversation_states (created_at);
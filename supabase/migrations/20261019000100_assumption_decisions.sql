@@ -0,0 +1,17 @@
+-- Assumption decision history for ASSUMPTION_STORE=supabase
+-- (SupabaseAssumptionDecisionStore in lib/stores/assumption-decision-store.ts).
+-- Append-only: the primary key turns a concurrent write of the same
+-- version into a unique violation, which the store reports as a conflict.
+
+create table if not exists assumption_decisions (
+  session_id text not null,
+  assumption_id text not null,
+  version integer not null,
+  action text not null check (action in ('generated', 'accept', 'reject', 'edit', 'invalidate')),
+  assumption jsonb not null,
+  feedback text,
+  decided_at timestamptz not null,
+  primary key (assumption_id, version)
+);
+
+create index if not exists assumption_decisions_session_idx on assumption_decisions (session_id);
@@ -0,0 +1,21 @@
+-- Profile correction history for PROFILE_CORRECTION_STORE=supabase
+-- (SupabaseProfileVersionStore in lib/stores/profile-version-store.ts).
+-- Append-only: the primary key turns a concurrent write of the same
+-- version into a unique violation, which the store reports as a conflict.
+
+create table if not exists profile_versions (
+  profile_id text not null,
+  session_id text,
+  version integer not null,
+  action text not null check (action in ('detected', 'correct', 'undo', 'rollback')),
+  changed_by text not null,
+  changes jsonb not null,
+  snapshot jsonb not null,
+  reverts text[] not null default '{}',
+  rollback_to integer,
+  created_at timestamptz not null,
+  primary key (profile_id, version)
+);
+
+create index if not exists profile_versions_session_idx on profile_versions (session_id);
+create index if not exists profile_versions_created_at_idx on profile_versions (created_at);
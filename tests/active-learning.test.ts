@@ -0,0 +1,102 @@
+/**
+ * @jest-environment node
+ */
+import type { ProfileDetectionResult } from '@/lib/profile/profile-detector'
+import { ActiveLearningQueue } from '@/lib/profile/active-learning'
+import { TrainingDataCollector } from '@/lib/profile/training-data-collector'
+import { Industry } from '@/lib/profile/industry-classifier'
+import { UserRole } from '@/lib/profile/role-detector'
+import { SophisticationLevel } from '@/lib/profile/sophistication-scorer'
+
+const labels = { industry: Industry.SAAS, role: UserRole.BUSINESS, sophisticationLevel: SophisticationLevel.MEDIUM }
+
+function detection(
+  confidences: { industry?: number; role?: number; sophistication?: number },
+  extra: { alternative?: number; disagree?: boolean; uncertain?: boolean } = {}
+): ProfileDetectionResult {
+  const industry = confidences.industry ?? 0.9
+  return {
+    confidence: 0.8,
+    analysis: {
+      industry: {
+        industry: Industry.SAAS,
+        confidence: industry,
+        reasoning: '',
+        keywords: ['subscription'],
+        alternativeIndustries: extra.alternative === undefined
+          ? []
+          : [{ industry: Industry.FINTECH, confidence: extra.alternative, reasoning: '' }],
+        methodDisagreement: extra.disagree
+          ? { keyword: Industry.FINTECH, keywordConfidence: 0.6, gpt: Industry.SAAS, gptConfidence: industry }
+          : undefined,
+      },
+      role: { role: UserRole.BUSINESS, confidence: confidences.role ?? 0.9, reasoning: '', alternativeRoles: [] },
+      sophistication: { level: SophisticationLevel.MEDIUM, confidence: confidences.sophistication ?? 0.9 },
+    },
+    uncertainties: extra.uncertain === false ? [] : ['Low confidence'],
+  } as unknown as ProfileDetectionResult
+}
+
+describe('active learning queue', () => {
+  const queue = (config = {}) => new ActiveLearningQueue(config, new TrainingDataCollector())
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('scores confidence, margin and disagreement, and queues anonymised inputs once', () => {
+    const learning = queue()
+
+    // Confident detections, or barely uncertain ones, are not worth a label
+    expect(learning.consider('A billing tool', detection({}, { uncertain: false }))).toBeNull()
+    expect(learning.consider('A billing tool', detection({ sophistication: 0.7 }))).toBeNull()
+
+    const weak = learning.consider('Ask jane@acme.io or call 555-123-4567 about billing', detection({ sophistication: 0.4 }))!
+    expect(weak).toMatchObject({ input: 'Ask [EMAIL] or call [PHONE] about billing', informativeness: 0.3 })
+    expect(weak.reasons).toEqual(['Lowest confidence: sophistication 40%'])
+
+    const contested = learning.consider('Invoices for freelancers', detection({ industry: 0.5 }, { alternative: 0.45, disagree: true }))!
+    expect(contested.informativeness).toBe(0.74)
+    expect(contested.reasons).toEqual([
+      'Lowest confidence: industry 50%',
+      'Close alternative: fintech within 5 points',
+      'Keyword analysis says fintech, GPT says saas',
+    ])
+    expect(learning.getPending().map(item => item.id)).toEqual([contested.id, weak.id])
+
+    // The same input again only replaces the pending item when it is more informative
+    expect(learning.consider('  INVOICES for freelancers ', detection({ industry: 0.6 }))).toBeNull()
+    const sharper = learning.consider('ASK jane@acme.io or call 555-123-4567 about billing', detection({ sophistication: 0.2 }))!
+    expect(sharper.informativeness).toBe(0.4)
+    expect(learning.getItem(weak.id)).toBeUndefined()
+    expect(learning.getStats()).toMatchObject({ pending: 2, labelled: 0, skipped: 0 })
+  })
+
+  test('drops the least informative pending items and expires resolved ones', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T00:00:00.000Z') })
+    const learning = queue({ maxPending: 2, maxResolved: 1, resolvedRetentionDays: 30 })
+
+    const low = learning.consider('first idea', detection({ sophistication: 0.5 }))!
+    const mid = learning.consider('second idea', detection({ sophistication: 0.3 }))!
+    const high = learning.consider('third idea', detection({ sophistication: 0.1 }))!
+    expect(learning.getItem(low.id)).toBeUndefined()
+    expect(learning.consider('fourth idea', detection({ sophistication: 0.6 }))).toBeNull()
+
+    await learning.annotate(high.id, labels, 'annotator-1')
+    expect(learning.consider('third idea', detection({ sophistication: 0 }))).toBeNull()
+    expect(learning.getStats()).toMatchObject({ pending: 1, labelled: 1, detectorAgreement: { industry: 1, role: 1, sophistication: 1 } })
+
+    // Only the newest resolved item is kept
+    jest.setSystemTime(new Date('2026-10-02T00:00:00.000Z'))
+    learning.skip(mid.id, 'Not a product idea')
+    expect(learning.getItem(high.id)).toBeUndefined()
+    expect(learning.getStats()).toMatchObject({ pending: 0, labelled: 0, skipped: 1 })
+
+    // Past the retention period the input can be queued again
+    jest.setSystemTime(new Date('2026-11-02T00:00:00.000Z'))
+    const again = learning.consider('second idea', detection({ sophistication: 0.3 }))!
+    expect(learning.getItem(mid.id)).toBeUndefined()
+    expect(learning.getStats()).toMatchObject({ pending: 1, skipped: 0 })
+    expect(again.status).toBe('pending')
+  })
+})
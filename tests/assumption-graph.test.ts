@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { AssumptionGraph, diffAssumptionSets } from '@/lib/conversation/assumption-graph'
+import type { Assumption, AssumptionSet } from '@/lib/conversation/assumption-generator'
+
+function assumption(id: string, title: string, dependencies: string[] = []): Assumption {
+  return {
+    id,
+    category: 'business_model',
+    title,
+    description: `${title}, as inferred`,
+    confidence: 0.6,
+    reasoning: 'Inferred from the conversation',
+    impact: 'medium',
+    dependencies,
+    validationQuestions: [],
+  }
+}
+
+function set(assumptions: Assumption[]): AssumptionSet {
+  return {
+    assumptions,
+    confidence: 0.6,
+    reasoning: 'Generated for the test',
+    missingCriticalInfo: [],
+    recommendedNextSteps: [],
+    metadata: { generatedAt: '2026-10-01T00:00:00.000Z', model: 'test', tokens: 0, escapeSignalTrigger: 'test' },
+  }
+}
+
+describe('assumption graph', () => {
+  test('resolves dependencies by id or by title and reports the rest', () => {
+    const graph = new AssumptionGraph(set([
+      assumption('a1', 'SMB finance teams'),
+      assumption('a2', 'Usage-based pricing', ['a1', '  smb FINANCE teams ']),
+      assumption('a3', 'Invoice OCR', ['Usage-based pricing', 'Bank integrations', 'a3']),
+    ]))
+
+    expect(graph.resolve('a2')).toBe('a2')
+    expect(graph.resolve('invoice ocr')).toBe('a3')
+    expect(graph.resolve('Payroll')).toBeUndefined()
+
+    // The same dependency named twice is one edge
+    expect(graph.dependenciesOf('a2')).toEqual(['a1'])
+    expect(graph.dependentsOf('a1')).toEqual(['a2'])
+    expect(graph.dependenciesOf('a3')).toEqual(['a2'])
+    expect(graph.unresolvedDependencies()).toEqual([
+      { assumptionId: 'a3', dependency: 'Bank integrations' },
+      { assumptionId: 'a3', dependency: 'a3' },
+    ])
+  })
+
+  test('lists downstream assumptions nearest first and tolerates cycles', () => {
+    const graph = new AssumptionGraph(set([
+      assumption('a1', 'Target users', ['a4']),
+      assumption('a2', 'Pricing', ['a1']),
+      assumption('a3', 'Onboarding', ['a1']),
+      assumption('a4', 'Retention', ['a2']),
+      assumption('a5', 'Unrelated'),
+    ]))
+
+    expect(graph.transitiveDependents('a1')).toEqual(['a2', 'a3', 'a4'])
+    expect(graph.transitiveDependents('a4')).toEqual(['a1', 'a2', 'a3'])
+    expect(graph.transitiveDependents('a5')).toEqual([])
+    expect(graph.transitiveDependents('unknown')).toEqual([])
+  })
+
+  test('diffs two versions of a set by id', () => {
+    const before = set([assumption('a1', 'Target users'), assumption('a2', 'Pricing', ['a1'])])
+    const after = set([
+      { ...assumption('a2', 'Pricing', []), confidence: 0.9 },
+      assumption('a3', 'Payroll'),
+    ])
+
+    const diff = diffAssumptionSets(before, after, { a1: 'Rejected by the user' })
+
+    expect(diff.changes.map(change => [change.assumptionId, change.change, change.fields, change.reason])).toEqual([
+      ['a1', 'removed', [], 'Rejected by the user'],
+      ['a2', 'modified', ['confidence', 'dependencies'], 'Updated confidence, dependencies'],
+      ['a3', 'added', [], 'Added to the assumption set'],
+    ])
+    expect(diff.summary).toBe('1 modified, 1 removed, 1 added')
+    expect(diffAssumptionSets(before, before).summary).toBe('No changes')
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import type { Assumption, AssumptionSet } from '@/lib/conversation/assumption-generator'
+import { AssumptionReviewService } from '@/lib/services/assumption-review-service'
+import { MemoryAssumptionDecisionStore } from '@/lib/stores/assumption-decision-store'
+import { ConversationContextService } from '@/lib/services/conversation-context-service'
+import { SessionManagementSystem } from '@/lib/services/session-management-system'
+import { SessionPersistence } from '@/lib/services/session-persistence'
+import { MemoryRedis } from '@/lib/redis/client'
+import { openaiService } from '@/lib/openai/client'
+
+// nanoid ships as ESM only, which Jest does not transform
+jest.mock('nanoid', () => {
+  let count = 0
+  return { nanoid: () => `session-${++count}` }
+})
+
+function assumption(id: string, dependencies: string[] = []): Assumption {
+  return {
+    id,
+    category: 'user_target',
+    title: `Assumption ${id}`,
+    description: `Description of ${id}`,
+    confidence: 0.6,
+    reasoning: 'Inferred from the conversation',
+    impact: 'high',
+    dependencies,
+    validationQuestions: [],
+  }
+}
+
+const generated: AssumptionSet = {
+  assumptions: [assumption('a1'), assumption('a2', ['a1']), assumption('a3', ['Assumption a2'])],
+  confidence: 0.6,
+  reasoning: 'Generated for the test',
+  missingCriticalInfo: [],
+  recommendedNextSteps: [],
+  metadata: { generatedAt: '2026-10-01T00:00:00.000Z', model: 'test', tokens: 0, escapeSignalTrigger: 'test' },
+}
+
+describe('assumption review service', () => {
+  let persistence: InstanceType<typeof SessionPersistence>
+  let store: InstanceType<typeof MemoryAssumptionDecisionStore>
+
+  // Each context service stands for one server instance; they share only the stores
+  const contexts = () => new ConversationContextService(new SessionManagementSystem(persistence))
+
+  async function start() {
+    const instance = contexts()
+    const review = new AssumptionReviewService(store, instance)
+    const { context } = await instance.createContext({ domain: 'saas' })
+    await review.registerAssumptions(context.sessionId, generated)
+    return { review, instance, sessionId: context.sessionId }
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    // Rejections regenerate dependents; with no model reachable they stay stale
+    jest.spyOn(openaiService, 'createStructuredCompletion').mockRejectedValue(new Error('offline'))
+    persistence = new SessionPersistence(new MemoryRedis(), 3600)
+    store = new MemoryAssumptionDecisionStore()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('an accepted assumption is recorded and written into the context', async () => {
+    const { review, instance, sessionId } = await start()
+
+    const result = await review.decide(sessionId, 1, { assumptionId: 'a1', expectedVersion: 1, action: 'accept' })
+
+    expect(result).toMatchObject({ version: 2, decision: { version: 2, action: 'accept' }, assumption: { status: 'accepted' } })
+    const { context } = (await instance.getContext(sessionId))!
+    expect(context.assumptions).toMatchObject([{ id: 'user_reviewed_assumptions', assumptions: [{ id: 'a1', validatedBy: 'user' }] }])
+  })
+
+  test('a context write that loses a race answers 409 and records nothing', async () => {
+    const { review, sessionId } = await start()
+    const other = contexts()
+
+    // Another instance writes the context while the decision is being made
+    const history = store.history.bind(store)
+    jest.spyOn(store, 'history').mockImplementationOnce(async (...args) => {
+      await other.updateContext(sessionId, 1, context => ({ ...context, userId: 'other' }))
+      return history(...args)
+    })
+
+    await expect(review.decide(sessionId, 1, { assumptionId: 'a1', expectedVersion: 1, action: 'accept' }))
+      .rejects.toMatchObject({ statusCode: 409, currentVersion: 2 })
+    expect((await store.history(sessionId, 'a1')).map(decision => decision.action)).toEqual(['generated'])
+
+    const retried = await review.decide(sessionId, 2, { assumptionId: 'a1', expectedVersion: 1, action: 'accept' })
+    expect(retried.decision.version).toBe(2)
+  })
+
+  test('a stale assumption version answers 409 and leaves the context version alone', async () => {
+    const { review, instance, sessionId } = await start()
+    await review.decide(sessionId, 1, { assumptionId: 'a1', expectedVersion: 1, action: 'reject' })
+
+    await expect(review.decide(sessionId, 2, { assumptionId: 'a1', expectedVersion: 1, action: 'accept' }))
+      .rejects.toMatchObject({ statusCode: 409, currentVersion: 2 })
+    expect((await instance.getContext(sessionId))!.version).toBe(2)
+  })
+
+  test('a failed append rebuilds the context from the stored history', async () => {
+    const { review, instance, sessionId } = await start()
+    jest.spyOn(store, 'append').mockRejectedValueOnce(new Error('connection reset'))
+
+    await expect(review.decide(sessionId, 1, { assumptionId: 'a1', expectedVersion: 1, action: 'accept' }))
+      .rejects.toThrow('connection reset')
+
+    const { context, version } = (await instance.getContext(sessionId))!
+    expect(version).toBe(3)
+    expect(context.assumptions).toEqual([])
+  })
+
+  test('rejecting an assumption invalidates its dependents and returns them to review', async () => {
+    const { review, instance, sessionId } = await start()
+    await review.decide(sessionId, 1, { assumptionId: 'a2', expectedVersion: 1, action: 'accept' })
+
+    // a2 is rewritten to fit; a3 is missing from the reply and stays stale
+    jest.spyOn(openaiService, 'createStructuredCompletion').mockResolvedValueOnce({
+      data: { assumptions: [{ ...assumption('a2'), title: 'Rewritten a2', dependencies: [] }] },
+      attempts: 1,
+      tokens: 10,
+    } as any)
+
+    const result = await review.decide(sessionId, 2, { assumptionId: 'a1', expectedVersion: 1, action: 'reject', feedback: 'Wrong market' })
+
+    expect(result.invalidated.map(decision => [decision.assumptionId, decision.version, decision.action])).toEqual([
+      ['a2', 3, 'invalidate'],
+      ['a3', 2, 'invalidate'],
+    ])
+    expect(result.invalidated[1].assumption.status).toBe('stale')
+    expect(result.diff!.changes.map(change => [change.assumptionId, change.change])).toEqual([
+      ['a1', 'removed'],
+      ['a2', 'modified'],
+      ['a3', 'modified'],
+    ])
+
+    const states = await review.listAssumptions(sessionId)
+    expect(states.map(item => [item.assumption.id, item.status, item.version])).toEqual([
+      ['a1', 'rejected', 2],
+      ['a2', 'pending', 3],
+      ['a3', 'pending', 2],
+    ])
+    expect(states[1].assumption.title).toBe('Rewritten a2')
+
+    // a2 was accepted against the rejected assumption, so it is no longer a fact
+    const { context } = (await instance.getContext(sessionId))!
+    expect(context.assumptions).toEqual([])
+  })
+})
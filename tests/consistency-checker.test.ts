@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import { ConversationStage, type ConversationContext, type ConversationExchange } from '@/lib/types/conversation'
+import { ConsistencyChecker } from '@/lib/conversation/consistency-checker'
+import { openaiService } from '@/lib/openai/client'
+
+function exchange(userResponse: string, extra: Partial<ConversationExchange> = {}): ConversationExchange {
+  return {
+    userResponse,
+    analysis: { extractedEntities: [] } as any,
+    timestamp: '2026-10-01T00:00:00.000Z',
+    stage: ConversationStage.IDEA_CLARITY,
+    ...extra,
+  }
+}
+
+function context(history: ConversationExchange[]): ConversationContext {
+  return {
+    sessionId: 'consistency-session',
+    domain: 'saas',
+    stage: ConversationStage.IDEA_CLARITY,
+    userProfile: {} as any,
+    conversationHistory: history,
+    assumptions: [{
+      id: 'set-1',
+      domain: 'saas',
+      stage: ConversationStage.IDEA_CLARITY,
+      completeness: 0.5,
+      confidence: 0.5,
+      lastUpdated: '2026-10-01T00:00:00.000Z',
+      assumptions: [
+        { id: 'A1', category: 'market', assumption: 'Sold to businesses', reasoning: '', confidence: 0.8, impact: 'high', source: 'conversation', validatedBy: 'user' },
+        { id: 'A2', category: 'pricing', assumption: 'Free tier', reasoning: '', confidence: 0.4, impact: 'low', source: 'profile' },
+      ],
+    }],
+    lastUpdated: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+function reply(contradictions: any[]) {
+  return jest.spyOn(openaiService, 'createStructuredCompletion')
+    .mockResolvedValue({ data: { contradictions }, attempts: 1, tokens: 10 } as any)
+}
+
+const conflict = {
+  topic: 'target customers',
+  newStatement: 'Consumers sign up directly',
+  conflictingSource: 'E1',
+  conflictingStatement: 'B2B only',
+  severity: 'high',
+  clarificationQuestion: 'Earlier you said B2B only, but now consumers sign up. Which is right?',
+}
+
+describe('consistency checker', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('records a contradiction and supersedes the earlier statement and assumption', async () => {
+    const spy = reply([conflict, { ...conflict, conflictingSource: 'A1' }, { ...conflict, conflictingSource: 'A2' }])
+    const start = context([
+      exchange('We only sell B2B', { analysis: { extractedEntities: ['B2B'] } as any }),
+      exchange('We use Stripe'),
+      exchange('Consumers sign up directly'),
+    ])
+
+    const { context: checked, contradictions } = await new ConsistencyChecker().checkLatest(start)
+
+    // Only accepted assumptions are shown, so the conflict with A2 is dropped
+    const prompt = spy.mock.calls[0][0].messages[0].content
+    expect(prompt).toContain('[E1] We only sell B2B (entities: B2B)')
+    expect(prompt).toContain('[A1] Accepted assumption: Sold to businesses')
+    expect(prompt).not.toContain('[A2]')
+    expect(contradictions.map(c => [c.id, c.previous.source, c.current.source, c.status]))
+      .toEqual([['C1', 'E1', 'E3', 'open'], ['C2', 'A1', 'E3', 'open']])
+
+    expect(checked.conversationHistory.map(e => e.supersededBy)).toEqual(['E3', undefined, undefined])
+    expect(checked.assumptions![0].assumptions.map(a => a.supersededBy)).toEqual(['E3', undefined])
+    expect(start.conversationHistory[0].supersededBy).toBeUndefined()
+  })
+
+  test('leaves superseded statements out and does not repeat a contradiction', async () => {
+    const spy = reply([{ ...conflict, conflictingSource: 'E2' }, { ...conflict, conflictingSource: 'E2' }])
+    const start = context([
+      exchange('We only sell B2B', { supersededBy: 'E2' }),
+      exchange('Consumers sign up too'),
+      exchange('Actually consumers are the main market'),
+    ])
+
+    const { contradictions } = await new ConsistencyChecker().checkLatest(start)
+
+    expect(spy.mock.calls[0][0].messages[0].content).not.toContain('[E1]')
+    expect(contradictions).toHaveLength(1)
+  })
+
+  test('answering the clarification resolves the contradiction without checking again', async () => {
+    const spy = reply([conflict])
+    const first = await new ConsistencyChecker().checkLatest(context([
+      exchange('We only sell B2B'),
+      exchange('Consumers sign up directly'),
+    ]))
+    const clarification = {
+      question: first.contradictions[0].clarificationQuestion,
+      metadata: { contradictionId: 'C1' },
+    } as any
+
+    const answered = await new ConsistencyChecker().checkLatest({
+      ...first.context,
+      conversationHistory: [
+        ...first.context.conversationHistory,
+        exchange('Consumers, we dropped B2B', { generatedQuestion: clarification }),
+      ],
+    })
+
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(answered.context.contradictions).toMatchObject([{ id: 'C1', status: 'resolved', resolvedBy: 'E3' }])
+  })
+
+  test('a failed check returns the context unchanged', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(openaiService, 'createStructuredCompletion').mockRejectedValue(new Error('rate limited'))
+    const start = context([exchange('We only sell B2B'), exchange('Consumers sign up directly')])
+
+    const result = await new ConsistencyChecker().checkLatest(start)
+
+    expect(result).toEqual({ context: start, contradictions: [] })
+  })
+})
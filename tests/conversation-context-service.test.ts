@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+import type { ConversationContext } from '@/lib/types/conversation'
+import { ConversationContextService } from '@/lib/services/conversation-context-service'
+import { SessionManagementSystem } from '@/lib/services/session-management-system'
+import { SessionPersistence } from '@/lib/services/session-persistence'
+import { MemoryRedis } from '@/lib/redis/client'
+
+// nanoid ships as ESM only, which Jest does not transform
+jest.mock('nanoid', () => {
+  let count = 0
+  return { nanoid: () => `session-${++count}` }
+})
+
+const tag = (userId: string) => (context: ConversationContext) => ({ ...context, userId })
+
+describe('conversation context service', () => {
+  let persistence: InstanceType<typeof SessionPersistence>
+
+  // Each service stands for one server instance; they share only the store
+  const instance = () => new ConversationContextService(new SessionManagementSystem(persistence))
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    persistence = new SessionPersistence(new MemoryRedis(), 3600)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('an update against a stale version is rejected with the current version', async () => {
+    const first = instance()
+    const second = instance()
+    const { context } = await first.createContext({ domain: 'saas' })
+
+    expect((await second.updateContext(context.sessionId, 1, tag('second'))).version).toBe(2)
+
+    await expect(first.updateContext(context.sessionId, 1, tag('first')))
+      .rejects.toMatchObject({ statusCode: 409, currentVersion: 2 })
+    expect((await first.getContext(context.sessionId))!.context.userId).toBe('second')
+
+    // Read-only routes load by sessionId and an optional version
+    expect((await first.loadContext(context.sessionId)).version).toBe(2)
+    await expect(first.loadContext(context.sessionId, 1)).rejects.toMatchObject({ statusCode: 409, currentVersion: 2 })
+    await expect(first.loadContext('unknown-session')).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  test('a write landing while the update runs wins, and the update gets a 409', async () => {
+    const first = instance()
+    const second = instance()
+    const { context } = await first.createContext({ domain: 'saas' })
+
+    const racing = first.updateContext(context.sessionId, 1, async current => {
+      await second.updateContext(context.sessionId, 1, tag('second'))
+      return tag('first')(current)
+    })
+
+    await expect(racing).rejects.toMatchObject({ statusCode: 409, currentVersion: 2 })
+    expect(await instance().getContext(context.sessionId)).toMatchObject({ version: 2, context: { userId: 'second' } })
+    expect(await first.getContext(context.sessionId)).toMatchObject({ version: 2, context: { userId: 'second' } })
+  })
+
+  test('a failed save reaches the caller and leaves the context unchanged', async () => {
+    const service = instance()
+    const { context } = await service.createContext({ domain: 'saas' })
+    jest.spyOn(persistence, 'save').mockRejectedValueOnce(new Error('Failed to persist session: connection reset'))
+
+    await expect(service.updateContext(context.sessionId, 1, tag('lost')))
+      .rejects.toThrow('connection reset')
+
+    const unchanged = await service.getContext(context.sessionId)
+    expect(unchanged!.version).toBe(1)
+    expect(unchanged!.context.userId).toBeUndefined()
+    expect((await service.updateContext(context.sessionId, 1, tag('retried'))).version).toBe(2)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { ConversationFlowEngine, type FlowContext } from '@/lib/services/conversation-flow-engine'
+import type { ConversationFlow } from '@/lib/types/agent-types'
+
+function flow(configuration: ConversationFlow['configuration'] = { autoAdvance: true }): ConversationFlow {
+  return {
+    stages: ['intro', 'technical_deep_dive', 'business_case', 'summary'],
+    transitions: {
+      toTechnical: {
+        from: 'intro',
+        to: 'technical_deep_dive',
+        conditions: [{ type: 'custom', parameters: { name: 'isTechnical' } }],
+        actions: [{ type: 'send_message', parameters: { message: 'Let us look at the architecture.' } }],
+      },
+      toBusiness: {
+        from: 'intro',
+        to: 'business_case',
+        conditions: [{ type: 'user_input', parameters: { contains: ['revenue', 'customers'] } }],
+        actions: [
+          { type: 'update_profile', parameters: { updates: { role: 'business' } } },
+          { type: 'custom', parameters: { name: 'tagLead' } },
+        ],
+      },
+      businessToSummary: {
+        from: 'business_case',
+        to: 'summary',
+        conditions: [{ type: 'user_input', parameters: { equals: 'done' } }],
+      },
+      summaryToHandoff: {
+        from: 'summary',
+        to: 'handoff',
+        conditions: [],
+      },
+    },
+    configuration,
+  }
+}
+
+function context(engine: ConversationFlowEngine, target: ConversationFlow, lastInput: string): FlowContext {
+  return {
+    sessionId: 'flow-session',
+    currentStage: 'intro',
+    profile: { role: 'unknown', industry: 'saas', industryConfidence: 0.8, roleConfidence: 0.2 } as any,
+    collectedData: {},
+    lastInput,
+    runtime: engine.createRuntimeState(target),
+  }
+}
+
+describe('conversation flow engine', () => {
+  test('takes the first satisfied branch and runs its actions', async () => {
+    const engine = new ConversationFlowEngine()
+    const tagged: string[] = []
+    engine.registerCondition('isTechnical', ctx => ctx.profile?.role === 'technical')
+    engine.registerAction('tagLead', ctx => { tagged.push(ctx.sessionId) })
+    const target = flow()
+
+    const business = await engine.step(target, context(engine, target, 'We need more paying customers'))
+    expect(business.transition?.to).toBe('business_case')
+    expect(business.context.profile?.role).toBe('business')
+    expect(business.actions.map(action => action.status)).toEqual(['completed', 'completed'])
+    expect(tagged).toEqual(['flow-session'])
+
+    const start = context(engine, target, 'We need more paying customers')
+    start.profile = { ...start.profile!, role: 'technical' as any }
+    const technical = await engine.step(target, start)
+    expect(technical.transition?.to).toBe('technical_deep_dive')
+    expect(technical.messages).toEqual(['Let us look at the architecture.'])
+
+    // The input context is left untouched
+    expect(start.currentStage).toBe('intro')
+  })
+
+  test('without autoAdvance a satisfied transition waits for moveTo', async () => {
+    const engine = new ConversationFlowEngine()
+    const target = flow({ autoAdvance: false, allowBacktracking: false })
+    const start = context(engine, target, 'Tell me about revenue')
+
+    const pending = await engine.step(target, start)
+    expect(pending.transition).toBeNull()
+    expect(pending.pendingTransition?.to).toBe('business_case')
+    expect(pending.context.currentStage).toBe('intro')
+
+    const moved = await engine.moveTo(target, start, 'business_case')
+    expect(moved.context.runtime.visitedStages).toEqual(['intro', 'business_case'])
+
+    await expect(engine.moveTo(target, moved.context, 'summary')).rejects.toThrow(/not met/)
+    await expect(engine.moveTo(target, moved.context, 'intro')).rejects.toThrow(/Backtracking/)
+    await expect(engine.moveTo(target, start, 'summary')).rejects.toThrow(/No transition/)
+  })
+
+  test('backtracks when allowed, completes past the last stage and expires after maxDuration', async () => {
+    const engine = new ConversationFlowEngine()
+    const target = flow({ autoAdvance: true, allowBacktracking: true, maxDuration: 60_000 })
+    const start = context(engine, target, 'done')
+
+    const back = await engine.moveTo(target, { ...start, currentStage: 'summary' }, 'intro')
+    expect(back.context.currentStage).toBe('intro')
+
+    const handoff = await engine.step(target, { ...start, currentStage: 'summary' })
+    expect(handoff.transition?.to).toBe('handoff')
+    expect(handoff.completed).toBe(true)
+
+    const stale = context(engine, target, 'revenue')
+    stale.runtime.startedAt = new Date(Date.now() - 120_000)
+    const expired = await engine.step(target, stale)
+    expect(expired).toMatchObject({ expired: true, transition: null })
+    await expect(engine.moveTo(target, stale, 'business_case')).rejects.toThrow(/expired/)
+  })
+})
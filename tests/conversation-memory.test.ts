@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { ConversationMemoryManager, formatMemoryForPrompt } from '@/lib/conversation/conversation-memory'
+import { estimateTokens } from '@/lib/llm/provider'
+import { openaiService } from '@/lib/openai/client'
+import { ConversationStage, type ConversationContext, type ConversationMemory } from '@/lib/types/conversation'
+
+const items = (label: string, count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    statement: `${label} ${index + 1}: the user described this part of the product in some detail`,
+    sources: [`E${index + 1}`],
+  }))
+
+const memory: ConversationMemory = {
+  facts: items('Fact', 12),
+  decisions: items('Decision', 6),
+  openQuestions: items('Open question', 6),
+  entities: [{ name: 'invoice', mentions: 5 }, { name: 'stripe', mentions: 3 }, { name: 'freelancer', mentions: 2 }],
+  summarizedThrough: 12,
+  updatedAt: '2026-10-01T00:00:00.000Z',
+}
+
+function context(answers: number, previous?: ConversationMemory): ConversationContext {
+  return {
+    sessionId: 'memory-session',
+    domain: 'saas',
+    stage: ConversationStage.USER_WORKFLOW,
+    userProfile: {} as any,
+    conversationHistory: Array.from({ length: answers }, (_, index) => ({
+      userResponse: `Answer ${index + 1}`,
+      analysis: { clarityScore: 1, extractedEntities: index % 2 === 0 ? ['Invoice'] : ['invoice', 'Stripe'] } as any,
+      timestamp: '2026-10-01T00:00:00.000Z',
+      stage: ConversationStage.USER_WORKFLOW,
+    })),
+    memory: previous,
+    lastUpdated: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+describe('conversation memory', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('the prompt section never exceeds its token budget', () => {
+    for (let budget = 0; budget <= 600; budget += 7) {
+      expect(estimateTokens(formatMemoryForPrompt(memory, budget))).toBeLessThanOrEqual(budget)
+    }
+
+    expect(formatMemoryForPrompt(undefined, 500)).toBe('')
+    expect(formatMemoryForPrompt({ ...memory, summarizedThrough: 0 }, 500)).toBe('')
+  })
+
+  test('decisions come first and the newest items are kept when the budget runs out', () => {
+    const tight = formatMemoryForPrompt(memory, 120)
+    const lines = tight.split('\n')
+
+    expect(lines[0]).toBe('CONVERSATION MEMORY (summary of exchanges 1-12):')
+    expect(lines[1]).toBe('Decisions:')
+    expect(tight).toContain('Decision 6:')
+    expect(tight).not.toContain('Decision 1:')
+    expect(tight).not.toContain('Facts:')
+
+    const roomy = formatMemoryForPrompt(memory, 2000)
+    expect(roomy.indexOf('Decisions:')).toBeLessThan(roomy.indexOf('Facts:'))
+    expect(roomy.indexOf('Facts:')).toBeLessThan(roomy.indexOf('Open questions:'))
+    expect(roomy.split('\n').pop()).toBe('Key entities: invoice, stripe, freelancer')
+  })
+
+  test('memory is updated every few exchanges, keeping only real citations', async () => {
+    const spy = jest.spyOn(openaiService, 'createStructuredCompletion').mockResolvedValue({
+      data: {
+        facts: [{ statement: 'Freelancers invoice monthly', sources: ['E1', 'E7'] }],
+        decisions: [],
+        openQuestions: [],
+      },
+      response: { usage: { total_tokens: 60 } },
+    } as any)
+    const manager = new ConversationMemoryManager('gpt-4o-mini', 1200, 0.2, 3)
+
+    const early = context(2)
+    expect(await manager.updateMemory(early)).toBe(early)
+    expect(spy).not.toHaveBeenCalled()
+
+    const updated = (await manager.updateMemory(context(3))).memory!
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(updated).toMatchObject({
+      facts: [{ statement: 'Freelancers invoice monthly', sources: ['E1'] }],
+      entities: [{ name: 'Invoice', mentions: 3 }, { name: 'Stripe', mentions: 1 }],
+      summarizedThrough: 3,
+    })
+
+    expect(await manager.updateMemory(context(5, updated))).toMatchObject({ memory: updated })
+    expect(spy).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+import { ConversationStage, StageStatus } from '@/lib/types/conversation'
+import * as storage from '@/lib/conversation/state-storage'
+import { ConversationStateManager } from '@/lib/conversation/state-manager'
+import { SessionPersistence, MANAGED_SESSION_KEY_PREFIX } from '@/lib/services/session-persistence'
+import { MemoryRedis } from '@/lib/redis/client'
+import { SessionStore } from '@/lib/services/session-store'
+import { SessionManagementSystem } from '@/lib/services/session-management-system'
+
+// nanoid ships as ESM only, which Jest does not transform
+jest.mock('nanoid', () => ({ nanoid: () => 'generated-id' }))
+
+describe('conversation state storage', () => {
+  test('serialized state survives JSON and revives Maps and Dates', async () => {
+    const manager = new ConversationStateManager(new storage.MemoryConversationStateStore())
+    const state = await manager.createConversationState('session-1', 'user-1')
+    await manager.recordQuestionResponse('session-1', {
+      questionId: 'q1',
+      question: 'What problem are you solving?',
+      answer: 'Invoice reminders for small businesses',
+      timestamp: new Date('2024-01-01T10:00:00.000Z'),
+      confidence: 0.8,
+      isSkipped: false,
+    })
+    await manager.triggerEscape('session-1', ConversationStage.IDEA_CLARITY)
+
+    const stored = await manager.getCurrentState('session-1')
+    const revived = storage.deserializeConversationState(
+      JSON.parse(JSON.stringify(storage.serializeConversationState(stored!)))
+    )
+
+    expect(revived.stageProgresses).toBeInstanceOf(Map)
+    expect(revived.stageProgresses.size).toBe(4)
+    expect(revived.createdAt).toEqual(state.createdAt)
+    expect(revived.escapeTimestamp).toBeInstanceOf(Date)
+
+    const ideaClarity = revived.stageProgresses.get(ConversationStage.IDEA_CLARITY)!
+    expect(ideaClarity.startTime).toBeInstanceOf(Date)
+    expect(ideaClarity.answeredQuestions).toBe(1)
+    expect(ideaClarity.responses[0].timestamp).toEqual(new Date('2024-01-01T10:00:00.000Z'))
+  })
+
+  test('managers sharing a store see each other\'s sessions', async () => {
+    const store = new storage.MemoryConversationStateStore()
+    const first = new ConversationStateManager(store)
+    const second = new ConversationStateManager(store)
+
+    await first.createConversationState('session-a', 'user-a')
+    await second.updateCurrentStage('session-a', ConversationStage.USER_WORKFLOW)
+    await second.createConversationState('session-b', 'user-b')
+
+    const state = await first.getCurrentState('session-a')
+    expect(state!.currentStage).toBe(ConversationStage.USER_WORKFLOW)
+    expect(state!.stageProgresses.get(ConversationStage.IDEA_CLARITY)!.status).toBe(StageStatus.COMPLETED)
+    expect(state!.overallProgress).toBe(25)
+
+    const metrics = await first.getAggregateMetrics()
+    expect(metrics.stageCompletionRates.get(ConversationStage.IDEA_CLARITY)).toBe(0.5)
+  })
+
+  test('stored state is not shared by reference with callers', async () => {
+    const manager = new ConversationStateManager(new storage.MemoryConversationStateStore())
+    const created = await manager.createConversationState('session-c', 'user-c')
+
+    created.currentStage = ConversationStage.WIREFRAMES
+
+    const reloaded = await manager.getCurrentState('session-c')
+    expect(reloaded!.currentStage).toBe(ConversationStage.IDEA_CLARITY)
+  })
+})
+
+describe('session persistence', () => {
+  const snapshot = () => ({
+    sessionId: 'session-p',
+    metadata: { step: 2, seenAt: new Date('2024-02-01T09:00:00.000Z') },
+    configuration: { compressionEnabled: true, scores: new Map([['idea', 0.7]]) },
+    startTime: new Date('2024-02-01T08:00:00.000Z'),
+    lastActivity: new Date('2024-02-01T09:30:00.000Z'),
+    revision: 1,
+  })
+
+  test('compressed snapshots saved by one instance load in another', async () => {
+    const client = new MemoryRedis()
+    await new SessionPersistence(client, 60).save(snapshot(), { compress: true })
+
+    const envelope = await client.get<{ encoding: string }>('session:session-p')
+    expect(envelope!.encoding).toBe('gzip')
+
+    const loaded = await new SessionPersistence(client, 60).load('session-p')
+    expect(loaded!.startTime).toEqual(new Date('2024-02-01T08:00:00.000Z'))
+    expect(loaded!.metadata.seenAt).toBeInstanceOf(Date)
+    expect(loaded!.configuration.scores).toBeInstanceOf(Map)
+    expect(loaded!.configuration.scores.get('idea')).toBe(0.7)
+  })
+
+  test('snapshots expire after the session TTL and can be deleted', async () => {
+    const client = new MemoryRedis()
+    const persistence = new SessionPersistence(client, 60)
+    await persistence.save(snapshot())
+
+    const now = Date.now()
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 61_000)
+    expect(await persistence.load('session-p')).toBeNull()
+    spy.mockRestore()
+
+    await persistence.save(snapshot())
+    await persistence.delete('session-p')
+    expect(await persistence.load('session-p')).toBeNull()
+  })
+  test('the copy with the higher revision wins, whatever the instance clocks say', async () => {
+    const persistence = new SessionPersistence(new MemoryRedis(), 24 * 60 * 60)
+    const first = new SessionStore(persistence)
+    const second = new SessionStore(persistence)
+    await first.createSession({ sessionId: 'session-r', masterAgent: null, configuration: {} } as any)
+
+    // The second instance's clock runs an hour behind the first's
+    jest.useFakeTimers({ now: Date.now() - 60 * 60 * 1000 })
+    try {
+      const session = await second.getSession('session-r')
+      await session!.updateProfile({ id: 'profile-r', industry: 'fintech' } as any)
+    } finally {
+      jest.useRealTimers()
+    }
+
+    expect((await persistence.load('session-r'))!.revision).toBe(2)
+    expect((await first.getSession('session-r'))!.profile?.industry).toBe('fintech')
+  })
+
+  test('the session store and the session system keep separate records for the same id', async () => {
+    const client = new MemoryRedis()
+    const storePersistence = new SessionPersistence(client, 3600)
+    const systemPersistence = new SessionPersistence(client, 3600, MANAGED_SESSION_KEY_PREFIX)
+
+    const stored = await new SessionStore(storePersistence)
+      .createSession({ sessionId: 'shared-id', masterAgent: null, configuration: {} } as any)
+    await stored.updateProfile({ id: 'profile-s', industry: 'fintech' } as any)
+    const managed = await new SessionManagementSystem(systemPersistence).createSession('shared-id')
+    await managed.updateMetadata({ conversation: 'saas' })
+
+    expect(await client.get('session:shared-id')).not.toBeNull()
+    expect(await client.get('managed-session:shared-id')).not.toBeNull()
+
+    // Fresh instances rehydrate their own shape, untouched by the other system
+    const restored = await new SessionStore(storePersistence).getSession('shared-id')
+    expect(restored!.profile?.industry).toBe('fintech')
+    const recovered = await new SessionManagementSystem(systemPersistence).getSession('shared-id')
+    expect(recovered!.readMetadata().metadata).toMatchObject({ conversation: 'saas' })
+    expect((await storePersistence.load('shared-id'))!.metadata.conversation).toBeUndefined()
+  })
+})
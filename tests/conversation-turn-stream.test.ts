@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server'
+import { POST as streamTurn } from '@/app/api/conversation/dynamic/stream/route'
+import { POST as dynamicAction } from '@/app/api/conversation/dynamic/route'
+import { DynamicConversationEngine } from '@/lib/conversation/dynamic-conversation-engine'
+import { conversationContextService, type VersionedContext } from '@/lib/services/conversation-context-service'
+import { ConversationStage, type ConversationContext, type Contradiction } from '@/lib/types/conversation'
+
+// nanoid ships as ESM only, which Jest does not transform
+jest.mock('nanoid', () => ({ nanoid: () => 'session-1' }))
+
+const question = {
+  question: 'Who approves an invoice before it is sent?',
+  questionType: 'open_ended',
+  sophisticationLevel: 'intermediate',
+  domainContext: 'saas',
+  followUpSuggestions: [],
+  confidence: 0.8,
+  reasoning: 'Moves on to the workflow',
+  expectedResponseTypes: ['workflow'],
+} as any
+
+const contradiction: Contradiction = {
+  id: 'contradiction-1',
+  topic: 'pricing',
+  previous: { source: 'E1', statement: 'It is free' },
+  current: { source: 'E2', statement: 'We charge a monthly subscription' },
+  severity: 'high',
+  clarificationQuestion: 'Is the product free, or a monthly subscription?',
+  status: 'open',
+  detectedAt: '2026-10-01T00:00:00.000Z',
+}
+
+function savedContext(): ConversationContext {
+  return {
+    sessionId: 'stream-session',
+    domain: 'saas',
+    stage: ConversationStage.IDEA_CLARITY,
+    userProfile: { sophisticationLevel: 'intermediate', domainKnowledge: {}, engagementPattern: 'engaged' } as any,
+    conversationHistory: [{
+      userResponse: 'Freelancers struggle with a manual invoicing problem',
+      analysis: { clarityScore: 1 } as any,
+      timestamp: '2026-10-01T00:00:00.000Z',
+      stage: ConversationStage.IDEA_CLARITY,
+    }],
+    lastUpdated: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+const turn = { sessionId: 'stream-session', version: 1, userResponse: 'It saves them hours, and we charge a monthly subscription' }
+
+const post = (path: string, body: unknown) =>
+  new NextRequest(`http://localhost${path}`, { method: 'POST', body: JSON.stringify(body) })
+
+async function sseEvents(response: Response) {
+  const frames = (await response.text()).split('\n\n').filter(Boolean)
+  return frames.map(frame => {
+    const [event, data] = frame.split('\n')
+    return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) }
+  })
+}
+
+describe('conversation turn endpoints', () => {
+  let stored: VersionedContext
+  let sync: jest.SpyInstance
+
+  beforeEach(() => {
+    stored = { context: savedContext(), version: 1 }
+
+    jest.spyOn(conversationContextService, 'requireContext').mockImplementation(async () => stored)
+    jest.spyOn(conversationContextService, 'updateContext').mockImplementation(async (_sessionId, version, update) => {
+      stored = { context: await update(stored.context), version: version + 1 }
+      return stored
+    })
+
+    jest.spyOn(DynamicConversationEngine.prototype, 'analyzeResponse')
+      .mockResolvedValue({ clarityScore: 1, escapeSignals: { detected: false, confidence: 0 } } as any)
+    jest.spyOn(DynamicConversationEngine.prototype, 'updateMemory').mockImplementation(async context => context)
+    jest.spyOn(DynamicConversationEngine.prototype, 'detectContradictions')
+      .mockImplementation(async context => ({ context, contradictions: [] }))
+    jest.spyOn(DynamicConversationEngine.prototype, 'streamNextQuestion').mockImplementation(async function* () {
+      yield { type: 'question_token', token: 'Who approves ' }
+      yield { type: 'question_token', token: 'an invoice?' }
+      yield { type: 'question', question }
+    })
+    sync = jest.spyOn(DynamicConversationEngine.prototype, 'syncConversationState').mockResolvedValue()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('the stream sends the turn in order and saves before the context event', async () => {
+    const events = await sseEvents(await streamTurn(post('/api/conversation/dynamic/stream', turn)))
+
+    expect(events.map(({ event }) => event)).toEqual([
+      'analysis', 'escape', 'stage_transition', 'question_token', 'question_token', 'question', 'context', 'done',
+    ])
+    expect(events[2].data.transition).toMatchObject({ to: ConversationStage.USER_WORKFLOW, reason: 'criteria_met' })
+    expect(events[6].data).toMatchObject({
+      version: 2,
+      updatedContext: { stage: ConversationStage.USER_WORKFLOW, currentQuestion: { question: question.question } },
+    })
+    expect(sync).toHaveBeenCalledWith(stored.context)
+  })
+
+  test('an open contradiction is streamed and clarified without question tokens', async () => {
+    jest.spyOn(DynamicConversationEngine.prototype, 'detectContradictions')
+      .mockImplementation(async context => ({ context: { ...context, contradictions: [contradiction] }, contradictions: [contradiction] }))
+
+    const events = await sseEvents(await streamTurn(post('/api/conversation/dynamic/stream', turn)))
+
+    expect(events.map(({ event }) => event)).toEqual([
+      'analysis', 'escape', 'stage_transition', 'contradiction', 'question', 'context', 'done',
+    ])
+    expect(events[4].data.question).toMatchObject({ question: contradiction.clarificationQuestion, questionType: 'clarification' })
+  })
+
+  test('the JSON turn returns what the stream sends', async () => {
+    const response = await dynamicAction(post('/api/conversation/dynamic', { action: 'conversation_turn', ...turn }))
+    const body = await response.json()
+
+    expect(body).toMatchObject({
+      success: true,
+      version: 2,
+      analysis: { clarityScore: 1 },
+      stageTransition: { to: ConversationStage.USER_WORKFLOW },
+      nextQuestion: { question: question.question },
+      contradictions: [],
+      escapeTriggered: false,
+      updatedContext: { stage: ConversationStage.USER_WORKFLOW },
+    })
+    expect(sync).toHaveBeenCalledWith(stored.context)
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { TrainingDataCollector } from '@/lib/profile/training-data-collector'
+
+function point(id: string, input: string, labels: { industry: string; role: string; sophisticationLevel: string }, extra: any = {}) {
+  return {
+    id,
+    input,
+    groundTruth: { ...labels, keywords: [] },
+    predictions: {
+      industry: { industry: 'saas', keywords: [] },
+      role: { role: 'business', indicators: { technical: [], business: [], hybrid: [] } },
+      sophistication: { level: 'medium', score: 55, indicators: { advanced: [], intermediate: [], basic: [] } },
+    },
+    source: 'user_correction',
+    quality: 'high',
+    metadata: { timestamp: '2026-10-01T00:00:00.000Z', correctionApplied: true, userVerified: true, confidenceScore: 1 },
+    ...extra,
+  }
+}
+
+describe('fine-tuning dataset export', () => {
+  test('keeps only high-quality points and resolves duplicate corrections per task', () => {
+    const collector = new TrainingDataCollector()
+    const input = 'We want to automate invoice payments for small businesses'
+    const labels = { industry: 'saas', role: 'business', sophisticationLevel: 'medium' }
+
+    collector.importTrainingData([
+      // The correction route stores one point per corrected field
+      point('correction-industry', input, { ...labels, industry: 'fintech' }),
+      point('correction-role', `  ${input.toUpperCase()} `, { ...labels, role: 'hybrid' }),
+      point('automated', 'A dashboard for gym owners', labels, { quality: 'low' }),
+    ].map(p => JSON.stringify(p)).join('\n'))
+
+    const { manifest, files } = collector.exportFineTuningDataset({ validationRatio: 0 })
+
+    expect(manifest.sourcePoints).toBe(2)
+    expect(manifest.tasks.industry).toMatchObject({ duplicatesRemoved: 1, conflictingLabels: 1, records: { train: 1, validation: 0 } })
+
+    const answer = (task: string) => JSON.parse(JSON.parse(files[`${task}.train.jsonl`]).messages[2].content)
+    expect(answer('industry').primary_industry).toBe('fintech')
+    expect(answer('role').role).toBe('hybrid')
+    expect(answer('sophistication')).toMatchObject({ sophistication_level: 'medium', overall_score: 55 })
+  })
+
+  test('splits by input, caps majority classes and versions by content', () => {
+    const collector = new TrainingDataCollector()
+    const points = [
+      ...Array.from({ length: 8 }, (_, i) => point(`saas-${i}`, `Subscription analytics tool number ${i}`, { industry: 'saas', role: 'business', sophisticationLevel: 'medium' })),
+      point('health-0', 'Patient intake forms for clinics', { industry: 'healthcare', role: 'business', sophisticationLevel: 'low' }),
+    ]
+    collector.importTrainingData(JSON.stringify(points))
+
+    const first = collector.exportFineTuningDataset({ tasks: ['industry'], validationRatio: 0, maxClassImbalance: 2 })
+    const again = collector.exportFineTuningDataset({ tasks: ['industry'], validationRatio: 0, maxClassImbalance: 2 })
+
+    expect(first.manifest.tasks.industry!.classDistribution.train).toEqual({ saas: 2, healthcare: 1 })
+    expect(first.manifest.tasks.industry!.droppedForBalance).toBe(6)
+    expect(again.manifest.version).toBe(first.manifest.version)
+    expect(again.manifest.tasks.industry!.examples).toEqual(first.manifest.tasks.industry!.examples)
+
+    const split = collector.exportFineTuningDataset({ tasks: ['industry'], validationRatio: 0.5, maxClassImbalance: 0 })
+    const { train, validation } = split.manifest.tasks.industry!.examples
+    expect(train.length + validation.length).toBe(9)
+    expect(train.filter(id => validation.includes(id))).toEqual([])
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import os from 'os'
+import path from 'path'
+import { mkdtempSync, rmSync } from 'fs'
+import { KeywordWeights, KeywordWeightsRegistry } from '@/lib/profile/keyword-weights'
+import { KeywordRecalibrator } from '@/lib/profile/keyword-recalibration'
+import { classifyIndustryByKeywords } from '@/lib/profile/detection-heuristics'
+
+// "subscription" votes SaaS, but these users were corrected to consumer
+const points: any[] = [
+  'A fitness app with a monthly subscription for home workouts',
+  'Fitness coaching subscription for busy parents',
+  'Subscription boxes of fitness gear',
+].map((input, i) => ({
+  id: `consumer-${i}`,
+  input,
+  groundTruth: { industry: 'consumer', role: 'unknown', sophisticationLevel: 'low', keywords: [] },
+  source: 'user_correction',
+  quality: 'high',
+  metadata: { timestamp: new Date('2026-10-01T00:00:00.000Z'), correctionApplied: true, userVerified: true, confidenceScore: 1 },
+}))
+
+describe('keyword weight recalibration', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'profile-weights-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('down-weights keywords that point at the corrected-away label', () => {
+    const defaults = new KeywordWeights()
+    expect(classifyIndustryByKeywords('fitness subscription', defaults).topIndustry).toBe('saas')
+
+    const { weights } = new KeywordRecalibrator(defaults).recalibrate(points)
+    expect(weights.industry.weights).toMatchObject({ saas: { subscription: 0.25 }, consumer: { fitness: 3 } })
+    expect(weights.metrics.industry).toEqual({ examples: 3, accuracyBefore: 0, accuracyAfter: 1 })
+    expect(weights.metrics.role.examples).toBe(0)
+
+    const registry = new KeywordWeightsRegistry(dir)
+    registry.publish(weights)
+    const reweighted = new KeywordWeights(registry.load())
+    expect(classifyIndustryByKeywords('fitness subscription', reweighted).topIndustry).toBe('consumer')
+  })
+
+  test('publishes versions, rolls back and keeps a pinned version active', () => {
+    const { weights } = new KeywordRecalibrator().recalibrate(points)
+    const registry = new KeywordWeightsRegistry(dir)
+
+    registry.publish(weights)
+    registry.publish(weights)
+    expect(registry.getManifest()).toMatchObject({ active: 2, pinned: false })
+
+    expect(registry.rollback()).toMatchObject({ active: 1, pinned: true })
+    expect(registry.publish(weights)).toMatchObject({ activated: false, file: { version: 3 } })
+    expect(registry.load()!.version).toBe(1)
+
+    registry.unpin()
+    expect(registry.publish(weights).activated).toBe(true)
+    expect(() => registry.pin(7)).toThrow(expect.objectContaining({ statusCode: 404 }))
+  })
+})
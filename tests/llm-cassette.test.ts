@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import type { ConversationContext } from '@/lib/types/conversation'
+import { CassetteProvider, cassetteKey } from '@/lib/llm/cassette'
+import { LocalProvider } from '@/lib/llm/local-provider'
+import type { ChatCompletionParams } from '@/lib/llm/provider'
+
+const userResponse = 'We are building an API that helps mid-market banks automate regulatory reporting and compliance.'
+
+const context = {
+  sessionId: 'cassette-session',
+  userId: 'cassette-user',
+  stage: 'idea_clarity',
+  domain: 'fintech',
+  userProfile: {
+    sophisticationLevel: 'intermediate',
+    role: 'founder',
+    domainKnowledge: {},
+    engagementPattern: 'engaged',
+  },
+  conversationHistory: [],
+  lastUpdated: '2024-01-01T00:00:00.000Z',
+} as unknown as ConversationContext
+
+/**
+ * Load the conversation engine against a fresh module registry so the
+ * environment (provider + cassette mode) is re-read
+ */
+function loadEngine(overrides: Record<string, string>) {
+  Object.assign(process.env, overrides)
+
+  let engineModule: typeof import('@/lib/conversation/dynamic-conversation-engine')
+  jest.isolateModules(() => {
+    engineModule = require('@/lib/conversation/dynamic-conversation-engine')
+  })
+  return new engineModule!.DynamicConversationEngine()
+}
+
+async function runTurn(overrides: Record<string, string>) {
+  const engine = loadEngine(overrides)
+  const question = await engine.generateNextQuestion(context)
+  const analysis = await engine.analyzeResponse(userResponse, context)
+  return { question, analysis }
+}
+
+describe('LLM cassettes', () => {
+  let cassetteDir: string
+
+  beforeEach(async () => {
+    cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-cassettes-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(cassetteDir, { recursive: true, force: true })
+  })
+
+  test('replays a recorded conversation turn without calling the provider', async () => {
+    const recorded = await runTurn({
+      LLM_PROVIDER: 'local',
+      LLM_CASSETTE_MODE: 'record',
+      LLM_CASSETTE_DIR: cassetteDir,
+    })
+
+    const fixtures = await fs.readdir(cassetteDir)
+    expect(fixtures).toHaveLength(2)
+    expect(fixtures.every(file => /^[0-9a-f]{16}\.json$/.test(file))).toBe(true)
+
+    // Replay against the OpenAI provider with a fake key: any network call would fail
+    const replayed = await runTurn({
+      LLM_PROVIDER: 'openai',
+      LLM_CASSETTE_MODE: 'replay',
+      LLM_CASSETTE_DIR: cassetteDir,
+    })
+
+    expect(replayed.question.question).toBe(recorded.question.question)
+    expect(replayed.analysis.sophisticationScore).toBe(recorded.analysis.sophisticationScore)
+    expect(replayed.analysis.advancedEscapeSignals).toEqual(recorded.analysis.advancedEscapeSignals)
+  })
+
+  test('fails loudly when a prompt has no recorded cassette', async () => {
+    const engine = loadEngine({
+      LLM_PROVIDER: 'local',
+      LLM_CASSETTE_MODE: 'replay',
+      LLM_CASSETTE_DIR: cassetteDir,
+    })
+
+    await expect(engine.generateNextQuestion(context)).rejects.toThrow(/No cassette recorded/)
+  })
+
+  test('records a stream the consumer stops reading early, with its response format', async () => {
+    const provider = new CassetteProvider(new LocalProvider(), 'record', cassetteDir)
+    const params: ChatCompletionParams = {
+      model: 'local-deterministic',
+      messages: [{ role: 'user', content: userResponse }],
+      maxTokens: 200,
+      temperature: 0,
+      responseFormat: 'json_object',
+    }
+
+    let seen = ''
+    for await (const chunk of provider.streamChatCompletion(params)) {
+      seen += chunk.choices[0]?.delta?.content || ''
+      break
+    }
+
+    const entry = JSON.parse(await fs.readFile(path.join(cassetteDir, `${cassetteKey(params, true)}.json`), 'utf8'))
+    expect(entry.request).toMatchObject({ responseFormat: 'json_object', stream: true })
+    expect(entry.response.choices[0].message.content).toBe(seen)
+
+    // The truncated stream never stands in for a full completion
+    expect(cassetteKey(params, true)).not.toBe(cassetteKey(params))
+    const replay = new CassetteProvider(new LocalProvider(), 'replay', cassetteDir)
+    await expect(replay.createChatCompletion(params)).rejects.toThrow(/No cassette recorded/)
+  })
+})
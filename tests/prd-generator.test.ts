@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { PRDGenerator } from '@/lib/conversation/prd-generator'
+import { openaiService } from '@/lib/openai/client'
+import { ConversationStage, type ConversationContext } from '@/lib/types/conversation'
+
+const context: ConversationContext = {
+  sessionId: 'prd-session',
+  domain: 'saas',
+  stage: ConversationStage.COMPLETED,
+  userProfile: { role: 'founder' } as any,
+  conversationHistory: [{
+    userResponse: 'Freelancers lose *hours* chasing invoices\n# and late fees',
+    analysis: { clarityScore: 1, extractedEntities: [] } as any,
+    timestamp: '2026-10-01T00:00:00.000Z',
+    stage: ConversationStage.IDEA_CLARITY,
+  }],
+  lastUpdated: '2026-10-01T00:00:00.000Z',
+}
+
+const prdOutput = {
+  title: 'Invoice <Chaser>',
+  summary: 'Chases unpaid invoices.\n\n## Injected heading',
+  goals: [{ statement: 'Get paid [faster](http://example.com)', sources: ['E1', 'E9'] }],
+  personas: [{ name: 'Freelancer', description: 'Works alone', needs: ['Fewer_manual_reminders'], sources: ['E1'] }],
+  userStories: [{
+    persona: 'Freelancer',
+    story: 'As a freelancer, I want reminders so that I get paid',
+    acceptanceCriteria: ['Sends a reminder\n- [x] and ticks itself'],
+    sources: ['E1'],
+  }],
+  functionalRequirements: [{ requirement: 'The system must send reminders', priority: 'must', sources: ['A1'] }],
+  nonGoals: [],
+  openQuestions: [],
+}
+
+describe('PRD generator', () => {
+  const generator = new PRDGenerator()
+
+  beforeEach(() => {
+    jest.spyOn(openaiService, 'createStructuredCompletion').mockResolvedValue({
+      data: prdOutput,
+      response: { usage: { total_tokens: 120 } },
+    } as any)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('citations to sources that do not exist are dropped', async () => {
+    const prd = await generator.generatePRD(context)
+
+    expect(prd.goals[0].sources).toEqual(['E1'])
+    expect(prd.functionalRequirements[0].sources).toEqual([])
+    expect(prd.sources).toEqual([expect.objectContaining({ id: 'E1', type: 'exchange' })])
+    expect(prd.metadata).toMatchObject({ tokens: 120, exchangeCount: 1, assumptionCount: 0 })
+  })
+
+  test('Markdown keeps generated and user text literal and on its own line', async () => {
+    const markdown = generator.toMarkdown(await generator.generatePRD(context))
+    const lines = markdown.split('\n')
+
+    expect(lines[0]).toBe('# Invoice \\<Chaser\\>')
+    expect(lines).toContain('Chases unpaid invoices. \\#\\# Injected heading')
+    expect(lines).toContain('- Get paid \\[faster\\](http://example.com) _[E1]_')
+    expect(lines).toContain('- Fewer\\_manual\\_reminders')
+    expect(lines).toContain('   - [ ] Sends a reminder - \\[x\\] and ticks itself')
+    expect(lines).toContain('- **E1** (exchange, idea_clarity): Freelancers lose \\*hours\\* chasing invoices \\# and late fees')
+    expect(lines.filter(line => line.startsWith('## '))).toEqual([
+      '## Summary', '## Goals', '## Personas', '## User Stories', '## Functional Requirements',
+      '## Non-Goals', '## Open Questions', '## Sources',
+    ])
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+import type { UserProfile } from '@/lib/types/agent-types'
+import { ProfileCorrectionManager, CorrectionType } from '@/lib/profile/profile-correction'
+import { Industry } from '@/lib/profile/industry-classifier'
+import { UserRole } from '@/lib/profile/role-detector'
+import { MemoryProfileVersionStore, type ProfileVersion } from '@/lib/stores/profile-version-store'
+
+const loadManager = () => new ProfileCorrectionManager(new MemoryProfileVersionStore())
+
+function profile(id: string): UserProfile {
+  return {
+    id,
+    sessionId: 'session-1',
+    industry: 'saas',
+    industryConfidence: 0.6,
+    role: 'business',
+    roleConfidence: 0.7,
+    sophisticationLevel: 'medium',
+    sophisticationScore: 60,
+    conversationHistory: [],
+    detectedKeywords: [],
+    terminology: [],
+    preferredCommunicationStyle: 'casual',
+    assumptionTolerance: 'medium',
+    created: new Date(),
+    lastUpdated: new Date(),
+    analysisVersion: '1.0',
+  }
+}
+
+describe('profile correction history', () => {
+  test('records who changed what and undoes a single correction', async () => {
+    const manager = loadManager()
+    const first = await manager.applyCorrections(profile('p1'), {
+      sessionId: 'session-1',
+      profileId: 'p1',
+      corrections: { industry: Industry.FINTECH, role: UserRole.HYBRID },
+    }, 'alice')
+    await manager.applyCorrections(first.updatedProfile, {
+      sessionId: 'session-1',
+      profileId: 'p1',
+      corrections: { role: UserRole.TECHNICAL },
+    }, 'bob')
+
+    const role = first.corrections.find(c => c.correctionType === CorrectionType.ROLE)!
+    await expect(manager.undoCorrection('p1', role.id)).rejects.toMatchObject({ statusCode: 409 })
+
+    const industry = first.corrections.find(c => c.correctionType === CorrectionType.INDUSTRY)!
+    const undo = await manager.undoCorrection('p1', industry.id, 'alice')
+    expect(undo.snapshot).toMatchObject({ industry: 'saas', industryConfidence: 0.6, role: 'technical' })
+    expect(undo.changes[0]).toMatchObject({ originalValue: 'fintech', correctedValue: 'saas' })
+
+    const history = await manager.getProfileHistory('p1')
+    expect(history.map((v: ProfileVersion) => [v.version, v.action, v.changedBy])).toEqual([
+      [1, 'detected', 'system'],
+      [2, 'correct', 'alice'],
+      [3, 'correct', 'bob'],
+      [4, 'undo', 'alice'],
+    ])
+  })
+
+  test('rolls back to an earlier version and leaves reverted corrections out of insights', async () => {
+    const manager = loadManager()
+    await manager.recordDetection(profile('p2'))
+    await manager.recordDetection(profile('p3'))
+    const corrected = await manager.applyCorrections(profile('p2'), {
+      sessionId: 'session-1',
+      profileId: 'p2',
+      corrections: { role: UserRole.TECHNICAL },
+    })
+    await manager.applyCorrections(corrected.updatedProfile, {
+      sessionId: 'session-1',
+      profileId: 'p2',
+      corrections: { industry: Industry.HEALTHCARE },
+    })
+
+    const rollback = await manager.rollbackToVersion('p2', 2)
+    expect(rollback).toMatchObject({ version: 4, action: 'rollback', rollbackTo: 2 })
+    expect(rollback.snapshot).toMatchObject({ industry: 'saas', role: 'technical' })
+    expect(rollback.reverts).toHaveLength(1)
+
+    const insights = await manager.getLearningInsights({ windowDays: 1, windows: 2 })
+    expect(insights.totalCorrections).toBe(1)
+    expect(insights.accuracyTrends).toEqual({ industry: 1, role: 0.5, sophistication: 1 })
+    expect(insights.windows.map((w: any) => w.profiles)).toEqual([0, 2])
+  })
+
+  test('corrects the stored profile, not the submitted copy', async () => {
+    const manager = loadManager()
+    await manager.applyCorrections(profile('p4'), {
+      sessionId: 'session-1',
+      profileId: 'p4',
+      corrections: { industry: Industry.FINTECH },
+    })
+
+    // A client still holding the detected profile, with an unrelated edit of its own
+    const stale: UserProfile = { ...profile('p4'), preferredCommunicationStyle: 'formal' }
+    const result = await manager.applyCorrections(stale, {
+      sessionId: 'session-1',
+      profileId: 'p4',
+      corrections: { role: UserRole.TECHNICAL },
+    })
+
+    expect(result.corrections.map((c: any) => [c.correctionType, c.originalValue, c.correctedValue])).toEqual([
+      ['role', 'business', 'technical'],
+    ])
+    const history = await manager.getProfileHistory('p4')
+    expect(history[2].snapshot).toMatchObject({ industry: 'fintech', role: 'technical', preferredCommunicationStyle: 'casual' })
+    expect(result.updatedProfile).toMatchObject({ industry: 'fintech', preferredCommunicationStyle: 'casual' })
+
+    // Correcting to the stored value is no change at all
+    expect((await manager.applyCorrections(stale, {
+      sessionId: 'session-1',
+      profileId: 'p4',
+      corrections: { industry: Industry.FINTECH },
+    })).version).toBeUndefined()
+  })
+})
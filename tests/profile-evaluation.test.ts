@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import path from 'path'
+import { promises as fs } from 'fs'
+import {
+  ProfileEvaluator,
+  compareWithBaseline,
+  computeTaskMetrics,
+  parseGoldDataset,
+  type EvaluationBaseline,
+} from '@/lib/profile/profile-evaluation'
+
+const fixtures = path.join(__dirname, 'fixtures', 'profile-eval')
+
+describe('profile detection evaluation', () => {
+  test('computes per-class metrics, confusion matrix and calibration', () => {
+    const report = computeTaskMetrics('role', [
+      { expected: 'technical', predicted: { label: 'technical', confidence: 0.9 } },
+      { expected: 'technical', predicted: { label: 'business', confidence: 0.7 } },
+      { expected: 'business', predicted: { label: 'business', confidence: 0.7 } },
+      { expected: 'hybrid', predicted: { label: 'technical', confidence: 0.3 } },
+    ])
+
+    expect(report.accuracy).toBe(0.5)
+    expect(report.perClass.technical).toEqual({ precision: 0.5, recall: 0.5, f1: 0.5, support: 2 })
+    expect(report.perClass.business).toEqual({ precision: 0.5, recall: 1, f1: 0.667, support: 1 })
+    expect(report.perClass.hybrid.f1).toBe(0)
+    expect(report.macroF1).toBe(0.389)
+
+    const { labels, matrix } = report.confusionMatrix
+    expect(matrix[labels.indexOf('technical')][labels.indexOf('business')]).toBe(1)
+    expect(matrix[labels.indexOf('hybrid')][labels.indexOf('technical')]).toBe(1)
+
+    const highBin = report.calibration.bins[4]
+    expect(highBin).toEqual({ range: [0.8, 1], count: 1, meanConfidence: 0.9, accuracy: 1 })
+    expect(report.calibration.expectedCalibrationError).toBe(0.2)
+  })
+
+  test('rejects gold examples with unknown labels', () => {
+    const line = JSON.stringify({ input: 'x', groundTruth: { industry: 'fintech', role: 'pilot', sophisticationLevel: 'low' } })
+
+    expect(() => parseGoldDataset(line, 'bad.jsonl')).toThrow('bad.jsonl:1: invalid role label "pilot"')
+  })
+
+  test('heuristic detection does not regress against the stored baseline', async () => {
+    const dataset = parseGoldDataset(await fs.readFile(path.join(fixtures, 'gold-v1.jsonl'), 'utf8'), 'gold-v1.jsonl')
+    const baseline: EvaluationBaseline = JSON.parse(await fs.readFile(path.join(fixtures, 'baseline.json'), 'utf8'))
+
+    const report = await new ProfileEvaluator().evaluate(dataset, 'heuristic')
+
+    expect(report.failures).toEqual([])
+    expect(compareWithBaseline(report, baseline).map(finding => finding.message)).toEqual([])
+  })
+})
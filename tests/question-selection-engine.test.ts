@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ */
+import { QuestionSelectionEngine } from '@/lib/services/question-selection-engine'
+import type { ConversationState, QuestionSet, UserProfile } from '@/lib/types/agent-types'
+
+const questionSets: QuestionSet[] = [
+  {
+    id: 'technical',
+    category: 'technical',
+    priority: 2,
+    prerequisites: ['basics'],
+    questions: [
+      { id: 'stack', text: 'What is your stack?', type: 'text', required: true, minSophistication: 'medium' },
+      { id: 'scale', text: 'How many requests per second?', type: 'scale', required: false, dependsOn: ['stack'] },
+    ],
+  },
+  {
+    id: 'basics',
+    category: 'basics',
+    priority: 1,
+    questions: [
+      { id: 'problem', text: 'What problem do you solve?', type: 'text', required: true, followUpQuestions: ['who'] },
+      { id: 'who', text: 'Who has this problem?', type: 'text', required: true },
+      {
+        id: 'has_revenue',
+        text: 'Do you have paying customers?',
+        type: 'boolean',
+        required: true,
+        dataField: 'revenue.hasCustomers',
+      },
+      {
+        id: 'pricing',
+        text: 'How do you price today?',
+        type: 'text',
+        required: false,
+        skipConditions: [{ field: 'revenue.hasCustomers', operator: 'equals', value: false }],
+      },
+    ],
+  },
+]
+
+function state(completedQuestions: string[] = [], collectedData: Record<string, any> = {}): ConversationState {
+  return { currentStage: 'basics', completedQuestions, collectedData, context: {} } as unknown as ConversationState
+}
+
+const profile = (sophisticationLevel: UserProfile['sophisticationLevel']) => ({ sophisticationLevel }) as UserProfile
+
+describe('question selection engine', () => {
+  const engine = new QuestionSelectionEngine()
+
+  test('asks by set priority, keeps follow-ups with their parent and waits on prerequisites', () => {
+    expect(engine.getEligibleQuestions(questionSets, state()).map(q => q.id)).toEqual(['problem', 'has_revenue', 'pricing'])
+
+    // "who" is a follow-up of "problem", so it jumps ahead of the rest of the set
+    expect(engine.getNextQuestion(questionSets, state(['problem']))?.id).toBe('who')
+
+    // The technical set opens once every required basics question is answered or skipped
+    const basicsDone = state(['problem', 'who', 'has_revenue'])
+    expect(engine.getEligibleQuestions(questionSets, basicsDone).map(q => q.id)).toEqual(['pricing', 'stack'])
+    expect(engine.getEligibleQuestions(questionSets, state(['problem', 'who', 'has_revenue', 'stack'])).map(q => q.id))
+      .toEqual(['pricing', 'scale'])
+  })
+
+  test('skips questions whose conditions match normalized answers', () => {
+    const hasRevenue = questionSets[1].questions[2]
+    const answered = engine.recordAnswer(state(['problem', 'who']), hasRevenue, engine.normalizeAnswer(hasRevenue, 'Nope, not yet'))
+
+    expect(answered.collectedData).toEqual({ 'revenue.hasCustomers': false })
+    expect(engine.getEligibleQuestions(questionSets, answered).map(q => q.id)).toEqual(['stack'])
+
+    // Skip conditions also read dotted paths into nested data
+    const nested = state(['problem', 'who', 'has_revenue'], { revenue: { hasCustomers: false } })
+    expect(engine.getEligibleQuestions(questionSets, nested).map(q => q.id)).toEqual(['stack'])
+
+    expect(engine.normalizeAnswer(questionSets[0].questions[1], 'about 1,200 rps')).toBe(1200)
+    expect(engine.evaluateSkipCondition({ field: 'rps', operator: 'greater_than', value: 1000 }, { rps: 1200 })).toBe(true)
+    expect(engine.evaluateSkipCondition({ field: 'tags', operator: 'contains', value: 'B2B' }, { tags: ['b2b', 'saas'] })).toBe(true)
+    expect(engine.evaluateSkipCondition({ field: 'missing', operator: 'equals', value: 'x' }, {})).toBe(false)
+  })
+
+  test('filters by sophistication and lets out-of-range required questions satisfy prerequisites', () => {
+    const novice = profile('low')
+    expect(engine.filterForProfile(questionSets, novice).map(set => set.id)).toEqual(['basics', 'technical'])
+    expect(engine.filterForProfile(questionSets, novice)[1].questions.map(q => q.id)).toEqual(['scale'])
+
+    const basicsDone = state(['problem', 'who', 'has_revenue'])
+    expect(engine.getSeedQuestions(questionSets, basicsDone, novice)).toEqual(['How do you price today?'])
+    expect(engine.getSeedQuestions(questionSets, basicsDone, profile('high'), 1)).toEqual(['How do you price today?'])
+    expect(engine.getNextQuestion(questionSets, state(['problem', 'who', 'has_revenue', 'pricing']), novice)).toBeNull()
+  })
+})
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { ConversationStage, type ConversationContext } from '@/lib/types/conversation'
+import { EnhancedResponseAnalyzer } from '@/lib/conversation/response-analyzer'
+import { HeuristicResponseAnalyzer } from '@/lib/conversation/heuristic-response-analyzer'
+import { openaiService } from '@/lib/openai/client'
+
+const context: ConversationContext = {
+  sessionId: 'analysis-session',
+  domain: 'saas',
+  stage: ConversationStage.IDEA_CLARITY,
+  userProfile: {} as any,
+  conversationHistory: [],
+  lastUpdated: '2026-10-01T00:00:00.000Z',
+}
+
+const answer = 'We need a SaaS dashboard with a REST API and PostgreSQL so finance teams can track subscription revenue and churn.'
+
+const analyzer = (mode: 'llm' | 'tiered' | 'heuristic', escalationThreshold = 0.6) =>
+  new EnhancedResponseAnalyzer('gpt-4o-mini', 1500, 0.2, mode, escalationThreshold)
+
+function modelReply() {
+  return jest.spyOn(openaiService, 'createStructuredCompletion').mockResolvedValue({
+    data: { sophisticationScore: 0.9, analysisConfidence: { overall: 0.95 } },
+    response: { usage: { total_tokens: 42 } },
+  } as any)
+}
+
+describe('enhanced response analyzer', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('heuristic mode never calls the model', async () => {
+    const spy = modelReply()
+
+    const result = await analyzer('heuristic').analyzeResponse(answer, context)
+
+    expect(spy).not.toHaveBeenCalled()
+    expect(result.metadata).toMatchObject({ analysisSource: 'heuristic', tokens: 0 })
+    expect(result.extractedEntities).toEqual(expect.arrayContaining(['api', 'postgresql', 'revenue']))
+    expect(await analyzer('heuristic').quickSophisticationCheck(answer, 'saas'))
+      .toMatchObject({ keyIndicators: expect.arrayContaining(['API']) })
+  })
+
+  test('tiered mode escalates to the model only when the heuristic analysis is unsure', async () => {
+    const spy = modelReply()
+    const { overall } = new HeuristicResponseAnalyzer().analyze(answer, context).analysisConfidence
+
+    const confident = await analyzer('tiered', overall).analyzeResponse(answer, context)
+    expect(spy).not.toHaveBeenCalled()
+    expect(confident.metadata?.analysisSource).toBe('heuristic')
+
+    const escalated = await analyzer('tiered', overall + 0.01).analyzeResponse(answer, context)
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(escalated).toMatchObject({ sophisticationScore: 0.9, metadata: { analysisSource: 'llm', tokens: 42 } })
+  })
+
+  test('llm mode falls back to the heuristic analysis when the model fails or the budget is spent', async () => {
+    const spy = jest.spyOn(openaiService, 'createStructuredCompletion').mockRejectedValue(new Error('rate limited'))
+
+    const failed = await analyzer('llm').analyzeResponse(answer, context)
+    expect(spy).toHaveBeenCalledTimes(1)
+    expect(failed.metadata?.analysisSource).toBe('heuristic')
+    expect(await analyzer('llm').quickSophisticationCheck(answer, 'saas'))
+      .toMatchObject({ keyIndicators: expect.arrayContaining(['API']) })
+
+    spy.mockClear()
+    jest.spyOn(openaiService, 'isBudgetExhausted').mockReturnValue(true)
+
+    const saved = await analyzer('llm').analyzeResponse(answer, context)
+    expect(spy).not.toHaveBeenCalled()
+    expect(saved.metadata?.analysisSource).toBe('heuristic')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+import { RiskRegisterExporter } from '@/lib/conversation/risk-register'
+import type { Assumption } from '@/lib/conversation/assumption-generator'
+
+function assumption(id: string, impact: Assumption['impact'], confidence: number, overrides: Partial<Assumption> = {}): Assumption {
+  return {
+    id,
+    category: 'business_model',
+    title: `Assumption ${id}`,
+    description: `Description of ${id}`,
+    confidence,
+    reasoning: 'Inferred from the conversation',
+    impact,
+    dependencies: [],
+    validationQuestions: [],
+    ...overrides,
+  }
+}
+
+describe('risk register', () => {
+  const exporter = new RiskRegisterExporter()
+
+  test('risks are ranked by impact x uncertainty, then impact', () => {
+    const register = exporter.build({
+      assumptions: [
+        assumption('g', 'low', 1),
+        assumption('b', 'medium', 0.4),
+        assumption('e', 'medium', 0.95),
+        assumption('a', 'high', 0.3),
+        assumption('f', 'high', 1.4),
+        assumption('d', 'low', 0.1),
+        assumption('c', 'high', 0.6),
+      ],
+    })
+
+    expect(register.entries.map(entry => [entry.id, entry.assumptionId, entry.riskScore, entry.priority])).toEqual([
+      ['R1', 'a', 2.1, 'high'],
+      ['R2', 'c', 1.2, 'high'],
+      ['R3', 'b', 1.2, 'high'],
+      ['R4', 'd', 0.9, 'medium'],
+      ['R5', 'e', 0.1, 'low'],
+      ['R6', 'f', 0, 'low'],
+      ['R7', 'g', 0, 'low'],
+    ])
+    expect(register.entries[5]).toMatchObject({ confidence: 1, uncertainty: 0 })
+    expect(register.summary).toEqual({ total: 7, high: 3, medium: 1, low: 3 })
+  })
+
+  test('only uncertain assumptions with alternatives get a comparison experiment', () => {
+    const alternatives = ['Usage-based pricing']
+    const [uncertain, confident] = exporter.build({
+      assumptions: [
+        assumption('a', 'high', 0.5, { alternatives, validationQuestions: ['Would you pay monthly?'] }),
+        assumption('b', 'high', 0.9, { alternatives }),
+      ],
+    }).entries
+
+    expect(uncertain.experiments.map(experiment => experiment.method)).toEqual(['Pricing test', 'Alternative comparison'])
+    expect(uncertain.experiments[0].description).toMatch(/asking "Would you pay monthly\?"$/)
+    expect(confident.experiments.map(experiment => experiment.method)).toEqual(['Pricing test'])
+  })
+
+  test('CSV and the Markdown table escape their delimiters', () => {
+    const register = exporter.build({
+      assumptions: [assumption('a', 'high', 0.5, {
+        title: 'Teams | agencies pay "per seat", monthly',
+        validationQuestions: ['Who pays?', 'How often?'],
+      })],
+    })
+
+    const rows = exporter.toCSV(register).split('\r\n')
+    expect(rows[1]).toMatch(/^1,R1,"Teams \| agencies pay ""per seat"", monthly",Description of a,business_model,high,0\.50,0\.50,1\.50,high,"Who pays\?\nHow often\?",/)
+
+    const table = exporter.toMarkdown(register).split('\n').filter(line => line.startsWith('| R1 '))
+    expect(table).toEqual(['| R1 | Teams \\| agencies pay "per seat", monthly | high | 50% | 1.50 | high |'])
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import { DynamicConversationEngine } from '@/lib/conversation/dynamic-conversation-engine'
+import { conversationStateManager } from '@/lib/conversation/state-manager'
+import { ConversationStage, type ConversationContext, type ConversationExchange } from '@/lib/types/conversation'
+
+function exchange(userResponse: string, stage = ConversationStage.IDEA_CLARITY): ConversationExchange {
+  return {
+    userResponse,
+    analysis: { clarityScore: 1, extractedEntities: [] } as any,
+    timestamp: '2026-10-01T00:00:00.000Z',
+    stage,
+  }
+}
+
+function context(sessionId: string, ...history: ConversationExchange[]): ConversationContext {
+  return {
+    sessionId,
+    domain: 'saas',
+    stage: history[history.length - 1]?.stage ?? ConversationStage.IDEA_CLARITY,
+    userProfile: {} as any,
+    conversationHistory: history,
+    lastUpdated: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+describe('stage progression', () => {
+  const engine = new DynamicConversationEngine()
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('a stage advances once its topics are covered with enough clarity and exchanges', () => {
+    const covered = context(
+      'criteria-session',
+      exchange('Freelancers struggle with a manual invoicing problem that wastes hours'),
+      exchange('It saves them time, and we charge a monthly subscription')
+    )
+
+    const { context: progressed, transition } = engine.progressStage(covered)
+
+    expect(transition).toMatchObject({
+      from: ConversationStage.IDEA_CLARITY,
+      to: ConversationStage.USER_WORKFLOW,
+      reason: 'criteria_met',
+      coverage: 1,
+    })
+    expect(progressed.stage).toBe(ConversationStage.USER_WORKFLOW)
+
+    const tooShort = context('criteria-session', covered.conversationHistory[0])
+    expect(engine.progressStage(tooShort)).toEqual({ context: tooShort, transition: null })
+  })
+
+  test('a confirmation advances early only once enough of the stage is covered', () => {
+    const partial = (confirmation: string) => context(
+      'confirmation-session',
+      exchange('Freelancers struggle with a manual invoicing problem'),
+      exchange(`It saves them hours. ${confirmation}`)
+    )
+
+    for (const phrase of ["Sounds good, let's move on", 'That\'s everything', 'Ready to continue']) {
+      expect(engine.progressStage(partial(phrase)).transition).toMatchObject({
+        to: ConversationStage.USER_WORKFLOW,
+        reason: 'user_confirmed',
+      })
+    }
+    expect(engine.progressStage(partial('I think that is most of it')).transition).toBeNull()
+
+    const barelyStarted = context('confirmation-session', exchange("Sounds good, let's move on"))
+    expect(engine.progressStage(barelyStarted).transition).toBeNull()
+  })
+
+  test('progressing leaves the state manager alone until the saved turn is synced, once', async () => {
+    const spies = [
+      jest.spyOn(conversationStateManager, 'createConversationState'),
+      jest.spyOn(conversationStateManager, 'updateCurrentStage'),
+      jest.spyOn(conversationStateManager, 'recordQuestionResponse'),
+    ]
+    const saved = engine.progressStage(context(
+      'sync-session',
+      exchange('The dashboard page shows a summary chart', ConversationStage.WIREFRAMES)
+    )).context
+
+    expect(saved.stage).toBe(ConversationStage.COMPLETED)
+    spies.forEach(spy => expect(spy).not.toHaveBeenCalled())
+    expect(await conversationStateManager.getCurrentState('sync-session')).toBeNull()
+
+    await engine.syncConversationState(saved)
+    await engine.syncConversationState(saved)
+
+    const state = (await conversationStateManager.getCurrentState('sync-session'))!
+    expect(state.currentStage).toBe(ConversationStage.COMPLETED)
+    expect(state.stageProgresses.get(ConversationStage.WIREFRAMES)?.responses).toEqual([
+      expect.objectContaining({ questionId: 'sync-session-1', answer: saved.conversationHistory[0].userResponse }),
+    ])
+    expect(spies[2]).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod'
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionParams, LLMProvider } from '@/lib/llm/provider'
+import { OpenAIService } from '@/lib/openai/client'
+
+const schema = z.object({
+  question: z.string(),
+  confidence: z.number().min(0).max(1),
+})
+
+const usage = { prompt_tokens: 40, completion_tokens: 10, total_tokens: 50 }
+
+/**
+ * Answers each call with the next scripted reply and keeps the messages it
+ * was sent
+ */
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'local' as const
+  readonly models = { primary: 'scripted', fallback: 'scripted' }
+  calls: ChatCompletionParams[] = []
+
+  constructor(private replies: string[]) {}
+
+  async createChatCompletion(params: ChatCompletionParams): Promise<ChatCompletion> {
+    this.calls.push({ ...params, messages: [...params.messages] })
+    return {
+      id: `scripted-${this.calls.length}`,
+      object: 'chat.completion',
+      created: 0,
+      model: params.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: this.replies.shift() || '', refusal: null },
+        finish_reason: 'stop',
+        logprobs: null,
+      }],
+      usage,
+    }
+  }
+
+  async *streamChatCompletion(params: ChatCompletionParams): AsyncIterable<ChatCompletionChunk> {
+    const completion = await this.createChatCompletion(params)
+    const chunk = (delta: { content?: string }): ChatCompletionChunk => ({
+      id: completion.id,
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: params.model,
+      choices: [{ index: 0, delta, finish_reason: null, logprobs: null }],
+    })
+
+    yield chunk({ content: completion.choices[0].message.content || '' })
+    yield { ...chunk({}), choices: [], usage }
+  }
+}
+
+const loadService = (provider: LLMProvider) => new OpenAIService(provider)
+
+const messages = [{ role: 'system' as const, content: 'Ask the next question as JSON.' }]
+
+describe('structured completions', () => {
+  test('repairs invalid JSON, then a schema violation, then returns the valid answer', async () => {
+    const provider = new ScriptedProvider([
+      'Sure! Here is the question: what problem do you solve?',
+      JSON.stringify({ question: 'What problem do you solve?', confidence: 'high' }),
+      JSON.stringify({ question: 'What problem do you solve?', confidence: 0.8 }),
+    ])
+
+    const result = await loadService(provider).createStructuredCompletion({
+      messages,
+      schema,
+      schemaName: 'Question',
+    })
+
+    expect(result.data).toEqual({ question: 'What problem do you solve?', confidence: 0.8 })
+    expect(result.attempts).toBe(3)
+    expect(provider.calls.every(call => call.responseFormat === 'json_object')).toBe(true)
+
+    // Each repair echoes the invalid answer and names the failing fields
+    const repairs = provider.calls.slice(1).map(call => call.messages[call.messages.length - 1].content)
+    expect(repairs[0]).toContain('- (root): Response is not valid JSON')
+    expect(repairs[1]).toContain('- confidence:')
+  })
+
+  test('gives up after maxRepairAttempts with the failing field paths', async () => {
+    const provider = new ScriptedProvider([
+      JSON.stringify({ question: 42 }),
+      JSON.stringify({ question: 42 }),
+      JSON.stringify({ question: 'never requested', confidence: 0.5 }),
+    ])
+
+    const error = await loadService(provider).createStructuredCompletion({
+      messages,
+      schema,
+      schemaName: 'Question',
+      maxRepairAttempts: 1,
+    }).catch((caught: any) => caught)
+
+    expect(error.name).toBe('OpenAIValidationError')
+    expect(error.attempts).toBe(2)
+    expect(error.fields).toEqual(['question', 'confidence'])
+    expect(provider.calls).toHaveLength(2)
+  })
+
+  test('streamed completions report the provider usage, including repairs', async () => {
+    const events: any[] = []
+    const valid = new ScriptedProvider([JSON.stringify({ question: 'Who pays?', confidence: 0.7 })])
+    for await (const event of loadService(valid).streamStructuredCompletion({ messages, schema, schemaName: 'Question' })) {
+      events.push(event)
+    }
+    expect(events[events.length - 1]).toMatchObject({ type: 'complete', attempts: 1, tokens: 50 })
+
+    const repaired: any[] = []
+    const invalidFirst = new ScriptedProvider(['not json', JSON.stringify({ question: 'Who pays?', confidence: 0.7 })])
+    for await (const event of loadService(invalidFirst).streamStructuredCompletion({ messages, schema, schemaName: 'Question' })) {
+      repaired.push(event)
+    }
+    expect(repaired[repaired.length - 1]).toMatchObject({ type: 'complete', attempts: 2, tokens: 100 })
+  })
+})
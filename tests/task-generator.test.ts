@@ -0,0 +1,76 @@
+/**
+ * @jest-environment node
+ */
+import { TaskListGenerator, type TaskList } from '@/lib/conversation/task-generator'
+import type { PRDDocument } from '@/lib/conversation/prd-generator'
+import { openaiService } from '@/lib/openai/client'
+
+const prd = {
+  title: 'Invoice Chaser',
+  summary: 'Chases unpaid invoices.',
+  goals: [],
+  personas: [],
+  userStories: [],
+  functionalRequirements: [{ requirement: 'The system must send reminders', priority: 'must', sources: ['E1'] }],
+  nonGoals: [],
+  openQuestions: [],
+} as unknown as PRDDocument
+
+const taskListOutput = {
+  title: 'Tasks for *Invoice Chaser*',
+  relevantFiles: [{ path: 'lib/reminders.ts', description: 'Schedules <reminders>' }],
+  tasks: [{
+    title: 'Send reminders, "politely"',
+    description: 'Email clients\nwhen an invoice is overdue',
+    acceptanceCriteria: ['Reminder sent', 'Logged, with "status"'],
+    sources: ['FR1'],
+    subTasks: [{
+      title: 'Write the # template',
+      description: 'Plain text',
+      acceptanceCriteria: ['Renders\n- [x] itself'],
+      relevantFiles: ['lib/reminders.ts', 'lib/email.ts'],
+    }],
+  }],
+}
+
+describe('task list generator', () => {
+  const generator = new TaskListGenerator()
+  let taskList: TaskList
+
+  beforeEach(async () => {
+    jest.spyOn(openaiService, 'createStructuredCompletion').mockResolvedValue({
+      data: taskListOutput,
+      response: { usage: { total_tokens: 80 } },
+    } as any)
+    taskList = await generator.generateTaskList({ type: 'prd', prd })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('tasks and sub-tasks are numbered in order', () => {
+    expect(taskList.tasks.map(task => [task.id, task.subTasks.map(subTask => subTask.id)])).toEqual([['1.0', ['1.1']]])
+    expect(taskList.metadata).toMatchObject({ generatedFrom: 'prd', tokens: 80, taskCount: 1, subTaskCount: 1 })
+  })
+
+  test('CSV quotes cells with commas, quotes and line breaks and links sub-tasks to their parent', () => {
+    const rows = generator.toCSV(taskList).split('\r\n')
+
+    expect(rows[0]).toBe('Issue ID,Parent ID,Issue Type,Summary,Description,Acceptance Criteria,Relevant Files,Labels')
+    expect(rows[1]).toBe('1.0,,Task,"Send reminders, ""politely""","Email clients\nwhen an invoice is overdue","Reminder sent\nLogged, with ""status""",,FR1')
+    expect(rows[2]).toBe('1.1,1.0,Sub-task,Write the # template,Plain text,"Renders\n- [x] itself",lib/reminders.ts lib/email.ts,')
+    expect(rows[3]).toBe('')
+  })
+
+  test('Markdown keeps generated text literal and inside its checklist item', () => {
+    const lines = generator.toMarkdown(taskList).split('\n')
+
+    expect(lines[0]).toBe('# Tasks for \\*Invoice Chaser\\*')
+    expect(lines).toContain('- `lib/reminders.ts` - Schedules \\<reminders\\>')
+    expect(lines).toContain('- [ ] 1.0 Send reminders, "politely" _[FR1]_')
+    expect(lines).toContain('  - [ ] 1.1 Write the \\# template')
+    expect(lines).toContain('    - _Done when:_ Renders - \\[x\\] itself')
+    expect(lines.filter(line => /^\s*- \[[ x]\]/.test(line))).toHaveLength(2)
+  })
+})
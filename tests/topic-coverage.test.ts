@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { TopicCoverageTracker } from '@/lib/conversation/topic-coverage'
+import { ConversationStage, type ConversationContext, type ConversationExchange } from '@/lib/types/conversation'
+
+function exchange(userResponse: string): ConversationExchange {
+  return {
+    userResponse,
+    analysis: { clarityScore: 1, extractedEntities: [] } as any,
+    timestamp: '2026-10-01T00:00:00.000Z',
+    stage: ConversationStage.TECHNICAL_SPECS,
+  }
+}
+
+function context(...answers: string[]): ConversationContext {
+  return {
+    sessionId: 'coverage-session',
+    domain: 'healthcare',
+    stage: ConversationStage.TECHNICAL_SPECS,
+    userProfile: {} as any,
+    conversationHistory: answers.map(exchange),
+    lastUpdated: '2026-10-01T00:00:00.000Z',
+  }
+}
+
+describe('topic coverage tracker', () => {
+  const tracker = new TopicCoverageTracker({
+    [ConversationStage.TECHNICAL_SPECS]: [
+      { id: 'phi_handling', label: 'PHI handling', keywords: ['phi', 'hipaa'] },
+      { id: 'clinical_integrations', label: 'clinical integrations', keywords: ['lab', 'ehr'] },
+    ],
+  })
+
+  const topic = (ctx: ConversationContext, id: string) =>
+    tracker.assessStage(ctx, ConversationStage.TECHNICAL_SPECS).topics.find(item => item.id === id)!
+
+  test('keywords inside other words are not evidence', () => {
+    const ctx = context(
+      'A sophisticated tool that is always available, funded with venture capital, and first checks authentication'
+    )
+
+    expect(topic(ctx, 'phi_handling')).toMatchObject({ status: 'missing', sources: [] })
+    expect(topic(ctx, 'clinical_integrations')).toMatchObject({ status: 'missing', sources: [] })
+    expect(topic(ctx, 'integrations').status).toBe('missing')
+  })
+
+  test('whole words, plurals and stems count', () => {
+    const ctx = context(
+      'We store PHI under HIPAA and pull results from partner labs',
+      'It integrates with our EHR through their public APIs'
+    )
+
+    expect(topic(ctx, 'phi_handling')).toMatchObject({ status: 'covered', score: 1, sources: ['E1'] })
+    expect(topic(ctx, 'clinical_integrations')).toMatchObject({ status: 'covered', sources: ['E1', 'E2'] })
+    expect(topic(ctx, 'integrations')).toMatchObject({ status: 'covered', sources: ['E2'] })
+  })
+})
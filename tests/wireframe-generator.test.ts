@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import { WireframeGenerator, type WireframeScreenGraph } from '@/lib/conversation/wireframe-generator'
+import { WireframeRenderer } from '@/lib/conversation/wireframe-renderer'
+import { openaiService } from '@/lib/openai/client'
+import { ConversationStage, type ConversationContext } from '@/lib/types/conversation'
+
+const context: ConversationContext = {
+  sessionId: 'wireframe-session',
+  domain: 'saas',
+  stage: ConversationStage.WIREFRAMES,
+  userProfile: { role: 'founder' } as any,
+  conversationHistory: [ConversationStage.IDEA_CLARITY, ConversationStage.USER_WORKFLOW].map(stage => ({
+    userResponse: `Answer during ${stage}`,
+    analysis: { clarityScore: 1, extractedEntities: [] } as any,
+    timestamp: '2026-10-01T00:00:00.000Z',
+    stage,
+  })),
+  lastUpdated: '2026-10-01T00:00:00.000Z',
+}
+
+const graph: WireframeScreenGraph = {
+  title: 'Invoices & <Payments>',
+  entryScreen: 'missing-screen',
+  screens: [
+    {
+      id: 'inbox',
+      name: 'Inbox <script>alert(1)</script>',
+      purpose: 'See "overdue" invoices & chase them',
+      layout: 'list',
+      components: [
+        { type: 'header', label: 'Invoices & <b>more</b>', description: '' },
+        { type: 'button', label: 'Send "reminder"', description: '' },
+      ],
+      sources: ['E1', 'E2'],
+    },
+    {
+      id: 'invoice',
+      name: 'Invoice',
+      purpose: '',
+      layout: 'detail',
+      components: [{ type: 'text', label: 'Amount due', description: '' }],
+      sources: ['E2'],
+    },
+  ],
+  navigation: [
+    { from: 'inbox', to: 'invoice', trigger: 'Open <invoice> & pay', sources: ['E2'] },
+    { from: 'inbox', to: 'settings', trigger: 'Settings', sources: ['E2'] },
+  ],
+}
+
+describe('wireframes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('the generated graph drops edges and citations that point nowhere and falls back to the first screen', async () => {
+    jest.spyOn(openaiService, 'createStructuredCompletion').mockResolvedValue({
+      data: graph,
+      response: { usage: { total_tokens: 200 } },
+    } as any)
+
+    const { screenGraph, sources, metadata } = await new WireframeGenerator().generateWireframes(context)
+
+    expect(sources.map(source => source.id)).toEqual(['E2'])
+    expect(screenGraph.entryScreen).toBe('inbox')
+    expect(screenGraph.screens[0].sources).toEqual(['E2'])
+    expect(screenGraph.navigation.map(edge => edge.to)).toEqual(['invoice'])
+    expect(metadata).toMatchObject({ screenCount: 2, tokens: 200 })
+  })
+
+  test('SVG and HTML escape every generated label', () => {
+    const renderer = new WireframeRenderer()
+    const normalized = { ...graph, entryScreen: 'inbox', navigation: graph.navigation.slice(0, 1) }
+    const html = renderer.renderHTML(normalized)
+    const svg = renderer.renderScreenSVG(normalized.screens[0])
+
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('<b>')
+    expect(html).not.toContain('<invoice>')
+    expect(html).toContain('<title>Invoices &amp; &lt;Payments&gt;</title>')
+    expect(html).toContain('<p>See &quot;overdue&quot; invoices &amp; chase them</p>')
+    expect(html).toContain('<li>Open &lt;invoice&gt; &amp; pay &rarr; <a href="#screen-invoice">Invoice</a></li>')
+    expect(svg).toContain('>Inbox &lt;script&gt;alert(1)&lt;/script&gt;</text>')
+    expect(svg).toContain('>Invoices &amp; &lt;b&gt;more&lt;/b&gt;</text>')
+    expect(svg).toContain('>Send &quot;reminder&quot;</text>')
+    expect(svg.match(/<text\b/g)).toHaveLength(svg.match(/<\/text>/g)!.length)
+  })
+})